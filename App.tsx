@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Navigation } from './components/Navigation';
 import { Dashboard } from './components/Dashboard';
 import { AssetsList } from './components/AssetsList';
@@ -12,22 +12,26 @@ import { DataIngest } from './components/DataIngest';
 import { PrivacyPolicy } from './components/PrivacyPolicy';
 import { TermsOfService } from './components/TermsOfService';
 import { GuidedTour } from './components/GuidedTour';
-import { ViewState, Asset, Investment, Trade, Subscription, BankAccount, SheetConfig, NetWorthEntry, PortfolioLogEntry, DebtEntry, IncomeEntry, ExpenseEntry, IncomeAndExpenses, ExchangeRates, LedgerData, UserProfile, TourStep, TaxRecord, ArchiveMeta, TimeFocus, NormalizedTransaction } from './types';
+import { ViewState, Asset, Investment, Trade, LotMethod, InsightLink, Subscription, BankAccount, SheetConfig, NetWorthEntry, PortfolioLogEntry, DebtEntry, Liability, IncomeEntry, ExpenseEntry, IncomeAndExpenses, ExchangeRates, LedgerData, LedgerTransaction, CategorizationRule, BudgetBook, BudgetTarget, IngestionReport, MappableTab, ColumnMapping, UserProfile, TourStep, TaxRecord, ArchiveMeta, TimeFocus, NormalizedTransaction } from './types';
 import { fetchSheetData, fetchTabNames, detectActiveYearFromSheet } from './services/sheetService';
-import { parseRawData } from './services/geminiService';
+import { parseRawData, createIngestionReport } from './services/geminiService';
 import { fetchLiveRates } from './services/currencyService';
 import { reconcileInvestments } from './services/portfolioService';
 import { buildUnifiedTimeline } from './services/temporalService';
 import { useIndexedDB } from './hooks/useIndexedDB';
 import { initGoogleAuth, signIn, restoreSession, signOut } from './services/authService';
 import { getArchiveManagementList } from './services/backupService';
+import { buildLedgerCellUpdates } from './services/ledger/statementImportService';
+import { deriveLedgerFromTransactions, getGridCorrections } from './services/ledger/transactionLedgerService';
+import { getBudgetTargets, carryBudgetsForward } from './services/ledger/budgetService';
 import { Lock, History, AlertCircle, RefreshCw, Loader2, Eye, EyeOff } from 'lucide-react';
 import { 
   addTradeToSheet, deleteRowFromSheet, updateTradeInSheet, 
   addAssetToSheet, updateAssetInSheet,
   addSubscriptionToSheet, updateSubscriptionInSheet,
   addAccountToSheet, updateAccountInSheet,
-  updateLedgerValue
+  addTaxRecordToSheet, addTaxRecordsToSheet, updateTaxRecordInSheet,
+  updateLedgerValue, writeDebtSchedule
 } from './services/sheetWriteService';
 
 const OAUTH_CLIENT_ID = '953749430238-3d0q078koppal8i2qs92ctfe5dbon994.apps.googleusercontent.com';
@@ -45,7 +49,8 @@ const DEFAULT_CONFIG: SheetConfig = {
     portfolioLog: 'portfoliolog',
     debt: 'debt',
     income: 'Income',
-    expenses: 'expense'
+    expenses: 'expense',
+    taxRecords: 'Tax Records'
   }
 };
 
@@ -62,6 +67,7 @@ const TOUR_STEPS: TourStep[] = [
 
 function App() {
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.DASHBOARD);
+  const [viewIntent, setViewIntent] = useState<InsightLink | null>(null);
   
   const [activeYear, setActiveYear] = useIndexedDB<number>('fintrack_active_year', new Date().getFullYear());
   const [selectedYear, setSelectedYear] = useState<number>(activeYear);
@@ -87,9 +93,18 @@ function App() {
   const [subscriptions, setSubscriptions] = useIndexedDB<Subscription[]>('fintrack_subscriptions', []);
   const [accounts, setAccounts] = useIndexedDB<BankAccount[]>('fintrack_accounts', []);
   const [debtEntries, setDebtEntries] = useIndexedDB<DebtEntry[]>('fintrack_debt', []);
+  const [liabilities, setLiabilities] = useIndexedDB<Liability[]>('fintrack_liabilities', []);
   const [taxRecords, setTaxRecords] = useIndexedDB<TaxRecord[]>('fintrack_tax_records', []);
+  // Read by syncData, whose callback would otherwise see the records from when it was created.
+  const taxRecordsRef = useRef(taxRecords);
+  taxRecordsRef.current = taxRecords;
+  const uploadingTaxRecordIds = useRef(new Set<string>());
   const [netWorthHistory, setNetWorthHistory] = useIndexedDB<NetWorthEntry[]>('fintrack_history', []);
   const [portfolioHistory, setPortfolioHistory] = useIndexedDB<PortfolioLogEntry[]>('fintrack_portfolio_history', []);
+  const [ledgerTransactions, setLedgerTransactions] = useIndexedDB<LedgerTransaction[]>('fintrack_ledger_transactions', []);
+  const [categorizationRules, setCategorizationRules] = useIndexedDB<CategorizationRule[]>('fintrack_categorization_rules', []);
+  const [budgetBook, setBudgetBook] = useIndexedDB<BudgetBook>('fintrack_budgets', {});
+  const [lotMethod, setLotMethod] = useIndexedDB<LotMethod>('fintrack_lot_method', 'FIFO');
   
   // Temporal Cache
   const [unifiedTimeline, setUnifiedTimeline] = useState<NormalizedTransaction[]>([]);
@@ -106,6 +121,7 @@ function App() {
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncingTabs, setSyncingTabs] = useState<Set<string>>(new Set());
   const [syncStatus, setSyncStatus] = useState<{type: 'success' | 'error' | 'warning', msg: string} | null>(null);
+  const [ingestionReports, setIngestionReports] = useState<Record<string, IngestionReport>>({});
   const [exchangeRates, setExchangeRates] = useState<ExchangeRates | undefined>(undefined);
   const [isTourActive, setIsTourActive] = useState(false);
   
@@ -147,8 +163,12 @@ function App() {
 
   // Recalculate Timeline when local data changes
   useEffect(() => {
-      buildUnifiedTimeline().then(setUnifiedTimeline);
-  }, [incomeData, expenseData, detailedExpenses, detailedIncome, isSyncing]);
+      buildUnifiedTimeline(sheetConfig.locale).then(setUnifiedTimeline);
+  }, [incomeData, expenseData, detailedExpenses, detailedIncome, ledgerTransactions, isSyncing, sheetConfig.locale]);
+
+  // Monthly grids as seen by the UI: itemized transactions plus whatever the synced grid holds beyond them.
+  const ledgerExpenses = useMemo(() => deriveLedgerFromTransactions(detailedExpenses, ledgerTransactions, 'EXPENSE', selectedYear, sheetConfig.locale), [detailedExpenses, ledgerTransactions, selectedYear, sheetConfig.locale]);
+  const ledgerIncome = useMemo(() => deriveLedgerFromTransactions(detailedIncome, ledgerTransactions, 'INCOME', selectedYear, sheetConfig.locale), [detailedIncome, ledgerTransactions, selectedYear, sheetConfig.locale]);
 
   useEffect(() => {
     const initData = async () => {
@@ -161,6 +181,18 @@ function App() {
     initData();
   }, [isSyncing, activeYear, sheetConfig.sheetId, authSession, scanForRemoteArchives]);
 
+  // Configs saved before a tab was added lack its name; fill gaps from the defaults.
+  useEffect(() => {
+    if (configLoaded && Object.keys(DEFAULT_CONFIG.tabNames).some(k => !(k in sheetConfig.tabNames))) {
+        setSheetConfig(prev => ({ ...prev, tabNames: { ...DEFAULT_CONFIG.tabNames, ...prev.tabNames } }));
+    }
+  }, [configLoaded, sheetConfig.tabNames, setSheetConfig]);
+
+  // Transactions stored before the ledger tracked income carry no type; all of them were imported expenses.
+  useEffect(() => {
+    if (ledgerTransactions.some(tx => !tx.type)) setLedgerTransactions(prev => prev.map(tx => tx.type ? tx : { ...tx, type: 'EXPENSE' }));
+  }, [ledgerTransactions, setLedgerTransactions]);
+
   useEffect(() => {
     if (!configLoaded || !sessionLoaded) return;
     if (authSession) restoreSession(authSession.token, authSession.expires);
@@ -209,7 +241,10 @@ function App() {
     
     const fetchSafe = async <T,>(tabName: string, type: any): Promise<T> => {
         const rawData = await fetchSheetData(sheetConfig.sheetId, tabName); 
-        return await parseRawData<T>(rawData, type); 
+        const report = createIngestionReport(type, tabName);
+        const parsed = await parseRawData<T>(rawData, type, report, sheetConfig.columnMappings?.[type as MappableTab], sheetConfig.locale); 
+        setIngestionReports(prev => ({ ...prev, [type]: report }));
+        return parsed;
     };
 
     try {
@@ -226,6 +261,21 @@ function App() {
                     case 'logData': setNetWorthHistory(await fetchSafe(actualTabName, 'logData')); break;
                     case 'portfolioLog': setPortfolioHistory(await fetchSafe(actualTabName, 'portfolioLog')); break;
                     case 'debt': setDebtEntries(await fetchSafe(actualTabName, 'debt')); break;
+                    case 'taxRecords':
+                        let sheetRecords = await fetchSafe<TaxRecord[]>(actualTabName, 'taxRecords');
+                        // Records kept only in this browser (no rowIndex) are written to the tab once, then read back with their rows.
+                        const localOnly = taxRecordsRef.current.filter(r => r.rowIndex === undefined && !uploadingTaxRecordIds.current.has(r.id));
+                        const uploaded = new Set(localOnly.map(r => r.id));
+                        if (localOnly.length > 0) {
+                            uploaded.forEach(id => uploadingTaxRecordIds.current.add(id));
+                            try {
+                                await addTaxRecordsToSheet(sheetConfig.sheetId, actualTabName, localOnly, sheetConfig.columnMappings?.taxRecords);
+                                setTaxRecords(prev => prev.filter(r => !uploaded.has(r.id)));
+                                sheetRecords = await fetchSafe<TaxRecord[]>(actualTabName, 'taxRecords');
+                            } finally { uploaded.forEach(id => uploadingTaxRecordIds.current.delete(id)); }
+                        }
+                        setTaxRecords(prev => [...sheetRecords, ...prev.filter(r => r.rowIndex === undefined && !uploaded.has(r.id))]);
+                        break;
                     case 'income': 
                         const finData = await fetchSafe<IncomeAndExpenses>(actualTabName, 'income'); 
                         setIncomeData(finData.income); 
@@ -254,7 +304,7 @@ function App() {
         if (!specificTabs) scanForRemoteArchives();
     } catch (e: any) { setSyncStatus({ type: 'error', msg: e.message || "Sync failed." }); }
     finally { setIsSyncing(false); }
-  }, [sheetConfig, selectedYear, activeYear, setAssets, setInvestments, setTrades, setSubscriptions, setAccounts, setNetWorthHistory, setPortfolioHistory, setDebtEntries, setIncomeData, setExpenseData, setDetailedExpenses, setDetailedIncome, setLastUpdatedStr, setAuthSession, scanForRemoteArchives, setActiveYear]);
+  }, [sheetConfig, selectedYear, activeYear, setAssets, setInvestments, setTrades, setSubscriptions, setAccounts, setNetWorthHistory, setPortfolioHistory, setDebtEntries, setTaxRecords, setIncomeData, setExpenseData, setDetailedExpenses, setDetailedIncome, setLastUpdatedStr, setAuthSession, scanForRemoteArchives, setActiveYear]);
 
   useEffect(() => {
     if (sheetConfig.sheetId && incomeData.length === 0 && !isSyncing && !discoveryAttempted[selectedYear]) {
@@ -268,15 +318,90 @@ function App() {
     setter(prev => prev.filter(i => i.id !== item.id).map(i => i.rowIndex !== undefined && i.rowIndex > item.rowIndex ? { ...i, rowIndex: i.rowIndex - 1 } : i));
   }, [sheetConfig, selectedYear, activeYear]);
 
-  const handleEditGeneric = useCallback(async (item: any, tabName: string, updateFn: any, setter: (val: any | ((prev: any[]) => any[])) => void) => {
+  const handleEditGeneric = useCallback(async (item: any, tabName: string, updateFn: any, setter: (val: any | ((prev: any[]) => any[])) => void, mapping?: ColumnMapping) => {
     if (selectedYear !== activeYear) return;
-    await updateFn(sheetConfig.sheetId, tabName, item.rowIndex, item);
+    await updateFn(sheetConfig.sheetId, tabName, item.rowIndex, item, mapping);
     setter(prev => prev.map(i => i.id === item.id ? item : i));
   }, [sheetConfig, selectedYear, activeYear]);
 
-  const handleAddTaxRecord = useCallback(async (record: TaxRecord) => { setTaxRecords(prev => [...prev, record]); refreshArchiveMeta(); }, [setTaxRecords]);
-  const handleEditTaxRecord = useCallback(async (record: TaxRecord) => { setTaxRecords(prev => prev.map(r => r.id === record.id ? record : r)); }, [setTaxRecords]);
-  const handleDeleteTaxRecord = useCallback(async (record: TaxRecord) => { setTaxRecords(prev => prev.filter(r => r.id !== record.id)); refreshArchiveMeta(); }, [setTaxRecords]);
+  const handleImportTrades = useCallback(async (imported: Trade[]) => {
+    // Sequential appends keep the sheet in statement order.
+    for (const trade of imported) await addTradeToSheet(sheetConfig.sheetId, sheetConfig.tabNames.trades, trade, sheetConfig.columnMappings?.trades);
+    syncData(['trades']);
+  }, [sheetConfig, syncData]);
+
+  const handleImportStatement = useCallback(async (imported: LedgerTransaction[]) => {
+    // The loaded ledger belongs to the selected year, but writes go to the active year's tab.
+    if (selectedYear !== activeYear) throw new Error(`Switch to ${activeYear} to import statements; ${selectedYear} is archived.`);
+    const updates = buildLedgerCellUpdates(detailedExpenses, imported, sheetConfig.locale);
+    for (const cell of updates) await updateLedgerValue(sheetConfig.sheetId, sheetConfig.tabNames.expenses, cell.category, cell.subCategory, cell.monthIndex, cell.value);
+    setLedgerTransactions(prev => [...prev, ...imported]);
+    syncData(['expenses']);
+  }, [sheetConfig, detailedExpenses, selectedYear, activeYear, syncData, setLedgerTransactions]);
+
+  // Imported transactions were written into the sheet, so editing or deleting one rewrites its cells too.
+  const syncImportedCells = useCallback(async (before: LedgerTransaction | null, after: LedgerTransaction | null) => {
+    if (!sheetConfig.sheetId || selectedYear !== activeYear) return;
+    const grids = [
+      { type: 'EXPENSE' as const, grid: detailedExpenses, tab: 'expenses' as const },
+      { type: 'INCOME' as const, grid: detailedIncome, tab: 'income' as const }
+    ];
+    for (const { type, grid, tab } of grids) {
+      const cells = getGridCorrections(grid, before, after, type, sheetConfig.locale);
+      for (const cell of cells) await updateLedgerValue(sheetConfig.sheetId, sheetConfig.tabNames[tab], cell.category, cell.subCategory, cell.monthIndex, cell.value);
+      if (cells.length > 0) syncData([tab]);
+    }
+  }, [sheetConfig, selectedYear, activeYear, detailedExpenses, detailedIncome, syncData]);
+
+  const handleSaveLedgerTransaction = useCallback(async (transaction: LedgerTransaction) => {
+    await syncImportedCells(ledgerTransactions.find(t => t.id === transaction.id) || null, transaction);
+    setLedgerTransactions(prev => prev.some(t => t.id === transaction.id) ? prev.map(t => t.id === transaction.id ? transaction : t) : [...prev, transaction]);
+  }, [ledgerTransactions, syncImportedCells, setLedgerTransactions]);
+  const handleDeleteLedgerTransaction = useCallback(async (transaction: LedgerTransaction) => {
+    await syncImportedCells(transaction, null);
+    setLedgerTransactions(prev => prev.filter(t => t.id !== transaction.id));
+  }, [syncImportedCells, setLedgerTransactions]);
+
+  const handleSaveCategorizationRules = useCallback(async (rules: CategorizationRule[]) => { setCategorizationRules(rules); }, [setCategorizationRules]);
+  const budgetTargets = useMemo(() => getBudgetTargets(budgetBook, selectedYear), [budgetBook, selectedYear]);
+  const handleSaveBudgets = useCallback(async (targets: BudgetTarget[]) => { setBudgetBook(prev => ({ ...prev, [selectedYear]: targets })); }, [setBudgetBook, selectedYear]);
+
+  const handleSaveLiability = useCallback(async (liability: Liability) => {
+    setLiabilities(prev => prev.some(l => l.id === liability.id) ? prev.map(l => l.id === liability.id ? liability : l) : [...prev, liability]);
+  }, [setLiabilities]);
+  const handleDeleteLiability = useCallback(async (liability: Liability) => { setLiabilities(prev => prev.filter(l => l.id !== liability.id)); }, [setLiabilities]);
+
+  // Without a connected sheet, tax records stay local as before.
+  const handleAddTaxRecord = useCallback(async (record: TaxRecord) => {
+    if (!sheetConfig.sheetId) { setTaxRecords(prev => [...prev, record]); refreshArchiveMeta(); return; }
+    await addTaxRecordToSheet(sheetConfig.sheetId, sheetConfig.tabNames.taxRecords, record, sheetConfig.columnMappings?.taxRecords);
+    syncData(['taxRecords']);
+    refreshArchiveMeta();
+  }, [sheetConfig, syncData, setTaxRecords]);
+  const handleEditTaxRecord = useCallback(async (record: TaxRecord) => {
+    if (!sheetConfig.sheetId) { setTaxRecords(prev => prev.map(r => r.id === record.id ? record : r)); return; }
+    if (record.rowIndex === undefined) {
+        // A local-only record moves to the sheet on its first edit.
+        await addTaxRecordToSheet(sheetConfig.sheetId, sheetConfig.tabNames.taxRecords, record, sheetConfig.columnMappings?.taxRecords);
+        setTaxRecords(prev => prev.filter(r => r.id !== record.id));
+        syncData(['taxRecords']);
+        return;
+    }
+    await updateTaxRecordInSheet(sheetConfig.sheetId, sheetConfig.tabNames.taxRecords, record.rowIndex, record, sheetConfig.columnMappings?.taxRecords);
+    setTaxRecords(prev => prev.map(r => r.id === record.id ? record : r));
+  }, [sheetConfig, syncData, setTaxRecords]);
+  const handleDeleteTaxRecord = useCallback(async (record: TaxRecord) => {
+    if (sheetConfig.sheetId && record.rowIndex !== undefined) {
+        await deleteRowFromSheet(sheetConfig.sheetId, sheetConfig.tabNames.taxRecords, record.rowIndex);
+        setTaxRecords(prev => prev.filter(r => r.id !== record.id).map(r => r.rowIndex !== undefined && r.rowIndex > record.rowIndex! ? { ...r, rowIndex: r.rowIndex - 1 } : r));
+    } else {
+        setTaxRecords(prev => prev.filter(r => r.id !== record.id));
+    }
+    refreshArchiveMeta();
+  }, [sheetConfig, setTaxRecords]);
+  const handleOpenInsight = useCallback((link: InsightLink) => { setViewIntent(link); setCurrentView(link.view); }, []);
+  // An intent only applies to the view it opened; navigating elsewhere clears it.
+  useEffect(() => { if (viewIntent && viewIntent.view !== currentView) setViewIntent(null); }, [currentView, viewIntent]);
   const handleSignOut = useCallback(() => { signOut(); setUserProfile(null); setAuthSession(null); setCurrentView(ViewState.DASHBOARD); }, [setUserProfile, setAuthSession]);
   const handleRolloverSuccess = useCallback((nextYear: number) => {
       setActiveYear(nextYear);
@@ -285,8 +410,9 @@ function App() {
       setExpenseData([]);
       setDetailedExpenses({ months: [], categories: [] });
       setDetailedIncome({ months: [], categories: [] });
+      setBudgetBook(prev => carryBudgetsForward(prev, nextYear));
       syncData(['income', 'expenses'], nextYear);
-  }, [setActiveYear, syncData, setIncomeData, setExpenseData, setDetailedExpenses, setDetailedIncome]);
+  }, [setActiveYear, syncData, setIncomeData, setExpenseData, setDetailedExpenses, setDetailedIncome, setBudgetBook]);
 
   const timeMachineYears = useMemo(() => {
     const current = new Date().getFullYear();
@@ -339,13 +465,13 @@ function App() {
 
           <div className={`${isHistorical && (currentView === ViewState.DASHBOARD || currentView === ViewState.INCOME) && incomeData.length === 0 ? 'hidden' : ''}`}>
               {currentView === ViewState.DASHBOARD && <Dashboard assets={assets} trades={trades} netWorthHistory={netWorthHistory} incomeData={incomeData} expenseData={expenseData} isLoading={isSyncing} exchangeRates={exchangeRates} isDarkMode={isDarkMode} selectedYear={selectedYear} timeFocus={timeFocus} onTimeFocusChange={setTimeFocus} availableYears={timeMachineYears} onYearChange={setSelectedYear} onViewChange={setCurrentView} />}
-              {currentView === ViewState.ASSETS && <AssetsList assets={assets} isLoading={isSyncing} exchangeRates={exchangeRates} onAddAsset={a => addAssetToSheet(sheetConfig.sheetId, sheetConfig.tabNames.assets, a).then(() => syncData(['assets']))} onEditAsset={a => handleEditGeneric(a, sheetConfig.tabNames.assets, updateAssetInSheet, setAssets)} onDeleteAsset={a => handleDeleteGeneric(a, sheetConfig.tabNames.assets, setAssets)} isReadOnly={false} isGhostMode={isGhostMode} />}
-              {currentView === ViewState.INVESTMENTS && <InvestmentsList investments={calculatedInvestments} assets={assets} trades={trades} isLoading={isSyncing} exchangeRates={exchangeRates} />}
-              {currentView === ViewState.TRADES && <TradesList trades={trades} isLoading={isSyncing} onAddTrade={t => addTradeToSheet(sheetConfig.sheetId, sheetConfig.tabNames.trades, t).then(() => syncData(['trades']))} onEditTrade={t => handleEditGeneric(t, sheetConfig.tabNames.trades, updateTradeInSheet, setTrades)} onDeleteTrade={t => handleDeleteGeneric(t, sheetConfig.tabNames.trades, setTrades)} isReadOnly={false} />}
-              {currentView === ViewState.INCOME && <IncomeView incomeData={incomeData} expenseData={expenseData} detailedExpenses={detailedExpenses} detailedIncome={detailedIncome} isLoading={isSyncing} isDarkMode={isDarkMode} isReadOnly={isHistorical} selectedYear={selectedYear} onUpdateExpense={async (cat, sub, m, v) => { await updateLedgerValue(sheetConfig.sheetId, sheetConfig.tabNames.expenses, cat, sub, m, v); syncData(['expenses']); }} onUpdateIncome={async (cat, sub, m, v) => { await updateLedgerValue(sheetConfig.sheetId, sheetConfig.tabNames.income, cat, sub, m, v); syncData(['income']); }} availableYears={timeMachineYears} onYearChange={setSelectedYear} activeYear={activeYear} />}
-              {currentView === ViewState.ANALYTICS && <AnalyticsView assets={assets} trades={trades} investments={investments} netWorthHistory={netWorthHistory} portfolioHistory={portfolioHistory} timeline={unifiedTimeline} incomeData={incomeData} expenseData={expenseData} isLoading={isSyncing} />}
-              {currentView === ViewState.INFORMATION && <InformationView subscriptions={subscriptions} accounts={accounts} debtEntries={debtEntries} taxRecords={taxRecords} isLoading={isSyncing} onAddSubscription={s => addSubscriptionToSheet(sheetConfig.sheetId, sheetConfig.tabNames.subscriptions, s).then(() => syncData(['subscriptions']))} onEditSubscription={s => handleEditGeneric(s, sheetConfig.tabNames.subscriptions, updateSubscriptionInSheet, setSubscriptions)} onDeleteSubscription={s => handleDeleteGeneric(s, sheetConfig.tabNames.subscriptions, setSubscriptions)} onAddAccount={a => addAccountToSheet(sheetConfig.sheetId, sheetConfig.tabNames.accounts, a).then(() => syncData(['accounts']))} onEditAccount={a => handleEditGeneric(a, sheetConfig.tabNames.accounts, updateAccountInSheet, setAccounts)} onDeleteAccount={a => handleDeleteGeneric(a, sheetConfig.tabNames.accounts, setAccounts)} onAddTaxRecord={handleAddTaxRecord} onEditTaxRecord={handleEditTaxRecord} onDeleteTaxRecord={handleDeleteTaxRecord} isReadOnly={false} />}
-              {currentView === ViewState.SETTINGS && <DataIngest config={sheetConfig} onConfigChange={setSheetConfig} onSync={syncData} isSyncing={isSyncing} syncingTabs={syncingTabs} syncStatus={syncStatus} sheetUrl={sheetUrl} onSheetUrlChange={setSheetUrl} isDarkMode={isDarkMode} toggleTheme={toggleTheme} userProfile={userProfile} onProfileChange={setUserProfile} onSessionChange={setAuthSession} onSignOut={handleSignOut} onViewChange={setCurrentView} onTourStart={() => setIsTourActive(true)} activeYear={activeYear} onRolloverSuccess={handleRolloverSuccess} />}
+              {currentView === ViewState.ASSETS && <AssetsList assets={assets} isLoading={isSyncing} exchangeRates={exchangeRates} onAddAsset={a => addAssetToSheet(sheetConfig.sheetId, sheetConfig.tabNames.assets, a, sheetConfig.columnMappings?.assets).then(() => syncData(['assets']))} onEditAsset={a => handleEditGeneric(a, sheetConfig.tabNames.assets, updateAssetInSheet, setAssets, sheetConfig.columnMappings?.assets)} onDeleteAsset={a => handleDeleteGeneric(a, sheetConfig.tabNames.assets, setAssets)} isReadOnly={false} isGhostMode={isGhostMode} />}
+              {currentView === ViewState.INVESTMENTS && <InvestmentsList investments={calculatedInvestments} assets={assets} trades={trades} isLoading={isSyncing} exchangeRates={exchangeRates} lotMethod={lotMethod} initialContext={viewIntent?.investmentContext} />}
+              {currentView === ViewState.TRADES && <TradesList trades={trades} isLoading={isSyncing} onAddTrade={t => addTradeToSheet(sheetConfig.sheetId, sheetConfig.tabNames.trades, t, sheetConfig.columnMappings?.trades).then(() => syncData(['trades']))} onEditTrade={t => handleEditGeneric(t, sheetConfig.tabNames.trades, updateTradeInSheet, setTrades, sheetConfig.columnMappings?.trades)} onDeleteTrade={t => handleDeleteGeneric(t, sheetConfig.tabNames.trades, setTrades)} onImportTrades={handleImportTrades} isReadOnly={false} lotMethod={lotMethod} onLotMethodChange={setLotMethod} />}
+              {currentView === ViewState.INCOME && <IncomeView incomeData={incomeData} expenseData={expenseData} detailedExpenses={ledgerExpenses} detailedIncome={ledgerIncome} ledgerTransactions={ledgerTransactions} categorizationRules={categorizationRules} budgetTargets={budgetTargets} isLoading={isSyncing} isDarkMode={isDarkMode} isReadOnly={isHistorical} selectedYear={selectedYear} onUpdateExpense={async (cat, sub, m, v) => { await updateLedgerValue(sheetConfig.sheetId, sheetConfig.tabNames.expenses, cat, sub, m, v); syncData(['expenses']); }} onUpdateIncome={async (cat, sub, m, v) => { await updateLedgerValue(sheetConfig.sheetId, sheetConfig.tabNames.income, cat, sub, m, v); syncData(['income']); }} onImportStatement={handleImportStatement} onSaveTransaction={handleSaveLedgerTransaction} onDeleteTransaction={handleDeleteLedgerTransaction} onSaveRules={handleSaveCategorizationRules} onSaveBudgets={handleSaveBudgets} availableYears={timeMachineYears} onYearChange={setSelectedYear} activeYear={activeYear} locale={sheetConfig.locale} />}
+              {currentView === ViewState.ANALYTICS && <AnalyticsView assets={assets} trades={trades} investments={investments} netWorthHistory={netWorthHistory} portfolioHistory={portfolioHistory} timeline={unifiedTimeline} incomeData={incomeData} expenseData={expenseData} taxRecords={taxRecords} subscriptions={subscriptions} liabilities={liabilities} debtEntries={debtEntries} detailedExpenses={ledgerExpenses} detailedIncome={ledgerIncome} selectedYear={selectedYear} exchangeRates={exchangeRates} isLoading={isSyncing} onOpenInsight={handleOpenInsight} locale={sheetConfig.locale} />}
+              {currentView === ViewState.INFORMATION && <InformationView subscriptions={subscriptions} accounts={accounts} debtEntries={debtEntries} liabilities={liabilities} taxRecords={taxRecords} detailedIncome={ledgerIncome} selectedYear={selectedYear} isLoading={isSyncing} onAddSubscription={s => addSubscriptionToSheet(sheetConfig.sheetId, sheetConfig.tabNames.subscriptions, s, sheetConfig.columnMappings?.subscriptions).then(() => syncData(['subscriptions']))} onEditSubscription={s => handleEditGeneric(s, sheetConfig.tabNames.subscriptions, updateSubscriptionInSheet, setSubscriptions, sheetConfig.columnMappings?.subscriptions)} onDeleteSubscription={s => handleDeleteGeneric(s, sheetConfig.tabNames.subscriptions, setSubscriptions)} onAddAccount={a => addAccountToSheet(sheetConfig.sheetId, sheetConfig.tabNames.accounts, a, sheetConfig.columnMappings?.accounts).then(() => syncData(['accounts']))} onEditAccount={a => handleEditGeneric(a, sheetConfig.tabNames.accounts, updateAccountInSheet, setAccounts, sheetConfig.columnMappings?.accounts)} onDeleteAccount={a => handleDeleteGeneric(a, sheetConfig.tabNames.accounts, setAccounts)} onSaveLiability={handleSaveLiability} onDeleteLiability={handleDeleteLiability} onWriteDebtSchedule={rows => writeDebtSchedule(sheetConfig.sheetId, sheetConfig.tabNames.debt, rows).then(() => syncData(['debt']))} onAddTaxRecord={handleAddTaxRecord} onEditTaxRecord={handleEditTaxRecord} onDeleteTaxRecord={handleDeleteTaxRecord} isReadOnly={false} initialTab={viewIntent?.informationTab} />}
+              {currentView === ViewState.SETTINGS && <DataIngest config={sheetConfig} onConfigChange={setSheetConfig} onSync={syncData} isSyncing={isSyncing} syncingTabs={syncingTabs} syncStatus={syncStatus} ingestionReports={Object.values(ingestionReports)} sheetUrl={sheetUrl} onSheetUrlChange={setSheetUrl} isDarkMode={isDarkMode} toggleTheme={toggleTheme} userProfile={userProfile} onProfileChange={setUserProfile} onSessionChange={setAuthSession} onSignOut={handleSignOut} onViewChange={setCurrentView} onTourStart={() => setIsTourActive(true)} activeYear={activeYear} onRolloverSuccess={handleRolloverSuccess} />}
               {currentView === ViewState.PRIVACY && <PrivacyPolicy onBack={() => setCurrentView(ViewState.SETTINGS)} />}
               {currentView === ViewState.TERMS && <TermsOfService onBack={() => setCurrentView(ViewState.SETTINGS)} />}
           </div>
@@ -1,10 +1,13 @@
 
 import React, { useState } from 'react';
-import { Asset, NetWorthEntry, Trade, TimeFocus, Investment, NormalizedTransaction, CustomDateRange, PortfolioLogEntry, AnalyticsSubView, IncomeEntry, ExpenseEntry } from '../types';
-import { BarChart4, Receipt, TrendingUp, Sparkles, LayoutGrid } from 'lucide-react';
+import { Asset, NetWorthEntry, Trade, TimeFocus, Investment, NormalizedTransaction, CustomDateRange, PortfolioLogEntry, AnalyticsSubView, IncomeEntry, ExpenseEntry, ExchangeRates, TaxRecord, Subscription, InsightLink, ViewState, Liability, DebtEntry, LedgerData, SheetLocale } from '../types';
+import { BarChart4, Receipt, TrendingUp, Sparkles, LayoutGrid, Telescope, CalendarRange } from 'lucide-react';
 import { TimeFocusSelector } from './TimeFocusSelector';
 import { FlowAnalytics } from './analytics/FlowAnalytics';
 import { PortfolioAnalytics } from './analytics/PortfolioAnalytics';
+import { AlphaInsights } from './analytics/AlphaInsights';
+import { FiProjection } from './analytics/FiProjection';
+import { CashFlowForecast } from './analytics/CashFlowForecast';
 
 interface AnalyticsViewProps {
   assets: Asset[];
@@ -15,11 +18,21 @@ interface AnalyticsViewProps {
   timeline: NormalizedTransaction[];
   incomeData: IncomeEntry[];
   expenseData: ExpenseEntry[];
+  taxRecords?: TaxRecord[];
+  subscriptions?: Subscription[];
+  liabilities?: Liability[];
+  debtEntries?: DebtEntry[];
+  detailedExpenses?: LedgerData;
+  detailedIncome?: LedgerData;
+  selectedYear?: number;
+  exchangeRates?: ExchangeRates;
   isLoading?: boolean;
+  onOpenInsight?: (link: InsightLink) => void;
+  locale?: SheetLocale;
 }
 
 export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ 
-  timeline, portfolioHistory, incomeData, expenseData, trades, investments, isLoading, assets 
+  timeline, portfolioHistory, incomeData, expenseData, trades, investments, isLoading, assets, taxRecords = [], subscriptions = [], liabilities = [], debtEntries = [], detailedExpenses, detailedIncome, selectedYear = new Date().getFullYear(), exchangeRates, onOpenInsight, locale
 }) => {
   const [subView, setSubView] = useState<AnalyticsSubView>('FLOW');
   const [timeFocus, setTimeFocus] = useState<TimeFocus>(TimeFocus.ROLLING_12M);
@@ -27,6 +40,21 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({
     start: new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0],
     end: new Date().toISOString().split('T')[0]
   });
+  const [flowFocus, setFlowFocus] = useState<InsightLink['flowFocus']>();
+
+  // Insights backed by this view are applied in place; the rest are handed up for navigation.
+  const handleOpenInsight = (link: InsightLink) => {
+    if (link.view !== ViewState.ANALYTICS) {
+      onOpenInsight?.(link);
+      return;
+    }
+    if (link.analyticsSubView) setSubView(link.analyticsSubView);
+    if (link.flowFocus) {
+      setTimeFocus(TimeFocus.CUSTOM);
+      setCustomRange(link.flowFocus.range);
+      setFlowFocus(link.flowFocus);
+    }
+  };
 
   return (
     <div className="space-y-8 animate-fade-in pb-24">
@@ -55,6 +83,18 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({
                 >
                     <TrendingUp size={14} /> Performance
                 </button>
+                <button 
+                    onClick={() => setSubView('PROJECTION')}
+                    className={`flex items-center gap-2 px-5 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${subView === 'PROJECTION' ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}
+                >
+                    <Telescope size={14} /> Projection
+                </button>
+                <button 
+                    onClick={() => setSubView('FORECAST')}
+                    className={`flex items-center gap-2 px-5 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${subView === 'FORECAST' ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}
+                >
+                    <CalendarRange size={14} /> Forecast
+                </button>
             </div>
             <div className="h-8 w-[1px] bg-slate-200 dark:bg-slate-700 hidden sm:block mx-2" />
             <TimeFocusSelector 
@@ -66,6 +106,8 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({
         </div>
       </header>
 
+      <AlphaInsights timeline={timeline} taxRecords={taxRecords} subscriptions={subscriptions} investments={investments} incomeData={incomeData} onOpen={handleOpenInsight} />
+
       <div className={`transition-all duration-500 ${isLoading ? 'opacity-50 grayscale pointer-events-none' : 'opacity-100'}`}>
           {subView === 'FLOW' ? (
               <FlowAnalytics 
@@ -74,8 +116,9 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({
                   expenseData={expenseData}
                   timeFocus={timeFocus} 
                   customRange={customRange} 
+                  focus={flowFocus}
               />
-          ) : (
+          ) : subView === 'PORTFOLIO' ? (
               <PortfolioAnalytics 
                   history={portfolioHistory} 
                   trades={trades}
@@ -83,6 +126,27 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({
                   timeFocus={timeFocus} 
                   customRange={customRange} 
               />
+          ) : subView === 'FORECAST' ? (
+              <CashFlowForecast
+                  assets={assets}
+                  exchangeRates={exchangeRates}
+                  subscriptions={subscriptions}
+                  liabilities={liabilities}
+                  debtEntries={debtEntries}
+                  detailedExpenses={detailedExpenses}
+                  detailedIncome={detailedIncome}
+                  selectedYear={selectedYear}
+                  locale={locale}
+              />
+          ) : (
+              <FiProjection
+                  assets={assets}
+                  exchangeRates={exchangeRates}
+                  portfolioHistory={portfolioHistory}
+                  trades={trades}
+                  incomeData={incomeData}
+                  expenseData={expenseData}
+              />
           )}
       </div>
       
@@ -1,13 +1,16 @@
 
-import { AlertCircle, ArrowRight, CheckCircle2, Cloud, DollarSign, Download, ExternalLink, FileSpreadsheet, History, Info, Layers, Loader2, LogOut, Moon, RefreshCw, Search, Sparkles, Sun, Trash2, CalendarDays, DownloadCloud, UploadCloud, Database, Clock, CloudUpload, CloudDownload, Box, HardDrive, Lock, Zap, ShieldCheck } from 'lucide-react';
+import { AlertCircle, ArrowRight, CheckCircle2, Cloud, DollarSign, Download, ExternalLink, FileSpreadsheet, History, Info, Layers, Loader2, LogOut, Moon, RefreshCw, Search, Sparkles, Sun, Trash2, CalendarDays, DownloadCloud, UploadCloud, Database, Clock, CloudUpload, CloudDownload, Box, HardDrive, Lock, Zap, ShieldCheck, Columns3 } from 'lucide-react';
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { fetchUserProfile, initGoogleAuth, signIn, copyMasterTemplate } from '../services/authService';
 import { openPicker } from '../services/pickerService';
-import { SheetConfig, UserProfile, ViewState, ArchiveMeta } from '../types';
+import { SheetConfig, UserProfile, ViewState, ArchiveMeta, IngestionReport } from '../types';
 import { exportBackup, importBackup, syncToCloud, restoreFromCloud, getArchiveManagementList, deleteLocalYear } from '../services/backupService';
 import { useIndexedDB } from '../hooks/useIndexedDB';
 import { CompactTabInput } from './settings/CompactTabInput';
 import { RolloverStepper } from './settings/RolloverStepper';
+import { IngestionReportPanel } from './settings/IngestionReportPanel';
+import { ColumnMappingModal } from './settings/ColumnMappingModal';
+import { LocaleSettings } from './settings/LocaleSettings';
 
 const MASTER_TEMPLATE_ID = '12YnkmOuHSeiy5hcmbxc6ZT8e8D6ruo1SEr3LU3yEZDk'; 
 
@@ -18,6 +21,7 @@ interface DataIngestProps {
   isSyncing: boolean;
   syncingTabs: Set<string>;
   syncStatus: {type: 'success' | 'error' | 'warning', msg: string} | null;
+  ingestionReports?: IngestionReport[];
   sheetUrl: string;
   onSheetUrlChange: (url: string) => void;
   isDarkMode: boolean;
@@ -33,7 +37,7 @@ interface DataIngestProps {
 }
 
 export const DataIngest: React.FC<DataIngestProps> = ({ 
-  config, onConfigChange, onSync, isSyncing, syncingTabs, syncStatus, 
+  config, onConfigChange, onSync, isSyncing, syncingTabs, syncStatus, ingestionReports = [],
   sheetUrl, onSheetUrlChange, isDarkMode, toggleTheme, userProfile, 
   onProfileChange, onSessionChange, onSignOut, onViewChange, 
   onTourStart, activeYear, onRolloverSuccess 
@@ -45,6 +49,7 @@ export const DataIngest: React.FC<DataIngestProps> = ({
   const [localArchives, setLocalArchives] = useState<ArchiveMeta[]>([]);
   const [isLoadingArchives, setIsLoadingArchives] = useState(false);
   const [isRolloverOpen, setIsRolloverOpen] = useState(false);
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
   
   const [lastBackupAt, setLastBackupAt] = useIndexedDB<string | null>('fintrack_last_backup_at', null);
   const [lastCloudSyncAt, setLastCloudSyncAt] = useIndexedDB<string | null>('fintrack_last_cloud_sync_at', null);
@@ -329,16 +334,21 @@ export const DataIngest: React.FC<DataIngestProps> = ({
               <p className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-2">Remote synchronization bridge</p>
             </div>
           </div>
-          <button onClick={() => onSync()} disabled={isSyncing} className="bg-indigo-600 hover:bg-indigo-500 text-white px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest flex items-center gap-3 shadow-xl shadow-indigo-500/20 disabled:opacity-50 transition-all hover:-translate-y-0.5 active:scale-95">
-            {isSyncing ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />} Synchronize All
-          </button>
+          <div className="flex items-center gap-3">
+            <button onClick={() => setIsMappingOpen(true)} className="bg-slate-100 dark:bg-slate-900 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 px-6 py-4 rounded-2xl text-xs font-black uppercase tracking-widest flex items-center gap-3 transition-all active:scale-95">
+              <Columns3 size={18} /> Pin Columns
+            </button>
+            <button onClick={() => onSync()} disabled={isSyncing} className="bg-indigo-600 hover:bg-indigo-500 text-white px-8 py-4 rounded-2xl text-xs font-black uppercase tracking-widest flex items-center gap-3 shadow-xl shadow-indigo-500/20 disabled:opacity-50 transition-all hover:-translate-y-0.5 active:scale-95">
+              {isSyncing ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />} Synchronize All
+            </button>
+          </div>
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-10">
           {[
             { t: 'Investment Core', i: Layers, k: ['assets', 'investments', 'trades'] },
             { t: 'Flow Ledger', i: DollarSign, k: ['income', 'expenses', 'subscriptions', 'debt'] },
-            { t: 'Chronological Logs', i: History, k: ['accounts', 'logData', 'portfolioLog'] }
+            { t: 'Chronological Logs', i: History, k: ['accounts', 'logData', 'portfolioLog', 'taxRecords'] }
           ].map(cat => (
             <div key={cat.t} className="space-y-5">
               <div className="flex items-center gap-3 px-1 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
@@ -361,12 +371,16 @@ export const DataIngest: React.FC<DataIngestProps> = ({
           ))}
         </div>
 
+        <LocaleSettings locale={config.locale} onChange={(locale) => onConfigChange({ ...config, locale })} />
+
         {syncStatus && (
           <div className={`mt-4 p-5 rounded-3xl border text-xs font-black uppercase tracking-widest flex items-center gap-3 animate-in slide-in-from-bottom-2 ${syncStatus.type === 'success' ? 'bg-emerald-50 dark:bg-emerald-500/10 border-emerald-200/50 text-emerald-600 shadow-emerald-500/5' : syncStatus.type === 'warning' ? 'bg-amber-50 dark:bg-amber-500/10 border-amber-200/50 text-amber-600' : 'bg-red-50 dark:bg-red-500/10 border-red-200/50 text-red-600'}`}>
             {syncStatus.type === 'success' ? <CheckCircle2 size={18} /> : <AlertCircle size={18} />} 
             {syncStatus.msg}
           </div>
         )}
+
+        <IngestionReportPanel reports={ingestionReports} />
       </div>
 
       {/* Storage & Local Persistence */}
@@ -460,6 +474,13 @@ export const DataIngest: React.FC<DataIngestProps> = ({
               </button>
           </div>
 
+          <ColumnMappingModal
+              isOpen={isMappingOpen}
+              onClose={() => setIsMappingOpen(false)}
+              config={config}
+              onConfigChange={onConfigChange}
+          />
+
           <RolloverStepper 
               isOpen={isRolloverOpen} 
               onClose={() => setIsRolloverOpen(false)} 
@@ -1,47 +1,79 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { IncomeEntry, ExpenseEntry, LedgerData } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { IncomeEntry, ExpenseEntry, LedgerData, LedgerTransaction, CategorizationRule, BudgetTarget, SheetLocale } from '../types';
 import { IncomeAnalysis } from './income/IncomeAnalysis';
 import { IncomeLedger } from './income/IncomeLedger';
-import { BarChart3, Table2, ChevronDown, Calendar, History, Sparkles, Check, LogOut } from 'lucide-react';
+import { StatementImportModal } from './income/StatementImportModal';
+import { TransactionRegister } from './income/TransactionRegister';
+import { TransactionEntryModal } from './income/TransactionEntryModal';
+import { CategorizationRulesModal } from './income/CategorizationRulesModal';
+import { BudgetModal } from './income/BudgetModal';
+import { buildBudgetLines } from '../services/ledger/budgetService';
+import { BarChart3, Table2, ChevronDown, Calendar, History, Sparkles, Check, LogOut, FileUp, Receipt, Wand2, Target } from 'lucide-react';
 
 interface IncomeViewProps {
   incomeData: IncomeEntry[];
   expenseData: ExpenseEntry[];
   detailedExpenses?: LedgerData;
   detailedIncome?: LedgerData;
+  ledgerTransactions?: LedgerTransaction[];
+  categorizationRules?: CategorizationRule[];
+  budgetTargets?: BudgetTarget[];
   isLoading?: boolean;
   isDarkMode?: boolean;
   isReadOnly?: boolean;
   selectedYear?: number;
   onUpdateExpense?: (category: string, subCategory: string, monthIndex: number, newValue: number) => Promise<void>;
   onUpdateIncome?: (category: string, subCategory: string, monthIndex: number, newValue: number) => Promise<void>;
+  onImportStatement?: (transactions: LedgerTransaction[]) => Promise<void>;
+  onSaveTransaction?: (transaction: LedgerTransaction) => Promise<void>;
+  onDeleteTransaction?: (transaction: LedgerTransaction) => Promise<void>;
+  onSaveRules?: (rules: CategorizationRule[]) => Promise<void>;
+  onSaveBudgets?: (targets: BudgetTarget[]) => Promise<void>;
   availableYears?: number[];
   onYearChange?: (year: number) => void;
   activeYear?: number;
+  // Day/month order of the sheet's month headers.
+  locale?: SheetLocale;
 }
 
-type ViewMode = 'ANALYSIS' | 'LEDGER';
+type ViewMode = 'ANALYSIS' | 'LEDGER' | 'TRANSACTIONS';
 
 export const IncomeView: React.FC<IncomeViewProps> = ({ 
     incomeData, 
     expenseData, 
     detailedExpenses, 
     detailedIncome,
+    ledgerTransactions = [],
+    categorizationRules = [],
+    budgetTargets = [],
     isLoading = false, 
     isDarkMode = true,
     isReadOnly = false,
     selectedYear = new Date().getFullYear(),
     onUpdateExpense,
     onUpdateIncome,
+    onImportStatement,
+    onSaveTransaction,
+    onDeleteTransaction,
+    onSaveRules,
+    onSaveBudgets,
     availableYears = [],
     onYearChange,
-    activeYear
+    activeYear,
+    locale
 }) => {
   const [mode, setMode] = useState<ViewMode>('ANALYSIS');
   const [isYearPickerOpen, setIsYearPickerOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [isBudgetsOpen, setIsBudgetsOpen] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<LedgerTransaction | null>(null);
   const pickerRef = useRef<HTMLDivElement>(null);
 
+  const budgetLines = useMemo(() => buildBudgetLines(detailedExpenses || { months: [], categories: [] }, budgetTargets), [detailedExpenses, budgetTargets]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
         if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
@@ -115,49 +147,143 @@ export const IncomeView: React.FC<IncomeViewProps> = ({
                </h2>
            </div>
 
-           <div className="flex bg-slate-100 dark:bg-slate-800/50 p-1 rounded-xl flex items-center border border-slate-200 dark:border-slate-700">
-               <button
-                   onClick={() => setMode('ANALYSIS')}
-                   className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
-                       mode === 'ANALYSIS' 
-                       ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm' 
-                       : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
-                   }`}
-               >
-                   <BarChart3 size={16} /> Analysis
-               </button>
-               <button
-                   onClick={() => setMode('LEDGER')}
-                   className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
-                       mode === 'LEDGER' 
-                       ? 'bg-white dark:bg-slate-700 text-purple-600 dark:text-purple-400 shadow-sm' 
-                       : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
-                   }`}
-               >
-                   <Table2 size={16} /> Ledger
-               </button>
+           <div className="flex items-center gap-3">
+               {!isReadOnly && onSaveBudgets && (
+                   <button
+                       onClick={() => setIsBudgetsOpen(true)}
+                       className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-emerald-500 transition-all"
+                   >
+                       <Target size={16} /> Budgets
+                   </button>
+               )}
+               {!isReadOnly && onSaveRules && (
+                   <button
+                       onClick={() => setIsRulesOpen(true)}
+                       className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-purple-500 transition-all"
+                   >
+                       <Wand2 size={16} /> Rules
+                   </button>
+               )}
+               {!isReadOnly && onImportStatement && (
+                   <button
+                       onClick={() => setIsImportOpen(true)}
+                       className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-blue-500 transition-all"
+                   >
+                       <FileUp size={16} /> Import OFX
+                   </button>
+               )}
+               <div className="flex bg-slate-100 dark:bg-slate-800/50 p-1 rounded-xl flex items-center border border-slate-200 dark:border-slate-700">
+                   <button
+                       onClick={() => setMode('ANALYSIS')}
+                       className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+                           mode === 'ANALYSIS' 
+                           ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm' 
+                           : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
+                       }`}
+                   >
+                       <BarChart3 size={16} /> Analysis
+                   </button>
+                   <button
+                       onClick={() => setMode('LEDGER')}
+                       className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+                           mode === 'LEDGER' 
+                           ? 'bg-white dark:bg-slate-700 text-purple-600 dark:text-purple-400 shadow-sm' 
+                           : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
+                       }`}
+                   >
+                       <Table2 size={16} /> Ledger
+                   </button>
+                   <button
+                       onClick={() => setMode('TRANSACTIONS')}
+                       className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+                           mode === 'TRANSACTIONS' 
+                           ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 shadow-sm' 
+                           : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
+                       }`}
+                   >
+                       <Receipt size={16} /> Transactions
+                   </button>
+               </div>
            </div>
        </header>
 
+       {onImportStatement && (
+           <StatementImportModal
+               isOpen={isImportOpen}
+               onClose={() => setIsImportOpen(false)}
+               ledger={detailedExpenses || { months: [], categories: [] }}
+               history={ledgerTransactions}
+               rules={categorizationRules}
+               onImport={onImportStatement}
+               locale={locale}
+           />
+       )}
+
+       {onSaveRules && (
+           <CategorizationRulesModal
+               isOpen={isRulesOpen}
+               onClose={() => setIsRulesOpen(false)}
+               rules={categorizationRules}
+               ledger={detailedExpenses || { months: [], categories: [] }}
+               history={ledgerTransactions}
+               onSave={onSaveRules}
+           />
+       )}
+
+       {onSaveBudgets && (
+           <BudgetModal
+               isOpen={isBudgetsOpen}
+               onClose={() => setIsBudgetsOpen(false)}
+               year={selectedYear}
+               targets={budgetTargets}
+               ledger={detailedExpenses || { months: [], categories: [] }}
+               onSave={onSaveBudgets}
+           />
+       )}
+
+       {onSaveTransaction && (
+           <TransactionEntryModal
+               isOpen={isEntryOpen}
+               onClose={() => setIsEntryOpen(false)}
+               onSave={onSaveTransaction}
+               incomeLedger={detailedIncome || { months: [], categories: [] }}
+               expenseLedger={detailedExpenses || { months: [], categories: [] }}
+               initialData={editingTransaction}
+           />
+       )}
+
        <div className="flex-1 min-h-0">
            {mode === 'ANALYSIS' ? (
                <IncomeAnalysis 
                  incomeData={incomeData} 
                  expenseData={expenseData} 
                  detailedExpenses={detailedExpenses} 
+                 budgetLines={budgetLines}
                  isLoading={isLoading} 
                  isDarkMode={isDarkMode} 
                  selectedYear={selectedYear}
                />
+           ) : mode === 'TRANSACTIONS' ? (
+               <TransactionRegister
+                   transactions={ledgerTransactions}
+                   selectedYear={selectedYear}
+                   isReadOnly={isReadOnly || !onSaveTransaction}
+                   onAdd={() => { setEditingTransaction(null); setIsEntryOpen(true); }}
+                   onEdit={(tx) => { setEditingTransaction(tx); setIsEntryOpen(true); }}
+                   onDelete={async (tx) => { if (onDeleteTransaction) await onDeleteTransaction(tx); }}
+               />
            ) : (
                <IncomeLedger 
                    expenseData={detailedExpenses || { months: [], categories: [] }} 
                    incomeData={detailedIncome || { months: [], categories: [] }}
+                   transactions={ledgerTransactions}
+                   budgetLines={budgetLines}
                    isLoading={isLoading} 
                    isReadOnly={isReadOnly}
                    selectedYear={selectedYear}
                    activeYear={activeYear}
                    onYearChange={onYearChange}
+                   locale={locale}
                    onUpdateExpense={async (cat, sub, m, v) => {
                        if (onUpdateExpense) await onUpdateExpense(cat, sub, m, v);
                    }} 
@@ -1,18 +1,24 @@
 
 import React, { useState, useEffect } from 'react';
-import { Subscription, BankAccount, DebtEntry, TaxRecord } from '../types';
+import { Subscription, BankAccount, DebtEntry, Liability, TaxRecord, LedgerData, InformationTab } from '../types';
 import { Landmark, Loader2, ShieldCheck, Receipt } from 'lucide-react';
 import { PRIMARY_CURRENCY } from '../services/currencyService';
 import { TaxRoomTracker } from './information/TaxRoomTracker';
 import { RegistryModal } from './information/RegistryModal';
 import { CommitmentsTab } from './information/CommitmentsTab';
 import { AccountsRegistryTab } from './information/AccountsRegistryTab';
+import { LiabilityModal } from './information/LiabilityModal';
+import { AmortizationModal } from './information/AmortizationModal';
+import { DebtSheetRow } from '../services/debt/amortizationService';
 
 interface InformationViewProps {
   subscriptions: Subscription[];
   accounts: BankAccount[];
   debtEntries?: DebtEntry[];
+  liabilities?: Liability[];
   taxRecords?: TaxRecord[];
+  detailedIncome?: LedgerData;
+  selectedYear?: number;
   isLoading?: boolean;
   onAddSubscription?: (sub: Subscription) => Promise<void>;
   onEditSubscription?: (sub: Subscription) => Promise<void>;
@@ -20,23 +26,26 @@ interface InformationViewProps {
   onAddAccount?: (acc: BankAccount) => Promise<void>;
   onEditAccount?: (acc: BankAccount) => Promise<void>;
   onDeleteAccount?: (acc: BankAccount) => Promise<void>;
+  onSaveLiability?: (liability: Liability) => Promise<void>;
+  onDeleteLiability?: (liability: Liability) => Promise<void>;
+  onWriteDebtSchedule?: (rows: DebtSheetRow[]) => Promise<void>;
   onAddTaxRecord?: (rec: TaxRecord) => Promise<void>;
   onEditTaxRecord?: (rec: TaxRecord) => Promise<void>;
   onDeleteTaxRecord?: (rec: TaxRecord) => Promise<void>;
   isReadOnly?: boolean;
+  initialTab?: InformationTab;
 }
 
-type InfoTab = 'tax' | 'commitments' | 'accounts';
-
 export const InformationView: React.FC<InformationViewProps> = ({ 
-    subscriptions, accounts, debtEntries = [], taxRecords = [], isLoading = false,
+    subscriptions, accounts, debtEntries = [], liabilities = [], taxRecords = [], detailedIncome, selectedYear, isLoading = false,
     onAddSubscription, onEditSubscription, onDeleteSubscription,
     onAddAccount, onEditAccount, onDeleteAccount,
+    onSaveLiability, onDeleteLiability, onWriteDebtSchedule,
     onAddTaxRecord, onEditTaxRecord, onDeleteTaxRecord,
-    isReadOnly = false
+    isReadOnly = false, initialTab = 'tax' as InformationTab
 }) => {
-  const [activeTab, setActiveTab] = useState<InfoTab>('tax');
-  const [modalState, setModalState] = useState<{ type: 'sub' | 'acc' | null, data: any | null }>({ type: null, data: null });
+  const [activeTab, setActiveTab] = useState<InformationTab>(initialTab);
+  const [modalState, setModalState] = useState<{ type: 'sub' | 'acc' | 'debt' | 'schedule' | null, data: any | null }>({ type: null, data: null });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Form states for RegistryModals
@@ -104,6 +113,8 @@ export const InformationView: React.FC<InformationViewProps> = ({
         {activeTab === 'tax' && (
           <TaxRoomTracker 
             taxRecords={taxRecords} 
+            detailedIncome={detailedIncome}
+            selectedYear={selectedYear}
             isLoading={isLoading} 
             onAddTaxRecord={onAddTaxRecord} 
             onEditTaxRecord={onEditTaxRecord} 
@@ -115,11 +126,16 @@ export const InformationView: React.FC<InformationViewProps> = ({
           <CommitmentsTab 
             subscriptions={subscriptions} 
             debtEntries={debtEntries} 
+            liabilities={liabilities} 
             isLoading={isLoading} 
             isReadOnly={isReadOnly} 
             onAdd={() => setModalState({type: 'sub', data: null})} 
             onEdit={(s) => setModalState({type:'sub', data:s})} 
             onDelete={onDeleteSubscription || (async () => {})} 
+            onAddLiability={() => setModalState({type: 'debt', data: null})} 
+            onEditLiability={(l) => setModalState({type: 'debt', data: l})} 
+            onDeleteLiability={onDeleteLiability || (async () => {})} 
+            onGenerateSchedule={onWriteDebtSchedule && (() => setModalState({type: 'schedule', data: null}))} 
           />
         )}
 
@@ -169,6 +185,22 @@ export const InformationView: React.FC<InformationViewProps> = ({
         </div>
       </RegistryModal>
 
+      <LiabilityModal 
+        isOpen={modalState.type === 'debt'} 
+        onClose={() => setModalState({type:null, data:null})} 
+        onSave={onSaveLiability || (async () => {})} 
+        initialData={modalState.data} 
+        scheduleNames={Array.from(new Set(debtEntries.map(d => d.name)))} 
+      />
+
+      {onWriteDebtSchedule && (
+        <AmortizationModal 
+          isOpen={modalState.type === 'schedule'} 
+          onClose={() => setModalState({type:null, data:null})} 
+          onWrite={onWriteDebtSchedule} 
+        />
+      )}
+
       <RegistryModal 
         isOpen={modalState.type === 'acc'} 
         onClose={() => setModalState({type:null, data:null})} 
@@ -1,10 +1,11 @@
 
 import React, { useMemo, useState } from 'react';
-import { Investment, Asset, Trade, ExchangeRates } from '../types';
+import { Investment, Asset, Trade, ExchangeRates, LotMethod } from '../types';
 import { Shield, Home, Coins, Loader2, Radio, ArrowUpRight, GraduationCap, Lock, Landmark, Briefcase, LayoutGrid, Wallet, X } from 'lucide-react';
 import { normalizeTicker } from '../services/geminiService';
 import { convertToBase, PRIMARY_CURRENCY } from '../services/currencyService';
 import { buildSyntheticPortfolio, resolveCurrentPrice, calculateHoldingValue } from '../services/investments/investmentService';
+import { summarizeLotsAcrossAccounts, HoldingLotSummary } from '../services/trades/lotService';
 import { usePriceEngine } from '../hooks/usePriceEngine';
 import { InvestmentAllocationCard } from './investments/InvestmentAllocationCard';
 import { HoldingsTable } from './investments/HoldingsTable';
@@ -16,6 +17,9 @@ interface InvestmentsListProps {
   trades?: Trade[];
   isLoading?: boolean;
   exchangeRates?: ExchangeRates;
+  lotMethod?: LotMethod;
+  // Account name or 'TOTAL' to open on arrival, e.g. from an insight.
+  initialContext?: string;
 }
 
 const getAccountVisuals = (name: string) => {
@@ -30,8 +34,8 @@ const getAccountVisuals = (name: string) => {
     return { icon: Wallet, color: 'text-blue-500 dark:text-blue-300' };
 };
 
-export const InvestmentsList: React.FC<InvestmentsListProps> = ({ investments, assets = [], trades = [], isLoading = false, exchangeRates }) => {
-  const [selectedContext, setSelectedContext] = useState<string | 'TOTAL' | null>(null);
+export const InvestmentsList: React.FC<InvestmentsListProps> = ({ investments, assets = [], trades = [], isLoading = false, exchangeRates, lotMethod = 'FIFO' as LotMethod, initialContext }) => {
+  const [selectedContext, setSelectedContext] = useState<string | 'TOTAL' | null>(initialContext ?? null);
 
   // 1. Trades Lookup Map for Drilldowns
   const tradesByTicker = useMemo(() => {
@@ -89,13 +93,17 @@ export const InvestmentsList: React.FC<InvestmentsListProps> = ({ investments, a
 
   // 6. Stats & Allocations
   const aggregatedHoldings = useMemo(() => {
-    const map = new Map<string, { ticker: string, quantity: number, price: number, totalValue: number, isLive: boolean }>();
+    const map = new Map<string, { ticker: string, quantity: number, price: number, totalValue: number, isLive: boolean, lots?: HoldingLotSummary }>();
     allInvestments.forEach(inv => {
         const ticker = normalizeTicker(inv.ticker);
         const isLive = !!livePrices[ticker];
         const price = resolveCurrentPrice(ticker, livePrices, tradesByTicker.get(ticker) || [], inv.currentPrice);
         const value = calculateHoldingValue(inv.quantity, price, inv.marketValue, isLive);
-        if (!map.has(ticker)) map.set(ticker, { ticker: inv.ticker, quantity: 0, price, totalValue: 0, isLive });
+        if (!map.has(ticker)) {
+            const tickerTrades = tradesByTicker.get(ticker);
+            const lots = tickerTrades ? summarizeLotsAcrossAccounts(ticker, tickerTrades, lotMethod, price) : undefined;
+            map.set(ticker, { ticker: inv.ticker, quantity: 0, price, totalValue: 0, isLive, lots });
+        }
         const entry = map.get(ticker)!;
         entry.quantity += inv.quantity;
         entry.totalValue += value;
@@ -103,7 +111,7 @@ export const InvestmentsList: React.FC<InvestmentsListProps> = ({ investments, a
     return Array.from(map.values())
         .filter(h => Math.abs(h.quantity) > 0.000001 || h.totalValue > 0.01)
         .sort((a, b) => b.totalValue - a.totalValue);
-  }, [allInvestments, livePrices, tradesByTicker]);
+  }, [allInvestments, livePrices, tradesByTicker, lotMethod]);
 
   const dynamicAccountAllocations = useMemo(() => {
       return groupedInvestments.map(([name, items]) => {
@@ -164,7 +172,7 @@ export const InvestmentsList: React.FC<InvestmentsListProps> = ({ investments, a
 
       <div className="min-h-[400px]">
           {selectedContext === 'TOTAL' ? (
-              <HoldingsTable holdings={aggregatedHoldings} onClose={() => setSelectedContext(null)} />
+              <HoldingsTable holdings={aggregatedHoldings} onClose={() => setSelectedContext(null)} lotMethod={lotMethod} />
           ) : selectedContext ? (
               <div className="animate-fade-in-up">
                   {groupedInvestments
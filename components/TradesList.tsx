@@ -1,14 +1,17 @@
 
 import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { Trade, TimeFocus } from '../types';
+import { Trade, TimeFocus, TradeType, LotMethod } from '../types';
 import { 
   History, Search, X, Plus, Filter, Clock,
-  ArrowRightLeft, LayoutGrid, Check, ArrowDownZA, ArrowUpAZ, Calendar
+  ArrowRightLeft, LayoutGrid, Check, ArrowDownZA, ArrowUpAZ, Calendar, FileUp, Scale, Layers
 } from 'lucide-react';
 import { filterAndProcessTrades, TradeGroup } from '../services/trades/tradeService';
+import { TRADE_TYPES, TRADE_TYPE_LABELS, getPositionKey } from '../services/trades/tradeEventService';
 import { TradeHistoryTable } from './trades/TradeHistoryTable';
 import { TradeAssetAccordion } from './trades/TradeAssetAccordion';
 import { TradeEntryModal } from './trades/TradeEntryModal';
+import { BrokerageImportModal } from './trades/BrokerageImportModal';
+import { RealizedGainsPanel } from './trades/RealizedGainsPanel';
 
 interface TradesListProps {
   trades: Trade[];
@@ -16,19 +19,23 @@ interface TradesListProps {
   onAddTrade: (trade: Trade) => Promise<void>;
   onEditTrade?: (trade: Trade) => Promise<void>;
   onDeleteTrade?: (trade: Trade) => Promise<void>;
+  onImportTrades?: (trades: Trade[]) => Promise<void>;
   isReadOnly?: boolean;
+  lotMethod?: LotMethod;
+  onLotMethodChange?: (method: LotMethod) => void;
 }
 
-type TradesViewMode = 'BY_ASSET' | 'RECENT_HISTORY';
+type TradesViewMode = 'BY_ASSET' | 'RECENT_HISTORY' | 'REALIZED_GAINS';
 type SortDirection = 'DESC' | 'ASC';
-type TypeFilter = 'ALL' | 'BUY' | 'SELL';
+type TypeFilter = 'ALL' | TradeType;
 
 export const TradesList: React.FC<TradesListProps> = ({ 
-    trades, isLoading = false, onAddTrade, onEditTrade, onDeleteTrade, isReadOnly = false 
+    trades, isLoading = false, onAddTrade, onEditTrade, onDeleteTrade, onImportTrades, isReadOnly = false, lotMethod = 'FIFO', onLotMethodChange 
 }) => {
   const [viewMode, setViewMode] = useState<TradesViewMode>('BY_ASSET');
   const [searchTerm, setSearchTerm] = useState('');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
   const [sortDir, setSortDir] = useState<SortDirection>('DESC');
   const [typeFilter, setTypeFilter] = useState<TypeFilter>('ALL');
@@ -53,8 +60,9 @@ export const TradesList: React.FC<TradesListProps> = ({
       totalVolume: trades.reduce((acc, t) => acc + Math.abs(t.total), 0)
   }), [trades]);
 
+  // Realized gains always replay the full ledger; filters only narrow the trade listings.
   const processedData = useMemo(() => 
-    filterAndProcessTrades(trades, searchTerm, typeFilter, timeFilter, viewMode, sortDir, hideExited),
+    filterAndProcessTrades(trades, searchTerm, typeFilter, timeFilter, viewMode === 'REALIZED_GAINS' ? 'RECENT_HISTORY' : viewMode, sortDir, hideExited),
     [trades, searchTerm, typeFilter, timeFilter, viewMode, sortDir, hideExited]
   );
 
@@ -78,7 +86,9 @@ export const TradesList: React.FC<TradesListProps> = ({
                 <div className="bg-white dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 flex shadow-sm">
                     <button onClick={() => setViewMode('BY_ASSET')} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${viewMode === 'BY_ASSET' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-700'}`}><LayoutGrid size={14} /> Grouped</button>
                     <button onClick={() => setViewMode('RECENT_HISTORY')} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${viewMode === 'RECENT_HISTORY' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-700'}`}><Clock size={14} /> History</button>
+                    <button onClick={() => setViewMode('REALIZED_GAINS')} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${viewMode === 'REALIZED_GAINS' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-700'}`}><Scale size={14} /> Gains</button>
                 </div>
+                {!isReadOnly && onImportTrades && <button onClick={() => setIsImportModalOpen(true)} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-blue-500 font-black uppercase text-[10px] tracking-widest px-5 py-4 rounded-2xl shadow-sm transition-all flex items-center gap-2"><FileUp size={16} /> Import</button>}
                 {!isReadOnly && <button onClick={() => setIsAddModalOpen(true)} className="bg-slate-900 dark:bg-slate-100 dark:text-slate-900 hover:opacity-90 text-white font-black uppercase text-[10px] tracking-widest px-6 py-4 rounded-2xl shadow-xl transition-all flex items-center gap-2"><Plus size={16} /> New Trade</button>}
             </div>
         </div>
@@ -95,8 +105,8 @@ export const TradesList: React.FC<TradesListProps> = ({
                     <div className="absolute right-0 top-full mt-2 w-72 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-3xl shadow-2xl z-50 p-5 animate-in fade-in zoom-in-95 duration-200">
                         <div className="space-y-6">
                             <div><p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-3 flex items-center gap-2"><ArrowRightLeft size={10}/> Action Type</p>
-                                <div className="grid grid-cols-1 gap-1">{(['ALL', 'BUY', 'SELL'] as TypeFilter[]).map(type => (
-                                    <button key={type} onClick={() => setTypeFilter(type)} className={`flex items-center justify-between px-4 py-2.5 rounded-xl text-xs font-bold transition-all ${typeFilter === type ? 'bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-900/50'}`}>{type === 'ALL' ? 'All Actions' : type === 'BUY' ? 'Buys Only' : 'Sells Only'}{typeFilter === type && <Check size={14} />}</button>))}
+                                <div className="grid grid-cols-2 gap-1">{(['ALL', ...TRADE_TYPES] as TypeFilter[]).map(type => (
+                                    <button key={type} onClick={() => setTypeFilter(type)} className={`flex items-center justify-between px-4 py-2.5 rounded-xl text-xs font-bold transition-all ${typeFilter === type ? 'bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-900/50'}`}>{type === 'ALL' ? 'All Actions' : TRADE_TYPE_LABELS[type]}{typeFilter === type && <Check size={14} />}</button>))}
                                 </div>
                             </div>
                             <div className="pt-4 border-t border-slate-100 dark:border-slate-700/50"><p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-3 flex items-center gap-2"><Calendar size={10}/> Time Window</p>
@@ -104,6 +114,11 @@ export const TradesList: React.FC<TradesListProps> = ({
                                     <button key={focus} onClick={() => setTimeFilter(focus)} className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-tighter transition-all ${timeFilter === focus ? 'bg-blue-600 text-white shadow-md' : 'bg-slate-50 dark:bg-slate-900 text-slate-500 hover:bg-slate-100'}`}>{focus === TimeFocus.FULL_YEAR ? 'All Time' : focus.replace('_', ' ')}</button>))}
                                 </div>
                             </div>
+                            {onLotMethodChange && <div className="pt-4 border-t border-slate-100 dark:border-slate-700/50"><p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-3 flex items-center gap-2"><Layers size={10}/> Lot Matching</p>
+                                <div className="grid grid-cols-2 gap-1">{(['FIFO', 'LIFO'] as LotMethod[]).map(method => (
+                                    <button key={method} onClick={() => onLotMethodChange(method)} className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-tighter transition-all ${lotMethod === method ? 'bg-blue-600 text-white shadow-md' : 'bg-slate-50 dark:bg-slate-900 text-slate-500 hover:bg-slate-100'}`}>{method}</button>))}
+                                </div>
+                            </div>}
                             <div className="pt-4 border-t border-slate-100 dark:border-slate-700/50"><label className="flex items-center justify-between cursor-pointer group"><div className="flex flex-col"><span className="text-[10px] font-black uppercase text-slate-900 dark:text-white tracking-widest">Hide Exited</span><span className="text-[9px] text-slate-400 font-medium">Active holdings only</span></div><input type="checkbox" checked={hideExited} onChange={e => setHideExited(e.target.checked)} className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500" /></label></div>
                             {(hasActiveFilters || searchTerm) && <button onClick={() => { setTypeFilter('ALL'); setTimeFilter(TimeFocus.FULL_YEAR); setHideExited(false); setSearchTerm(''); setIsFilterMenuOpen(false); }} className="w-full pt-4 border-t border-slate-100 dark:border-slate-700/50 text-center text-[10px] font-black uppercase text-red-500 hover:text-red-600 tracking-widest">Reset Filters</button>}
                         </div>
@@ -114,13 +129,16 @@ export const TradesList: React.FC<TradesListProps> = ({
         </div>
       </header>
 
-      <TradeEntryModal isOpen={isAddModalOpen || !!editingTrade} initialData={editingTrade} onClose={() => { setIsAddModalOpen(false); setEditingTrade(null); }} onSave={async (trade) => editingTrade ? onEditTrade?.(trade) : onAddTrade(trade)} />
+      <TradeEntryModal isOpen={isAddModalOpen || !!editingTrade} initialData={editingTrade} trades={trades} lotMethod={lotMethod} onClose={() => { setIsAddModalOpen(false); setEditingTrade(null); }} onSave={async (trade) => editingTrade ? onEditTrade?.(trade) : onAddTrade(trade)} />
+      {onImportTrades && <BrokerageImportModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onImport={onImportTrades} />}
 
       <div className={`space-y-6 transition-all duration-500 ${isLoading ? 'opacity-60 grayscale pointer-events-none' : 'opacity-100'}`}>
-        {viewMode === 'BY_ASSET' ? (
+        {viewMode === 'REALIZED_GAINS' ? (
+            <RealizedGainsPanel trades={trades} />
+        ) : viewMode === 'BY_ASSET' ? (
             <div className="space-y-4">
                 {(processedData as TradeGroup[]).map(group => (
-                    <TradeAssetAccordion key={group.ticker} group={group} isLoading={isLoading} onDelete={onDeleteTrade} onEdit={setEditingTrade} isReadOnly={isReadOnly} />
+                    <TradeAssetAccordion key={getPositionKey(group.ticker, group.account)} group={group} isLoading={isLoading} onDelete={onDeleteTrade} onEdit={setEditingTrade} isReadOnly={isReadOnly} lotMethod={lotMethod} />
                 ))}
             </div>
         ) : (
@@ -1,6 +1,90 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { Lightbulb, ArrowRight, BellOff, X, AlertOctagon, AlertTriangle, Sparkles, Info } from 'lucide-react';
+import { Insight, InsightLink, InsightSeverity, InsightState, IncomeEntry, Investment, NormalizedTransaction, Subscription, TaxRecord } from '../../types';
+import { generateInsights, isInsightVisible, snoozeInsight, dismissInsight } from '../../services/analytics/insightService';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { AnalyticsCard } from './AnalyticsPrimitives';
 
-/**
- * AlphaInsights component removed as per request to remove Beta and market correlation metrics.
- */
-export const AlphaInsights: React.FC<any> = () => null;
\ No newline at end of file
+interface AlphaInsightsProps {
+  timeline: NormalizedTransaction[];
+  taxRecords: TaxRecord[];
+  subscriptions: Subscription[];
+  investments: Investment[];
+  incomeData: IncomeEntry[];
+  onOpen: (link: InsightLink) => void;
+}
+
+const SNOOZE_DAYS = 7;
+
+const SEVERITY_STYLES: Record<InsightSeverity, { icon: React.ElementType; className: string; label: string }> = {
+  critical: { icon: AlertOctagon, className: 'text-rose-500 bg-rose-500/10 border-rose-500/20', label: 'Critical' },
+  warning: { icon: AlertTriangle, className: 'text-amber-500 bg-amber-500/10 border-amber-500/20', label: 'Watch' },
+  opportunity: { icon: Sparkles, className: 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20', label: 'Opportunity' },
+  info: { icon: Info, className: 'text-blue-500 bg-blue-500/10 border-blue-500/20', label: 'Note' }
+};
+
+const InsightCard: React.FC<{ insight: Insight; onOpen: () => void; onSnooze: () => void; onDismiss: () => void }> = ({ insight, onOpen, onSnooze, onDismiss }) => {
+  const style = SEVERITY_STYLES[insight.severity];
+  const Icon = style.icon;
+  return (
+    <div className="p-5 bg-slate-50 dark:bg-slate-900/30 rounded-3xl border border-slate-100 dark:border-slate-800/50 flex flex-col gap-4">
+      <div className="flex items-start justify-between gap-3">
+        <span className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest ${style.className}`}><Icon size={12} /> {style.label}</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onSnooze} title={`Snooze for ${SNOOZE_DAYS} days`} className="p-1.5 rounded-lg text-slate-400 hover:text-blue-500 hover:bg-white dark:hover:bg-slate-800 transition-all"><BellOff size={14} /></button>
+          <button onClick={onDismiss} title="Dismiss" className="p-1.5 rounded-lg text-slate-400 hover:text-rose-500 hover:bg-white dark:hover:bg-slate-800 transition-all"><X size={14} /></button>
+        </div>
+      </div>
+      <div className="space-y-1 flex-1">
+        <p className="text-sm font-black text-slate-900 dark:text-white ghost-blur">{insight.title}</p>
+        <p className="text-xs font-medium text-slate-500 dark:text-slate-400 leading-relaxed ghost-blur">{insight.detail}</p>
+      </div>
+      <button onClick={onOpen} className="self-start flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-600 transition-colors">View Source <ArrowRight size={12} /></button>
+    </div>
+  );
+};
+
+export const AlphaInsights: React.FC<AlphaInsightsProps> = ({ timeline, taxRecords, subscriptions, investments, incomeData, onOpen }) => {
+  const [states, setStates] = useIndexedDB<Record<string, InsightState>>('fintrack_insight_state', {});
+  const today = new Date().toISOString().split('T')[0];
+
+  const insights = useMemo(
+    () => generateInsights({ timeline, taxRecords, subscriptions, investments, incomeData, today }),
+    [timeline, taxRecords, subscriptions, investments, incomeData, today]
+  );
+  const visible = insights.filter(i => isInsightVisible(i, states, today));
+  const hiddenCount = insights.length - visible.length;
+
+  const restoreAll = () => setStates(prev => {
+    const next = { ...prev };
+    insights.forEach(i => delete next[i.id]);
+    return next;
+  });
+
+  if (insights.length === 0) return null;
+
+  return (
+    <AnalyticsCard title="Alpha Insights" icon={Lightbulb} subtext={`${visible.length} active`}
+      info="Findings ranked by severity, then by annual dollars at stake. Each one opens the view that backs it."
+      controls={hiddenCount > 0 && (
+        <button onClick={restoreAll} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-400 hover:text-blue-500 transition-all">
+          Restore {hiddenCount} Hidden
+        </button>
+      )}
+    >
+      {visible.length === 0 ? (
+        <p className="py-6 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">All insights dismissed or snoozed</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {visible.map(insight => (
+            <InsightCard key={insight.id} insight={insight}
+              onOpen={() => onOpen(insight.link)}
+              onSnooze={() => setStates(prev => snoozeInsight(prev, insight.id, SNOOZE_DAYS, today))}
+              onDismiss={() => setStates(prev => dismissInsight(prev, insight.id))}
+            />
+          ))}
+        </div>
+      )}
+    </AnalyticsCard>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Target } from 'lucide-react';
+import { BenchmarkDefinition } from '../../types';
+import { createCustomBenchmark, fetchBenchmarkHistory } from '../../services/analytics/benchmarkService';
+import { RegistryModal } from '../information/RegistryModal';
+
+interface BenchmarkModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existing: BenchmarkDefinition[];
+  onSave: (benchmark: BenchmarkDefinition) => void;
+}
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+export const BenchmarkModal: React.FC<BenchmarkModalProps> = ({ isOpen, onClose, existing, onSave }) => {
+  const [name, setName] = useState('');
+  const [components, setComponents] = useState('');
+  const [rebalance, setRebalance] = useState<BenchmarkDefinition['rebalance']>('MONTHLY');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const benchmark = createCustomBenchmark(name, components, rebalance, existing);
+      const probeStart = new Date();
+      probeStart.setMonth(probeStart.getMonth() - 1);
+      const probe = await fetchBenchmarkHistory(benchmark, probeStart.toISOString().split('T')[0]);
+      if (probe.length === 0) throw new Error(`No price history found for ${benchmark.components.map(c => c.ticker).join(', ')}.`);
+      onSave(benchmark);
+      setName('');
+      setComponents('');
+      onClose();
+    } catch (err: any) {
+      alert(err.message || err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <RegistryModal isOpen={isOpen} onClose={onClose} title="Custom Benchmark" icon={Target} iconColor="text-blue-500" isSubmitting={isSubmitting} onSubmit={handleSubmit} submitLabel="Add Benchmark">
+      <div className="space-y-1.5">
+        <label className={labelClass}>Tickers & Weights</label>
+        <input required value={components} onChange={e => setComponents(e.target.value)} placeholder="XIU.TO 60, ZAG.TO 40" className={`${inputClass} font-mono`} />
+        <p className="text-[10px] text-slate-400 px-1">One ticker, or a blend separated by commas. Weights are scaled to 100%.</p>
+      </div>
+      <div className="space-y-1.5">
+        <label className={labelClass}>Name</label>
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Balanced 60/40" className={inputClass} />
+      </div>
+      <div className="space-y-1.5">
+        <label className={labelClass}>Rebalancing</label>
+        <select value={rebalance} onChange={e => setRebalance(e.target.value as BenchmarkDefinition['rebalance'])} className={inputClass}>
+          <option value="MONTHLY">Monthly to target weights</option>
+          <option value="NONE">Buy and hold</option>
+        </select>
+      </div>
+    </RegistryModal>
+  );
+};
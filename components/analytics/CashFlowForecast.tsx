@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { CalendarRange, Table2, AlertTriangle, RotateCcw } from 'lucide-react';
+import { Asset, DebtEntry, ExchangeRates, LedgerData, Liability, SheetLocale, Subscription } from '../../types';
+import { formatBaseCurrency } from '../../services/currencyService';
+import { calculateDashboardAggregates } from '../../services/dashboard/dashboardService';
+import { loadLedgerHistory } from '../../services/backupService';
+import { buildCashFlowForecast, setForecastOverride, isInflow, ForecastOverrides, ForecastSource, LedgerYear } from '../../services/ledger/forecastService';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { AnalyticsCard, StatHighlight, StandardTooltip } from './AnalyticsPrimitives';
+
+interface CashFlowForecastProps {
+  assets: Asset[];
+  exchangeRates?: ExchangeRates;
+  subscriptions: Subscription[];
+  liabilities: Liability[];
+  debtEntries: DebtEntry[];
+  // The open year's ledgers, which may hold edits not yet written back to local storage.
+  detailedExpenses?: LedgerData;
+  detailedIncome?: LedgerData;
+  selectedYear: number;
+  locale?: SheetLocale;
+}
+
+// A null starting balance falls back to the cash held across accounts.
+interface ForecastSettings {
+  startingBalance: number | null;
+  overrides: ForecastOverrides;
+}
+
+const DEFAULT_SETTINGS: ForecastSettings = { startingBalance: null, overrides: {} };
+
+const SOURCE_LABELS: Record<ForecastSource, string> = {
+  INCOME: 'Recurring Income',
+  SUBSCRIPTION: 'Subscriptions',
+  DEBT: 'Debt Payments',
+  SPENDING: 'Seasonal Spending'
+};
+
+const compactCurrency = (v: number) => `$${Math.abs(v) >= 1000 ? `${(v / 1000).toFixed(1)}k` : v.toFixed(0)}`;
+
+const OverrideCell: React.FC<{ value: number; overridden: boolean; onCommit: (v: number | undefined) => void }> = ({ value, overridden, onCommit }) => {
+  const [draft, setDraft] = useState(Math.round(value).toString());
+  useEffect(() => setDraft(Math.round(value).toString()), [value]);
+
+  const commit = () => {
+    if (draft.trim() === '') return onCommit(undefined);
+    const num = parseFloat(draft);
+    if (isNaN(num) || num === Math.round(value)) return setDraft(Math.round(value).toString());
+    onCommit(num);
+  };
+
+  return (
+    <input type="text" inputMode="decimal" value={draft} onChange={e => setDraft(e.target.value)} onBlur={commit}
+      onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      title={overridden ? 'Overridden. Clear the cell to restore the forecast.' : undefined}
+      className={`w-20 text-right px-2 py-1.5 rounded-lg font-mono text-xs outline-none border transition-all ${overridden ? 'bg-amber-500/10 border-amber-500/40 text-amber-600 dark:text-amber-400 font-bold' : 'bg-transparent border-transparent hover:border-slate-200 dark:hover:border-slate-700 focus:border-blue-500 text-slate-600 dark:text-slate-300'}`} />
+  );
+};
+
+export const CashFlowForecast: React.FC<CashFlowForecastProps> = ({ assets, exchangeRates, subscriptions, liabilities, debtEntries, detailedExpenses, detailedIncome, selectedYear, locale }) => {
+  const [settings, setSettings] = useIndexedDB<ForecastSettings>('fintrack_cash_flow_forecast', DEFAULT_SETTINGS);
+  const [storedHistory, setStoredHistory] = useState<LedgerYear[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLedgerHistory().then(h => { if (!cancelled) setStoredHistory(h); }).catch(err => console.error('Failed to load ledger history', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  const history = useMemo(() => [
+    ...storedHistory.filter(h => h.year !== selectedYear),
+    { year: selectedYear, expenses: detailedExpenses, income: detailedIncome }
+  ], [storedHistory, selectedYear, detailedExpenses, detailedIncome]);
+
+  const cashOnHand = useMemo(() => calculateDashboardAggregates(assets, exchangeRates).totalCash, [assets, exchangeRates]);
+
+  const forecast = useMemo(() => buildCashFlowForecast({
+    history,
+    subscriptions,
+    liabilities,
+    debtEntries,
+    startingBalance: settings.startingBalance ?? cashOnHand,
+    overrides: settings.overrides,
+    locale
+  }), [history, subscriptions, liabilities, debtEntries, settings, cashOnHand, locale]);
+
+  const { months, lines } = forecast;
+  const shortfalls = months.filter(m => m.shortfall);
+  const netChange = months.reduce((sum, m) => sum + m.surplus, 0);
+  const overrideCount = Object.values(settings.overrides).reduce((sum, set) => sum + Object.keys(set).length, 0);
+
+  const handleOverride = (lineId: string, month: string) => (value: number | undefined) =>
+    setSettings(prev => ({ ...prev, overrides: setForecastOverride(prev.overrides, lineId, month, value) }));
+
+  const groups = (Object.keys(SOURCE_LABELS) as ForecastSource[])
+    .map(source => ({ source, lines: lines.filter(l => l.source === source) }))
+    .filter(g => g.lines.length > 0);
+
+  return (
+    <div className="space-y-10">
+      <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatHighlight label="Starting Cash" value={forecast.startingBalance} variant="info" subValue={settings.startingBalance === null ? 'Cash across accounts' : 'Manual'} />
+        <StatHighlight label="12-Month Net" value={netChange} variant={netChange >= 0 ? 'success' : 'danger'} />
+        <StatHighlight label="Projected Balance" value={months[months.length - 1]?.balance ?? 0} subValue={months[months.length - 1]?.label} />
+        <StatHighlight label="Shortfall Months" value={shortfalls.length.toString()} isCurrency={false}
+          subValue={shortfalls.length > 0 ? `First: ${shortfalls[0].label}` : 'Balance stays positive'} variant={shortfalls.length > 0 ? 'danger' : 'success'} />
+      </section>
+
+      <AnalyticsCard title="Cash Flow Forecast" icon={CalendarRange} className="h-[450px]" subtext="Next 12 months · bars show monthly surplus"
+        info="Built from recurring income, active subscriptions, debt schedules and seasonal averages of past spending."
+        controls={
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Start
+            <input type="number" step="100" value={settings.startingBalance ?? ''} placeholder={Math.round(cashOnHand).toString()}
+              onChange={e => setSettings(prev => ({ ...prev, startingBalance: e.target.value === '' ? null : parseFloat(e.target.value) }))}
+              className="w-28 bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 font-mono text-xs outline-none focus:border-blue-500 text-slate-900 dark:text-white" />
+          </label>
+        }>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={months}>
+            <CartesianGrid vertical={false} opacity={0.05} />
+            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} tickFormatter={compactCurrency} />
+            <Tooltip content={<StandardTooltip />} formatter={(v: number) => formatBaseCurrency(v)} />
+            <Legend iconSize={8} wrapperStyle={{ fontSize: '10px', paddingTop: '10px' }} />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            <Bar dataKey="surplus" name="Surplus" radius={[4, 4, 0, 0]}>
+              {months.map(m => <Cell key={m.month} fill={m.surplus < 0 ? '#ef4444' : '#10b981'} />)}
+            </Bar>
+            <Line type="monotone" dataKey="balance" name="Cash Balance" stroke="#3b82f6" strokeWidth={3}
+              dot={(props: any) => <circle key={props.index} cx={props.cx} cy={props.cy} r={props.payload.shortfall ? 5 : 3} fill={props.payload.shortfall ? '#ef4444' : '#3b82f6'} />} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </AnalyticsCard>
+
+      <AnalyticsCard title="Forecast Lines" icon={Table2} subtext="Edit any cell to override it; clear a cell to restore the forecast"
+        controls={overrideCount > 0 && (
+          <button onClick={() => setSettings(prev => ({ ...prev, overrides: {} }))} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] bg-amber-500/10 text-amber-600 dark:text-amber-400 rounded-xl font-black uppercase transition-all hover:bg-amber-500/20">
+            <RotateCcw size={10} /> Reset {overrideCount} override{overrideCount === 1 ? '' : 's'}
+          </button>
+        )}>
+        {lines.length > 0 ? (
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  <th className="p-2 sticky left-0 bg-white dark:bg-slate-800 min-w-[180px]">Line</th>
+                  {months.map(m => <th key={m.month} className="p-2 text-right">{m.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => (
+                  <React.Fragment key={group.source}>
+                    <tr>
+                      <td colSpan={months.length + 1} className={`pt-4 pb-1 px-2 text-[10px] font-black uppercase tracking-widest ${group.source === 'INCOME' ? 'text-emerald-500' : 'text-rose-500'}`}>{SOURCE_LABELS[group.source]}</td>
+                    </tr>
+                    {group.lines.map(line => (
+                      <tr key={line.id} className="border-t border-slate-100 dark:border-slate-800/50">
+                        <td className="p-2 font-bold text-slate-700 dark:text-slate-200 truncate max-w-[220px] sticky left-0 bg-white dark:bg-slate-800" title={line.label}>
+                          {isInflow(line) ? '+' : '−'} {line.label}
+                        </td>
+                        {months.map((m, i) => (
+                          <td key={m.month} className="p-1 text-right">
+                            <OverrideCell value={line.values[i]} overridden={line.overridden[i]} onCommit={handleOverride(line.id, m.month)} />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+                <tr className="border-t-2 border-slate-200 dark:border-slate-700 font-black">
+                  <td className="p-2 sticky left-0 bg-white dark:bg-slate-800 text-[10px] uppercase tracking-widest text-slate-400">Cash Balance</td>
+                  {months.map(m => (
+                    <td key={m.month} className={`p-2 text-right font-mono ${m.shortfall ? 'text-rose-500' : 'text-slate-900 dark:text-white'}`}>
+                      <span className="inline-flex items-center gap-1">{m.shortfall && <AlertTriangle size={10} />}{compactCurrency(m.balance)}</span>
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-12 text-center text-slate-400 opacity-40 uppercase text-xs font-black">No ledger history, subscriptions or debts to forecast from</div>
+        )}
+      </AnalyticsCard>
+    </div>
+  );
+};
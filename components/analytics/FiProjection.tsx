@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Telescope, SlidersHorizontal } from 'lucide-react';
+import { Asset, ExchangeRates, IncomeEntry, ExpenseEntry, PortfolioLogEntry, Trade, TimeFocus } from '../../types';
+import { formatBaseCurrency } from '../../services/currencyService';
+import { calculateDashboardAggregates } from '../../services/dashboard/dashboardService';
+import { processPortfolioHistory, calculatePortfolioAttribution } from '../../services/portfolioMath';
+import { calculateVolatility } from '../../services/math/quant';
+import { deriveMonthlySavings, runFiProjection } from '../../services/math/monteCarlo';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { AnalyticsCard, StatHighlight, StandardTooltip } from './AnalyticsPrimitives';
+
+interface FiProjectionProps {
+  assets: Asset[];
+  exchangeRates?: ExchangeRates;
+  portfolioHistory: PortfolioLogEntry[];
+  trades: Trade[];
+  incomeData: IncomeEntry[];
+  expenseData: ExpenseEntry[];
+}
+
+// Null overrides fall back to the measured value.
+interface FiProjectionSettings {
+  currentAge: number;
+  targetAge: number;
+  annualSpending: number;
+  withdrawalRate: number;
+  inflation: number;
+  horizonYears: number;
+  expectedReturn: number | null;
+  volatility: number | null;
+  monthlyContribution: number | null;
+}
+
+const DEFAULT_SETTINGS: FiProjectionSettings = {
+  currentAge: 35,
+  targetAge: 55,
+  annualSpending: 60000,
+  withdrawalRate: 4,
+  inflation: 2.5,
+  horizonYears: 40,
+  expectedReturn: null,
+  volatility: null,
+  monthlyContribution: null
+};
+
+const FALLBACK_RETURN = 6;
+const FALLBACK_VOLATILITY = 12;
+const SIMULATIONS = 1000;
+
+const compactCurrency = (v: number) => `$${Math.abs(v) >= 1e6 ? `${(v / 1e6).toFixed(1)}M` : `${(v / 1e3).toFixed(0)}k`}`;
+
+const Field: React.FC<{ label: string; value: number | null; placeholder?: string; step?: string; onChange: (v: number | null) => void; nullable?: boolean }> = ({ label, value, placeholder, step = '1', onChange, nullable }) => (
+  <label className="space-y-1.5">
+    <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">{label}</span>
+    <input type="number" step={step} value={value ?? ''} placeholder={placeholder}
+      onChange={e => onChange(e.target.value === '' ? (nullable ? null : 0) : parseFloat(e.target.value))}
+      className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-mono font-bold outline-none focus:border-blue-500 transition-all text-slate-900 dark:text-white" />
+  </label>
+);
+
+export const FiProjection: React.FC<FiProjectionProps> = ({ assets, exchangeRates, portfolioHistory, trades, incomeData, expenseData }) => {
+  const [settings, setSettings] = useIndexedDB<FiProjectionSettings>('fintrack_fi_projection', DEFAULT_SETTINGS);
+  const update = <K extends keyof FiProjectionSettings>(key: K) => (value: FiProjectionSettings[K]) => setSettings(prev => ({ ...prev, [key]: value }));
+
+  const investable = useMemo(() => {
+    const { totalInvestments, totalCash } = calculateDashboardAggregates(assets, exchangeRates);
+    return totalInvestments + totalCash;
+  }, [assets, exchangeRates]);
+
+  // Measured defaults: time-weighted return and volatility over the full portfolio log, savings from the ledger.
+  const measured = useMemo(() => {
+    const { data } = processPortfolioHistory(portfolioHistory, TimeFocus.FULL_YEAR);
+    const attribution = calculatePortfolioAttribution(data, trades, TimeFocus.FULL_YEAR);
+    const volatility = calculateVolatility(data);
+    return {
+      expectedReturn: attribution?.timeWeighted?.annualized ?? FALLBACK_RETURN,
+      volatility: volatility > 0 ? volatility : FALLBACK_VOLATILITY,
+      monthlyContribution: deriveMonthlySavings(incomeData, expenseData)
+    };
+  }, [portfolioHistory, trades, incomeData, expenseData]);
+
+  const inputs = useMemo(() => ({
+    startingAssets: investable,
+    monthlyContribution: settings.monthlyContribution ?? measured.monthlyContribution,
+    expectedReturn: settings.expectedReturn ?? measured.expectedReturn,
+    volatility: settings.volatility ?? measured.volatility,
+    inflation: settings.inflation,
+    annualSpending: settings.annualSpending,
+    withdrawalRate: settings.withdrawalRate,
+    currentAge: settings.currentAge,
+    targetAge: settings.targetAge,
+    horizonYears: settings.horizonYears,
+    simulations: SIMULATIONS
+  }), [investable, settings, measured]);
+
+  const result = useMemo(() => runFiProjection(inputs), [inputs]);
+
+  const chartData = useMemo(() => result.bands.map(b => ({
+    age: b.age,
+    outer: [b.p10, b.p90],
+    inner: [b.p25, b.p75],
+    median: b.p50
+  })), [result]);
+
+  return (
+    <div className="space-y-10">
+      <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatHighlight label="Investable Today" value={investable} variant="info" />
+        <StatHighlight label="FI Number" value={Number.isFinite(result.fiNumber) ? result.fiNumber : 0} subValue={`${settings.withdrawalRate}% withdrawal`} />
+        <StatHighlight label={`FI by Age ${settings.targetAge}`} value={`${result.probabilityByTargetAge.toFixed(0)}%`} isCurrency={false} subValue={`${SIMULATIONS.toLocaleString()} simulations`}
+          variant={result.probabilityByTargetAge >= 75 ? 'success' : result.probabilityByTargetAge >= 40 ? 'default' : 'danger'} />
+        <StatHighlight label="Median FI Date" value={result.medianFiDate || 'Beyond horizon'} isCurrency={false}
+          subValue={result.medianMonthsToFi !== null ? `Age ${(settings.currentAge + result.medianMonthsToFi / 12).toFixed(1)}` : `${result.probabilityWithinHorizon.toFixed(0)}% within ${settings.horizonYears} yrs`} variant="info" />
+      </section>
+
+      <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
+        <AnalyticsCard title="Assumptions" icon={SlidersHorizontal} className="xl:col-span-4"
+          info="Blank return, volatility and contribution fields use the measured values shown as placeholders.">
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Current Age" value={settings.currentAge} onChange={v => update('currentAge')(v ?? 0)} />
+            <Field label="Target Age" value={settings.targetAge} onChange={v => update('targetAge')(v ?? 0)} />
+            <Field label="Annual Spending" value={settings.annualSpending} step="1000" onChange={v => update('annualSpending')(v ?? 0)} />
+            <Field label="Withdrawal %" value={settings.withdrawalRate} step="0.1" onChange={v => update('withdrawalRate')(v ?? 0)} />
+            <Field label="Expected Return %" value={settings.expectedReturn} step="0.1" placeholder={measured.expectedReturn.toFixed(1)} nullable onChange={update('expectedReturn')} />
+            <Field label="Volatility %" value={settings.volatility} step="0.1" placeholder={measured.volatility.toFixed(1)} nullable onChange={update('volatility')} />
+            <Field label="Monthly Savings" value={settings.monthlyContribution} step="100" placeholder={Math.round(measured.monthlyContribution).toString()} nullable onChange={update('monthlyContribution')} />
+            <Field label="Inflation %" value={settings.inflation} step="0.1" onChange={v => update('inflation')(v ?? 0)} />
+            <Field label="Horizon (yrs)" value={settings.horizonYears} onChange={v => update('horizonYears')(Math.min(60, Math.max(1, v ?? 1)))} />
+          </div>
+        </AnalyticsCard>
+
+        <AnalyticsCard title="Net Worth Projection" icon={Telescope} className="xl:col-span-8 h-[550px]" subtext="Today's dollars · 10th–90th percentile bands">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid vertical={false} opacity={0.05} />
+              <XAxis dataKey="age" axisLine={false} tickLine={false} tick={{ fontSize: 9, fill: '#94a3b8' }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 9, fill: '#cbd5e1' }} tickFormatter={compactCurrency} />
+              <Tooltip content={<StandardTooltip />} formatter={(v: number | number[]) => Array.isArray(v) ? `${formatBaseCurrency(v[0])} – ${formatBaseCurrency(v[1])}` : formatBaseCurrency(v)} />
+              <Area type="monotone" dataKey="outer" name="10th–90th" stroke="none" fill="#3b82f6" fillOpacity={0.1} />
+              <Area type="monotone" dataKey="inner" name="25th–75th" stroke="none" fill="#3b82f6" fillOpacity={0.2} />
+              <Line type="monotone" dataKey="median" name="Median" stroke="#3b82f6" strokeWidth={3} dot={false} />
+              {Number.isFinite(result.fiNumber) && <ReferenceLine y={result.fiNumber} stroke="#10b981" strokeDasharray="5 5" label={{ value: 'FI', fill: '#10b981', fontSize: 10, fontWeight: 900, position: 'insideTopLeft' }} />}
+              <ReferenceLine x={settings.targetAge} stroke="#f59e0b" strokeDasharray="3 3" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </AnalyticsCard>
+      </div>
+    </div>
+  );
+};
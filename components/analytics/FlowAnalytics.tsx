@@ -1,6 +1,6 @@
 
-import React, { useMemo, useState } from 'react';
-import { NormalizedTransaction, TimeFocus, CustomDateRange, IncomeEntry, ExpenseEntry } from '../../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { NormalizedTransaction, TimeFocus, CustomDateRange, IncomeEntry, ExpenseEntry, InsightLink } from '../../types';
 import { 
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Line, Area, BarChart, Bar, Cell, LabelList
 } from 'recharts';
@@ -16,16 +16,25 @@ interface FlowAnalyticsProps {
   expenseData: ExpenseEntry[];
   timeFocus: TimeFocus;
   customRange: CustomDateRange;
+  focus?: InsightLink['flowFocus'];
 }
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1', '#14b8a6', '#f97316'];
 
-export const FlowAnalytics: React.FC<FlowAnalyticsProps> = ({ timeline, incomeData, expenseData, timeFocus, customRange }) => {
+export const FlowAnalytics: React.FC<FlowAnalyticsProps> = ({ timeline, incomeData, expenseData, timeFocus, customRange, focus }) => {
   const [drillPath, setDrillPath] = useState<string[]>([]);
   const [activeType, setActiveType] = useState<'EXPENSE' | 'INCOME'>('EXPENSE');
   const [sortMode, setSortMode] = useState<'TOTAL' | 'VARIANCE'>('TOTAL');
   const [isComparisonMode, setIsComparisonMode] = useState(false);
 
+  // An opened insight drills to its category with the prior window alongside.
+  useEffect(() => {
+    if (!focus) return;
+    setActiveType(focus.type);
+    setDrillPath(focus.path);
+    setIsComparisonMode(true);
+  }, [focus]);
+
   const temporalWindows = useMemo(() => getTemporalWindows(timeFocus, customRange), [timeFocus, customRange]);
 
   const periodStats = useMemo(() => {
@@ -1,15 +1,19 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { PortfolioLogEntry, TimeFocus, CustomDateRange, Trade, Investment } from '../../types';
+import { PortfolioLogEntry, TimeFocus, CustomDateRange, Trade, Investment, PeriodReturn, BenchmarkDefinition } from '../../types';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, BarChart, Bar, Cell, LabelList } from 'recharts';
-import { Zap, Target, BarChart3 } from 'lucide-react';
+import { Zap, Target, BarChart3, Plus, X, Loader2 } from 'lucide-react';
 import { formatBaseCurrency } from '../../services/currencyService';
 import { processPortfolioHistory, calculatePortfolioAttribution } from '../../services/portfolioMath';
 import { calculateMaxDrawdown, calculateGrowthVelocity } from '../../services/math/financialMath';
 import { transformWaterfallData, transformBenchmarkComparison } from '../../services/analytics/transformers';
-import { fetchHistoricalPrices } from '../../services/priceService';
+import { DEFAULT_BENCHMARKS, fetchBenchmarkHistory } from '../../services/analytics/benchmarkService';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
 import { normalizeTicker } from '../../services/geminiService';
+import { normalizeAccountName } from '../../services/trades/tradeEventService';
 import { AnalyticsCard, StatHighlight, StandardTooltip } from './AnalyticsPrimitives';
+import { RiskMetrics } from './RiskMetrics';
+import { BenchmarkModal } from './BenchmarkModal';
 
 interface PortfolioAnalyticsProps {
   history: PortfolioLogEntry[];
@@ -19,14 +23,28 @@ interface PortfolioAnalyticsProps {
   customRange: CustomDateRange;
 }
 
+const formatReturn = (val: number | null | undefined) => val === null || val === undefined ? '—' : `${val >= 0 ? '+' : ''}${val.toFixed(2)}%`;
+const returnVariant = (val: number | null | undefined) => val === null || val === undefined ? 'default' : val >= 0 ? 'success' : 'danger';
+
+const ReturnStats: React.FC<{ label: string; result?: PeriodReturn | null }> = ({ label, result }) => (
+  <>
+    <StatHighlight label={`${label} Annualized`} value={formatReturn(result?.annualized)} isCurrency={false} variant={returnVariant(result?.annualized)} subValue={result && result.annualized === null ? 'Window under 1 year' : undefined} />
+    <StatHighlight label={`${label} Cumulative`} value={formatReturn(result?.cumulative)} isCurrency={false} variant={returnVariant(result?.cumulative)} subValue={result ? `${Math.round(result.days)} days` : 'Not enough data'} />
+  </>
+);
+
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1', '#14b8a6', '#f97316'];
-const BENCHMARKS = [{ id: 'SPY', name: 'S&P 500', color: '#10b981' }, { id: 'XIU.TO', name: 'TSX 60', color: '#ef4444' }, { id: 'QQQ', name: 'Nasdaq 100', color: '#8b5cf6' }];
 
 export const PortfolioAnalytics: React.FC<PortfolioAnalyticsProps> = ({ history, trades, investments, timeFocus, customRange }) => {
   const [selectedBenchmark, setSelectedBenchmark] = useState('SPY');
   const [selectedAccount, setSelectedAccount] = useState('TOTAL');
   const [benchmarkHistory, setBenchmarkHistory] = useState<{date: string, price: number}[]>([]);
   const [isFetchingBenchmark, setIsFetchingBenchmark] = useState(false);
+  const [isBenchmarkModalOpen, setIsBenchmarkModalOpen] = useState(false);
+  const [customBenchmarks, setCustomBenchmarks] = useIndexedDB<BenchmarkDefinition[]>('fintrack_custom_benchmarks', []);
+
+  const benchmarks = useMemo(() => [...DEFAULT_BENCHMARKS, ...customBenchmarks], [customBenchmarks]);
+  const activeBenchmark = benchmarks.find(b => b.id === selectedBenchmark) || benchmarks[0];
 
   const { data: rawData, accountKeys } = useMemo(() => processPortfolioHistory(history, timeFocus, customRange), [history, timeFocus, customRange]);
   
@@ -52,15 +70,19 @@ export const PortfolioAnalytics: React.FC<PortfolioAnalyticsProps> = ({ history,
   const accountTrades = useMemo(() => {
     if (selectedAccount === 'TOTAL') return trades;
     
+    const account = normalizeAccountName(selectedAccount);
+
     // 1. Identify all tickers held in this specific account
     const tickersInAccount = new Set(
         investments
-            .filter(i => (i.accountName || '').toUpperCase() === selectedAccount.toUpperCase())
+            .filter(i => normalizeAccountName(i.accountName) === account)
             .map(i => normalizeTicker(i.ticker))
     );
     
-    // 2. Filter trades to only include those relevant tickers
-    return trades.filter(t => tickersInAccount.has(normalizeTicker(t.ticker)));
+    // 2. Trades carrying an account belong to it outright; older trades without one fall back to the ticker match
+    return trades.filter(t => t.account?.trim()
+        ? normalizeAccountName(t.account) === account
+        : tickersInAccount.has(normalizeTicker(t.ticker)));
   }, [trades, selectedAccount, investments]);
 
   const attribution = useMemo(() => 
@@ -70,17 +92,34 @@ export const PortfolioAnalytics: React.FC<PortfolioAnalyticsProps> = ({ history,
 
   const waterfallData = useMemo(() => transformWaterfallData(attribution), [attribution]);
 
+  const windowStart = rawData[0]?.date;
+
   useEffect(() => {
-    if (accountAwareData.length === 0) return;
+    if (!windowStart) return;
+    let cancelled = false;
     setIsFetchingBenchmark(true);
-    fetchHistoricalPrices(selectedBenchmark, accountAwareData[0].date).then(p => { 
+    fetchBenchmarkHistory(activeBenchmark, windowStart).then(p => { 
+        if (cancelled) return;
         setBenchmarkHistory(p); 
         setIsFetchingBenchmark(false); 
     });
-  }, [selectedBenchmark, accountAwareData]);
+    return () => { cancelled = true; };
+  }, [activeBenchmark, windowStart]);
 
   const comparisonData = useMemo(() => transformBenchmarkComparison(accountAwareData, benchmarkHistory), [accountAwareData, benchmarkHistory]);
 
+  // Window return of each account against the same benchmark, for the scope chips.
+  const accountComparisons = useMemo(() => ['TOTAL', ...accountKeys].map(k => {
+      const series = rawData.map(e => ({ date: e.date, totalValue: k === 'TOTAL' ? e.totalValue : e.accounts[k] || 0 }));
+      const last = transformBenchmarkComparison(series, benchmarkHistory).pop();
+      return { account: k, excess: last ? last.portfolio - last.benchmark : null };
+  }), [rawData, accountKeys, benchmarkHistory]);
+
+  const removeBenchmark = (id: string) => {
+      setCustomBenchmarks(prev => prev.filter(b => b.id !== id));
+      if (selectedBenchmark === id) setSelectedBenchmark(DEFAULT_BENCHMARKS[0].id);
+  };
+
   const renderWaterfallLabel = (props: any) => {
     const { x, y, width, value, index } = props;
     const item = waterfallData[index];
@@ -104,6 +143,11 @@ export const PortfolioAnalytics: React.FC<PortfolioAnalyticsProps> = ({ history,
             <StatHighlight label="Avg Velocity" value={stats?.velocity || 0} subValue="/ day" variant="info" />
         </section>
 
+        <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <ReturnStats label="XIRR" result={attribution?.moneyWeighted} />
+            <ReturnStats label="TWR" result={attribution?.timeWeighted} />
+        </section>
+
         <AnalyticsCard title="Performance Waterfall" icon={Zap} className="h-[550px]" subtext={`${selectedAccount} Allocation Bridge`}
             controls={<select value={selectedAccount} onChange={(e) => setSelectedAccount(e.target.value)} className="bg-slate-100 dark:bg-slate-900 text-[10px] font-black uppercase px-4 py-2 rounded-xl outline-none border border-slate-200 dark:border-slate-700">{accountKeys.map(k => <option key={k} value={k}>{k}</option>).concat(<option key="TOTAL" value="TOTAL">Full Portfolio</option>)}</select>}
         >
@@ -121,19 +165,44 @@ export const PortfolioAnalytics: React.FC<PortfolioAnalyticsProps> = ({ history,
         </AnalyticsCard>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            <AnalyticsCard title="Relative Benchmarking" icon={Target} className="h-[450px]"
-                controls={<div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-xl border border-slate-200 dark:border-slate-700 shadow-inner">{BENCHMARKS.map(b => <button key={b.id} onClick={() => setSelectedBenchmark(b.id)} className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${selectedBenchmark === b.id ? 'bg-white dark:bg-slate-700 text-blue-500 shadow-sm' : 'text-slate-400'}`}>{b.name}</button>)}</div>}
+            <AnalyticsCard title="Relative Benchmarking" icon={Target} className="h-[450px]" subtext={`${selectedAccount === 'TOTAL' ? 'Full Portfolio' : selectedAccount} vs ${activeBenchmark.name}`}
+                controls={
+                    <div className="flex flex-wrap items-center gap-2">
+                        {isFetchingBenchmark && <Loader2 size={14} className="animate-spin text-blue-500" />}
+                        <div className="flex flex-wrap bg-slate-100 dark:bg-slate-900 p-1 rounded-xl border border-slate-200 dark:border-slate-700 shadow-inner">
+                            {benchmarks.map(b => (
+                                <span key={b.id} className={`flex items-center rounded-lg transition-all ${selectedBenchmark === b.id ? 'bg-white dark:bg-slate-700 shadow-sm' : ''}`}>
+                                    <button onClick={() => setSelectedBenchmark(b.id)} title={b.components.map(c => `${Math.round(c.weight * 100)}% ${c.ticker}`).join(' / ')} className={`px-3 py-1 text-[9px] font-black uppercase tracking-widest ${selectedBenchmark === b.id ? 'text-blue-500' : 'text-slate-400'}`}>{b.name}</button>
+                                    {b.isCustom && <button onClick={() => removeBenchmark(b.id)} title="Remove benchmark" className="pr-2 text-slate-300 hover:text-rose-500"><X size={10} /></button>}
+                                </span>
+                            ))}
+                        </div>
+                        <button onClick={() => setIsBenchmarkModalOpen(true)} title="Add custom benchmark" className="p-2 rounded-xl bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-400 hover:text-blue-500 transition-all"><Plus size={12} /></button>
+                    </div>
+                }
             >
-                <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={comparisonData}>
-                        <CartesianGrid vertical={false} opacity={0.05} />
-                        <XAxis dataKey="date" hide />
-                        <YAxis axisLine={false} tickLine={false} tick={{fontSize: 9, fill: '#cbd5e1'}} tickFormatter={(v) => `${v.toFixed(0)}%`} />
-                        <Tooltip content={<StandardTooltip />} formatter={(v: number) => [`${Math.round(v)}%`, 'Return']} />
-                        <Line type="monotone" dataKey="portfolio" name="Our Strategy" stroke="#3b82f6" strokeWidth={4} dot={false} />
-                        <Line type="monotone" dataKey="benchmark" name="Index" stroke={BENCHMARKS.find(b=>b.id===selectedBenchmark)?.color} strokeWidth={2} strokeDasharray="5 5" dot={false} />
-                    </LineChart>
-                </ResponsiveContainer>
+                <div className="h-full flex flex-col gap-4">
+                    <div className="flex-1 min-h-0">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={comparisonData}>
+                                <CartesianGrid vertical={false} opacity={0.05} />
+                                <XAxis dataKey="date" hide />
+                                <YAxis axisLine={false} tickLine={false} tick={{fontSize: 9, fill: '#cbd5e1'}} tickFormatter={(v) => `${v.toFixed(0)}%`} />
+                                <Tooltip content={<StandardTooltip />} formatter={(v: number) => [`${Math.round(v)}%`, 'Return']} />
+                                <Line type="monotone" dataKey="portfolio" name="Our Strategy" stroke="#3b82f6" strokeWidth={4} dot={false} />
+                                <Line type="monotone" dataKey="benchmark" name={activeBenchmark.name} stroke={activeBenchmark.color} strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {accountComparisons.map(c => (
+                            <button key={c.account} onClick={() => setSelectedAccount(c.account)} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${selectedAccount === c.account ? 'bg-blue-600 text-white border-blue-600' : 'bg-slate-50 dark:bg-slate-900 text-slate-500 border-slate-200 dark:border-slate-700'}`}>
+                                {c.account === 'TOTAL' ? 'Full Portfolio' : c.account}
+                                <span className={`font-mono ghost-blur ${selectedAccount === c.account ? '' : c.excess === null ? 'text-slate-400' : c.excess >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{formatReturn(c.excess)}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
             </AnalyticsCard>
 
             <AnalyticsCard title="Equity Trail" icon={BarChart3} className="h-[450px]">
@@ -148,6 +217,10 @@ export const PortfolioAnalytics: React.FC<PortfolioAnalyticsProps> = ({ history,
                 </ResponsiveContainer>
             </AnalyticsCard>
         </div>
+
+        <RiskMetrics data={rawData} accountKeys={accountKeys} benchmarkHistory={benchmarkHistory} benchmarkName={activeBenchmark.name} />
+
+        <BenchmarkModal isOpen={isBenchmarkModalOpen} onClose={() => setIsBenchmarkModalOpen(false)} existing={customBenchmarks} onSave={b => { setCustomBenchmarks(prev => [...prev, b]); setSelectedBenchmark(b.id); }} />
     </div>
   );
 };
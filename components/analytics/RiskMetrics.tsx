@@ -1,6 +1,84 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ProcessedPortfolioEntry } from '../../types';
+import { calculateRiskProfile, RiskProfile } from '../../services/math/quant';
+import { calculateMaxDrawdown } from '../../services/math/financialMath';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { AnalyticsCard } from './AnalyticsPrimitives';
 
-/**
- * RiskMetrics component removed as per request to remove Sharpe Ratio, XIRR, and Portfolio Beta.
- */
-export const RiskMetrics: React.FC<any> = () => null;
\ No newline at end of file
+interface RiskMetricsProps {
+  data: ProcessedPortfolioEntry[];
+  accountKeys: string[];
+  benchmarkHistory: { date: string; price: number }[];
+  benchmarkName: string;
+}
+
+const ratio = (val: number | null) => val === null ? '—' : val.toFixed(2);
+const pct = (val: number | null) => val === null ? '—' : `${val.toFixed(2)}%`;
+
+const COLUMNS: { label: string; info: string; render: (p: RiskProfile) => string; tone?: (p: RiskProfile) => number | null }[] = [
+  { label: 'CAGR', info: 'Annualized growth of the valuation series', render: p => pct(p.annualizedReturn), tone: p => p.annualizedReturn },
+  { label: 'Volatility', info: 'Annualized standard deviation of period returns', render: p => pct(p.volatility) },
+  { label: 'Downside Dev.', info: 'Annualized deviation of returns below the risk-free rate', render: p => pct(p.downsideDeviation) },
+  { label: 'Sharpe', info: 'Excess return per unit of volatility', render: p => ratio(p.sharpe), tone: p => p.sharpe },
+  { label: 'Sortino', info: 'Excess return per unit of downside deviation', render: p => ratio(p.sortino), tone: p => p.sortino },
+  { label: 'Max DD', info: 'Deepest peak-to-trough decline', render: p => pct(p.maxDrawdown) },
+  { label: 'Calmar', info: 'Annualized return over maximum drawdown', render: p => ratio(p.calmar), tone: p => p.calmar },
+  { label: 'Beta', info: 'Sensitivity to benchmark moves', render: p => ratio(p.beta) },
+  { label: 'Correlation', info: 'Co-movement with the benchmark', render: p => ratio(p.correlation) },
+  { label: 'Tracking Err.', info: 'Annualized deviation of returns from the benchmark', render: p => pct(p.trackingError) }
+];
+
+export const RiskMetrics: React.FC<RiskMetricsProps> = ({ data, accountKeys, benchmarkHistory, benchmarkName }) => {
+  const [riskFreeRate, setRiskFreeRate] = useIndexedDB<number>('fintrack_risk_free_rate', 3);
+
+  const rows = useMemo(() => {
+    const series = [
+      { key: 'TOTAL', label: 'Full Portfolio', points: data.map(e => ({ date: e.date, totalValue: e.totalValue })) },
+      ...accountKeys.map(k => ({ key: k, label: k, points: data.map(e => ({ date: e.date, totalValue: e.accounts[k] || 0 })) }))
+    ];
+    return series.map(s => ({
+      ...s,
+      profile: calculateRiskProfile(s.points, calculateMaxDrawdown(s.points), riskFreeRate, benchmarkHistory)
+    }));
+  }, [data, accountKeys, riskFreeRate, benchmarkHistory]);
+
+  return (
+    <AnalyticsCard title="Risk Profile" icon={ShieldAlert} subtext={`vs ${benchmarkName} · ${data.length} valuations`}
+      info="Ratios use the snapshot series, so large deposits between snapshots read as returns."
+      controls={
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+          Risk-Free
+          <input type="number" step="0.1" value={riskFreeRate} onChange={e => setRiskFreeRate(parseFloat(e.target.value) || 0)} className="w-20 bg-slate-100 dark:bg-slate-900 text-xs font-mono font-bold px-3 py-2 rounded-xl outline-none border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-white" />
+          %
+        </label>
+      }
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-left tabular-nums">
+          <thead>
+            <tr className="border-b border-slate-200 dark:border-slate-700">
+              <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Scope</th>
+              {COLUMNS.map(c => <th key={c.label} title={c.info} className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right whitespace-nowrap">{c.label}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+            {rows.map(r => (
+              <tr key={r.key} className="hover:bg-blue-500/5 transition-colors">
+                <td className={`p-3 text-xs whitespace-nowrap ${r.key === 'TOTAL' ? 'font-black text-slate-900 dark:text-white' : 'font-bold text-slate-600 dark:text-slate-300'}`}>{r.label}</td>
+                {COLUMNS.map(c => {
+                  const tone = r.profile && c.tone ? c.tone(r.profile) : null;
+                  return (
+                    <td key={c.label} className={`p-3 text-right text-xs font-mono font-bold ghost-blur ${tone === null ? 'text-slate-600 dark:text-slate-300' : tone >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-500'}`}>
+                      {r.profile ? c.render(r.profile) : '—'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </AnalyticsCard>
+  );
+};
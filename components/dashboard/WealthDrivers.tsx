@@ -2,7 +2,7 @@
 import React, { memo } from 'react';
 import { BarChart3, TrendingUp, TrendingDown, PiggyBank } from 'lucide-react';
 import { formatBaseCurrency } from '../../services/currencyService';
-import { TimeFocus } from '../../types';
+import { TimeFocus, PeriodReturn } from '../../types';
 
 interface WealthDriversCardProps {
     attribution: any;
@@ -10,6 +10,24 @@ interface WealthDriversCardProps {
     timeFocus: TimeFocus;
 }
 
+const formatReturn = (val: number | null | undefined) => val === null || val === undefined ? '—' : `${val >= 0 ? '+' : ''}${val.toFixed(1)}%`;
+
+const ReturnTile = ({ label, result }: { label: string; result?: PeriodReturn | null }) => (
+    <div className="p-4 bg-slate-50 dark:bg-slate-900/30 rounded-2xl border border-slate-100 dark:border-slate-800/50">
+        <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-2">{label}</p>
+        <div className="flex items-end justify-between gap-2">
+            <div>
+                <p className={`text-lg font-black font-mono ghost-blur ${(result?.cumulative ?? 0) >= 0 ? 'text-slate-900 dark:text-white' : 'text-red-500'}`}>{formatReturn(result?.cumulative)}</p>
+                <p className="text-[9px] font-bold uppercase text-slate-400 tracking-tighter">Cumulative</p>
+            </div>
+            <div className="text-right">
+                <p className="text-sm font-black font-mono text-slate-500 ghost-blur">{formatReturn(result?.annualized)}</p>
+                <p className="text-[9px] font-bold uppercase text-slate-400 tracking-tighter">Annualized</p>
+            </div>
+        </div>
+    </div>
+);
+
 export const WealthDriversCard = memo(({ attribution, isLoading, timeFocus }: WealthDriversCardProps) => {
     const isGain = attribution.marketGain >= 0;
     const isContributionPositive = attribution.netContributions >= 0;
@@ -48,6 +66,11 @@ export const WealthDriversCard = memo(({ attribution, isLoading, timeFocus }: We
                     </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                    <ReturnTile label="XIRR" result={attribution.moneyWeighted} />
+                    <ReturnTile label="Time-Weighted" result={attribution.timeWeighted} />
+                </div>
+
                 <div className="grid grid-cols-1 gap-4">
                     <div className="flex items-center justify-between p-5 bg-slate-50 dark:bg-slate-900/30 rounded-3xl border border-slate-100 dark:border-slate-800/50">
                         <div className="flex items-center gap-4">
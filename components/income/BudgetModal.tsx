@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BudgetRollover, BudgetTarget, LedgerData } from '../../types';
+import { Target, Plus, Trash2 } from 'lucide-react';
+import { RegistryModal } from '../information/RegistryModal';
+import { BUDGET_ROLLOVER_LABELS, validateBudgetTarget } from '../../services/ledger/budgetService';
+
+interface BudgetModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    year: number;
+    targets: BudgetTarget[];
+    ledger: LedgerData;
+    onSave: (targets: BudgetTarget[]) => Promise<void>;
+}
+
+const SEP = '||';
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2.5 text-sm font-bold outline-none focus:border-blue-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+export const BudgetModal: React.FC<BudgetModalProps> = ({ isOpen, onClose, year, targets, ledger, onSave }) => {
+    const [draft, setDraft] = useState<BudgetTarget[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setDraft(targets);
+    }, [isOpen, targets]);
+
+    // A whole category, or a single line inside it.
+    const lineOptions = useMemo(() => ledger.categories.flatMap(c => [
+        { value: c.name, label: `${c.name} (all lines)` },
+        ...c.subCategories.map(s => ({ value: `${c.name}${SEP}${s.name}`, label: `${c.name} › ${s.name}` }))
+    ]), [ledger]);
+
+    const update = (id: string, patch: Partial<BudgetTarget>) => setDraft(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t));
+
+    const addTarget = () => setDraft(prev => [...prev, { id: crypto.randomUUID(), category: '', amount: 0, rollover: 'RESET' }]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const errors = draft.flatMap(t => validateBudgetTarget(t, draft).map(err => `${t.subCategory || t.category || 'New budget'}: ${err}`));
+        if (errors.length > 0) {
+            alert(errors.join('\n'));
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await onSave(draft);
+            onClose();
+        } catch (err: any) {
+            alert(err.message || "Failed to save budgets.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <RegistryModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={`${year} Budgets`}
+            icon={Target}
+            iconColor="text-emerald-500"
+            isSubmitting={isSubmitting}
+            onSubmit={handleSubmit}
+            submitLabel={`Save ${draft.length} Budget${draft.length === 1 ? '' : 's'}`}
+            widthClass="max-w-3xl"
+        >
+            <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                    <p className="text-xs text-slate-500">Monthly targets for expense lines. Rollover decides whether leftover or overspent amounts move into next month.</p>
+                    <button type="button" onClick={addTarget} className="shrink-0 flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white shadow-lg shadow-emerald-500/20 transition-all">
+                        <Plus size={14} /> Add Budget
+                    </button>
+                </div>
+                <div className="max-h-[50vh] overflow-y-auto space-y-2">
+                    {draft.map(target => (
+                        <div key={target.id} className="grid grid-cols-12 gap-3 items-end p-4 rounded-2xl border border-slate-200 dark:border-slate-700">
+                            <div className="col-span-5 space-y-1.5">
+                                <label className={labelClass}>Expense Line</label>
+                                <select value={target.subCategory ? `${target.category}${SEP}${target.subCategory}` : target.category} onChange={e => { const [category, subCategory] = e.target.value.split(SEP); update(target.id, { category: category || '', subCategory: subCategory || undefined }); }} className={inputClass}>
+                                    <option value="">— Select —</option>
+                                    {lineOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                </select>
+                            </div>
+                            <div className="col-span-3 space-y-1.5">
+                                <label className={labelClass}>Monthly</label>
+                                <input type="number" step="any" min={0} value={target.amount || ''} onChange={e => update(target.id, { amount: parseFloat(e.target.value) || 0 })} className={`${inputClass} font-mono`} />
+                            </div>
+                            <div className="col-span-3 space-y-1.5">
+                                <label className={labelClass}>Rollover</label>
+                                <select value={target.rollover} onChange={e => update(target.id, { rollover: e.target.value as BudgetRollover })} className={inputClass}>
+                                    {(Object.keys(BUDGET_ROLLOVER_LABELS) as BudgetRollover[]).map(r => <option key={r} value={r}>{BUDGET_ROLLOVER_LABELS[r]}</option>)}
+                                </select>
+                            </div>
+                            <button type="button" onClick={() => setDraft(prev => prev.filter(t => t.id !== target.id))} className="col-span-1 p-2.5 text-slate-400 hover:text-rose-500 justify-self-center"><Trash2 size={16} /></button>
+                        </div>
+                    ))}
+                    {draft.length === 0 && (
+                        <div className="py-12 text-center border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-2xl opacity-40 uppercase font-black text-xs tracking-widest">
+                            No budgets for {year}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </RegistryModal>
+    );
+};
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CategorizationRule, LedgerData, LedgerTransaction } from '../../types';
+import { Wand2, Plus, Pencil, Trash2, ArrowUp, ArrowDown, AlertTriangle, FlaskConical, ChevronLeft } from 'lucide-react';
+import { RegistryModal } from '../information/RegistryModal';
+import { sortRulesByPriority, validateRule, testRuleAgainstHistory } from '../../services/ledger/categorizationService';
+
+interface CategorizationRulesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    rules: CategorizationRule[];
+    ledger: LedgerData;
+    history: LedgerTransaction[];
+    onSave: (rules: CategorizationRule[]) => Promise<void>;
+}
+
+const SEP = '||';
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+const parseOptionalNumber = (val: string): number | undefined => {
+    const num = parseFloat(val);
+    return isNaN(num) ? undefined : num;
+};
+
+const describeRule = (rule: CategorizationRule): string => {
+    const parts: string[] = [];
+    if (rule.payeeContains) parts.push(`payee contains "${rule.payeeContains}"`);
+    if (rule.payeePattern) parts.push(`payee ~ /${rule.payeePattern}/`);
+    if (rule.minAmount !== undefined || rule.maxAmount !== undefined) parts.push(`amount ${rule.minAmount ?? 0}–${rule.maxAmount ?? '∞'}`);
+    if (rule.account) parts.push(`account …${rule.account}`);
+    return parts.join(' and ') || 'no conditions';
+};
+
+export const CategorizationRulesModal: React.FC<CategorizationRulesModalProps> = ({ isOpen, onClose, rules, ledger, history, onSave }) => {
+    const [draft, setDraft] = useState<CategorizationRule[]>([]);
+    const [editing, setEditing] = useState<CategorizationRule | null>(null);
+    const [showPreview, setShowPreview] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(sortRulesByPriority(rules));
+            setEditing(null);
+            setShowPreview(false);
+        }
+    }, [isOpen, rules]);
+
+    const lineOptions = useMemo(() => ledger.categories.flatMap(c => c.subCategories.map(s => ({ value: `${c.name}${SEP}${s.name}`, label: `${c.name} › ${s.name}` }))), [ledger]);
+
+    const editingErrors = useMemo(() => editing ? validateRule(editing, ledger) : [], [editing, ledger]);
+    const preview = useMemo(() => editing && showPreview && editingErrors.length === 0 ? testRuleAgainstHistory(editing, history, draft) : [], [editing, showPreview, editingErrors, history, draft]);
+
+    const startNew = () => {
+        setEditing({
+            id: crypto.randomUUID(),
+            name: '',
+            priority: draft.length > 0 ? Math.max(...draft.map(r => r.priority)) + 1 : 1,
+            enabled: true,
+            category: '',
+            subCategory: ''
+        });
+        setShowPreview(false);
+    };
+
+    const commitEditing = () => {
+        if (!editing) return;
+        if (editingErrors.length > 0) {
+            alert(editingErrors.join('\n'));
+            return;
+        }
+        setDraft(prev => sortRulesByPriority(prev.some(r => r.id === editing.id) ? prev.map(r => r.id === editing.id ? editing : r) : [...prev, editing]));
+        setEditing(null);
+    };
+
+    // Reordering renumbers the whole list so priorities stay explicit and gap-free.
+    const move = (index: number, delta: number) => setDraft(prev => {
+        const next = [...prev];
+        const target = index + delta;
+        if (target < 0 || target >= next.length) return prev;
+        [next[index], next[target]] = [next[target], next[index]];
+        return next.map((r, i) => ({ ...r, priority: i + 1 }));
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (editing) {
+            commitEditing();
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await onSave(draft);
+            onClose();
+        } catch (err: any) {
+            alert(err.message || "Failed to save rules.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <RegistryModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={editing ? (draft.some(r => r.id === editing.id) ? 'Edit Rule' : 'New Rule') : 'Categorization Rules'}
+            icon={Wand2}
+            iconColor="text-purple-500"
+            isSubmitting={isSubmitting}
+            onSubmit={handleSubmit}
+            submitLabel={editing ? 'Apply Rule' : `Save ${draft.length} Rule${draft.length === 1 ? '' : 's'}`}
+            widthClass="max-w-3xl"
+        >
+            {editing ? (
+                <div className="space-y-5">
+                    <button type="button" onClick={() => setEditing(null)} className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500 transition-colors">
+                        <ChevronLeft size={14} /> Back to rules
+                    </button>
+
+                    <div className="grid grid-cols-3 gap-5">
+                        <div className="col-span-2 space-y-1.5">
+                            <label className={labelClass}>Rule Name</label>
+                            <input type="text" placeholder="e.g. Groceries" value={editing.name} onChange={e => setEditing({...editing, name: e.target.value})} className={inputClass} />
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className={labelClass}>Priority</label>
+                            <input type="number" min={1} value={editing.priority} onChange={e => setEditing({...editing, priority: parseInt(e.target.value, 10) || 1})} className={`${inputClass} font-mono`} />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-5">
+                        <div className="space-y-1.5">
+                            <label className={labelClass}>Payee Contains</label>
+                            <input type="text" placeholder="e.g. loblaws" value={editing.payeeContains || ''} onChange={e => setEditing({...editing, payeeContains: e.target.value || undefined})} className={inputClass} />
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className={labelClass}>Payee Regex</label>
+                            <input type="text" placeholder="e.g. ^(uber|lyft)" value={editing.payeePattern || ''} onChange={e => setEditing({...editing, payeePattern: e.target.value || undefined})} className={`${inputClass} font-mono`} />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-5">
+                        <div className="space-y-1.5">
+                            <label className={labelClass}>Min Amount</label>
+                            <input type="number" step="any" value={editing.minAmount ?? ''} onChange={e => setEditing({...editing, minAmount: parseOptionalNumber(e.target.value)})} className={`${inputClass} font-mono`} />
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className={labelClass}>Max Amount</label>
+                            <input type="number" step="any" value={editing.maxAmount ?? ''} onChange={e => setEditing({...editing, maxAmount: parseOptionalNumber(e.target.value)})} className={`${inputClass} font-mono`} />
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className={labelClass}>Account Ends With</label>
+                            <input type="text" placeholder="e.g. 4821" value={editing.account || ''} onChange={e => setEditing({...editing, account: e.target.value || undefined})} className={`${inputClass} font-mono`} />
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label className={labelClass}>File Under</label>
+                        <select value={editing.category ? `${editing.category}${SEP}${editing.subCategory}` : ''} onChange={e => { const [category, subCategory] = e.target.value.split(SEP); setEditing({...editing, category: category || '', subCategory: subCategory || ''}); }} className={inputClass}>
+                            <option value="">— Select ledger line —</option>
+                            {lineOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </div>
+
+                    {editingErrors.length > 0 && (
+                        <div className="flex items-start gap-3 p-4 bg-amber-50 dark:bg-amber-500/10 rounded-2xl border border-amber-100 dark:border-amber-500/20 text-xs font-bold text-amber-600 dark:text-amber-400">
+                            <AlertTriangle size={16} className="shrink-0" />
+                            <div>{editingErrors.map(err => <p key={err}>{err}</p>)}</div>
+                        </div>
+                    )}
+
+                    <div className="space-y-3">
+                        <button type="button" disabled={editingErrors.length > 0} onClick={() => setShowPreview(true)} className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-xs font-bold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-purple-500 disabled:opacity-40 transition-all">
+                            <FlaskConical size={14} /> Test Rule Against History
+                        </button>
+                        {showPreview && editingErrors.length === 0 && (
+                            <div className="max-h-[30vh] overflow-y-auto rounded-2xl border border-slate-200 dark:border-slate-700">
+                                <p className="sticky top-0 bg-slate-50 dark:bg-slate-900 p-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                    {preview.length} match{preview.length === 1 ? '' : 'es'} · {preview.filter(p => p.isChange && !p.shadowedBy).length} would be re-filed · {preview.filter(p => p.shadowedBy).length} shadowed
+                                </p>
+                                <table className="w-full text-left text-xs">
+                                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                                        {preview.map(({ transaction: tx, isChange, shadowedBy }) => (
+                                            <tr key={tx.id} className={shadowedBy ? 'opacity-40' : ''}>
+                                                <td className="p-3 font-mono text-slate-500 whitespace-nowrap">{tx.date}</td>
+                                                <td className="p-3 font-bold text-slate-900 dark:text-white">{tx.payee}</td>
+                                                <td className="p-3 text-right font-mono">{Math.abs(tx.amount).toFixed(2)}</td>
+                                                <td className="p-3 text-[10px] text-slate-500">
+                                                    {shadowedBy ? `Won by "${shadowedBy.name}"` : isChange ? `${tx.category} › ${tx.subCategory} → ${editing.category} › ${editing.subCategory}` : 'Unchanged'}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                        <p className="text-xs text-slate-500">Rules run top to bottom; the first match files the transaction.</p>
+                        <button type="button" onClick={startNew} className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-purple-600 hover:bg-purple-500 text-white shadow-lg shadow-purple-500/20 transition-all">
+                            <Plus size={14} /> New Rule
+                        </button>
+                    </div>
+                    <div className="max-h-[50vh] overflow-y-auto space-y-2">
+                        {draft.map((rule, i) => (
+                            <div key={rule.id} className={`flex items-center gap-3 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 ${rule.enabled ? '' : 'opacity-50'}`}>
+                                <span className="w-8 text-center font-mono font-black text-slate-400">{rule.priority}</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-bold text-sm text-slate-900 dark:text-white truncate">{rule.name}</p>
+                                    <p className="text-[10px] text-slate-400 truncate">{describeRule(rule)} → {rule.category} › {rule.subCategory}</p>
+                                </div>
+                                <button type="button" onClick={() => setDraft(prev => prev.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))} className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${rule.enabled ? 'bg-emerald-500/10 text-emerald-500' : 'bg-slate-100 dark:bg-slate-900 text-slate-400'}`}>
+                                    {rule.enabled ? 'On' : 'Off'}
+                                </button>
+                                <button type="button" disabled={i === 0} onClick={() => move(i, -1)} className="p-1.5 text-slate-400 hover:text-blue-500 disabled:opacity-30"><ArrowUp size={14} /></button>
+                                <button type="button" disabled={i === draft.length - 1} onClick={() => move(i, 1)} className="p-1.5 text-slate-400 hover:text-blue-500 disabled:opacity-30"><ArrowDown size={14} /></button>
+                                <button type="button" onClick={() => { setEditing(rule); setShowPreview(false); }} className="p-1.5 text-slate-400 hover:text-blue-500"><Pencil size={14} /></button>
+                                <button type="button" onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))} className="p-1.5 text-slate-400 hover:text-rose-500"><Trash2 size={14} /></button>
+                            </div>
+                        ))}
+                        {draft.length === 0 && (
+                            <div className="py-12 text-center border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-2xl opacity-40 uppercase font-black text-xs tracking-widest">
+                                No rules defined
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </RegistryModal>
+    );
+};
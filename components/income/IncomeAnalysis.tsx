@@ -1,17 +1,19 @@
 
 import React, { useMemo, useState } from 'react';
 import { IncomeEntry, ExpenseEntry, LedgerData } from '../../types';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend, Sankey, Layer, Rectangle } from 'recharts';
-import { BadgeDollarSign, TrendingUp, TrendingDown, CreditCard, Activity, GitMerge, BarChart2, X, Percent } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend, Sankey, Layer, Rectangle, Cell } from 'recharts';
+import { BadgeDollarSign, TrendingUp, TrendingDown, CreditCard, Activity, GitMerge, BarChart2, X, Percent, Target } from 'lucide-react';
 import { formatBaseCurrency } from '../../services/currencyService';
 import { calculatePeriodTotals } from '../../services/math/financialMath';
 import { transformSankeyData, transformDetailedTrendData } from '../../services/analytics/transformers';
 import { AnalyticsCard, StatHighlight, StandardTooltip } from '../analytics/AnalyticsPrimitives';
+import { BudgetLine, summarizeBudgetVariance } from '../../services/ledger/budgetService';
 
 interface IncomeAnalysisProps {
   incomeData: IncomeEntry[];
   expenseData: ExpenseEntry[];
   detailedExpenses?: LedgerData;
+  budgetLines?: BudgetLine[];
   isLoading?: boolean;
   isDarkMode?: boolean;
   selectedYear?: number;
@@ -51,11 +53,12 @@ const SankeyNode = ({ x, y, width, height, index, payload, isDarkMode, selectedC
 };
 
 export const IncomeAnalysis: React.FC<IncomeAnalysisProps> = ({ 
-    incomeData, expenseData, detailedExpenses, isLoading = false, isDarkMode = true, selectedYear = new Date().getFullYear()
+    incomeData, expenseData, detailedExpenses, budgetLines = [], isLoading = false, isDarkMode = true, selectedYear = new Date().getFullYear()
 }) => {
   const [expenseFilter, setExpenseFilter] = useState<string>('All');
   const [selectedMonthIndex, setSelectedMonthIndex] = useState<number>(0);
   const [selectedCategoryName, setSelectedCategoryName] = useState<string | null>(null);
+  const [budgetFilter, setBudgetFilter] = useState<string>('All');
 
   const isCurrentYear = selectedYear === new Date().getFullYear();
   const periodLabel = isCurrentYear ? "YTD" : "Full Year";
@@ -87,6 +90,12 @@ export const IncomeAnalysis: React.FC<IncomeAnalysisProps> = ({
   const sankeyData = useMemo(() => transformSankeyData(detailedExpenses, selectedMonthIndex, isDarkMode, selectedCategoryName), [detailedExpenses, selectedMonthIndex, isDarkMode, selectedCategoryName]);
   const detailedTrendData = useMemo(() => transformDetailedTrendData(detailedExpenses), [detailedExpenses]);
 
+  const budgetVarianceData = useMemo(() => {
+      const lines = budgetFilter === 'All' ? budgetLines : budgetLines.filter(l => l.target.id === budgetFilter);
+      return summarizeBudgetVariance(lines, monthsList);
+  }, [budgetLines, budgetFilter, monthsList]);
+  const budgetVarianceTotal = budgetVarianceData.reduce((sum, d) => sum + d.variance, 0);
+
   // Dynamic Y-Axis formatter that handles both large and small values gracefully
   const formatYAxis = (v: number) => {
       if (v === 0) return '$0';
@@ -189,6 +198,35 @@ export const IncomeAnalysis: React.FC<IncomeAnalysisProps> = ({
                         ) : <div className="h-full flex items-center justify-center text-slate-400 opacity-40 uppercase text-xs font-black">Trend Unavailable</div>}
                   </AnalyticsCard>
               </div>
+
+              {budgetLines.length > 0 && (
+                  <AnalyticsCard
+                        title="Budget Variance" icon={Target}
+                        className="h-[400px]"
+                        subtext={`${budgetVarianceTotal >= 0 ? 'Under' : 'Over'} by ${formatBaseCurrency(Math.abs(budgetVarianceTotal))}`}
+                        info="Budget includes any amount carried in from the prior month by the rollover setting."
+                        controls={
+                            <select value={budgetFilter} onChange={(e) => setBudgetFilter(e.target.value)} className="bg-slate-100 dark:bg-slate-900 text-[10px] font-black uppercase px-4 py-2 rounded-xl outline-none border border-slate-200 dark:border-slate-700">
+                                <option value="All">All Budgets</option>
+                                {budgetLines.map(l => <option key={l.target.id} value={l.target.id}>{l.target.subCategory ? `${l.target.category} › ${l.target.subCategory}` : l.target.category}</option>)}
+                            </select>
+                        }
+                    >
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={budgetVarianceData}>
+                                <CartesianGrid vertical={false} opacity={0.05} />
+                                <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{fontSize: 10, fill: '#64748b'}} />
+                                <YAxis axisLine={false} tickLine={false} tick={{fontSize: 10, fill: '#64748b'}} tickFormatter={formatYAxis} />
+                                <Tooltip content={<StandardTooltip isDarkMode={isDarkMode} />} cursor={{fill: isDarkMode ? 'rgba(255,255,255,0.02)' : 'rgba(0,0,0,0.02)'}} />
+                                <Legend iconSize={8} wrapperStyle={{fontSize: '10px', paddingTop: '10px'}} />
+                                <Bar dataKey="budget" name="Budget" fill="#94a3b8" fillOpacity={0.4} radius={[4, 4, 0, 0]} />
+                                <Bar dataKey="actual" name="Actual" fill="#10b981" radius={[4, 4, 0, 0]}>
+                                    {budgetVarianceData.map(d => <Cell key={d.month} fill={d.variance < 0 ? '#ef4444' : '#10b981'} />)}
+                                </Bar>
+                            </BarChart>
+                        </ResponsiveContainer>
+                  </AnalyticsCard>
+              )}
           </section>
       )}
     </div>
@@ -1,11 +1,16 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { LedgerData } from '../../types';
+import { LedgerData, LedgerTransaction, SheetLocale } from '../../types';
 import { Loader2, AlertCircle, Check, Save, ChevronLeft, ChevronRight, Calendar, RefreshCw, Lock, FileX, History, LogOut } from 'lucide-react';
+import { groupTransactionsByCell } from '../../services/ledger/statementImportService';
+import { toLedgerAmount } from '../../services/ledger/transactionLedgerService';
+import { BudgetLine, BudgetMonth, findBudgetLine } from '../../services/ledger/budgetService';
 
 interface IncomeLedgerProps {
   expenseData: LedgerData;
   incomeData: LedgerData;
+  transactions?: LedgerTransaction[];
+  budgetLines?: BudgetLine[];
   isLoading: boolean;
   isReadOnly?: boolean;
   selectedYear?: number;
@@ -13,9 +18,10 @@ interface IncomeLedgerProps {
   onYearChange?: (year: number) => void;
   onUpdateExpense: (category: string, subCategory: string, monthIndex: number, newValue: number) => Promise<void>;
   onUpdateIncome: (category: string, subCategory: string, monthIndex: number, newValue: number) => Promise<void>;
+  locale?: SheetLocale;
 }
 
-const EditableCell = ({ value, onSave, isReadOnly = false }: { value: number, onSave: (v: number) => Promise<void>, isReadOnly?: boolean }) => {
+const EditableCell = ({ value, onSave, isReadOnly = false, auditTrail }: { value: number, onSave: (v: number) => Promise<void>, isReadOnly?: boolean, auditTrail?: LedgerTransaction[] }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [tempValue, setTempValue] = useState(value.toString());
     const [status, setStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
@@ -82,15 +88,21 @@ const EditableCell = ({ value, onSave, isReadOnly = false }: { value: number, on
         );
     }
 
+    const auditTitle = auditTrail?.map(t => `${t.date}  ${t.payee}  ${toLedgerAmount(t).toFixed(2)}`).join('\n');
+
     return (
         <div 
             onClick={() => !isReadOnly && setIsEditing(true)}
+            title={auditTitle}
             className={`w-full h-full px-3 py-4 text-right transition-colors relative group font-mono text-sm ${
                 isReadOnly ? 'cursor-default' : 'cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50'
             } ${value === 0 ? 'text-slate-300 dark:text-slate-600' : 'text-slate-900 dark:text-slate-200'}`}
         >
             {value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
             
+            {auditTrail && auditTrail.length > 0 && status === 'idle' && (
+                <span className="absolute top-1 left-1 text-[8px] font-black text-blue-500 bg-blue-500/10 px-1 rounded">{auditTrail.length}</span>
+            )}
             {status === 'saving' && <Loader2 size={10} className="absolute top-1 right-1 animate-spin text-blue-500" />}
             {status === 'success' && <Check size={10} className="absolute top-1 right-1 text-emerald-500" />}
             {status === 'error' && <AlertCircle size={10} className="absolute top-1 right-1 text-red-500" />}
@@ -100,20 +112,47 @@ const EditableCell = ({ value, onSave, isReadOnly = false }: { value: number, on
     );
 };
 
+// Remaining budget for the month; negative means overspent.
+const BudgetBadge = ({ month }: { month?: BudgetMonth }) => {
+    if (!month) return null;
+    const over = month.remaining < 0;
+    return (
+        <span
+            title={`Budget ${month.available.toLocaleString(undefined, { maximumFractionDigits: 0 })} · Spent ${month.actual.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+            className={`absolute bottom-0.5 right-1 text-[8px] font-black px-1 rounded pointer-events-none ${over ? 'text-rose-500 bg-rose-500/10' : 'text-emerald-500 bg-emerald-500/10'}`}
+        >
+            {Math.abs(month.remaining).toLocaleString(undefined, { maximumFractionDigits: 0 })} {over ? 'over' : 'left'}
+        </span>
+    );
+};
+
+const BudgetTotal = ({ line }: { line?: BudgetLine }) => {
+    if (!line) return null;
+    return (
+        <span className={`block text-[9px] font-black ${line.totalActual > line.totalBudget ? 'text-rose-500' : 'text-emerald-500'}`}>
+            of {line.totalBudget.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+        </span>
+    );
+};
+
 const LedgerTable = ({ 
     title, 
     data, 
     themeColor, 
     onUpdate, 
     visibleMonthIndex,
-    isReadOnly
+    isReadOnly,
+    auditMap,
+    budgetLines = []
 }: { 
     title: string, 
     data: LedgerData, 
     themeColor: 'emerald' | 'rose', 
     onUpdate: (c: string, s: string, m: number, v: number) => Promise<void>,
     visibleMonthIndex: number | null,
-    isReadOnly: boolean
+    isReadOnly: boolean,
+    auditMap?: Map<string, LedgerTransaction[]>,
+    budgetLines?: BudgetLine[]
 }) => {
     
     const theme = {
@@ -161,54 +200,67 @@ const LedgerTable = ({
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
-                        {data.categories.map((cat) => (
+                        {data.categories.map((cat) => {
+                            const categoryBudget = findBudgetLine(budgetLines, cat.name);
+                            return (
                             <React.Fragment key={cat.name}>
                                 <tr className="bg-slate-50/80 dark:bg-slate-800/60 font-bold group">
                                     <td className="p-4 text-sm text-slate-900 dark:text-slate-100 border-r border-slate-200 dark:border-slate-700 sticky left-0 bg-slate-50 dark:bg-slate-800 z-10">
                                         {cat.name}
+                                        {categoryBudget && <span className="block text-[9px] font-black text-slate-400 uppercase tracking-widest">Budget {categoryBudget.target.amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}/mo</span>}
                                     </td>
                                     {data.months.map((_, mIdx) => {
                                         if (isMonthView && mIdx !== visibleMonthIndex) return null;
                                         const total = cat.subCategories.reduce((acc, sub) => acc + (sub.monthlyValues[mIdx] || 0), 0);
                                         return (
-                                            <td key={mIdx} className="p-4 text-right text-sm text-slate-900 dark:text-slate-100 font-mono">
+                                            <td key={mIdx} className="p-4 text-right text-sm text-slate-900 dark:text-slate-100 font-mono relative">
                                                 {total > 0 ? total.toLocaleString(undefined, { maximumFractionDigits: 0 }) : '-'}
+                                                <BudgetBadge month={categoryBudget?.months[mIdx]} />
                                             </td>
                                         );
                                     })}
                                     {!isMonthView && (
                                         <td className="p-4 text-right text-sm text-slate-900 dark:text-white font-mono bg-slate-100 dark:bg-slate-800/80 font-bold">
                                             {cat.total.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                            <BudgetTotal line={categoryBudget} />
                                         </td>
                                     )}
                                 </tr>
 
-                                {cat.subCategories.map((sub) => (
+                                {cat.subCategories.map((sub) => {
+                                    const lineBudget = findBudgetLine(budgetLines, cat.name, sub.name);
+                                    return (
                                     <tr key={`${cat.name}-${sub.name}`} className="bg-white dark:bg-slate-900 hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors group">
                                         <td className="pl-8 pr-4 py-3 text-xs text-slate-500 dark:text-slate-400 border-r border-slate-200 dark:border-slate-700 sticky left-0 bg-white dark:bg-slate-900 group-hover:bg-slate-50 dark:group-hover:bg-slate-800/30 z-10 truncate max-w-[200px]" title={sub.name}>
                                             {sub.name}
+                                            {lineBudget && <span className="block text-[9px] font-black text-slate-400 uppercase tracking-widest">Budget {lineBudget.target.amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}/mo</span>}
                                         </td>
                                         {data.months.map((_, mIdx) => {
                                             if (isMonthView && mIdx !== visibleMonthIndex) return null;
                                             return (
-                                                <td key={mIdx} className="p-0 border-r border-slate-100 dark:border-slate-800 last:border-0 h-full">
+                                                <td key={mIdx} className="p-0 border-r border-slate-100 dark:border-slate-800 last:border-0 h-full relative">
                                                     <EditableCell 
                                                         value={sub.monthlyValues[mIdx] || 0} 
                                                         isReadOnly={isReadOnly}
+                                                        auditTrail={auditMap?.get(`${cat.name}||${sub.name}||${mIdx}`)}
                                                         onSave={(val) => onUpdate(cat.name, sub.name, mIdx, val)}
                                                     />
+                                                    <BudgetBadge month={lineBudget?.months[mIdx]} />
                                                 </td>
                                             );
                                         })}
                                         {!isMonthView && (
                                             <td className="p-4 text-right text-xs font-bold text-slate-400 dark:text-slate-500 font-mono bg-slate-50/30 dark:bg-slate-900/30">
                                                 {sub.total.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                                <BudgetTotal line={lineBudget} />
                                             </td>
                                         )}
                                     </tr>
-                                ))}
+                                    );
+                                })}
                             </React.Fragment>
-                        ))}
+                            );
+                        })}
                     </tbody>
                 </table>
             </div>
@@ -216,7 +268,7 @@ const LedgerTable = ({
     );
 }
 
-export const IncomeLedger: React.FC<IncomeLedgerProps> = ({ expenseData, incomeData, isLoading, isReadOnly = false, selectedYear = new Date().getFullYear(), activeYear, onYearChange, onUpdateExpense, onUpdateIncome }) => {
+export const IncomeLedger: React.FC<IncomeLedgerProps> = ({ expenseData, incomeData, transactions = [], budgetLines = [], isLoading, isReadOnly = false, selectedYear = new Date().getFullYear(), activeYear, onYearChange, onUpdateExpense, onUpdateIncome, locale }) => {
     const [focusedMonthIndex, setFocusedMonthIndex] = useState<number>(0);
     const [isMobile, setIsMobile] = useState(false);
 
@@ -228,6 +280,8 @@ export const IncomeLedger: React.FC<IncomeLedgerProps> = ({ expenseData, incomeD
     }, []);
 
     const months = incomeData.months.length > 0 ? incomeData.months : expenseData.months;
+    const incomeAuditMap = useMemo(() => groupTransactionsByCell(incomeData, transactions.filter(t => t.type === 'INCOME'), locale), [incomeData, transactions, locale]);
+    const expenseAuditMap = useMemo(() => groupTransactionsByCell(expenseData, transactions.filter(t => t.type === 'EXPENSE'), locale), [expenseData, transactions, locale]);
     
     useEffect(() => {
         if (months.length > 0) setFocusedMonthIndex(months.length - 1);
@@ -254,8 +308,8 @@ export const IncomeLedger: React.FC<IncomeLedgerProps> = ({ expenseData, incomeD
             )}
 
             <div className="flex-1 overflow-y-auto space-y-2 pb-10 custom-scrollbar">
-                <LedgerTable title="Income Ledger" data={incomeData} themeColor="emerald" isReadOnly={isReadOnly} onUpdate={onUpdateIncome} visibleMonthIndex={isMobile ? focusedMonthIndex : null} />
-                <LedgerTable title="Expense Ledger" data={expenseData} themeColor="rose" isReadOnly={isReadOnly} onUpdate={onUpdateExpense} visibleMonthIndex={isMobile ? focusedMonthIndex : null} />
+                <LedgerTable title="Income Ledger" data={incomeData} themeColor="emerald" isReadOnly={isReadOnly} onUpdate={onUpdateIncome} auditMap={incomeAuditMap} visibleMonthIndex={isMobile ? focusedMonthIndex : null} />
+                <LedgerTable title="Expense Ledger" data={expenseData} themeColor="rose" isReadOnly={isReadOnly} onUpdate={onUpdateExpense} auditMap={expenseAuditMap} budgetLines={budgetLines} visibleMonthIndex={isMobile ? focusedMonthIndex : null} />
             </div>
             
             <div className="mt-auto p-4 bg-slate-50 dark:bg-slate-850/80 border border-slate-200 dark:border-slate-800 rounded-2xl flex flex-col sm:flex-row justify-between items-center gap-4 text-[10px] text-slate-500 font-medium shadow-inner">
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CategorizationRule, LedgerData, LedgerTransaction, SheetLocale } from '../../types';
+import { Landmark, FileUp, AlertTriangle, Check } from 'lucide-react';
+import { RegistryModal } from '../information/RegistryModal';
+import { BankStatement, parseOfxStatement, suggestCategoryFromHistory, resolveLedgerMonthIndex, isDuplicateTransaction } from '../../services/ledger/statementImportService';
+import { categorizeTransaction } from '../../services/ledger/categorizationService';
+
+interface StatementImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    ledger: LedgerData;
+    history: LedgerTransaction[];
+    rules?: CategorizationRule[];
+    onImport: (transactions: LedgerTransaction[]) => Promise<void>;
+    locale?: SheetLocale;
+}
+
+const SEP = '||';
+
+export const StatementImportModal: React.FC<StatementImportModalProps> = ({ isOpen, onClose, ledger, history, rules = [], onImport, locale }) => {
+    const [statement, setStatement] = useState<BankStatement | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [assignments, setAssignments] = useState<Record<number, string>>({});
+    const [excluded, setExcluded] = useState<Set<number>>(new Set());
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setStatement(null);
+            setFileName('');
+            setError(null);
+            setAssignments({});
+            setExcluded(new Set());
+        }
+    }, [isOpen]);
+
+    const ledgerOptions = useMemo(() => ledger.categories.flatMap(c => c.subCategories.map(s => ({ value: `${c.name}${SEP}${s.name}`, label: `${c.name} › ${s.name}` }))), [ledger]);
+
+    const rows = useMemo(() => (statement?.transactions || []).map((tx, i) => {
+        const isDuplicate = isDuplicateTransaction(tx, statement!.account, history);
+        const isOutOfRange = resolveLedgerMonthIndex(ledger, tx.date, locale) === -1;
+        const assignment = assignments[i] || '';
+        const issue = isDuplicate ? 'Already imported' : isOutOfRange ? 'Outside ledger year' : !assignment ? 'Uncategorized' : undefined;
+        const isBlocked = isDuplicate || isOutOfRange;
+        return { tx, index: i, assignment, issue, isBlocked, isIncluded: !isBlocked && !!assignment && !excluded.has(i) };
+    }), [statement, history, ledger, assignments, excluded, locale]);
+
+    const included = rows.filter(r => r.isIncluded);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        try {
+            const parsed = parseOfxStatement(await file.text());
+            const valid = new Set(ledgerOptions.map(o => o.value));
+            const suggested: Record<number, string> = {};
+            const skipped = new Set<number>();
+            parsed.transactions.forEach((tx, i) => {
+                // Explicit rules outrank whatever the payee was filed under last time.
+                const hit = categorizeTransaction({ ...tx, account: parsed.account }, rules) || suggestCategoryFromHistory(tx.payee, history);
+                const key = hit ? `${hit.category}${SEP}${hit.subCategory}` : '';
+                if (valid.has(key)) suggested[i] = key;
+                // Inflows are usually transfers or pay, not spend; require an explicit opt-in.
+                if (tx.amount > 0) skipped.add(i);
+            });
+            setStatement(parsed);
+            setAssignments(suggested);
+            setExcluded(skipped);
+            setError(null);
+        } catch (err: any) {
+            setStatement(null);
+            setError(err.message);
+        }
+    };
+
+    const toggleRow = (index: number) => setExcluded(prev => {
+        const next = new Set(prev);
+        if (next.has(index)) next.delete(index); else next.add(index);
+        return next;
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!statement || included.length === 0) {
+            alert("No categorized transactions selected for import.");
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const importedAt = new Date().toISOString();
+            await onImport(included.map(({ tx, assignment }) => {
+                const [category, subCategory] = assignment.split(SEP);
+                return {
+                    id: crypto.randomUUID(),
+                    fitId: tx.fitId || undefined,
+                    date: tx.date,
+                    payee: tx.payee,
+                    amount: tx.amount,
+                    memo: tx.memo || undefined,
+                    account: statement.account,
+                    category,
+                    subCategory,
+                    type: 'EXPENSE',
+                    source: 'OFX',
+                    importedAt
+                };
+            }));
+            onClose();
+        } catch (err: any) {
+            alert(err.message || "Failed to import statement.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <RegistryModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Import Bank Statement"
+            icon={Landmark}
+            iconColor="text-rose-500"
+            isSubmitting={isSubmitting}
+            onSubmit={handleSubmit}
+            submitLabel={`Post ${included.length} Transaction${included.length === 1 ? '' : 's'}`}
+            widthClass="max-w-4xl"
+        >
+            <div className="space-y-5">
+                <div className="space-y-1.5">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Statement File (OFX / QFX)</label>
+                    <label className="flex items-center gap-3 w-full bg-slate-50 dark:bg-slate-900 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold cursor-pointer hover:border-blue-500 transition-all">
+                        <FileUp size={16} className="text-slate-400" />
+                        <span className="truncate text-slate-500">{fileName || 'Choose file...'}</span>
+                        {statement && <span className="ml-auto text-[10px] font-black uppercase tracking-widest text-slate-400">Acct {statement.account.slice(-4) || '----'} · {statement.currency}</span>}
+                        <input type="file" accept=".ofx,.qfx" onChange={handleFile} className="hidden" />
+                    </label>
+                </div>
+
+                {error && (
+                    <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-500/10 rounded-2xl border border-red-100 dark:border-red-500/20 text-xs font-bold text-red-600 dark:text-red-400">
+                        <AlertTriangle size={16} /> {error}
+                    </div>
+                )}
+
+                {statement && (
+                    <div className="max-h-[45vh] overflow-y-auto rounded-2xl border border-slate-200 dark:border-slate-700">
+                        <table className="w-full text-left text-xs">
+                            <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 z-10">
+                                <tr className="border-b border-slate-200 dark:border-slate-700">
+                                    <th className="p-3 w-8"></th>
+                                    <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Date</th>
+                                    <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Payee</th>
+                                    <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Amount</th>
+                                    <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Ledger Line</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                                {rows.map(row => (
+                                    <tr key={row.index} className={row.isBlocked ? 'opacity-40' : row.issue ? 'bg-amber-50/50 dark:bg-amber-500/5' : ''}>
+                                        <td className="p-3">
+                                            {row.isBlocked ? <AlertTriangle size={14} className="text-amber-500" /> : (
+                                                <button type="button" onClick={() => toggleRow(row.index)} className={`w-5 h-5 rounded-md border-2 flex items-center justify-center transition-all ${row.isIncluded ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-300 dark:border-slate-600'}`}>
+                                                    {row.isIncluded && <Check size={12} />}
+                                                </button>
+                                            )}
+                                        </td>
+                                        <td className="p-3 font-mono text-slate-600 dark:text-slate-300 whitespace-nowrap">{row.tx.date}</td>
+                                        <td className="p-3">
+                                            <span className="font-bold text-slate-900 dark:text-white">{row.tx.payee}</span>
+                                            {row.tx.memo && <span className="block text-[10px] text-slate-400 truncate max-w-xs">{row.tx.memo}</span>}
+                                            {row.issue && <span className="block text-[9px] font-black uppercase tracking-widest text-amber-500">{row.issue}</span>}
+                                        </td>
+                                        <td className={`p-3 text-right font-mono font-bold ${row.tx.amount < 0 ? 'text-rose-500' : 'text-emerald-500'}`}>{row.tx.amount.toFixed(2)}</td>
+                                        <td className="p-3">
+                                            <select disabled={row.isBlocked} value={row.assignment} onChange={e => setAssignments(prev => ({ ...prev, [row.index]: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-[11px] font-bold outline-none focus:border-blue-500">
+                                                <option value="">— Uncategorized —</option>
+                                                {ledgerOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                            </select>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </RegistryModal>
+    );
+};
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LedgerData, LedgerTransaction } from '../../types';
+import { Receipt } from 'lucide-react';
+import { RegistryModal } from '../information/RegistryModal';
+
+interface TransactionEntryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (tx: LedgerTransaction) => Promise<void>;
+    incomeLedger: LedgerData;
+    expenseLedger: LedgerData;
+    initialData?: LedgerTransaction | null;
+}
+
+const SEP = '||';
+
+interface FormState {
+    date: string;
+    type: 'INCOME' | 'EXPENSE';
+    payee: string;
+    amount: number;
+    line: string;
+    account: string;
+    memo: string;
+}
+
+const emptyForm = (): FormState => ({
+    date: new Date().toISOString().split('T')[0],
+    type: 'EXPENSE',
+    payee: '',
+    amount: 0,
+    line: '',
+    account: '',
+    memo: ''
+});
+
+export const TransactionEntryModal: React.FC<TransactionEntryModalProps> = ({ isOpen, onClose, onSave, incomeLedger, expenseLedger, initialData }) => {
+    const [formData, setFormData] = useState<FormState>(emptyForm());
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setFormData(initialData ? {
+                date: initialData.date,
+                type: initialData.type,
+                payee: initialData.payee,
+                // The form takes positive amounts; the sign is implied by the ledger side.
+                amount: initialData.type === 'INCOME' ? initialData.amount : -initialData.amount,
+                line: `${initialData.category}${SEP}${initialData.subCategory}`,
+                account: initialData.account || '',
+                memo: initialData.memo || ''
+            } : emptyForm());
+        }
+    }, [isOpen, initialData]);
+
+    const lineOptions = useMemo(() => {
+        const ledger = formData.type === 'INCOME' ? incomeLedger : expenseLedger;
+        const options = ledger.categories.flatMap(c => c.subCategories.map(s => ({ value: `${c.name}${SEP}${s.name}`, label: `${c.name} › ${s.name}` })));
+        if (formData.line && !options.some(o => o.value === formData.line)) {
+            options.push({ value: formData.line, label: formData.line.split(SEP).join(' › ') });
+        }
+        return options;
+    }, [formData.type, formData.line, incomeLedger, expenseLedger]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!formData.payee || !formData.amount || !formData.line) {
+            alert("Please fill in all required fields.");
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const [category, subCategory] = formData.line.split(SEP);
+            const amount = Number(formData.amount);
+            await onSave({
+                id: initialData?.id || crypto.randomUUID(),
+                fitId: initialData?.fitId,
+                date: formData.date,
+                payee: formData.payee.trim(),
+                amount: formData.type === 'INCOME' ? amount : -amount,
+                memo: formData.memo.trim() || undefined,
+                account: formData.account.trim() || undefined,
+                category,
+                subCategory,
+                type: formData.type,
+                source: initialData?.source || 'MANUAL',
+                importedAt: initialData?.importedAt || new Date().toISOString()
+            });
+            onClose();
+        } catch (err: any) {
+            alert(err.message || "Failed to save transaction.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <RegistryModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={initialData ? 'Edit Transaction' : 'New Transaction'}
+            icon={Receipt}
+            iconColor="text-purple-500"
+            isSubmitting={isSubmitting}
+            onSubmit={handleSubmit}
+            submitLabel={initialData ? 'Update Record' : 'Log Transaction'}
+        >
+            <div className="space-y-5">
+                <div className="grid grid-cols-2 gap-5">
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Date</label>
+                        <input type="date" value={formData.date} onChange={e => setFormData({...formData, date: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all" required />
+                    </div>
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Ledger</label>
+                        <div className="flex bg-slate-100 dark:bg-slate-900 rounded-xl p-1 border-2 border-slate-200 dark:border-slate-700">
+                            {(['EXPENSE', 'INCOME'] as const).map(t => (
+                                <button key={t} type="button" onClick={() => setFormData({...formData, type: t, line: ''})} className={`flex-1 text-[10px] font-black py-2 rounded-lg transition-all ${formData.type === t ? (t === 'INCOME' ? 'bg-emerald-500 text-white shadow-md' : 'bg-rose-500 text-white shadow-md') : 'text-slate-500'}`}>{t}</button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-5">
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Payee</label>
+                        <input type="text" placeholder="e.g. Loblaws" value={formData.payee} onChange={e => setFormData({...formData, payee: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all" required />
+                    </div>
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Amount</label>
+                        <div className="relative">
+                            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-xs">$</span>
+                            <input type="number" step="any" value={formData.amount || ''} onChange={e => setFormData({...formData, amount: parseFloat(e.target.value)})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl pl-8 pr-4 py-3 text-sm font-bold font-mono outline-none" required />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Ledger Line</label>
+                    <select value={formData.line} onChange={e => setFormData({...formData, line: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all" required>
+                        <option value="">— Select category —</option>
+                        {lineOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-5">
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Account</label>
+                        <input type="text" placeholder="Optional" value={formData.account} onChange={e => setFormData({...formData, account: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all" />
+                    </div>
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Memo</label>
+                        <input type="text" placeholder="Optional" value={formData.memo} onChange={e => setFormData({...formData, memo: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all" />
+                    </div>
+                </div>
+            </div>
+        </RegistryModal>
+    );
+};
@@ -0,0 +1,113 @@
+import React, { useState, useMemo } from 'react';
+import { LedgerTransaction } from '../../types';
+import { Receipt, Plus, Pencil, Trash2, Search } from 'lucide-react';
+import { toLedgerAmount } from '../../services/ledger/transactionLedgerService';
+
+interface TransactionRegisterProps {
+    transactions: LedgerTransaction[];
+    selectedYear: number;
+    isReadOnly?: boolean;
+    onAdd: () => void;
+    onEdit: (tx: LedgerTransaction) => void;
+    onDelete: (tx: LedgerTransaction) => Promise<void>;
+}
+
+type TypeFilter = 'ALL' | 'INCOME' | 'EXPENSE';
+
+export const TransactionRegister: React.FC<TransactionRegisterProps> = ({ transactions, selectedYear, isReadOnly = false, onAdd, onEdit, onDelete }) => {
+    const [typeFilter, setTypeFilter] = useState<TypeFilter>('ALL');
+    const [search, setSearch] = useState('');
+
+    const rows = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return transactions
+            .filter(tx => tx.date.startsWith(String(selectedYear)))
+            .filter(tx => typeFilter === 'ALL' || tx.type === typeFilter)
+            .filter(tx => !term || `${tx.payee} ${tx.category} ${tx.subCategory} ${tx.memo || ''}`.toLowerCase().includes(term))
+            .sort((a, b) => b.date.localeCompare(a.date));
+    }, [transactions, selectedYear, typeFilter, search]);
+
+    const totals = useMemo(() => rows.reduce((acc, tx) => {
+        acc[tx.type] += toLedgerAmount(tx);
+        return acc;
+    }, { INCOME: 0, EXPENSE: 0 }), [rows]);
+
+    return (
+        <div className="flex flex-col h-[calc(100vh-280px)] md:h-[calc(100vh-320px)] animate-fade-in space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="relative">
+                        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                        <input type="text" placeholder="Search payee or category" value={search} onChange={e => setSearch(e.target.value)} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl pl-9 pr-4 py-2.5 text-sm font-bold outline-none focus:border-blue-500 transition-all" />
+                    </div>
+                    <div className="flex bg-slate-100 dark:bg-slate-800/50 p-1 rounded-xl border border-slate-200 dark:border-slate-700">
+                        {(['ALL', 'EXPENSE', 'INCOME'] as TypeFilter[]).map(f => (
+                            <button key={f} onClick={() => setTypeFilter(f)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${typeFilter === f ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-500'}`}>{f}</button>
+                        ))}
+                    </div>
+                </div>
+                {!isReadOnly && (
+                    <button onClick={onAdd} className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold bg-purple-600 hover:bg-purple-500 text-white shadow-lg shadow-purple-500/20 transition-all">
+                        <Plus size={16} /> Add Transaction
+                    </button>
+                )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto rounded-3xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 custom-scrollbar">
+                <table className="w-full text-left text-xs">
+                    <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 z-10">
+                        <tr className="border-b border-slate-200 dark:border-slate-700">
+                            <th className="p-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Date</th>
+                            <th className="p-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Payee</th>
+                            <th className="p-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Ledger Line</th>
+                            <th className="p-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Account</th>
+                            <th className="p-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Amount</th>
+                            <th className="p-4 w-20"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                        {rows.map(tx => (
+                            <tr key={tx.id} className="group hover:bg-slate-50 dark:hover:bg-slate-900/40 transition-colors">
+                                <td className="p-4 font-mono text-slate-600 dark:text-slate-300 whitespace-nowrap">{tx.date}</td>
+                                <td className="p-4">
+                                    <span className="font-bold text-slate-900 dark:text-white">{tx.payee}</span>
+                                    {tx.memo && <span className="block text-[10px] text-slate-400 truncate max-w-xs">{tx.memo}</span>}
+                                </td>
+                                <td className="p-4 text-slate-600 dark:text-slate-300">
+                                    {tx.category} <span className="text-slate-300 dark:text-slate-600">›</span> {tx.subCategory}
+                                    <span className="ml-2 text-[8px] font-black uppercase tracking-tighter text-slate-400 bg-slate-100 dark:bg-slate-900 px-1.5 py-0.5 rounded-full">{tx.source}</span>
+                                </td>
+                                <td className="p-4 text-slate-500 font-mono">{tx.account ? `•••• ${tx.account.slice(-4)}` : '—'}</td>
+                                <td className={`p-4 text-right font-mono font-bold ${tx.type === 'INCOME' ? 'text-emerald-500' : 'text-rose-500'}`}>{toLedgerAmount(tx).toFixed(2)}</td>
+                                <td className="p-4">
+                                    {!isReadOnly && (
+                                        <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <button onClick={() => onEdit(tx)} className="p-2 text-slate-400 hover:text-blue-500 rounded-lg active:scale-90 transition-all"><Pencil size={14} /></button>
+                                            <button onClick={() => onDelete(tx)} className="p-2 text-slate-400 hover:text-rose-500 rounded-lg active:scale-90 transition-all"><Trash2 size={14} /></button>
+                                        </div>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                        {rows.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="py-20 text-center opacity-40 uppercase font-black text-xs tracking-widest">
+                                    <Receipt size={24} className="mx-auto mb-3" />
+                                    No transactions recorded for {selectedYear}
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="p-4 bg-slate-50 dark:bg-slate-850/80 border border-slate-200 dark:border-slate-800 rounded-2xl flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest shadow-inner">
+                <span>{rows.length} transaction{rows.length === 1 ? '' : 's'}</span>
+                <div className="flex gap-6">
+                    <span className="text-emerald-500">In ${totals.INCOME.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    <span className="text-rose-500">Out ${totals.EXPENSE.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Calculator, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { PaymentFrequency } from '../../types';
+import { RegistryModal } from './RegistryModal';
+import { formatBaseCurrency } from '../../services/currencyService';
+import { AmortizationInputs, CompoundingConvention, COMPOUNDING_LABELS, DebtSheetRow, generateAmortizationSchedule, toDebtSheetRows, validateAmortizationInputs } from '../../services/debt/amortizationService';
+
+interface AmortizationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onWrite: (rows: DebtSheetRow[]) => Promise<void>;
+}
+
+const FREQUENCIES: PaymentFrequency[] = ['Monthly', 'Semi-Monthly', 'Bi-Weekly', 'Weekly'];
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+const defaultInputs = (): AmortizationInputs => ({
+  name: '',
+  principal: 0,
+  annualRate: 0,
+  amortizationYears: 25,
+  frequency: 'Monthly',
+  compounding: 'SEMI_ANNUAL',
+  startDate: new Date().toISOString().split('T')[0],
+  extraPayment: 0,
+  lumpSums: [],
+  renewals: []
+});
+
+export const AmortizationModal: React.FC<AmortizationModalProps> = ({ isOpen, onClose, onWrite }) => {
+  const [inputs, setInputs] = useState<AmortizationInputs>(defaultInputs);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setInputs(defaultInputs());
+  }, [isOpen]);
+
+  const errors = useMemo(() => validateAmortizationInputs(inputs), [inputs]);
+  const schedule = useMemo(() => errors.length === 0 ? generateAmortizationSchedule(inputs) : null, [inputs, errors]);
+  const sheetRows = useMemo(() => schedule ? toDebtSheetRows(inputs.name.trim(), schedule) : [], [schedule, inputs.name]);
+
+  const set = <K extends keyof AmortizationInputs>(key: K, value: AmortizationInputs[K]) => setInputs(prev => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onWrite(sheetRows);
+      onClose();
+    } catch (err: any) {
+      alert(err.message || "Failed to write schedule.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <RegistryModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Amortization Schedule"
+      icon={Calculator}
+      iconColor="text-rose-500"
+      isSubmitting={isSubmitting}
+      onSubmit={handleSubmit}
+      submitLabel={sheetRows.length > 0 ? `Write ${sheetRows.length} Rows to Debt Tab` : 'Write to Debt Tab'}
+      widthClass="max-w-4xl"
+    >
+      <div className="max-h-[65vh] overflow-y-auto space-y-5 pr-1 custom-scrollbar">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="col-span-2 space-y-1.5">
+            <label className={labelClass}>Loan Name</label>
+            <input type="text" placeholder="e.g. Home Mortgage" value={inputs.name} onChange={e => set('name', e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Principal</label>
+            <input type="number" step="any" value={inputs.principal || ''} onChange={e => set('principal', parseFloat(e.target.value) || 0)} className={`${inputClass} font-mono`} />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Rate %</label>
+            <input type="number" step="0.01" value={inputs.annualRate || ''} onChange={e => set('annualRate', parseFloat(e.target.value) || 0)} className={`${inputClass} font-mono`} />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Amortization (yrs)</label>
+            <input type="number" step="1" min={1} value={inputs.amortizationYears || ''} onChange={e => set('amortizationYears', parseFloat(e.target.value) || 0)} className={`${inputClass} font-mono`} />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Frequency</label>
+            <select value={inputs.frequency} onChange={e => set('frequency', e.target.value as PaymentFrequency)} className={inputClass}>
+              {FREQUENCIES.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Compounding</label>
+            <select value={inputs.compounding} onChange={e => set('compounding', e.target.value as CompoundingConvention)} className={inputClass}>
+              {(Object.keys(COMPOUNDING_LABELS) as CompoundingConvention[]).map(c => <option key={c} value={c}>{COMPOUNDING_LABELS[c]}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>First Payment</label>
+            <input type="date" value={inputs.startDate} onChange={e => set('startDate', e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Extra / Payment</label>
+            <input type="number" step="any" min={0} value={inputs.extraPayment || ''} placeholder="0" onChange={e => set('extraPayment', parseFloat(e.target.value) || 0)} className={`${inputClass} font-mono`} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className={labelClass}>Lump-Sum Payments</label>
+              <button type="button" onClick={() => set('lumpSums', [...inputs.lumpSums, { date: inputs.startDate, amount: 0 }])} className="p-1.5 text-slate-400 hover:text-blue-500"><Plus size={14} /></button>
+            </div>
+            {inputs.lumpSums.map((l, i) => (
+              <div key={i} className="flex gap-2">
+                <input type="date" value={l.date} onChange={e => set('lumpSums', inputs.lumpSums.map((x, j) => j === i ? { ...x, date: e.target.value } : x))} className={inputClass} />
+                <input type="number" step="any" placeholder="Amount" value={l.amount || ''} onChange={e => set('lumpSums', inputs.lumpSums.map((x, j) => j === i ? { ...x, amount: parseFloat(e.target.value) || 0 } : x))} className={`${inputClass} font-mono`} />
+                <button type="button" onClick={() => set('lumpSums', inputs.lumpSums.filter((_, j) => j !== i))} className="p-2 text-slate-400 hover:text-rose-500"><Trash2 size={14} /></button>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className={labelClass}>Renewals</label>
+              <button type="button" onClick={() => set('renewals', [...inputs.renewals, { date: '', annualRate: inputs.annualRate }])} className="p-1.5 text-slate-400 hover:text-blue-500"><Plus size={14} /></button>
+            </div>
+            {inputs.renewals.map((r, i) => (
+              <div key={i} className="flex gap-2">
+                <input type="date" value={r.date} onChange={e => set('renewals', inputs.renewals.map((x, j) => j === i ? { ...x, date: e.target.value } : x))} className={inputClass} />
+                <input type="number" step="0.01" placeholder="New rate %" value={r.annualRate || ''} onChange={e => set('renewals', inputs.renewals.map((x, j) => j === i ? { ...x, annualRate: parseFloat(e.target.value) || 0 } : x))} className={`${inputClass} font-mono`} />
+                <button type="button" onClick={() => set('renewals', inputs.renewals.filter((_, j) => j !== i))} className="p-2 text-slate-400 hover:text-rose-500"><Trash2 size={14} /></button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {errors.length > 0 ? (
+          <div className="flex items-start gap-3 p-4 bg-amber-50 dark:bg-amber-500/10 rounded-2xl border border-amber-100 dark:border-amber-500/20 text-xs font-bold text-amber-600 dark:text-amber-400">
+            <AlertTriangle size={16} className="shrink-0" />
+            <div>{errors.map(err => <p key={err}>{err}</p>)}</div>
+          </div>
+        ) : schedule && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-900/50">
+                <p className={labelClass}>Regular Payment</p>
+                <p className="font-black font-mono text-slate-900 dark:text-white">{formatBaseCurrency(schedule.regularPayment)}</p>
+              </div>
+              <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-900/50">
+                <p className={labelClass}>Total Interest</p>
+                <p className="font-black font-mono text-rose-500">{formatBaseCurrency(schedule.totalInterest)}</p>
+              </div>
+              <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-900/50">
+                <p className={labelClass}>Paid Off</p>
+                <p className="font-black font-mono text-slate-900 dark:text-white">{schedule.payoffDate || '—'}</p>
+              </div>
+            </div>
+            <div className="max-h-[30vh] overflow-y-auto rounded-2xl border border-slate-200 dark:border-slate-700">
+              <table className="w-full text-left text-xs">
+                <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900">
+                  <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <th className="p-3">Date</th>
+                    <th className="p-3 text-right">Starting</th>
+                    <th className="p-3 text-right">Payment</th>
+                    <th className="p-3 text-right">Interest</th>
+                    <th className="p-3 text-right">Principal</th>
+                    <th className="p-3 text-right">Ending</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50 font-mono text-slate-600 dark:text-slate-300">
+                  {sheetRows.map(r => (
+                    <tr key={r.date}>
+                      <td className="p-3">{r.date}</td>
+                      <td className="p-3 text-right">{formatBaseCurrency(r.startingBalance)}</td>
+                      <td className="p-3 text-right">{formatBaseCurrency(r.payment)}</td>
+                      <td className="p-3 text-right">{formatBaseCurrency(r.interest)}</td>
+                      <td className="p-3 text-right">{formatBaseCurrency(r.principal)}</td>
+                      <td className="p-3 text-right">{formatBaseCurrency(r.endingBalance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-slate-400 font-medium px-1">Rows are one per month. Any existing rows under "{inputs.name.trim()}" in the debt tab are replaced.</p>
+          </div>
+        )}
+      </div>
+    </RegistryModal>
+  );
+};
@@ -1,47 +1,39 @@
-
 import React, { useMemo, useState } from 'react';
-import { Subscription, DebtEntry } from '../../types';
-import { CreditCard, Flame, TrendingDown, ChevronUp, ChevronDown, Plus, Pencil, Trash2 } from 'lucide-react';
+import { Subscription, DebtEntry, Liability, DebtPayoffSettings } from '../../types';
+import { CreditCard, Flame, TrendingDown, ChevronUp, ChevronDown, Plus, Pencil, Trash2, Route, Target, Calculator } from 'lucide-react';
 import { formatBaseCurrency } from '../../services/currencyService';
 import { calculateMonthlyBurn } from '../../services/temporalUtils';
+import { getActiveDebtPositions } from '../../services/debt/debtService';
+import { DEFAULT_PAYOFF_SETTINGS, PAYOFF_STRATEGY_LABELS, getNextMonthTargets, simulatePayoff, toPayoffDebts } from '../../services/debt/payoffService';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { DebtPayoffModal } from './DebtPayoffModal';
 
 interface CommitmentsTabProps {
   subscriptions: Subscription[];
   debtEntries: DebtEntry[];
+  liabilities: Liability[];
   onAdd: () => void;
   onEdit: (sub: Subscription) => void;
   onDelete: (sub: Subscription) => Promise<void>;
+  onAddLiability: () => void;
+  onEditLiability: (liability: Liability) => void;
+  onDeleteLiability: (liability: Liability) => Promise<void>;
+  onGenerateSchedule?: () => void;
   isLoading: boolean;
   isReadOnly: boolean;
 }
 
+const SOURCE_LABELS = { schedule: 'Schedule', manual: 'Manual', amortized: 'Amortized' };
+
 export const CommitmentsTab: React.FC<CommitmentsTabProps> = ({ 
-  subscriptions, debtEntries, onAdd, onEdit, onDelete, isLoading, isReadOnly 
+  subscriptions, debtEntries, liabilities, onAdd, onEdit, onDelete, onAddLiability, onEditLiability, onDeleteLiability, onGenerateSchedule, isLoading, isReadOnly 
 }) => {
   const [showAllDebt, setShowAllDebt] = useState(false);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [payoffSettings, setPayoffSettings] = useIndexedDB<DebtPayoffSettings>('fintrack_debt_payoff', DEFAULT_PAYOFF_SETTINGS);
 
-  // Identify the "Active" debt records (Current month or most recent past)
-  // This logic is crucial for amortization schedules: we only want the current month's row.
-  const activeDebts = useMemo(() => {
-    if (!debtEntries || debtEntries.length === 0) return [];
-    
-    const today = new Date().toISOString().split('T')[0];
-    const currentMonthPrefix = today.substring(0, 7); // "YYYY-MM"
-    
-    // Sort by date to make finding the most recent entry easier
-    const sorted = [...debtEntries].sort((a, b) => (b.date || '').localeCompare(a.date || ''));
-    
-    // 1. Try to find the exact entry for the current month
-    const currentMonthEntry = sorted.find(d => d.date?.startsWith(currentMonthPrefix));
-    if (currentMonthEntry) return [currentMonthEntry];
-    
-    // 2. Fallback: Find the latest entry that has already passed (current state)
-    const latestPastEntry = sorted.find(d => d.date && d.date <= today);
-    if (latestPastEntry) return [latestPastEntry];
-    
-    // 3. Final Fallback: Just show the first available entry (likely the start of the schedule)
-    return [sorted[sorted.length - 1]];
-  }, [debtEntries]);
+  // Every active debt at its current balance: registered liabilities plus any schedule in the debt tab.
+  const activeDebts = useMemo(() => getActiveDebtPositions(liabilities, debtEntries), [liabilities, debtEntries]);
 
   const subStats = useMemo(() => {
     const active = subscriptions.filter(s => s.active);
@@ -54,7 +46,12 @@ export const CommitmentsTab: React.FC<CommitmentsTabProps> = ({
     [subStats.monthlyCost, activeDebts]
   );
 
-  // For the registry display, we show only the active row or a short list
+  const payoffDebts = useMemo(() => toPayoffDebts(activeDebts), [activeDebts]);
+  const payoffPlan = useMemo(() => simulatePayoff(payoffDebts, payoffSettings), [payoffDebts, payoffSettings]);
+  const nextTargets = useMemo(() => getNextMonthTargets(payoffPlan), [payoffPlan]);
+
+  const totalOwed = useMemo(() => activeDebts.reduce((acc, d) => acc + d.balance, 0), [activeDebts]);
+
   const visibleDebt = showAllDebt ? activeDebts : activeDebts.slice(0, 5);
 
   return (
@@ -102,36 +99,111 @@ export const CommitmentsTab: React.FC<CommitmentsTabProps> = ({
             <h3 className="text-xl font-black text-slate-900 dark:text-white flex items-center gap-3">
               <TrendingDown size={24} className="text-rose-500" /> Liabilities Registry
             </h3>
-            {activeDebts.length > 5 && (
-              <button 
-                onClick={() => setShowAllDebt(!showAllDebt)} 
-                className="text-[10px] font-black uppercase tracking-widest text-blue-500 flex items-center gap-2 hover:bg-blue-50 dark:hover:bg-blue-900/30 px-4 py-2 rounded-2xl transition-all"
-              >
-                {showAllDebt ? <><ChevronUp size={14} /> Less</> : <><ChevronDown size={14} /> View All ({activeDebts.length})</>}
-              </button>
-            )}
+            <div className="flex items-center gap-2">
+              {activeDebts.length > 5 && (
+                <button 
+                  onClick={() => setShowAllDebt(!showAllDebt)} 
+                  className="text-[10px] font-black uppercase tracking-widest text-blue-500 flex items-center gap-2 hover:bg-blue-50 dark:hover:bg-blue-900/30 px-4 py-2 rounded-2xl transition-all"
+                >
+                  {showAllDebt ? <><ChevronUp size={14} /> Less</> : <><ChevronDown size={14} /> View All ({activeDebts.length})</>}
+                </button>
+              )}
+              {activeDebts.length > 0 && (
+                <button 
+                  onClick={() => setIsPlannerOpen(true)} 
+                  className="text-[10px] font-black uppercase tracking-widest text-rose-500 flex items-center gap-2 hover:bg-rose-50 dark:hover:bg-rose-900/30 px-4 py-2 rounded-2xl transition-all"
+                >
+                  <Route size={14} /> Payoff Plan
+                </button>
+              )}
+              {!isReadOnly && onGenerateSchedule && (
+                <button 
+                  onClick={onGenerateSchedule} 
+                  className="text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-2 hover:bg-slate-100 dark:hover:bg-slate-800 px-4 py-2 rounded-2xl transition-all"
+                >
+                  <Calculator size={14} /> Schedule
+                </button>
+              )}
+              {!isReadOnly && (
+                <button 
+                  onClick={onAddLiability} 
+                  className="bg-slate-900 dark:bg-slate-700 text-white px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl transition-all hover:-translate-y-0.5 active:scale-95"
+                >
+                  <Plus size={16} className="inline mr-2" /> New Debt
+                </button>
+              )}
+            </div>
           </div>
           <div className="bg-white dark:bg-slate-850 border border-slate-200 dark:border-slate-700 rounded-[2.5rem] overflow-hidden shadow-sm">
             <table className="w-full text-left">
               <thead className="bg-slate-50/50 dark:bg-slate-900/30 border-b border-slate-100 dark:border-slate-700">
                 <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
-                  <th className="p-8">Account / Service</th>
+                  <th className="p-8">Liability</th>
                   <th className="p-8 text-right">Outstanding</th>
+                  <th className="p-8 w-20"></th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
-                {visibleDebt.map((d) => (
-                  <tr key={d.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
-                    <td className="p-8 text-sm font-bold text-slate-700 dark:text-slate-300 uppercase tracking-tight">{d.name}</td>
-                    <td className="p-8 text-right font-black text-rose-500 font-mono text-xl">{formatBaseCurrency(d.amountOwed)}</td>
+                {visibleDebt.map(({ liability: l, balance, monthlyPayment, source, asOf, remainingPayments }) => (
+                  <tr key={l.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors group">
+                    <td className="p-8">
+                      <div className="text-sm font-bold text-slate-700 dark:text-slate-300 uppercase tracking-tight">{l.name}</div>
+                      <div className="text-[10px] text-slate-400 font-black uppercase tracking-[0.2em] mt-2">
+                        {l.kind} • {l.interestRate > 0 ? `${l.interestRate.toFixed(2)}%` : 'Rate n/a'} • {formatBaseCurrency(monthlyPayment)}/mo
+                        {remainingPayments !== null && remainingPayments > 0 && <> • {remainingPayments} {l.paymentFrequency.toLowerCase()} payments left</>}
+                      </div>
+                    </td>
+                    <td className="p-8 text-right">
+                      <div className="font-black text-rose-500 font-mono text-xl">{formatBaseCurrency(balance)}</div>
+                      <div className="text-[9px] text-slate-400 font-black uppercase tracking-widest mt-1">{SOURCE_LABELS[source]} · {asOf}</div>
+                    </td>
+                    <td className="p-8 text-right">
+                      <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {!isReadOnly && (
+                          <>
+                            <button onClick={() => onEditLiability(l)} className="p-2.5 text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-500/10 rounded-xl transition-all active:scale-90"><Pencil size={14} /></button>
+                            {!l.id.startsWith('schedule-') && <button onClick={() => onDeleteLiability(l)} className="p-2.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-500/10 rounded-xl transition-all active:scale-90"><Trash2 size={14} /></button>}
+                          </>
+                        )}
+                      </div>
+                    </td>
                   </tr>
                 ))}
                 {activeDebts.length === 0 && (
-                  <tr><td colSpan={2} className="p-10 text-center text-xs text-slate-400 font-medium">No valid liabilities detected. Ensure debt table headers match expectation.</td></tr>
+                  <tr><td colSpan={3} className="p-10 text-center text-xs text-slate-400 font-medium">No active liabilities. Add a debt or a schedule to the debt tab.</td></tr>
+                )}
+                {activeDebts.length > 1 && (
+                  <tr className="bg-slate-50/50 dark:bg-slate-900/30">
+                    <td className="p-8 text-[10px] font-black text-slate-400 uppercase tracking-widest">Total Owed</td>
+                    <td className="p-8 text-right font-black text-rose-500 font-mono text-xl">{formatBaseCurrency(totalOwed)}</td>
+                    <td></td>
+                  </tr>
                 )}
               </tbody>
             </table>
           </div>
+
+          {nextTargets.length > 0 && (
+            <div className="bg-white dark:bg-slate-850 border border-slate-200 dark:border-slate-700 rounded-[2.5rem] p-8 shadow-sm space-y-5">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 flex items-center gap-2"><Target size={12} /> Next Month · {PAYOFF_STRATEGY_LABELS[payoffPlan.strategy]} Plan</p>
+                  <p className="text-xs text-slate-500 font-bold mt-1">
+                    {payoffPlan.stalled ? 'Payments never clear every balance' : `Debt-free by ${payoffPlan.payoffMonth}`} · {formatBaseCurrency(payoffPlan.totalInterest)} interest to go
+                  </p>
+                </div>
+                <p className="font-black font-mono text-lg text-slate-900 dark:text-white">{formatBaseCurrency(nextTargets.reduce((sum, t) => sum + t.payment, 0))}</p>
+              </div>
+              <div className="space-y-2">
+                {nextTargets.map(({ debt, payment, isFocus }) => (
+                  <div key={debt.id} className={`flex justify-between items-center px-4 py-3 rounded-2xl ${isFocus ? 'bg-rose-500/10 text-rose-600 dark:text-rose-400' : 'bg-slate-50 dark:bg-slate-900/40 text-slate-600 dark:text-slate-300'}`}>
+                    <span className="text-xs font-bold uppercase tracking-tight">{debt.name}{isFocus && <span className="ml-2 text-[9px] font-black tracking-widest">Focus</span>}</span>
+                    <span className="font-mono font-black text-sm">{formatBaseCurrency(payment)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="space-y-6">
@@ -188,6 +260,14 @@ export const CommitmentsTab: React.FC<CommitmentsTabProps> = ({
           </div>
         </div>
       </div>
+
+      <DebtPayoffModal 
+        isOpen={isPlannerOpen} 
+        onClose={() => setIsPlannerOpen(false)} 
+        debts={payoffDebts} 
+        settings={payoffSettings} 
+        onSave={setPayoffSettings} 
+      />
     </div>
   );
 };
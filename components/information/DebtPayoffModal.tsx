@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DebtPayoffSettings, PayoffStrategy } from '../../types';
+import { Route, ArrowUp, ArrowDown, AlertTriangle } from 'lucide-react';
+import { RegistryModal } from './RegistryModal';
+import { formatBaseCurrency } from '../../services/currencyService';
+import { PayoffDebt, PAYOFF_STRATEGY_LABELS, comparePayoffStrategies, orderDebts } from '../../services/debt/payoffService';
+
+interface DebtPayoffModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    debts: PayoffDebt[];
+    settings: DebtPayoffSettings;
+    onSave: (settings: DebtPayoffSettings) => void;
+}
+
+const STRATEGY_HINTS: Record<PayoffStrategy, string> = {
+    AVALANCHE: 'Highest rate first · least interest',
+    SNOWBALL: 'Smallest balance first · quickest wins',
+    CUSTOM: 'Your own order'
+};
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold font-mono outline-none focus:border-blue-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+export const DebtPayoffModal: React.FC<DebtPayoffModalProps> = ({ isOpen, onClose, debts, settings, onSave }) => {
+    const [draft, setDraft] = useState<DebtPayoffSettings>(settings);
+    const [scheduleDebtId, setScheduleDebtId] = useState<string>('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft({ ...settings, customOrder: orderDebts(debts, 'CUSTOM', settings.customOrder).map(d => d.id) });
+            setScheduleDebtId(debts[0]?.id || '');
+        }
+    }, [isOpen, settings, debts]);
+
+    const plans = useMemo(() => comparePayoffStrategies(debts, draft), [debts, draft]);
+    const plan = plans[draft.strategy];
+    const schedule = plan.debts.find(r => r.debt.id === scheduleDebtId) || plan.debts[0];
+
+    const move = (index: number, delta: number) => setDraft(prev => {
+        const order = [...prev.customOrder];
+        const target = index + delta;
+        if (target < 0 || target >= order.length) return prev;
+        [order[index], order[target]] = [order[target], order[index]];
+        return { ...prev, customOrder: order };
+    });
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(draft);
+        onClose();
+    };
+
+    return (
+        <RegistryModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Debt Payoff Planner"
+            icon={Route}
+            iconColor="text-rose-500"
+            isSubmitting={false}
+            onSubmit={handleSubmit}
+            submitLabel={`Use ${PAYOFF_STRATEGY_LABELS[draft.strategy]} Plan`}
+            widthClass="max-w-5xl"
+        >
+            <div className="max-h-[65vh] overflow-y-auto space-y-6 pr-1 custom-scrollbar">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div className="space-y-1.5">
+                        <label className={labelClass}>Extra / Month</label>
+                        <input type="number" min={0} step="50" value={draft.extraPayment || ''} placeholder="0" onChange={e => setDraft({ ...draft, extraPayment: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                    </div>
+                    {(Object.keys(PAYOFF_STRATEGY_LABELS) as PayoffStrategy[]).map(strategy => {
+                        const p = plans[strategy];
+                        const active = draft.strategy === strategy;
+                        return (
+                            <button key={strategy} type="button" onClick={() => setDraft({ ...draft, strategy })}
+                                className={`text-left p-4 rounded-2xl border-2 transition-all ${active ? 'border-blue-500 bg-blue-50 dark:bg-blue-500/10' : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'}`}>
+                                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{PAYOFF_STRATEGY_LABELS[strategy]}</p>
+                                <p className="text-lg font-black text-slate-900 dark:text-white">{p.stalled ? 'Never' : p.payoffMonth || '—'}</p>
+                                <p className="text-[10px] font-bold text-slate-500">{formatBaseCurrency(p.totalInterest)} interest · {p.months} mo</p>
+                                <p className="text-[9px] text-slate-400 mt-1">{STRATEGY_HINTS[strategy]}</p>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {plan.stalled && (
+                    <div className="flex items-start gap-3 p-4 bg-amber-50 dark:bg-amber-500/10 rounded-2xl border border-amber-100 dark:border-amber-500/20 text-xs font-bold text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={16} className="shrink-0" />
+                        Payments don't cover the interest on every debt. Raise the extra amount to reach a payoff date.
+                    </div>
+                )}
+
+                <table className="w-full text-left text-xs">
+                    <thead>
+                        <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-100 dark:border-slate-700">
+                            {draft.strategy === 'CUSTOM' && <th className="p-3 w-16"></th>}
+                            <th className="p-3">Debt</th>
+                            <th className="p-3 text-right">Rate</th>
+                            <th className="p-3 text-right">Balance</th>
+                            <th className="p-3 text-right">Minimum</th>
+                            <th className="p-3 text-right">Paid Off</th>
+                            <th className="p-3 text-right">Interest</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                        {plan.debts.map((r, i) => (
+                            <tr key={r.debt.id} onClick={() => setScheduleDebtId(r.debt.id)} className={`cursor-pointer transition-colors ${schedule?.debt.id === r.debt.id ? 'bg-slate-50 dark:bg-slate-900/50' : 'hover:bg-slate-50 dark:hover:bg-slate-900/30'}`}>
+                                {draft.strategy === 'CUSTOM' && (
+                                    <td className="p-2 whitespace-nowrap">
+                                        <button type="button" disabled={i === 0} onClick={e => { e.stopPropagation(); move(i, -1); }} className="p-1 text-slate-400 hover:text-blue-500 disabled:opacity-30"><ArrowUp size={14} /></button>
+                                        <button type="button" disabled={i === plan.debts.length - 1} onClick={e => { e.stopPropagation(); move(i, 1); }} className="p-1 text-slate-400 hover:text-blue-500 disabled:opacity-30"><ArrowDown size={14} /></button>
+                                    </td>
+                                )}
+                                <td className="p-3 font-bold text-slate-900 dark:text-white"><span className="text-slate-400 font-mono mr-2">{i + 1}</span>{r.debt.name}</td>
+                                <td className="p-3 text-right font-mono">{r.debt.rate.toFixed(2)}%</td>
+                                <td className="p-3 text-right font-mono">{formatBaseCurrency(r.debt.balance)}</td>
+                                <td className="p-3 text-right font-mono">{formatBaseCurrency(r.debt.minimumPayment)}</td>
+                                <td className="p-3 text-right font-mono font-bold">{r.payoffMonth || 'Never'}</td>
+                                <td className="p-3 text-right font-mono text-rose-500">{formatBaseCurrency(r.totalInterest)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {schedule && (
+                    <div className="space-y-2">
+                        <p className={labelClass}>{schedule.debt.name} · Monthly Schedule</p>
+                        <div className="max-h-[30vh] overflow-y-auto rounded-2xl border border-slate-200 dark:border-slate-700">
+                            <table className="w-full text-left text-xs">
+                                <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900">
+                                    <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                        <th className="p-3">Month</th>
+                                        <th className="p-3 text-right">Payment</th>
+                                        <th className="p-3 text-right">Interest</th>
+                                        <th className="p-3 text-right">Principal</th>
+                                        <th className="p-3 text-right">Balance</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50 font-mono">
+                                    {schedule.schedule.map(row => (
+                                        <tr key={row.month} className={row.payment > schedule.debt.minimumPayment + 0.005 ? 'text-blue-600 dark:text-blue-400' : 'text-slate-600 dark:text-slate-300'}>
+                                            <td className="p-3">{row.month}</td>
+                                            <td className="p-3 text-right">{formatBaseCurrency(row.payment)}</td>
+                                            <td className="p-3 text-right">{formatBaseCurrency(row.interest)}</td>
+                                            <td className="p-3 text-right">{formatBaseCurrency(row.principal)}</td>
+                                            <td className="p-3 text-right">{formatBaseCurrency(row.balance)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </RegistryModal>
+    );
+};
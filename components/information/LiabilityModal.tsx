@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { TrendingDown } from 'lucide-react';
+import { Liability, LiabilityKind, PaymentFrequency } from '../../types';
+import { RegistryModal } from './RegistryModal';
+
+interface LiabilityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (liability: Liability) => Promise<void>;
+  initialData?: Liability | null;
+  scheduleNames: string[];
+}
+
+const KINDS: LiabilityKind[] = ['Mortgage', 'Auto Loan', 'Line of Credit', 'Credit Card', 'Student Loan', 'Personal Loan', 'Other'];
+const FREQUENCIES: PaymentFrequency[] = ['Monthly', 'Semi-Monthly', 'Bi-Weekly', 'Weekly'];
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+const numberOrUndefined = (val: string) => val === '' ? undefined : parseFloat(val);
+
+export const LiabilityModal: React.FC<LiabilityModalProps> = ({ isOpen, onClose, onSave, initialData, scheduleNames }) => {
+  const [form, setForm] = useState<Partial<Liability>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(initialData || {
+        name: '', kind: 'Mortgage', principal: 0, interestRate: 0, paymentAmount: 0,
+        paymentFrequency: 'Monthly', startDate: new Date().toISOString().split('T')[0], active: true
+      });
+    }
+  }, [isOpen, initialData]);
+
+  const isRevolving = form.kind === 'Line of Credit' || form.kind === 'Credit Card';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      // Schedules found only in the sheet carry a synthetic id; saving registers them for real.
+      const isRegistered = initialData && !initialData.id.startsWith('schedule-');
+      await onSave({ ...form as Liability, id: isRegistered ? initialData!.id : crypto.randomUUID(), scheduleName: form.scheduleName || undefined });
+      onClose();
+    } catch (err: any) {
+      alert(err.message || err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <RegistryModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={initialData ? 'Edit Liability' : 'New Liability'}
+      icon={TrendingDown}
+      iconColor="text-rose-500"
+      isSubmitting={isSubmitting}
+      onSubmit={handleSubmit}
+      widthClass="max-w-xl"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <label className={labelClass}>Name</label>
+            <input type="text" value={form.name || ''} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} placeholder="e.g. Home Mortgage" required />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Type</label>
+            <select value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as LiabilityKind })} className={`${inputClass} appearance-none`}>
+              {KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1.5">
+            <label className={labelClass}>{isRevolving ? 'Credit Limit' : 'Principal'}</label>
+            <input type="number" step="any" value={form.principal ?? ''} onChange={e => setForm({ ...form, principal: parseFloat(e.target.value) || 0 })} className={`${inputClass} font-mono`} required />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Rate (APR %)</label>
+            <input type="number" step="any" value={form.interestRate ?? ''} onChange={e => setForm({ ...form, interestRate: parseFloat(e.target.value) || 0 })} className={`${inputClass} font-mono`} required />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Term (Months)</label>
+            <input type="number" value={form.termMonths ?? ''} onChange={e => setForm({ ...form, termMonths: numberOrUndefined(e.target.value) })} className={`${inputClass} font-mono`} placeholder={isRevolving ? 'Open' : ''} />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1.5">
+            <label className={labelClass}>Payment</label>
+            <input type="number" step="any" value={form.paymentAmount ?? ''} onChange={e => setForm({ ...form, paymentAmount: parseFloat(e.target.value) || 0 })} className={`${inputClass} font-mono`} required />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Frequency</label>
+            <select value={form.paymentFrequency} onChange={e => setForm({ ...form, paymentFrequency: e.target.value as PaymentFrequency })} className={`${inputClass} appearance-none`}>
+              {FREQUENCIES.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Start Date</label>
+            <input type="date" value={form.startDate || ''} onChange={e => setForm({ ...form, startDate: e.target.value })} className={inputClass} required />
+          </div>
+        </div>
+
+        <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 space-y-4">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Balance Source</p>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Schedule in Debt Tab</label>
+            <select value={form.scheduleName || ''} onChange={e => setForm({ ...form, scheduleName: e.target.value })} className={`${inputClass} appearance-none`}>
+              <option value="">None</option>
+              {scheduleNames.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <label className={labelClass}>Current Balance</label>
+              <input type="number" step="any" value={form.currentBalance ?? ''} onChange={e => setForm({ ...form, currentBalance: numberOrUndefined(e.target.value) })} className={`${inputClass} font-mono`} placeholder="Amortize" disabled={!!form.scheduleName} />
+            </div>
+            <div className="space-y-1.5">
+              <label className={labelClass}>As Of</label>
+              <input type="date" value={form.balanceAsOf || ''} onChange={e => setForm({ ...form, balanceAsOf: e.target.value || undefined })} className={inputClass} disabled={!!form.scheduleName || form.currentBalance === undefined} />
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-400 font-medium">A linked schedule wins. Otherwise the entered balance is used, or the principal is amortized from the start date.</p>
+        </div>
+
+        <div className="flex items-center gap-3 bg-slate-50 dark:bg-slate-900 p-4 rounded-2xl border border-slate-100 dark:border-slate-700">
+          <input type="checkbox" checked={!!form.active} onChange={e => setForm({ ...form, active: e.target.checked })} className="w-5 h-5 rounded-lg border-slate-300 text-blue-600" />
+          <label className="text-xs font-black text-slate-500 uppercase tracking-widest">Active Liability</label>
+        </div>
+      </div>
+    </RegistryModal>
+  );
+};
@@ -12,16 +12,17 @@ interface RegistryModalProps {
   onSubmit: (e: React.FormEvent) => void;
   children: React.ReactNode;
   submitLabel?: string;
+  widthClass?: string;
 }
 
 export const RegistryModal: React.FC<RegistryModalProps> = ({ 
-  isOpen, onClose, title, icon: Icon, iconColor, isSubmitting, onSubmit, children, submitLabel = "Save Changes" 
+  isOpen, onClose, title, icon: Icon, iconColor, isSubmitting, onSubmit, children, submitLabel = "Save Changes", widthClass = "max-w-md" 
 }) => {
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
-      <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-[2.5rem] shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className={`bg-white dark:bg-slate-800 w-full ${widthClass} rounded-[2.5rem] shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden`}>
         <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-800/50">
           <h3 className="font-black text-xl text-slate-900 dark:text-white flex items-center gap-3">
             <div className={`p-2 rounded-xl bg-slate-100 dark:bg-slate-900 ${iconColor}`}>
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { UserCog } from 'lucide-react';
+import { TaxRoomProfile } from '../../types';
+import { RegistryModal } from './RegistryModal';
+import { formatBaseCurrency } from '../../services/currencyService';
+
+interface TaxRoomProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: TaxRoomProfile;
+  earnedIncome: Record<number, number>;
+  onSave: (profile: TaxRoomProfile) => void;
+}
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold font-mono outline-none focus:border-blue-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest px-1";
+
+const parseYear = (value: string): number | null => {
+  const year = parseInt(value, 10);
+  return isNaN(year) ? null : year;
+};
+
+export const TaxRoomProfileModal: React.FC<TaxRoomProfileModalProps> = ({ isOpen, onClose, profile, earnedIncome, onSave }) => {
+  const [draft, setDraft] = useState<TaxRoomProfile>(profile);
+
+  useEffect(() => {
+    if (isOpen) setDraft(profile);
+  }, [isOpen, profile]);
+
+  const incomeYears = Object.keys(earnedIncome).map(Number).sort((a, b) => b - a);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const thisYear = new Date().getFullYear();
+    if (draft.birthYear !== null && (draft.birthYear < 1900 || draft.birthYear > thisYear)) return alert("Enter a valid birth year.");
+    if (draft.birthYear !== null && draft.residentSince !== null && draft.residentSince < draft.birthYear) return alert("Residency can't start before the birth year.");
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <RegistryModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Room Profile"
+      icon={UserCog}
+      iconColor="text-blue-500"
+      isSubmitting={false}
+      onSubmit={handleSubmit}
+      submitLabel="Save Profile"
+    >
+      <div className="space-y-5">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1.5">
+            <label className={labelClass}>Birth Year</label>
+            <input type="number" step="1" value={draft.birthYear ?? ''} onChange={e => setDraft({ ...draft, birthYear: parseYear(e.target.value) })} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Resident Since</label>
+            <input type="number" step="1" value={draft.residentSince ?? ''} placeholder="Birth" onChange={e => setDraft({ ...draft, residentSince: parseYear(e.target.value) })} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <label className={labelClass}>FHSA Opened</label>
+            <input type="number" step="1" min={2023} value={draft.fhsaOpenedYear ?? ''} placeholder="—" onChange={e => setDraft({ ...draft, fhsaOpenedYear: parseYear(e.target.value) })} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className={labelClass}>Earned Income · From Income Ledger</p>
+          {incomeYears.length > 0 ? (
+            <div className="rounded-2xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-800/50 max-h-48 overflow-y-auto custom-scrollbar">
+              {incomeYears.map(year => (
+                <div key={year} className="flex justify-between px-4 py-2.5 text-xs font-mono">
+                  <span className="font-bold text-slate-500">{year}</span>
+                  <span className="font-black text-slate-900 dark:text-white">{formatBaseCurrency(earnedIncome[year])}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 font-medium px-1">No income ledger history yet, so RRSP room can't be computed.</p>
+          )}
+        </div>
+
+        <p className="text-[10px] text-slate-400 font-medium px-1 leading-relaxed">
+          Computed LIMIT rows fill every year you haven't entered one yourself. Enter a Limit for a year, or an Opening Balance covering all years up to it, to override them.
+        </p>
+      </div>
+    </RegistryModal>
+  );
+};
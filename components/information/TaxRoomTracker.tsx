@@ -1,13 +1,20 @@
 
 import React, { useMemo, memo, useState, useEffect } from 'react';
-import { TaxRecord } from '../../types';
-import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
-import { ShieldCheck, Landmark, Sparkles, History, Plus, Pencil, Trash2, X, Loader2, ArrowUpRight, ArrowDownRight, GraduationCap, Lock, Save } from 'lucide-react';
+import { LedgerData, TaxRecord, TaxRoomProfile } from '../../types';
+import { PieChart, Pie, Cell, ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { ShieldCheck, Landmark, Sparkles, History, Plus, Pencil, Trash2, X, Loader2, ArrowUpRight, ArrowDownRight, GraduationCap, Lock, Save, Calculator, UserCog, AlertTriangle, LineChart as LineChartIcon } from 'lucide-react';
 import { formatBaseCurrency } from '../../services/currencyService';
-import { TAX_ACCOUNTS, TAX_SUMMARY_ACCOUNTS, TAX_LIMIT_TYPES, TAX_WITHDRAWAL_TYPES, calculateTaxStats } from '../../services/taxService';
+import { TAX_ACCOUNTS, TAX_SUMMARY_ACCOUNTS, TAX_LIMIT_TYPES, TAX_WITHDRAWAL_TYPES, TAX_PENALTY_RATE, OVER_CONTRIBUTION_ALLOWANCE, DEFERRED_RESTORE_ACCOUNTS, NO_RESTORE_ACCOUNTS, OverContributionEpisode, TaxRoomTimeline, buildTaxRoomTimeline, calculateTaxStats } from '../../services/taxService';
+import { DEFAULT_TAX_ROOM_PROFILE, buildComputedLimits, getEarnedIncomeByYear } from '../../services/taxRoomService';
+import { loadLedgerHistory } from '../../services/backupService';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { TaxRoomProfileModal } from './TaxRoomProfileModal';
 
 interface TaxRoomTrackerProps {
   taxRecords: TaxRecord[];
+  // The open year's income ledger, which may hold edits not yet written back to local storage.
+  detailedIncome?: LedgerData;
+  selectedYear?: number;
   isLoading?: boolean;
   onAddTaxRecord?: (rec: TaxRecord) => Promise<void>;
   onEditTaxRecord?: (rec: TaxRecord) => Promise<void>;
@@ -98,7 +105,8 @@ const TaxRecordModal = ({ isOpen, onClose, onSave, initialData, defaultAccount }
     );
 };
 
-const RoomCard = memo(({ label, used, remaining, totalLimit, color }: { label: string, used: number, remaining: number, totalLimit: number, color: string }) => {
+const RoomCard = memo(({ label, used, remaining, totalLimit, color, pendingRestore = 0, overContribution }: { label: string, used: number, remaining: number, totalLimit: number, color: string, pendingRestore?: number, overContribution?: OverContributionEpisode | null }) => {
+    const isOver = remaining < 0;
     const data = [{ name: 'Used', value: Math.max(0, used) }, { name: 'Remaining', value: Math.max(0, remaining) }];
     const pctUsed = totalLimit > 0 ? (used / totalLimit) * 100 : 0;
     const getIcon = () => {
@@ -110,7 +118,7 @@ const RoomCard = memo(({ label, used, remaining, totalLimit, color }: { label: s
         return <Landmark size={24} />;
     };
     return (
-        <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-[2.5rem] p-8 flex flex-col shadow-sm transition-all hover:border-blue-400/30 group">
+        <div className={`bg-white dark:bg-slate-800 border rounded-[2.5rem] p-8 flex flex-col shadow-sm transition-all group ${isOver ? 'border-red-500/40 ring-1 ring-red-500/20' : 'border-slate-200 dark:border-slate-700 hover:border-blue-400/30'}`}>
             <div className="flex justify-between items-start mb-8">
                 <div className="flex items-center gap-4">
                     <div className="p-3 bg-slate-100 dark:bg-slate-900 rounded-2xl group-hover:bg-blue-500/10" style={{ color: pctUsed > 0 ? color : undefined }}>{getIcon()}</div>
@@ -123,21 +131,83 @@ const RoomCard = memo(({ label, used, remaining, totalLimit, color }: { label: s
             </div>
             <div className="grid grid-cols-2 gap-4 mb-6">
                 <div><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">Used</p><p className="text-lg font-black text-slate-900 dark:text-white font-mono">{formatBaseCurrency(used)}</p></div>
-                <div className="text-right"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">Available</p><p className="text-lg font-black text-emerald-600 dark:text-emerald-400 font-mono">{formatBaseCurrency(remaining)}</p></div>
+                <div className="text-right"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5">{isOver ? 'Over By' : 'Available'}</p><p className={`text-lg font-black font-mono ${isOver ? 'text-red-500' : 'text-emerald-600 dark:text-emerald-400'}`}>{formatBaseCurrency(Math.abs(remaining))}</p></div>
+            </div>
+            <div className="pt-5 border-t border-slate-100 dark:border-slate-700"><div className="flex justify-between items-center"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Total Limit</p><p className="text-[11px] font-bold text-slate-500 dark:text-slate-400 font-mono">{formatBaseCurrency(totalLimit)}</p></div>
+                {pendingRestore > 0 && <p className="text-[10px] font-bold text-slate-400 mt-2">+{formatBaseCurrency(pendingRestore)} withdrawn · restores Jan 1</p>}
+                {overContribution && <p className="flex items-center gap-1.5 text-[10px] font-black text-red-500 mt-2"><AlertTriangle size={12} /> Over since {overContribution.since} · est. penalty {formatBaseCurrency(overContribution.penalty)}</p>}
+            </div>
+        </div>
+    );
+});
+
+const RoomTimeline = memo(({ account, timeline, color }: { account: string, timeline: TaxRoomTimeline, color: string }) => {
+    const { current, episodes } = timeline;
+    const allowance = OVER_CONTRIBUTION_ALLOWANCE[account] || 0;
+    const pastPenalty = episodes.filter(ep => ep !== current).reduce((sum, ep) => sum + ep.penalty, 0);
+    if (timeline.points.length < 2) return null;
+    return (
+        <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-[2.5rem] p-8 shadow-sm space-y-6">
+            <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3"><LineChartIcon size={20} className="text-slate-400" /><h4 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">{account} Room Over Time</h4></div>
+                {DEFERRED_RESTORE_ACCOUNTS.includes(account) && <span className="text-[9px] font-bold text-slate-400">Withdrawals return as room the following January 1</span>}
+                {NO_RESTORE_ACCOUNTS.includes(account) && <span className="text-[9px] font-bold text-slate-400">Withdrawals do not restore room</span>}
+            </div>
+            {current && (
+                <div className="flex items-start gap-3 p-4 bg-red-50 dark:bg-red-500/10 rounded-2xl border border-red-100 dark:border-red-500/20 text-xs font-bold text-red-600 dark:text-red-400">
+                    <AlertTriangle size={16} className="shrink-0" />
+                    <div className="space-y-1">
+                        <p>Over-contributed by {formatBaseCurrency(current.excess)} since {current.since}.</p>
+                        <p className="font-medium">
+                            Estimated penalty so far {formatBaseCurrency(current.penalty)}, plus about {formatBaseCurrency(Math.max(0, current.excess - allowance) * TAX_PENALTY_RATE)} for each month until the excess is withdrawn
+                            {allowance > 0 ? ` (the first ${formatBaseCurrency(allowance)} of excess is not taxed)` : ''}.
+                        </p>
+                    </div>
+                </div>
+            )}
+            {!current && pastPenalty > 0 && (
+                <p className="text-[10px] font-bold text-amber-600 dark:text-amber-400">Past over-contributions carried an estimated {formatBaseCurrency(pastPenalty)} in penalties.</p>
+            )}
+            <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={timeline.points}>
+                        <CartesianGrid vertical={false} opacity={0.05} />
+                        <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} minTickGap={40} />
+                        <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#64748b' }} tickFormatter={(v: number) => `$${Math.abs(v) >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`} />
+                        <Tooltip formatter={(v: number) => [formatBaseCurrency(v), 'Room']} contentStyle={{ borderRadius: 12, fontSize: 11 }} />
+                        <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+                        <Area type="stepAfter" dataKey="room" stroke={current ? '#ef4444' : color} fill={current ? '#ef4444' : color} fillOpacity={0.1} strokeWidth={2} />
+                    </AreaChart>
+                </ResponsiveContainer>
             </div>
-            <div className="pt-5 border-t border-slate-100 dark:border-slate-700"><div className="flex justify-between items-center"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Total Limit</p><p className="text-[11px] font-bold text-slate-500 dark:text-slate-400 font-mono">{formatBaseCurrency(totalLimit)}</p></div></div>
         </div>
     );
 });
 
-export const TaxRoomTracker: React.FC<TaxRoomTrackerProps> = ({ taxRecords, isLoading = false, onAddTaxRecord, onEditTaxRecord, onDeleteTaxRecord }) => {
+export const TaxRoomTracker: React.FC<TaxRoomTrackerProps> = ({ taxRecords, detailedIncome, selectedYear, isLoading = false, onAddTaxRecord, onEditTaxRecord, onDeleteTaxRecord }) => {
     const [activeTab, setActiveTab] = useState<string>('TFSA');
     const [editingRecord, setEditingRecord] = useState<TaxRecord | null>(null);
     const [isAddingRecord, setIsAddingRecord] = useState(false);
+    const [isEditingProfile, setIsEditingProfile] = useState(false);
     const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [profile, setProfile] = useIndexedDB<TaxRoomProfile>('fintrack_tax_room_profile', DEFAULT_TAX_ROOM_PROFILE);
+    const [storedHistory, setStoredHistory] = useState<{ year: number; income?: LedgerData }[]>([]);
 
-    const accountStats = useMemo(() => calculateTaxStats(taxRecords), [taxRecords]);
-    const activeRecords = useMemo(() => taxRecords.filter(r => (r.recordType || '').toUpperCase().includes(activeTab)).sort((a, b) => b.date.localeCompare(a.date) || (b.rowIndex || 0) - (a.rowIndex || 0)), [taxRecords, activeTab]);
+    useEffect(() => {
+        let cancelled = false;
+        loadLedgerHistory().then(h => { if (!cancelled) setStoredHistory(h); }).catch(err => console.error('Failed to load ledger history', err));
+        return () => { cancelled = true; };
+    }, []);
+
+    const earnedIncome = useMemo(() => getEarnedIncomeByYear(selectedYear === undefined ? storedHistory : [
+        ...storedHistory.filter(h => h.year !== selectedYear),
+        { year: selectedYear, income: detailedIncome }
+    ]), [storedHistory, selectedYear, detailedIncome]);
+
+    const allRecords = useMemo(() => [...taxRecords, ...buildComputedLimits(profile, taxRecords, earnedIncome)], [taxRecords, profile, earnedIncome]);
+    const accountStats = useMemo(() => calculateTaxStats(allRecords), [allRecords]);
+    const timelines = useMemo(() => Object.fromEntries(TAX_ACCOUNTS.map(acc => [acc, buildTaxRoomTimeline(allRecords, acc)])) as Record<string, TaxRoomTimeline>, [allRecords]);
+    const activeRecords = useMemo(() => allRecords.filter(r => (r.recordType || '').toUpperCase().includes(activeTab)).sort((a, b) => b.date.localeCompare(a.date) || (b.rowIndex || 0) - (a.rowIndex || 0)), [allRecords, activeTab]);
 
     const getAccountColor = (acc: string) => {
         const colors: Record<string, string> = { TFSA: '#10b981', RRSP: '#f59e0b', FHSA: '#3b82f6', LAPP: '#ef4444', RESP: '#8b5cf6' };
@@ -147,15 +217,19 @@ export const TaxRoomTracker: React.FC<TaxRoomTrackerProps> = ({ taxRecords, isLo
     return (
         <div className="space-y-12 animate-fade-in pb-20">
             <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 transition-all duration-500 ${isLoading ? 'opacity-60 blur-[1px]' : ''}`}>
-                {TAX_SUMMARY_ACCOUNTS.map(acc => <RoomCard key={acc} label={acc} used={accountStats[acc]?.used || 0} totalLimit={accountStats[acc]?.totalLimit || 0} remaining={accountStats[acc]?.remaining || 0} color={getAccountColor(acc)} />)}
+                {TAX_SUMMARY_ACCOUNTS.map(acc => <RoomCard key={acc} label={acc} used={accountStats[acc]?.used || 0} totalLimit={accountStats[acc]?.totalLimit || 0} remaining={accountStats[acc]?.remaining || 0} pendingRestore={accountStats[acc]?.pendingRestore} overContribution={timelines[acc]?.current} color={getAccountColor(acc)} />)}
             </div>
             <div className="space-y-6">
                 <div className="flex flex-col sm:flex-row items-center justify-between gap-6">
                     <div className="flex bg-slate-100 dark:bg-slate-900/50 p-1.5 rounded-[1.5rem] border border-slate-200 dark:border-slate-800 shadow-inner overflow-x-auto max-w-full no-scrollbar">
                         {TAX_ACCOUNTS.map(acc => <button key={acc} onClick={() => setActiveTab(acc)} className={`px-8 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all flex-shrink-0 ${activeTab === acc ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-lg' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'}`}>{acc}</button>)}
                     </div>
+                    <div className="flex items-center gap-3">
+                    <button onClick={() => setIsEditingProfile(true)} title="Compute room from your birth year, residency and income ledger" className={`px-6 py-5 rounded-[1.5rem] text-[10px] font-black uppercase tracking-[0.2em] transition-all flex items-center gap-2 border ${profile.birthYear ? 'bg-blue-500/10 border-blue-500/20 text-blue-600 dark:text-blue-400' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-500 hover:border-blue-400'}`}><UserCog size={16} /> Room Profile</button>
                     {!isLoading && onAddTaxRecord && <button onClick={() => setIsAddingRecord(true)} className="bg-blue-600 dark:bg-blue-500 text-white font-black uppercase text-[10px] tracking-[0.2em] px-10 py-5 rounded-[1.5rem] shadow-xl shadow-blue-500/30 transition-all hover:-translate-y-1 active:scale-95 flex items-center gap-2"><Plus size={18} strokeWidth={3} /> New Entry</button>}
+                    </div>
                 </div>
+                <RoomTimeline account={activeTab} timeline={timelines[activeTab]} color={getAccountColor(activeTab)} />
                 <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-[2.5rem] overflow-hidden shadow-sm">
                     <div className="px-10 py-6 border-b border-slate-100 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-900/20 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                         <div className="flex items-center gap-3"><History size={20} className="text-slate-400" /><h4 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">{activeTab} Ledger Detail</h4><div className="group relative flex items-center"><span className="flex items-center gap-1 text-[9px] font-black text-amber-600 dark:text-amber-500 bg-amber-500/10 px-2 py-0.5 rounded-full border border-amber-500/20 uppercase tracking-tighter"><Lock size={10} /> Private Vault</span><div className="absolute left-0 bottom-full mb-2 w-48 p-2 bg-slate-900 text-white text-[10px] leading-relaxed rounded-xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10 leading-tight">Stored locally on-device.</div></div></div>
@@ -164,11 +238,16 @@ export const TaxRoomTracker: React.FC<TaxRoomTrackerProps> = ({ taxRecords, isLo
                     <div className="overflow-x-auto"><table className="w-full text-left"><thead className="bg-slate-50/30 dark:bg-slate-900/10 border-b border-slate-100 dark:border-slate-700"><tr><th className="px-10 py-6 text-[10px] font-black text-slate-400 uppercase tracking-widest">Date</th><th className="px-6 py-6 text-[10px] font-black text-slate-400 uppercase tracking-widest">Type</th><th className="px-6 py-6 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Value</th><th className="px-10 py-6 text-[10px] font-black text-slate-400 uppercase tracking-widest">Description</th><th className="px-6 py-6 w-24"></th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">{activeRecords.map(record => {
                         const isWithdrawal = TAX_WITHDRAWAL_TYPES.includes((record.transactionType || '').toUpperCase());
                         const isLimit = TAX_LIMIT_TYPES.includes((record.transactionType || '').toUpperCase());
-                        return (<tr key={record.id} className="hover:bg-blue-500/[0.03] transition-colors group"><td className="px-10 py-6 text-sm font-bold text-slate-500 dark:text-slate-400 font-mono">{record.date}</td><td className="px-6 py-6"><div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest ${isLimit ? 'bg-blue-500/10 text-blue-600 border border-blue-500/20' : isWithdrawal ? 'bg-red-500/10 text-red-600 border border-red-500/20' : 'bg-emerald-500/10 text-emerald-600 border border-emerald-500/20'}`}>{isWithdrawal ? <ArrowDownRight size={12} /> : isLimit ? <Landmark size={12} /> : <ArrowUpRight size={12} />}{record.transactionType}</div></td><td className={`px-6 py-6 text-right font-black font-mono text-base ${isWithdrawal ? 'text-red-500' : 'text-slate-900 dark:text-white'}`}>{formatBaseCurrency(record.value)}</td><td className="px-10 py-6 text-sm font-medium text-slate-600 dark:text-slate-300 truncate max-w-sm">{record.description || <span className="opacity-30 italic">No notes</span>}</td><td className="px-6 py-6 text-right"><div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={() => setEditingRecord(record)} className="p-2 text-slate-400 hover:text-blue-500 rounded-xl transition-all"><Pencil size={14} /></button><button onClick={async () => { if (onDeleteTaxRecord && confirm('Delete this record?')) { setDeletingId(record.id); try { await onDeleteTaxRecord(record); } finally { setDeletingId(null); } } }} disabled={deletingId === record.id} className="p-2 text-slate-400 hover:text-red-500 rounded-xl transition-all">{deletingId === record.id ? <Loader2 className="animate-spin" size={14} /> : <Trash2 size={14} />}</button></div></td></tr>);
+                        return (<tr key={record.id} className="hover:bg-blue-500/[0.03] transition-colors group"><td className="px-10 py-6 text-sm font-bold text-slate-500 dark:text-slate-400 font-mono">{record.date}</td><td className="px-6 py-6"><div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest ${isLimit ? 'bg-blue-500/10 text-blue-600 border border-blue-500/20' : isWithdrawal ? 'bg-red-500/10 text-red-600 border border-red-500/20' : 'bg-emerald-500/10 text-emerald-600 border border-emerald-500/20'}`}>{isWithdrawal ? <ArrowDownRight size={12} /> : isLimit ? <Landmark size={12} /> : <ArrowUpRight size={12} />}{record.transactionType}</div>{record.computed && <span title="Computed from the room profile. Edit to enter your own figure for this year." className="ml-2 inline-flex items-center gap-1 text-[9px] font-black text-slate-400 uppercase tracking-widest"><Calculator size={10} /> Computed</span>}</td><td className={`px-6 py-6 text-right font-black font-mono text-base ${isWithdrawal ? 'text-red-500' : 'text-slate-900 dark:text-white'}`}>{formatBaseCurrency(record.value)}</td><td className={`px-10 py-6 text-sm font-medium truncate max-w-sm ${record.computed ? 'text-slate-400 italic' : 'text-slate-600 dark:text-slate-300'}`}>{record.description || <span className="opacity-30 italic">No notes</span>}</td><td className="px-6 py-6 text-right"><div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={() => setEditingRecord(record)} className="p-2 text-slate-400 hover:text-blue-500 rounded-xl transition-all"><Pencil size={14} /></button>{!record.computed && <button onClick={async () => { if (onDeleteTaxRecord && confirm('Delete this record?')) { setDeletingId(record.id); try { await onDeleteTaxRecord(record); } finally { setDeletingId(null); } } }} disabled={deletingId === record.id} className="p-2 text-slate-400 hover:text-red-500 rounded-xl transition-all">{deletingId === record.id ? <Loader2 className="animate-spin" size={14} /> : <Trash2 size={14} />}</button>}</div></td></tr>);
                     })}</tbody></table></div>
                 </div>
             </div>
-            <TaxRecordModal isOpen={isAddingRecord || !!editingRecord} initialData={editingRecord} defaultAccount={activeTab} onClose={() => { setIsAddingRecord(false); setEditingRecord(null); }} onSave={async r => editingRecord ? onEditTaxRecord?.(r) : onAddTaxRecord?.(r)} />
+            <TaxRecordModal isOpen={isAddingRecord || !!editingRecord} initialData={editingRecord} defaultAccount={activeTab} onClose={() => { setIsAddingRecord(false); setEditingRecord(null); }} onSave={async r => {
+                // Editing a computed limit saves it as an entered record, which then overrides that year.
+                if (editingRecord?.computed) return onAddTaxRecord?.({ ...r, id: crypto.randomUUID(), computed: undefined });
+                return editingRecord ? onEditTaxRecord?.(r) : onAddTaxRecord?.(r);
+            }} />
+            <TaxRoomProfileModal isOpen={isEditingProfile} onClose={() => setIsEditingProfile(false)} profile={profile} earnedIncome={earnedIncome} onSave={setProfile} />
         </div>
     );
 };
@@ -1,6 +1,8 @@
-
-import React, { memo } from 'react';
-import { LayoutGrid, X, Zap } from 'lucide-react';
+import React, { memo, useState } from 'react';
+import { LayoutGrid, X, Zap, ChevronDown, ChevronRight } from 'lucide-react';
+import { LotMethod } from '../../types';
+import { HoldingLotSummary } from '../../services/trades/lotService';
+import { OpenLotsTable } from '../trades/OpenLotsTable';
 
 interface AggregatedHolding {
     ticker: string;
@@ -8,14 +10,19 @@ interface AggregatedHolding {
     price: number;
     totalValue: number;
     isLive: boolean;
+    lots?: HoldingLotSummary;
 }
 
 interface HoldingsTableProps {
     holdings: AggregatedHolding[];
     onClose: () => void;
+    lotMethod?: LotMethod;
 }
 
-export const HoldingsTable = memo(({ holdings, onClose }: HoldingsTableProps) => (
+export const HoldingsTable = memo(({ holdings, onClose, lotMethod = 'FIFO' }: HoldingsTableProps) => {
+  const [expandedTicker, setExpandedTicker] = useState<string | null>(null);
+
+  return (
     <div className="space-y-6 animate-fade-in-up">
         <div className="flex items-center justify-between">
             <h3 className="text-xl font-black text-slate-900 dark:text-white flex items-center gap-3">
@@ -35,14 +42,19 @@ export const HoldingsTable = memo(({ holdings, onClose }: HoldingsTableProps) =>
                             <th className="p-6 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Net Quantity</th>
                             <th className="p-6 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Market Price</th>
                             <th className="p-6 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Total Value</th>
+                            <th className="p-6 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Unrealized</th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
-                        {holdings.map((h) => (
-                            <tr key={h.ticker} className="hover:bg-blue-500/5 dark:hover:bg-blue-500/10 transition-colors">
+                        {holdings.map((h) => {
+                            const isExpanded = expandedTicker === h.ticker;
+                            const canExpand = !!h.lots && h.lots.openLots.length > 0;
+                            return (
+                            <React.Fragment key={h.ticker}>
+                            <tr onClick={() => canExpand && setExpandedTicker(isExpanded ? null : h.ticker)} className={`hover:bg-blue-500/5 dark:hover:bg-blue-500/10 transition-colors ${canExpand ? 'cursor-pointer' : ''}`}>
                                 <td className="p-6 font-bold text-slate-900 dark:text-white flex items-center gap-3">
                                     <div className="w-8 h-8 bg-slate-100 dark:bg-slate-700 rounded-lg flex items-center justify-center text-xs text-slate-400 font-black">
-                                        {h.ticker.charAt(0)}
+                                        {canExpand ? (isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />) : h.ticker.charAt(0)}
                                     </div>
                                     <div className="flex flex-col">
                                         <span className="flex items-center gap-2">
@@ -54,12 +66,23 @@ export const HoldingsTable = memo(({ holdings, onClose }: HoldingsTableProps) =>
                                 <td className="p-6 text-right text-slate-600 dark:text-slate-300 font-mono text-sm ghost-blur">{h.quantity.toLocaleString()}</td>
                                 <td className="p-6 text-right text-slate-600 dark:text-slate-300 font-mono text-sm ghost-blur">{`$${h.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
                                 <td className={`p-6 text-right font-black font-mono text-sm ghost-blur ${h.isLive ? 'text-emerald-600 dark:text-emerald-400' : 'text-slate-900 dark:text-white'}`}>{`$${h.totalValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}</td>
+                                <td className={`p-6 text-right font-mono text-sm ghost-blur ${!canExpand ? 'text-slate-300 dark:text-slate-600' : h.lots!.unrealizedGain >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400'}`}>
+                                    {canExpand ? `${h.lots!.unrealizedGain < 0 ? '-' : ''}$${Math.abs(h.lots!.unrealizedGain).toLocaleString(undefined, { maximumFractionDigits: 0 })}` : '—'}
+                                </td>
                             </tr>
-                        ))}
-                        {holdings.length === 0 && <tr><td colSpan={4} className="p-20 text-center text-slate-400 font-medium italic">No holdings found.</td></tr>}
+                            {isExpanded && h.lots && (
+                                <tr className="bg-slate-50/50 dark:bg-slate-900/20">
+                                    <td colSpan={5} className="ghost-blur"><OpenLotsTable summary={h.lots} method={lotMethod} /></td>
+                                </tr>
+                            )}
+                            </React.Fragment>
+                            );
+                        })}
+                        {holdings.length === 0 && <tr><td colSpan={5} className="p-20 text-center text-slate-400 font-medium italic">No holdings found.</td></tr>}
                     </tbody>
                 </table>
             </div>
         </div>
     </div>
-));
+  );
+});
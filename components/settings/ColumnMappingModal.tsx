@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Columns3, Loader2, AlertTriangle, Pin } from 'lucide-react';
+import { SheetConfig, MappableTab, ColumnMapping, IngestionReport } from '../../types';
+import { RegistryModal } from '../information/RegistryModal';
+import { fetchSheetData } from '../../services/sheetService';
+import { buildMappingPreview, TAB_FIELD_KEYWORDS } from '../../services/geminiService';
+
+interface ColumnMappingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: SheetConfig;
+  onConfigChange: (newConfig: SheetConfig) => void;
+}
+
+const MAPPABLE_TABS = Object.keys(TAB_FIELD_KEYWORDS) as MappableTab[];
+
+interface Preview {
+  headers: string[];
+  rows: string[][];
+  report: IngestionReport;
+}
+
+export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({ isOpen, onClose, config, onConfigChange }) => {
+  const [tab, setTab] = useState<MappableTab>('trades');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rawData, setRawData] = useState<string | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadTab = useCallback(async (target: MappableTab) => {
+    setIsLoading(true);
+    setError(null);
+    setRawData(null);
+    setPreview(null);
+    try {
+      setRawData(await fetchSheetData(config.sheetId, config.tabNames[target]));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load tab.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [config.sheetId, config.tabNames]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMapping(config.columnMappings?.[tab] || {});
+      loadTab(tab);
+    }
+  }, [isOpen, tab]);
+
+  // Re-resolve on every change so the preview shows exactly what the next sync will read.
+  useEffect(() => {
+    if (rawData === null) return;
+    buildMappingPreview(rawData, tab, mapping, config.locale).then(setPreview);
+  }, [rawData, tab, mapping, config.locale]);
+
+  const fields = Object.keys(TAB_FIELD_KEYWORDS[tab]);
+  const columnOwner = new Map<number, string>();
+  preview?.report.fieldMap.forEach(f => { if (f.column !== null && !columnOwner.has(f.column - 1)) columnOwner.set(f.column - 1, f.field); });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const cleaned = Object.fromEntries(Object.entries(mapping).filter(([, header]) => !!header));
+    const next = { ...(config.columnMappings || {}) };
+    if (Object.keys(cleaned).length > 0) next[tab] = cleaned;
+    else delete next[tab];
+    onConfigChange({ ...config, columnMappings: next });
+    setIsSubmitting(false);
+    onClose();
+  };
+
+  return (
+    <RegistryModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Column Mapping"
+      icon={Columns3}
+      iconColor="text-indigo-500"
+      isSubmitting={isSubmitting}
+      onSubmit={handleSubmit}
+      submitLabel="Save Mapping"
+      widthClass="max-w-4xl"
+    >
+      <div className="space-y-5">
+        <div className="flex flex-wrap gap-2">
+          {MAPPABLE_TABS.map(t => (
+            <button key={t} type="button" onClick={() => setTab(t)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-900 text-slate-500'}`}>
+              {t}
+              {config.columnMappings?.[t] && <Pin size={10} className="inline ml-1" />}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-500/10 rounded-2xl border border-red-100 dark:border-red-500/20 text-xs font-bold text-red-600 dark:text-red-400">
+            <AlertTriangle size={16} /> {error}
+          </div>
+        )}
+
+        {isLoading && <div className="py-10 flex justify-center"><Loader2 size={20} className="animate-spin text-indigo-500" /></div>}
+
+        {preview && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {fields.map(field => {
+                const resolved = preview.report.fieldMap.find(f => f.field === field);
+                return (
+                  <div key={field} className="space-y-1.5">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1 flex items-center gap-1">
+                      {field} {resolved?.pinned && <Pin size={10} className="text-indigo-500" />}
+                    </label>
+                    <select value={mapping[field] || ''} onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value }))} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:border-indigo-500 transition-all">
+                      <option value="">Auto{resolved?.column && !resolved.pinned ? ` (${resolved.header})` : resolved?.column === null ? ' (unmapped)' : ''}</option>
+                      {preview.headers.map((h, i) => h && <option key={i} value={h}>{h}</option>)}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+
+            {preview.report.warnings.map(w => (
+              <p key={w} className="flex items-center gap-2 text-xs font-bold text-amber-600 dark:text-amber-400"><AlertTriangle size={12} /> {w}</p>
+            ))}
+
+            <div className="max-h-[30vh] overflow-auto rounded-2xl border border-slate-200 dark:border-slate-700">
+              <table className="w-full text-left text-xs">
+                <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 z-10">
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    {preview.headers.map((h, i) => (
+                      <th key={i} className="p-3 whitespace-nowrap">
+                        <span className="block text-[10px] font-black text-slate-500 dark:text-slate-300">{h || '—'}</span>
+                        <span className={`block text-[9px] font-black uppercase tracking-widest ${columnOwner.has(i) ? 'text-indigo-500' : 'text-slate-300 dark:text-slate-600'}`}>{columnOwner.get(i) || 'ignored'}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                  {preview.rows.map((row, r) => (
+                    <tr key={r}>
+                      {preview.headers.map((_, i) => <td key={i} className="p-3 font-mono text-slate-600 dark:text-slate-300 whitespace-nowrap">{row[i] || ''}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-slate-400">Header row {preview.report.headerRow ?? '—'} · pinned columns are used for both reading and writing this tab.</p>
+          </>
+        )}
+      </div>
+    </RegistryModal>
+  );
+};
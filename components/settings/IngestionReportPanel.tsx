@@ -0,0 +1,111 @@
+import React, { memo, useState } from 'react';
+import { ChevronDown, FileSearch, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { IngestionReport } from '../../types';
+
+interface IngestionReportPanelProps {
+  reports: IngestionReport[];
+}
+
+const MAX_ROWS_LISTED = 8;
+
+const columnLetter = (col: number): string => {
+  let label = '';
+  let n = col;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+};
+
+const formatRows = (rows: number[]) => rows.length > MAX_ROWS_LISTED
+  ? `${rows.slice(0, MAX_ROWS_LISTED).join(', ')} +${rows.length - MAX_ROWS_LISTED} more`
+  : rows.join(', ');
+
+const ReportRow: React.FC<{ report: IngestionReport }> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const issueCount = report.skippedRows.length + report.warnings.length + report.defaultedValues.length;
+
+  return (
+    <div className="rounded-2xl bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-700/50">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-4 p-4 text-left">
+        <div className="flex items-center gap-3 min-w-0">
+          {issueCount === 0 ? <CheckCircle2 size={14} className="text-emerald-500 shrink-0" /> : <AlertTriangle size={14} className="text-amber-500 shrink-0" />}
+          <span className="text-[10px] font-black uppercase tracking-[0.1em] text-slate-600 dark:text-slate-300">{report.dataType}</span>
+          <span className="text-[10px] font-bold text-slate-400 truncate">{report.tab}</span>
+        </div>
+        <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest text-slate-400 shrink-0">
+          <span>Header {report.headerRow ?? '—'}</span>
+          <span className="text-emerald-500">{report.parsedRows} parsed</span>
+          {report.skippedRows.length > 0 && <span className="text-rose-500">{report.skippedRows.length} skipped</span>}
+          {report.defaultedValues.length > 0 && <span className="text-amber-500">{report.defaultedValues.reduce((acc, d) => acc + d.rows.length, 0)} defaulted</span>}
+          <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 text-xs">
+          {report.warnings.map(w => (
+            <p key={w} className="flex items-center gap-2 text-amber-600 dark:text-amber-400 font-bold"><AlertTriangle size={12} /> {w}</p>
+          ))}
+
+          <div>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">
+              Column Mapping · header row {report.headerRow ?? 'not found'} ({report.headerSource})
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1">
+              {report.fieldMap.map((f, i) => (
+                <div key={`${f.field}-${i}`} className="flex justify-between gap-2">
+                  <span className="font-bold text-slate-600 dark:text-slate-300 truncate">{f.field}</span>
+                  <span className={`font-mono truncate ${f.column === null ? 'text-rose-400' : 'text-slate-400'}`}>
+                    {f.column === null ? 'unmapped' : `${columnLetter(f.column)} · ${f.header}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {report.skippedRows.length > 0 && (
+            <div>
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">Skipped Rows</p>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {report.skippedRows.map((s, i) => (
+                  <p key={`${s.row}-${i}`} className="flex gap-3"><span className="font-mono text-slate-400 w-12 shrink-0">#{s.row}</span><span className="text-slate-600 dark:text-slate-300">{s.reason}</span></p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {report.defaultedValues.length > 0 && (
+            <div>
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">Defaulted Values</p>
+              <div className="space-y-1">
+                {report.defaultedValues.map(d => (
+                  <p key={`${d.field}-${d.value}`} className="flex gap-3">
+                    <span className="font-bold text-slate-600 dark:text-slate-300 shrink-0">{d.field} → "{d.value}"</span>
+                    <span className="font-mono text-slate-400 truncate">rows {formatRows(d.rows)}</span>
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const IngestionReportPanel = memo(({ reports }: IngestionReportPanelProps) => {
+  if (reports.length === 0) return null;
+  const sorted = [...reports].sort((a, b) => a.dataType.localeCompare(b.dataType));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 px-1 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+        <FileSearch size={14} className="text-indigo-500/50" /> Ingestion Report
+      </div>
+      {sorted.map(report => <ReportRow key={report.dataType} report={report} />)}
+    </div>
+  );
+});
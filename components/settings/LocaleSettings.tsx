@@ -0,0 +1,83 @@
+import React, { memo, useState } from 'react';
+import { Globe } from 'lucide-react';
+import { SheetLocale, DateOrder } from '../../types';
+import { DEFAULT_LOCALE } from '../../services/geminiService';
+
+interface LocaleSettingsProps {
+  locale?: SheetLocale;
+  onChange: (locale: SheetLocale) => void;
+}
+
+const PRESETS: { label: string; locale: SheetLocale }[] = [
+  { label: 'North America', locale: DEFAULT_LOCALE },
+  { label: 'Europe', locale: { decimalSeparator: ',', thousandsSeparator: '.', dateOrder: 'DMY', currencySymbols: ['€'] } },
+  { label: 'French Canada', locale: { decimalSeparator: ',', thousandsSeparator: ' ', dateOrder: 'YMD', currencySymbols: ['$'] } },
+  { label: 'Switzerland', locale: { decimalSeparator: '.', thousandsSeparator: "'", dateOrder: 'DMY', currencySymbols: ['CHF', 'Fr.'] } }
+];
+
+const THOUSANDS_OPTIONS: { value: SheetLocale['thousandsSeparator']; label: string }[] = [
+  { value: ',', label: 'Comma  1,234' },
+  { value: '.', label: 'Period  1.234' },
+  { value: ' ', label: 'Space  1 234' },
+  { value: "'", label: "Apostrophe  1'234" },
+  { value: '', label: 'None  1234' }
+];
+
+const DATE_ORDER_OPTIONS: { value: DateOrder; label: string }[] = [
+  { value: 'MDY', label: 'MM/DD/YYYY' },
+  { value: 'DMY', label: 'DD/MM/YYYY' },
+  { value: 'YMD', label: 'YYYY-MM-DD' }
+];
+
+const selectClass = "w-full bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700/50 rounded-xl px-3 py-2 text-xs font-bold text-slate-900 dark:text-slate-200 outline-none focus:ring-2 focus:ring-blue-500/20 transition-all";
+const labelClass = "text-[10px] text-slate-500 dark:text-slate-400 uppercase font-black tracking-[0.1em] px-1";
+
+export const LocaleSettings = memo(({ locale, onChange }: LocaleSettingsProps) => {
+  const current = locale || DEFAULT_LOCALE;
+  const [symbolsText, setSymbolsText] = useState(current.currencySymbols.join(' '));
+  const update = (patch: Partial<SheetLocale>) => onChange({ ...current, ...patch });
+  const sameSeparator = current.decimalSeparator === current.thousandsSeparator;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-1">
+        <div className="flex items-center gap-3 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+          <Globe size={14} className="text-indigo-500/50" /> Sheet Locale {!locale && <span className="normal-case tracking-normal font-bold">(default)</span>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {PRESETS.map(p => (
+            <button key={p.label} onClick={() => { onChange(p.locale); setSymbolsText(p.locale.currencySymbols.join(' ')); }} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-900 text-slate-500 hover:text-indigo-500 transition-all">
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 rounded-2xl bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-700/50">
+        <div className="space-y-2">
+          <label className={labelClass}>Decimal</label>
+          <select value={current.decimalSeparator} onChange={e => update({ decimalSeparator: e.target.value as SheetLocale['decimalSeparator'] })} className={selectClass}>
+            <option value=".">Period  12.50</option>
+            <option value=",">Comma  12,50</option>
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Thousands</label>
+          <select value={current.thousandsSeparator} onChange={e => update({ thousandsSeparator: e.target.value as SheetLocale['thousandsSeparator'] })} className={selectClass}>
+            {THOUSANDS_OPTIONS.map(o => <option key={o.label} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Date Order</label>
+          <select value={current.dateOrder} onChange={e => update({ dateOrder: e.target.value as DateOrder })} className={selectClass}>
+            {DATE_ORDER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Currency Symbols</label>
+          <input type="text" value={symbolsText} onChange={e => setSymbolsText(e.target.value)} onBlur={() => update({ currencySymbols: symbolsText.split(/\s+/).filter(Boolean) })} placeholder="$ € CHF" className={selectClass} />
+        </div>
+      </div>
+      {sameSeparator && <p className="px-1 text-[10px] font-bold text-red-500">Decimal and thousands separators must differ.</p>}
+    </div>
+  );
+});
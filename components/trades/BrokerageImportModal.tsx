@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Trade } from '../../types';
+import { FileUp, AlertTriangle, Check } from 'lucide-react';
+import { RegistryModal } from '../information/RegistryModal';
+import { BrokerageFormat, BROKERAGE_FORMATS, StatementPreview, parseBrokerageStatement } from '../../services/trades/brokerageImportService';
+
+interface BrokerageImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImport: (trades: Trade[]) => Promise<void>;
+}
+
+export const BrokerageImportModal: React.FC<BrokerageImportModalProps> = ({ isOpen, onClose, onImport }) => {
+    const [rawData, setRawData] = useState('');
+    const [fileName, setFileName] = useState('');
+    const [format, setFormat] = useState<BrokerageFormat | 'AUTO'>('AUTO');
+    const [excluded, setExcluded] = useState<Set<number>>(new Set());
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setRawData('');
+            setFileName('');
+            setFormat('AUTO');
+            setExcluded(new Set());
+        }
+    }, [isOpen]);
+
+    const { preview, error } = useMemo<{ preview: StatementPreview | null, error: string | null }>(() => {
+        if (!rawData) return { preview: null, error: null };
+        try {
+            return { preview: parseBrokerageStatement(rawData, format === 'AUTO' ? undefined : format), error: null };
+        } catch (e: any) {
+            return { preview: null, error: e.message };
+        }
+    }, [rawData, format]);
+
+    const accepted = useMemo(() => (preview?.rows || []).filter(r => r.trade && !excluded.has(r.lineNumber)), [preview, excluded]);
+    const flaggedCount = useMemo(() => (preview?.rows || []).filter(r => !r.trade).length, [preview]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setExcluded(new Set());
+        setRawData(await file.text());
+    };
+
+    const toggleRow = (lineNumber: number) => setExcluded(prev => {
+        const next = new Set(prev);
+        if (next.has(lineNumber)) next.delete(lineNumber); else next.add(lineNumber);
+        return next;
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (accepted.length === 0) {
+            alert("No classified trades selected for import.");
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await onImport(accepted.map(r => r.trade!));
+            onClose();
+        } catch (err: any) {
+            alert(err.message || "Failed to import trades.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <RegistryModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Import Statement"
+            icon={FileUp}
+            iconColor="text-blue-500"
+            isSubmitting={isSubmitting}
+            onSubmit={handleSubmit}
+            submitLabel={`Append ${accepted.length} Trade${accepted.length === 1 ? '' : 's'}`}
+            widthClass="max-w-4xl"
+        >
+            <div className="space-y-5">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Activity Export (CSV)</label>
+                        <label className="flex items-center gap-3 w-full bg-slate-50 dark:bg-slate-900 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold cursor-pointer hover:border-blue-500 transition-all">
+                            <FileUp size={16} className="text-slate-400" />
+                            <span className="truncate text-slate-500">{fileName || 'Choose file...'}</span>
+                            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+                        </label>
+                    </div>
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Brokerage</label>
+                        <select value={format} onChange={e => { setFormat(e.target.value as any); setExcluded(new Set()); }} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all">
+                            <option value="AUTO">Auto-detect{preview && format === 'AUTO' ? ` (${BROKERAGE_FORMATS.find(f => f.id === preview.format)?.name})` : ''}</option>
+                            {BROKERAGE_FORMATS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-500/10 rounded-2xl border border-red-100 dark:border-red-500/20 text-xs font-bold text-red-600 dark:text-red-400">
+                        <AlertTriangle size={16} /> {error}
+                    </div>
+                )}
+
+                {preview && (
+                    <>
+                        <div className="flex gap-2">
+                            <span className="text-[10px] bg-emerald-500/10 text-emerald-500 px-3 py-1 rounded-full border border-emerald-500/20 font-black uppercase tracking-widest">{accepted.length} accepted</span>
+                            {flaggedCount > 0 && <span className="text-[10px] bg-amber-500/10 text-amber-500 px-3 py-1 rounded-full border border-amber-500/20 font-black uppercase tracking-widest">{flaggedCount} unclassified</span>}
+                        </div>
+                        <div className="max-h-[45vh] overflow-y-auto rounded-2xl border border-slate-200 dark:border-slate-700">
+                            <table className="w-full text-left text-xs">
+                                <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900">
+                                    <tr className="border-b border-slate-200 dark:border-slate-700">
+                                        <th className="p-3 w-8"></th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Line</th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Date</th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Ticker</th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Side</th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Qty</th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Price</th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Fee</th>
+                                        <th className="p-3 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Total</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                                    {preview.rows.map(row => row.trade ? (
+                                        <tr key={row.lineNumber} className={excluded.has(row.lineNumber) ? 'opacity-40' : ''}>
+                                            <td className="p-3">
+                                                <button type="button" onClick={() => toggleRow(row.lineNumber)} className={`w-5 h-5 rounded-md border-2 flex items-center justify-center transition-all ${excluded.has(row.lineNumber) ? 'border-slate-300 dark:border-slate-600' : 'bg-blue-600 border-blue-600 text-white'}`}>
+                                                    {!excluded.has(row.lineNumber) && <Check size={12} />}
+                                                </button>
+                                            </td>
+                                            <td className="p-3 font-mono text-slate-400">{row.lineNumber}</td>
+                                            <td className="p-3 font-mono text-slate-600 dark:text-slate-300">
+                                                {row.trade.date}
+                                                {row.trade.settlementDate && <span className="block text-[9px] text-slate-400">settles {row.trade.settlementDate}</span>}
+                                            </td>
+                                            <td className="p-3 font-black text-slate-900 dark:text-white">{row.trade.ticker}</td>
+                                            <td className={`p-3 font-black ${row.trade.type === 'BUY' ? 'text-emerald-500' : 'text-red-500'}`}>{row.trade.type}</td>
+                                            <td className="p-3 text-right font-mono">{Math.abs(row.trade.quantity).toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                            <td className="p-3 text-right font-mono">{row.trade.price.toFixed(2)}</td>
+                                            <td className="p-3 text-right font-mono text-slate-400">{(row.trade.fee || 0).toFixed(2)}</td>
+                                            <td className="p-3 text-right font-mono font-bold">{row.trade.total.toFixed(2)}</td>
+                                        </tr>
+                                    ) : (
+                                        <tr key={row.lineNumber} className="bg-amber-50/50 dark:bg-amber-500/5">
+                                            <td className="p-3"><AlertTriangle size={14} className="text-amber-500" /></td>
+                                            <td className="p-3 font-mono text-slate-400">{row.lineNumber}</td>
+                                            <td colSpan={7} className="p-3">
+                                                <span className="font-black text-amber-600 dark:text-amber-400">{row.issue}</span>
+                                                <span className="block text-[10px] text-slate-400 font-mono truncate max-w-xl">{row.raw.filter(v => v).join(' · ')}</span>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {preview.rows.length === 0 && <tr><td colSpan={9} className="p-10 text-center text-slate-400 italic">No rows found in statement.</td></tr>}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+            </div>
+        </RegistryModal>
+    );
+};
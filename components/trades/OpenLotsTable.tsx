@@ -0,0 +1,58 @@
+import React, { memo } from 'react';
+import { Layers } from 'lucide-react';
+import { HoldingLotSummary, formatHoldingPeriod } from '../../services/trades/lotService';
+import { LotMethod } from '../../types';
+
+interface OpenLotsTableProps {
+    summary: HoldingLotSummary;
+    method: LotMethod;
+}
+
+const money = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const gainClass = (val: number) => val >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400';
+
+export const OpenLotsTable: React.FC<OpenLotsTableProps> = memo(({ summary, method }) => (
+    <div className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3 px-2">
+            <p className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest"><Layers size={12} /> Open Lots · {method}</p>
+            <div className="flex gap-6 text-right tabular-nums">
+                <div>
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Realized</p>
+                    <p className={`text-xs font-mono font-black ${gainClass(summary.realizedGain)}`}>{money(summary.realizedGain)}</p>
+                </div>
+                <div>
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Unrealized</p>
+                    <p className={`text-xs font-mono font-black ${gainClass(summary.unrealizedGain)}`}>{money(summary.unrealizedGain)}</p>
+                </div>
+            </div>
+        </div>
+        {summary.openLots.length === 0 ? (
+            <p className="px-2 py-4 text-xs text-slate-400 italic">No open lots.</p>
+        ) : (
+            <div className="overflow-x-auto">
+                <table className="w-full text-left border-collapse tabular-nums">
+                    <thead>
+                        <tr className="border-b border-slate-200 dark:border-slate-700">
+                            {['Lot', 'Units', 'Cost / Unit', 'Cost Basis', 'Market Value', 'Held', 'Gain / Loss'].map((h, i) => (
+                                <th key={h} className={`px-4 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest ${i > 0 ? 'text-right' : ''}`}>{h}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                        {summary.openLots.map(({ lot, costPerUnit, marketValue, unrealizedGain, holdingDays }) => (
+                            <tr key={`${lot.account || ''}:${lot.id}`} className="hover:bg-blue-500/5 transition-colors">
+                                <td className="px-4 py-2 text-xs font-bold text-slate-500 dark:text-slate-400 font-mono">{lot.id}{lot.account && <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-slate-400">{lot.account}</span>}</td>
+                                <td className="px-4 py-2 text-right text-xs font-mono font-bold text-slate-700 dark:text-slate-300">{lot.remaining.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                <td className="px-4 py-2 text-right text-xs font-mono text-slate-500">{money(costPerUnit)}</td>
+                                <td className="px-4 py-2 text-right text-xs font-mono text-slate-700 dark:text-slate-300">{money(lot.cost)}</td>
+                                <td className="px-4 py-2 text-right text-xs font-mono text-slate-700 dark:text-slate-300">{money(marketValue)}</td>
+                                <td className="px-4 py-2 text-right text-xs font-mono text-slate-500">{formatHoldingPeriod(holdingDays)}</td>
+                                <td className={`px-4 py-2 text-right text-xs font-mono font-black ${gainClass(unrealizedGain)}`}>{money(unrealizedGain)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+    </div>
+));
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState, memo } from 'react';
+import { Trade } from '../../types';
+import { Scale, AlertTriangle, FileDown, Printer, Loader2 } from 'lucide-react';
+import { CAPITAL_GAINS_INCLUSION_RATE } from '../../services/trades/acbService';
+import { TradeFxRates, buildCapitalGainsReport, downloadCapitalGainsCsv, getForeignCurrencies, loadTradeFxRates, printCapitalGainsReport } from '../../services/trades/capitalGainsReportService';
+
+interface RealizedGainsPanelProps {
+    trades: Trade[];
+}
+
+const money = (val: number) => `${val < 0 ? '-' : ''}$${Math.abs(val).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const gainClass = (val: number) => val >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400';
+
+export const RealizedGainsPanel: React.FC<RealizedGainsPanelProps> = memo(({ trades }) => {
+    const [fx, setFx] = useState<TradeFxRates>({});
+    const [isLoadingFx, setIsLoadingFx] = useState(false);
+    const [fxError, setFxError] = useState<string | null>(null);
+    const foreignKey = useMemo(() => getForeignCurrencies(trades).join(','), [trades]);
+
+    // Foreign trades are restated in CAD at trade-date rates before any ACB math.
+    useEffect(() => {
+        if (!foreignKey) return;
+        let cancelled = false;
+        setIsLoadingFx(true);
+        setFxError(null);
+        loadTradeFxRates(trades)
+            .then(rates => { if (!cancelled) setFx(rates); })
+            .catch(e => { if (!cancelled) setFxError(e.message || 'Failed to load exchange rates.'); })
+            .finally(() => { if (!cancelled) setIsLoadingFx(false); });
+        return () => { cancelled = true; };
+    }, [trades, foreignKey]);
+
+    const report = useMemo(() => buildCapitalGainsReport(trades, fx), [trades, fx]);
+    const years = report.years;
+    const [selectedYear, setSelectedYear] = useState<number | null>(null);
+    const current = years.find(y => y.year === selectedYear) || years[0];
+
+    const handlePrint = () => {
+        try { printCapitalGainsReport(report, current?.year); } catch (e: any) { alert(e.message || e); }
+    };
+
+    if (!current) {
+        return (
+            <div className="flex flex-col items-center justify-center py-16 text-slate-500 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-3xl">
+                <Scale size={48} className="opacity-10 mb-4" />
+                <p className="text-[10px] font-black uppercase tracking-widest">No dispositions recorded yet</p>
+                {report.excludedTrades > 0 && <p className="mt-2 text-[10px] font-bold text-slate-400">Trades in registered accounts (TFSA, RRSP, FHSA...) are excluded.</p>}
+            </div>
+        );
+    }
+
+    const cards = [
+        { label: 'Proceeds', value: current.proceeds, className: 'text-slate-900 dark:text-white' },
+        { label: 'Adjusted Cost Base', value: current.acb, className: 'text-slate-900 dark:text-white' },
+        { label: 'Net Gain / Loss', value: current.gain, className: gainClass(current.gain) },
+        { label: `Taxable (${CAPITAL_GAINS_INCLUSION_RATE * 100}%)`, value: current.taxableGain, className: gainClass(current.taxableGain) }
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="flex items-center gap-3 text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]"><Scale size={14} className="text-blue-500/50" /> Realized Capital Gains</h3>
+                <div className="flex flex-wrap items-center gap-2">
+                    {isLoadingFx && <Loader2 size={14} className="animate-spin text-blue-500" />}
+                    {years.map(y => (
+                        <button key={y.year} onClick={() => setSelectedYear(y.year)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${y.year === current.year ? 'bg-blue-600 text-white shadow-md' : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500'}`}>{y.year}</button>
+                    ))}
+                    <button onClick={() => downloadCapitalGainsCsv(report, current.year)} disabled={isLoadingFx} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-blue-500 transition-all flex items-center gap-1.5 disabled:opacity-50"><FileDown size={12} /> CSV</button>
+                    <button onClick={handlePrint} disabled={isLoadingFx} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-blue-500 transition-all flex items-center gap-1.5 disabled:opacity-50"><Printer size={12} /> Print</button>
+                </div>
+            </div>
+
+            {report.excludedTrades > 0 && (
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{report.excludedTrades} trade(s) in registered accounts (TFSA, RRSP, FHSA...) are excluded from capital gains.</p>
+            )}
+
+            {(fxError || report.missingRates.length > 0) && (
+                <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-500/10 rounded-2xl border border-red-100 dark:border-red-500/20 text-xs font-bold text-red-600 dark:text-red-400">
+                    <AlertTriangle size={16} /> {fxError || `No exchange rate for ${report.missingRates.length} foreign trade(s); they are shown unconverted.`}
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {cards.map(c => (
+                    <div key={c.label} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-3xl p-5 shadow-sm">
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{c.label}</p>
+                        <p className={`font-mono font-black text-lg ${c.className}`}>{money(c.value)}</p>
+                    </div>
+                ))}
+            </div>
+
+            {current.deniedLoss > 0 && (
+                <div className="flex items-center gap-3 p-4 bg-amber-50 dark:bg-amber-500/10 rounded-2xl border border-amber-100 dark:border-amber-500/20 text-xs font-bold text-amber-700 dark:text-amber-400">
+                    <AlertTriangle size={16} /> {money(current.deniedLoss)} of losses were superficial and added to the ACB of the repurchased units.
+                </div>
+            )}
+
+            <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-3xl overflow-hidden shadow-sm overflow-x-auto">
+                <table className="w-full text-left border-collapse tabular-nums">
+                    <thead>
+                        <tr className="bg-slate-50/50 dark:bg-slate-900/30 border-b border-slate-200 dark:border-slate-700">
+                            {['Date', 'Ticker', 'Acquired', 'Units', 'Proceeds', 'ACB', 'Outlays', 'Gain / Loss'].map((h, i) => (
+                                <th key={h} className={`p-4 text-[10px] font-black text-slate-400 uppercase tracking-widest ${i > 2 ? 'text-right' : ''}`}>{h}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
+                        {current.dispositions.map(d => (
+                            <tr key={`${d.tradeId}-${d.kind}`} className="hover:bg-blue-500/5 transition-colors">
+                                <td className="p-4 whitespace-nowrap text-xs font-bold text-slate-500 dark:text-slate-400 font-mono">{d.date}</td>
+                                <td className="p-4 text-xs font-black text-slate-900 dark:text-white">
+                                    {d.ticker}
+                                    {d.kind === 'ROC_EXCESS' && <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-600 dark:text-amber-400 text-[9px] font-black uppercase tracking-widest">ROC Excess</span>}
+                                    {d.isSuperficial && <span className="ml-2 px-2 py-0.5 rounded-full bg-red-500/10 text-red-500 text-[9px] font-black uppercase tracking-widest" title={`${money(d.deniedLoss)} denied`}>Superficial</span>}
+                                </td>
+                                <td className="p-4 text-xs font-mono text-slate-500">{d.yearAcquired}</td>
+                                <td className="p-4 text-right text-xs font-mono font-bold text-slate-700 dark:text-slate-300">{d.quantity ? d.quantity.toLocaleString() : '—'}</td>
+                                <td className="p-4 text-right text-xs font-mono text-slate-700 dark:text-slate-300">{money(d.proceeds)}</td>
+                                <td className="p-4 text-right text-xs font-mono text-slate-700 dark:text-slate-300">{money(d.acb)}</td>
+                                <td className="p-4 text-right text-xs font-mono text-slate-400">{money(d.outlays)}</td>
+                                <td className={`p-4 text-right text-xs font-mono font-black ${gainClass(d.gain)}`}>{money(d.gain)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+});
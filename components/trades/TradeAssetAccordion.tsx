@@ -1,7 +1,10 @@
 
-import React, { useState, memo } from 'react';
-import { Trade } from '../../types';
+import React, { useState, useMemo, memo } from 'react';
+import { Trade, LotMethod } from '../../types';
 import { TradeGroup } from '../../services/trades/tradeService';
+import { buildLotLedger, summarizeHoldingLots } from '../../services/trades/lotService';
+import { resolveCurrentPrice } from '../../services/investments/investmentService';
+import { OpenLotsTable } from './OpenLotsTable';
 import { ChevronDown, ChevronRight, Archive } from 'lucide-react';
 import { TradeHistoryTable } from './TradeHistoryTable';
 
@@ -11,13 +14,21 @@ interface TradeAssetAccordionProps {
     onDelete?: (t: Trade) => Promise<void>;
     onEdit: (t: Trade) => void;
     isReadOnly: boolean;
+    lotMethod: LotMethod;
 }
 
 export const TradeAssetAccordion: React.FC<TradeAssetAccordionProps> = memo(({ 
-    group, isLoading, onDelete, onEdit, isReadOnly 
+    group, isLoading, onDelete, onEdit, isReadOnly, lotMethod 
 }) => {
     const [isExpanded, setIsExpanded] = useState(false);
-    const { ticker, trades, stats } = group;
+    const { ticker, account, trades, stats } = group;
+
+    // Lots are only needed once the holding is opened.
+    const lotSummary = useMemo(() => {
+        if (!isExpanded) return null;
+        const newestFirst = [...trades].sort((a, b) => b.date.localeCompare(a.date));
+        return summarizeHoldingLots(buildLotLedger(ticker, trades, lotMethod), resolveCurrentPrice(ticker, {}, newestFirst, 0));
+    }, [isExpanded, ticker, trades, lotMethod]);
 
     return (
         <div className={`bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-3xl overflow-hidden shadow-sm transition-all hover:border-blue-500/30 ${stats.isExited ? 'opacity-60 grayscale-[0.4]' : ''}`}>
@@ -32,6 +43,9 @@ export const TradeAssetAccordion: React.FC<TradeAssetAccordionProps> = memo(({
                     <div>
                         <div className="flex items-center gap-3">
                             <h3 className="text-xl font-black text-slate-900 dark:text-white tracking-widest">{ticker}</h3>
+                            {account && (
+                                <span className="px-2 py-0.5 bg-blue-500/10 text-blue-500 border border-blue-500/20 rounded-full text-[9px] font-black uppercase tracking-widest">{account}</span>
+                            )}
                             {stats.isExited && (
                                 <div className="flex items-center gap-1 px-2 py-0.5 bg-slate-200 dark:bg-slate-700 rounded-full text-[9px] font-black uppercase text-slate-500 tracking-tighter">
                                     <Archive size={10} /> Exited
@@ -48,18 +62,31 @@ export const TradeAssetAccordion: React.FC<TradeAssetAccordionProps> = memo(({
                         <p className="font-mono font-black text-slate-900 dark:text-white">{stats.netQty.toLocaleString()} units</p>
                     </div>
                     <div className="hidden sm:block">
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Avg. Cost</p>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">ACB / Unit</p>
                         <p className="font-mono font-black text-slate-900 dark:text-white">${stats.avgCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
                     </div>
                     <div className="hidden md:block">
                         <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Lifetime Allocation</p>
                         <p className="font-mono font-black text-emerald-600 dark:text-emerald-400">${stats.totalInvested.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
                     </div>
+                    {Math.abs(stats.realizedGain) > 0.005 && (
+                        <div className="hidden lg:block">
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Realized</p>
+                            <p className={`font-mono font-black ${stats.realizedGain >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500 dark:text-red-400'}`}>{stats.realizedGain < 0 ? '-' : ''}${Math.abs(stats.realizedGain).toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+                        </div>
+                    )}
+                    {stats.distributions > 0 && (
+                        <div className="hidden lg:block">
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Distributions</p>
+                            <p className="font-mono font-black text-amber-600 dark:text-amber-400">${stats.distributions.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+                        </div>
+                    )}
                 </div>
             </button>
 
             {isExpanded && (
                 <div className="border-t border-slate-100 dark:border-slate-700/50 bg-slate-50/50 dark:bg-slate-900/10 animate-fade-in">
+                    {lotSummary && !stats.isExited && <OpenLotsTable summary={lotSummary} method={lotMethod} />}
                     <TradeHistoryTable 
                         trades={trades} 
                         isLoading={isLoading} 
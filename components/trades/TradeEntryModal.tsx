@@ -1,17 +1,22 @@
 
-import React, { useState, useEffect } from 'react';
-import { Trade } from '../../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Trade, TradeType, LotMethod } from '../../types';
 import { History, Save } from 'lucide-react';
 import { RegistryModal } from '../information/RegistryModal';
+import { TRADE_TYPES, TRADE_TYPE_LABELS, getQuantityDelta, carriesUnitPrice } from '../../services/trades/tradeEventService';
+import { getOpenLotsAt } from '../../services/trades/lotService';
+import { PRIMARY_CURRENCY } from '../../services/currencyService';
 
 interface TradeEntryModalProps {
     isOpen: boolean;
     onClose: () => void;
     onSave: (t: Trade) => Promise<void>;
     initialData?: Trade | null;
+    trades?: Trade[];
+    lotMethod?: LotMethod;
 }
 
-export const TradeEntryModal: React.FC<TradeEntryModalProps> = ({ isOpen, onClose, onSave, initialData }) => {
+export const TradeEntryModal: React.FC<TradeEntryModalProps> = ({ isOpen, onClose, onSave, initialData, trades = [], lotMethod = 'FIFO' as LotMethod }) => {
     const [formData, setFormData] = useState<Partial<Trade>>({
         date: new Date().toISOString().split('T')[0],
         type: 'BUY',
@@ -36,22 +41,42 @@ export const TradeEntryModal: React.FC<TradeEntryModalProps> = ({ isOpen, onClos
 
     const [isSubmitting, setIsSubmitting] = useState(false);
 
+    const type = (formData.type || 'BUY') as TradeType;
+    // Dividends and ROC are entered as a cash amount, splits as a signed share delta.
+    const isCashEvent = type === 'DIVIDEND' || type === 'ROC';
+    const isSplit = type === 'SPLIT';
+
+    const isSell = type === 'SELL';
+    const openLots = useMemo(() =>
+        isSell && formData.ticker && formData.date ? getOpenLotsAt(formData.ticker, formData.account, trades, formData.date, lotMethod, initialData?.id) : [],
+        [isSell, formData.ticker, formData.account, formData.date, trades, lotMethod, initialData?.id]
+    );
+
+    const knownAccounts = useMemo(() =>
+        Array.from(new Set(trades.map(t => (t.account || '').trim()).filter(Boolean))).sort(),
+        [trades]
+    );
+
     const displayQty = Math.abs(formData.quantity || 0);
     const displayPrice = Math.abs(formData.price || 0);
     const displayFee = Math.abs(formData.fee || 0);
-    const calculatedTotal = displayQty * displayPrice + (formData.type === 'BUY' ? displayFee : -displayFee);
+    const isOutflow = type === 'SELL' || type === 'TRANSFER_OUT';
+    const calculatedTotal = isSplit ? 0
+        : isCashEvent ? Math.abs(formData.total || 0)
+        : displayQty * displayPrice + (isOutflow ? -displayFee : displayFee);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!formData.ticker || !formData.quantity || !formData.price) {
+        const isMissing = isSplit ? !formData.quantity : isCashEvent ? !formData.total : (!formData.quantity || !formData.price);
+        if (!formData.ticker || isMissing) {
             alert("Please fill in all required fields.");
             return;
         }
 
         setIsSubmitting(true);
         try {
-            const rawQty = Math.abs(Number(formData.quantity));
-            const quantity = formData.type === 'SELL' ? -rawQty : rawQty;
+            const rawQty = Math.abs(Number(formData.quantity || 0));
+            const quantity = isSplit ? Number(formData.quantity) : getQuantityDelta({ ...formData, quantity: rawQty } as Trade) < 0 ? -rawQty : rawQty;
             
             await onSave({
                 ...formData as Trade,
@@ -59,6 +84,10 @@ export const TradeEntryModal: React.FC<TradeEntryModalProps> = ({ isOpen, onClos
                 rowIndex: initialData?.rowIndex,
                 ticker: formData.ticker!.toUpperCase(),
                 quantity,
+                price: carriesUnitPrice({ type } as Trade) ? formData.price || 0 : 0,
+                lotId: isSell ? formData.lotId || undefined : undefined,
+                account: formData.account?.trim() || undefined,
+                currency: formData.currency && formData.currency !== PRIMARY_CURRENCY ? formData.currency : undefined,
                 total: calculatedTotal
             });
             onClose();
@@ -88,32 +117,77 @@ export const TradeEntryModal: React.FC<TradeEntryModalProps> = ({ isOpen, onClos
                     </div>
                     <div className="space-y-1.5">
                         <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Action</label>
-                        <div className="flex bg-slate-100 dark:bg-slate-900 rounded-xl p-1 border-2 border-slate-200 dark:border-slate-700">
-                            {['BUY', 'SELL'].map(t => (
-                                <button key={t} type="button" onClick={() => setFormData({...formData, type: t as any})} className={`flex-1 text-[10px] font-black py-2 rounded-lg transition-all ${formData.type === t ? (t === 'BUY' ? 'bg-emerald-500 text-white shadow-md' : 'bg-red-500 text-white shadow-md') : 'text-slate-500'}`}>{t}</button>
-                            ))}
-                        </div>
+                        <select value={type} onChange={e => setFormData({...formData, type: e.target.value as TradeType})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all appearance-none">
+                            {TRADE_TYPES.map(t => <option key={t} value={t}>{TRADE_TYPE_LABELS[t]}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-5">
+                    <div className="col-span-2 space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Ticker Symbol</label>
+                        <input type="text" placeholder="e.g. AAPL, BTC" value={formData.ticker} onChange={e => setFormData({...formData, ticker: e.target.value.toUpperCase()})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-black tracking-widest outline-none focus:border-blue-500 uppercase transition-all" required />
+                    </div>
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Currency</label>
+                        <input type="text" placeholder={PRIMARY_CURRENCY} maxLength={3} value={formData.currency || ''} onChange={e => setFormData({...formData, currency: e.target.value.toUpperCase()})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-black tracking-widest outline-none focus:border-blue-500 uppercase transition-all" />
                     </div>
                 </div>
 
                 <div className="space-y-1.5">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Ticker Symbol</label>
-                    <input type="text" placeholder="e.g. AAPL, BTC" value={formData.ticker} onChange={e => setFormData({...formData, ticker: e.target.value.toUpperCase()})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-black tracking-widest outline-none focus:border-blue-500 uppercase transition-all" required />
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Account</label>
+                    <input type="text" list="trade-account-options" placeholder="e.g. TFSA, Non-Registered" value={formData.account || ''} onChange={e => setFormData({...formData, account: e.target.value, lotId: undefined})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all" />
+                    <datalist id="trade-account-options">
+                        {knownAccounts.map(a => <option key={a} value={a} />)}
+                    </datalist>
                 </div>
 
-                <div className="grid grid-cols-2 gap-5">
+                {isSplit ? (
                     <div className="space-y-1.5">
-                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Quantity</label>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Shares Added (negative for reverse split)</label>
                         <input type="number" step="any" value={formData.quantity || ''} onChange={e => setFormData({...formData, quantity: parseFloat(e.target.value)})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold font-mono outline-none" required />
                     </div>
-                    <div className="space-y-1.5">
-                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Price / Unit</label>
-                        <div className="relative">
-                            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-xs">$</span>
-                            <input type="number" step="any" value={formData.price || ''} onChange={e => setFormData({...formData, price: parseFloat(e.target.value)})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl pl-8 pr-4 py-3 text-sm font-bold font-mono outline-none" required />
+                ) : isCashEvent ? (
+                    <div className="grid grid-cols-2 gap-5">
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Amount Received</label>
+                            <div className="relative">
+                                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-xs">$</span>
+                                <input type="number" step="any" value={formData.total || ''} onChange={e => setFormData({...formData, total: parseFloat(e.target.value)})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl pl-8 pr-4 py-3 text-sm font-bold font-mono outline-none" required />
+                            </div>
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Units Held (Optional)</label>
+                            <input type="number" step="any" value={formData.quantity || ''} onChange={e => setFormData({...formData, quantity: parseFloat(e.target.value)})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold font-mono outline-none" />
                         </div>
                     </div>
-                </div>
+                ) : (
+                    <div className="grid grid-cols-2 gap-5">
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Quantity</label>
+                            <input type="number" step="any" value={formData.quantity || ''} onChange={e => setFormData({...formData, quantity: parseFloat(e.target.value)})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold font-mono outline-none" required />
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Price / Unit</label>
+                            <div className="relative">
+                                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-xs">$</span>
+                                <input type="number" step="any" value={formData.price || ''} onChange={e => setFormData({...formData, price: parseFloat(e.target.value)})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl pl-8 pr-4 py-3 text-sm font-bold font-mono outline-none" required />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {isSell && openLots.length > 0 && (
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Sell From Lot</label>
+                        <select value={formData.lotId || ''} onChange={e => setFormData({...formData, lotId: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500 transition-all appearance-none">
+                            <option value="">{lotMethod} (default)</option>
+                            {openLots.map(l => (
+                                <option key={l.id} value={l.id}>{l.id} · {l.remaining.toLocaleString(undefined, { maximumFractionDigits: 4 })} units @ ${(l.cost / l.remaining).toFixed(2)}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
 
                 <div className="flex items-center justify-between p-4 bg-blue-50 dark:bg-blue-500/10 rounded-2xl border border-blue-100 dark:border-blue-500/20">
                     <span className="text-[10px] font-black uppercase tracking-widest text-blue-600 dark:text-blue-400">Total Settlement</span>
@@ -1,7 +1,8 @@
 
 import React, { useState, memo } from 'react';
 import { Trade } from '../../types';
-import { ArrowDownLeft, ArrowUpRight, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { ArrowDownLeft, ArrowUpRight, Coins, Split, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { getQuantityDelta, getTradeType, carriesUnitPrice, TRADE_TYPE_LABELS } from '../../services/trades/tradeEventService';
 
 interface TradeHistoryTableProps {
     trades: Trade[];
@@ -40,25 +41,27 @@ export const TradeHistoryTable: React.FC<TradeHistoryTableProps> = memo(({
                 </thead>
                 <tbody className="divide-y divide-slate-100 dark:divide-slate-800/50">
                     {trades.map((trade) => {
-                        const isBuy = (trade.type || 'BUY').trim().toUpperCase() === 'BUY';
+                        const type = getTradeType(trade);
+                        const isIncome = type === 'DIVIDEND' || type === 'ROC';
+                        const isInflow = getQuantityDelta(trade) > 0;
                         const isDeleting = deletingId === trade.id;
                         return (
                             <tr key={trade.id} className="hover:bg-blue-500/5 transition-colors group/row tabular-nums">
                                 <td className="p-4 whitespace-nowrap text-xs font-bold text-slate-500 dark:text-slate-400 uppercase font-mono">{trade.date}</td>
-                                {!compact && <td className="p-4 text-xs font-black text-slate-900 dark:text-white">{trade.ticker}</td>}
+                                {!compact && <td className="p-4 text-xs font-black text-slate-900 dark:text-white">{trade.ticker}{trade.account && <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-slate-400">{trade.account}</span>}</td>}
                                 <td className="p-4">
                                     <div className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest ${
-                                        isBuy ? 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' : 'bg-red-500/10 text-red-500 dark:text-red-400'
+                                        isIncome ? 'bg-amber-500/10 text-amber-600 dark:text-amber-400' : type === 'SPLIT' ? 'bg-indigo-500/10 text-indigo-600 dark:text-indigo-400' : isInflow ? 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' : 'bg-red-500/10 text-red-500 dark:text-red-400'
                                     }`}>
-                                        {isBuy ? <ArrowDownLeft size={10} /> : <ArrowUpRight size={10} />}
-                                        {trade.type}
+                                        {isIncome ? <Coins size={10} /> : type === 'SPLIT' ? <Split size={10} /> : isInflow ? <ArrowDownLeft size={10} /> : <ArrowUpRight size={10} />}
+                                        {TRADE_TYPE_LABELS[type]}
                                     </div>
                                 </td>
                                 <td className="p-4 text-right text-xs font-mono font-bold text-slate-700 dark:text-slate-300">
-                                    {Math.abs(trade.quantity).toLocaleString()}
+                                    {type === 'SPLIT' ? `${trade.quantity > 0 ? '+' : ''}${trade.quantity.toLocaleString()}` : isIncome && !trade.quantity ? '—' : Math.abs(trade.quantity).toLocaleString()}
                                 </td>
                                 <td className="p-4 text-right text-xs font-mono text-slate-400 dark:text-slate-500">
-                                    ${Math.abs(trade.price).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    {carriesUnitPrice(trade) || (isIncome && trade.price) ? `$${Math.abs(trade.price).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '—'}
                                 </td>
                                 <td className="p-4 text-right text-xs font-mono font-black text-slate-900 dark:text-white">
                                     ${Math.abs(trade.total).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
@@ -0,0 +1,93 @@
+import { BenchmarkComponent, BenchmarkDefinition } from '../../types';
+import { fetchHistoricalPrices } from '../priceService';
+import { priceAsOf } from '../math/quant';
+
+type PricePoint = { date: string; price: number };
+
+const single = (id: string, name: string, color: string): BenchmarkDefinition =>
+    ({ id, name, color, components: [{ ticker: id, weight: 1 }], rebalance: 'NONE' });
+
+export const DEFAULT_BENCHMARKS: BenchmarkDefinition[] = [
+    single('SPY', 'S&P 500', '#10b981'),
+    single('XIU.TO', 'TSX 60', '#ef4444'),
+    single('QQQ', 'Nasdaq 100', '#8b5cf6')
+];
+
+const CUSTOM_COLORS = ['#f59e0b', '#ec4899', '#14b8a6', '#6366f1', '#f97316'];
+
+/**
+ * One price per requested date: the last close on or before it.
+ * Dates ahead of the first close take that first close so a series never opens at zero.
+ */
+export const forwardFillPrices = (prices: PricePoint[], dates: string[]): PricePoint[] => {
+    const sorted = [...prices].sort((a, b) => a.date.localeCompare(b.date));
+    if (sorted.length === 0) return [];
+    return dates.map(date => ({ date, price: priceAsOf(sorted, date) ?? sorted[0].price }));
+};
+
+/**
+ * Index (starting at 100) of a weighted basket, optionally reset to its target weights
+ * at each month-end close.
+ */
+export const blendBenchmarkSeries = (histories: Record<string, PricePoint[]>, components: BenchmarkComponent[], rebalance: BenchmarkDefinition['rebalance']): PricePoint[] => {
+    const series = components.map(c => [...(histories[c.ticker] || [])].sort((a, b) => a.date.localeCompare(b.date)));
+    if (series.some(s => s.length === 0)) return [];
+
+    // Start once every component has traded.
+    const start = series.map(s => s[0].date).sort().pop()!;
+    const dates = Array.from(new Set(series.flatMap(s => s.map(p => p.date)))).filter(d => d >= start).sort();
+    const aligned = series.map(s => forwardFillPrices(s, dates));
+
+    let units = components.map((c, i) => 100 * c.weight / aligned[i][0].price);
+    return dates.map((date, d) => {
+        const value = units.reduce((sum, u, i) => sum + u * aligned[i][d].price, 0);
+        const nextMonth = dates[d + 1]?.substring(0, 7);
+        if (rebalance === 'MONTHLY' && nextMonth && nextMonth !== date.substring(0, 7)) {
+            units = components.map((c, i) => value * c.weight / aligned[i][d].price);
+        }
+        return { date, price: value };
+    });
+};
+
+export const fetchBenchmarkHistory = async (benchmark: BenchmarkDefinition, startDate: string): Promise<PricePoint[]> => {
+    if (benchmark.components.length === 1) return fetchHistoricalPrices(benchmark.components[0].ticker, startDate);
+    const results = await Promise.all(benchmark.components.map(c => fetchHistoricalPrices(c.ticker, startDate)));
+    const histories: Record<string, PricePoint[]> = {};
+    benchmark.components.forEach((c, i) => { histories[c.ticker] = results[i]; });
+    return blendBenchmarkSeries(histories, benchmark.components, benchmark.rebalance);
+};
+
+/**
+ * Parses "XIU.TO 60, ZAG.TO 40" (or "60% XIU.TO / 40% ZAG.TO") into normalized weights.
+ * A lone ticker without a weight is taken at 100%.
+ */
+export const parseBenchmarkComponents = (input: string): BenchmarkComponent[] => {
+    const parts = input.split(/[,/;+]/).map(p => p.trim()).filter(Boolean);
+    if (parts.length === 0) throw new Error("Enter at least one ticker.");
+
+    const parsed = parts.map(part => {
+        const tokens = part.split(/\s+/);
+        const weightToken = tokens.find(t => /^\d+(\.\d+)?%?$/.test(t));
+        const ticker = tokens.find(t => t !== weightToken);
+        if (!ticker) throw new Error(`Missing ticker in "${part}".`);
+        const weight = weightToken ? parseFloat(weightToken) : (parts.length === 1 ? 100 : NaN);
+        if (!(weight > 0)) throw new Error(`Missing weight for ${ticker.toUpperCase()}.`);
+        return { ticker: ticker.toUpperCase(), weight };
+    });
+
+    const total = parsed.reduce((sum, c) => sum + c.weight, 0);
+    return parsed.map(c => ({ ticker: c.ticker, weight: c.weight / total }));
+};
+
+export const createCustomBenchmark = (name: string, input: string, rebalance: BenchmarkDefinition['rebalance'], existing: BenchmarkDefinition[]): BenchmarkDefinition => {
+    const components = parseBenchmarkComponents(input);
+    const label = name.trim() || components.map(c => components.length > 1 ? `${Math.round(c.weight * 100)}% ${c.ticker}` : c.ticker).join(' / ');
+    return {
+        id: `custom-${Date.now()}`,
+        name: label,
+        color: CUSTOM_COLORS[existing.length % CUSTOM_COLORS.length],
+        components,
+        rebalance: components.length > 1 ? rebalance : 'NONE',
+        isCustom: true
+    };
+};
@@ -0,0 +1,136 @@
+import { Insight, InsightSeverity, InsightState, IncomeEntry, Investment, NormalizedTransaction, Subscription, TaxRecord, TimeFocus, ViewState } from '../../types';
+import { calculateTemporalVariance, getTemporalWindows } from '../temporalService';
+import { calculateMonthlyBurn } from '../temporalUtils';
+import { calculateTaxStats, TAX_SUMMARY_ACCOUNTS } from '../taxService';
+import { formatBaseCurrency } from '../currencyService';
+import { normalizeTicker } from '../geminiService';
+
+export interface InsightContext {
+    timeline: NormalizedTransaction[];
+    taxRecords: TaxRecord[];
+    subscriptions: Subscription[];
+    investments: Investment[];
+    incomeData: IncomeEntry[];
+    today: string;
+}
+
+type InsightRule = (ctx: InsightContext) => Insight[];
+
+export const SPENDING_VARIANCE_THRESHOLD = 25;
+export const SPENDING_VARIANCE_MIN_DELTA = 100;
+export const SUBSCRIPTION_INCOME_THRESHOLD = 5;
+export const CONCENTRATION_THRESHOLD = 20;
+
+const SEVERITY_RANK: Record<InsightSeverity, number> = { critical: 0, warning: 1, opportunity: 2, info: 3 };
+
+const shiftDays = (iso: string, days: number): string => {
+    const d = new Date(iso);
+    d.setDate(d.getDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+/**
+ * Categories whose spend over the last 90 days rose sharply against the 90 days before.
+ * The window is passed to the flow view as a custom range so the linked chart shows the same comparison.
+ */
+const spendingVarianceRule: InsightRule = ({ timeline, today }) => {
+    const range = { start: shiftDays(today, -90), end: today };
+    const windows = getTemporalWindows(TimeFocus.CUSTOM, range);
+    const inWindow = (w: { start: string; end: string }) => timeline.filter(t => t.date >= w.start && t.date <= w.end);
+
+    return calculateTemporalVariance(inWindow(windows.current), inWindow(windows.shadow), [], 'EXPENSE', true)
+        .filter(v => v.prevTotal > 0 && v.variancePct >= SPENDING_VARIANCE_THRESHOLD && v.delta >= SPENDING_VARIANCE_MIN_DELTA)
+        .map((v): Insight => ({
+            id: `spending-variance:${v.name}:${range.start.substring(0, 7)}`,
+            rule: 'spending-variance',
+            title: `${v.name} up ${Math.round(v.variancePct)}% vs last quarter`,
+            detail: `${formatBaseCurrency(v.currentTotal)} over the last 90 days against ${formatBaseCurrency(v.prevTotal)} the 90 days before.`,
+            severity: v.variancePct >= SPENDING_VARIANCE_THRESHOLD * 2 ? 'warning' : 'info',
+            impact: v.delta * 4,
+            link: { view: ViewState.ANALYTICS, analyticsSubView: 'FLOW', flowFocus: { type: 'EXPENSE', path: [v.name], range } }
+        }));
+};
+
+const taxRoomRule: InsightRule = ({ taxRecords, today }) => {
+    const stats = calculateTaxStats(taxRecords, today);
+    return TAX_SUMMARY_ACCOUNTS
+        .filter(acc => stats[acc] && stats[acc].totalLimit > 0 && stats[acc].remaining >= 1)
+        .map((acc): Insight => ({
+            id: `tax-room:${acc}:${today.substring(0, 4)}`,
+            rule: 'tax-room',
+            title: `${acc} room unused: ${formatBaseCurrency(stats[acc].remaining)}`,
+            detail: `${formatBaseCurrency(stats[acc].used)} of ${formatBaseCurrency(stats[acc].totalLimit)} in lifetime room is used.`,
+            severity: 'opportunity',
+            impact: stats[acc].remaining,
+            link: { view: ViewState.INFORMATION, informationTab: 'tax' }
+        }));
+};
+
+const subscriptionBurdenRule: InsightRule = ({ subscriptions, incomeData, today }) => {
+    const monthlyCost = subscriptions.filter(s => s.active).reduce((sum, s) => sum + calculateMonthlyBurn(s.cost, s.period), 0);
+    const since = shiftDays(today, -365);
+    const recent = incomeData.filter(d => d.date >= since && d.date <= today && d.amount > 0);
+    if (monthlyCost <= 0 || recent.length === 0) return [];
+
+    const monthlyIncome = recent.reduce((sum, d) => sum + d.amount, 0) / recent.length;
+    const share = monthlyIncome > 0 ? (monthlyCost / monthlyIncome) * 100 : 0;
+    if (share <= SUBSCRIPTION_INCOME_THRESHOLD) return [];
+
+    return [{
+        id: `subscription-burden:${today.substring(0, 7)}`,
+        rule: 'subscription-burden',
+        title: `Subscriptions cost ${share.toFixed(1)}% of income`,
+        detail: `${formatBaseCurrency(monthlyCost)} a month in active subscriptions against ${formatBaseCurrency(monthlyIncome)} average monthly income.`,
+        severity: share >= SUBSCRIPTION_INCOME_THRESHOLD * 2 ? 'critical' : 'warning',
+        impact: (monthlyCost - monthlyIncome * SUBSCRIPTION_INCOME_THRESHOLD / 100) * 12,
+        link: { view: ViewState.INFORMATION, informationTab: 'commitments' }
+    }];
+};
+
+const concentrationRule: InsightRule = ({ investments }) => {
+    const byTicker = new Map<string, number>();
+    investments.forEach(inv => {
+        const ticker = normalizeTicker(inv.ticker);
+        if (ticker === 'UNKNOWN' || ticker === 'CASH') return;
+        const value = inv.marketValue || inv.quantity * inv.currentPrice;
+        byTicker.set(ticker, (byTicker.get(ticker) || 0) + value);
+    });
+    const total = Array.from(byTicker.values()).reduce((a, b) => a + Math.max(0, b), 0);
+    if (total <= 0) return [];
+
+    return Array.from(byTicker.entries())
+        .map(([ticker, value]) => ({ ticker, value, share: (value / total) * 100 }))
+        .filter(h => h.share >= CONCENTRATION_THRESHOLD && byTicker.size > 1)
+        .map((h): Insight => ({
+            id: `concentration:${h.ticker}`,
+            rule: 'concentration',
+            title: `${h.ticker} is ${Math.round(h.share)}% of the portfolio`,
+            detail: `${formatBaseCurrency(h.value)} of ${formatBaseCurrency(total)} sits in one holding.`,
+            severity: h.share >= CONCENTRATION_THRESHOLD * 2 ? 'critical' : 'warning',
+            impact: h.value - total * CONCENTRATION_THRESHOLD / 100,
+            link: { view: ViewState.INVESTMENTS, investmentContext: 'TOTAL' }
+        }));
+};
+
+export const INSIGHT_RULES: InsightRule[] = [spendingVarianceRule, taxRoomRule, subscriptionBurdenRule, concentrationRule];
+
+/**
+ * Runs every rule and ranks the findings by severity, then by dollars at stake.
+ */
+export const generateInsights = (ctx: InsightContext, rules: InsightRule[] = INSIGHT_RULES): Insight[] =>
+    rules
+        .flatMap(rule => rule(ctx))
+        .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.impact - a.impact);
+
+export const isInsightVisible = (insight: Insight, states: Record<string, InsightState>, today: string): boolean => {
+    const state = states[insight.id];
+    if (!state) return true;
+    if (state.dismissed) return false;
+    return !state.snoozedUntil || state.snoozedUntil <= today;
+};
+
+export const snoozeInsight = (states: Record<string, InsightState>, id: string, days: number, today: string): Record<string, InsightState> =>
+    ({ ...states, [id]: { snoozedUntil: shiftDays(today, days) } });
+
+export const dismissInsight = (states: Record<string, InsightState>, id: string): Record<string, InsightState> =>
+    ({ ...states, [id]: { dismissed: true } });
@@ -1,5 +1,6 @@
 
 import { NormalizedTransaction, LedgerData, TimeFocus, CustomDateRange } from '../../types';
+import { forwardFillPrices } from './benchmarkService';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1', '#14b8a6', '#f97316'];
 
@@ -98,21 +99,20 @@ export const transformDetailedTrendData = (detailedExpenses: LedgerData | undefi
 
 /**
  * Standardizes Benchmarking data transformation.
+ * Benchmark closes are forward-filled onto portfolio dates, so weekend and holiday logs carry the prior close.
  */
 export const transformBenchmarkComparison = (
   portfolioData: { date: string; totalValue: number }[],
   benchmarkData: { date: string; price: number }[]
 ) => {
   if (portfolioData.length < 2 || benchmarkData.length < 2) return [];
-  const firstB = benchmarkData[0].price;
+  const aligned = forwardFillPrices(benchmarkData, portfolioData.map(e => e.date));
+  const firstB = aligned[0].price;
   const firstP = portfolioData[0].totalValue;
 
-  return portfolioData.map(e => {
-    const b = benchmarkData.find(bh => bh.date === e.date);
-    return {
-      date: e.date,
-      portfolio: firstP > 0 ? ((e.totalValue / firstP) - 1) * 100 : 0,
-      benchmark: b && firstB > 0 ? ((b.price / firstB) - 1) * 100 : 0
-    };
-  });
+  return portfolioData.map((e, i) => ({
+    date: e.date,
+    portfolio: firstP > 0 ? ((e.totalValue / firstP) - 1) * 100 : 0,
+    benchmark: firstB > 0 ? ((aligned[i].price / firstB) - 1) * 100 : 0
+  }));
 };
@@ -1,6 +1,6 @@
 
 import { findVaultFile, uploadVaultFile, downloadVaultFile } from './cloudSyncService';
-import { ArchiveMeta } from '../types';
+import { ArchiveMeta, LedgerData } from '../types';
 
 const DB_NAME = 'FinTrackDB';
 const DB_VERSION = 1;
@@ -25,6 +25,17 @@ const dbSet = async (key: string, value: any): Promise<void> => {
   });
 };
 
+const dbGet = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
 const dbDelete = async (key: string): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -210,3 +221,15 @@ export const deleteLocalYear = async (year: number) => {
     await dbDelete(key);
   }
 };
+
+/**
+ * Loads the detailed income and expense ledgers stored locally for each year.
+ */
+export const loadLedgerHistory = async (): Promise<{ year: number; expenses?: LedgerData; income?: LedgerData }[]> => {
+  const archives = await getArchiveManagementList();
+  return Promise.all(archives.map(async ({ year }) => ({
+    year,
+    expenses: await dbGet<LedgerData>(`fintrack_detailed_expenses_${year}`),
+    income: await dbGet<LedgerData>(`fintrack_detailed_income_${year}`)
+  })));
+};
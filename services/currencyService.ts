@@ -34,6 +34,24 @@ export const fetchLiveRates = async (): Promise<ExchangeRates> => {
   }
 };
 
+/**
+ * Daily rates for one currency between two dates, as "1 Foreign = X CAD" keyed by ISO date.
+ * The API only publishes business days, so weekends and holidays are absent.
+ */
+export const fetchHistoricalRates = async (currency: string, startDate: string, endDate: string): Promise<Record<string, number>> => {
+  const code = currency.toUpperCase().trim();
+  if (code === PRIMARY_CURRENCY) return {};
+  const res = await fetch(`https://api.frankfurter.app/${startDate}..${endDate}?from=${code}&to=${PRIMARY_CURRENCY}`);
+  if (!res.ok) throw new Error(`Failed to fetch ${code} rates`);
+
+  const data = await res.json();
+  const rates: Record<string, number> = {};
+  Object.entries((data?.rates || {}) as Record<string, Record<string, number>>).forEach(([date, byCurrency]) => {
+    if (byCurrency[PRIMARY_CURRENCY]) rates[date] = byCurrency[PRIMARY_CURRENCY];
+  });
+  return rates;
+};
+
 export const convertToBase = (amount: number, currency: string = 'CAD', rates?: ExchangeRates): number => {
   if (!currency) return amount;
   const code = currency.toUpperCase().trim();
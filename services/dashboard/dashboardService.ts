@@ -45,7 +45,7 @@ export const resolveAttribution = (
     const startEntry = sortedHistory.find(h => h.date <= anchorISO) || sortedHistory[sortedHistory.length - 1];
     const startValue = startEntry ? startEntry.value : (history.length > 0 ? history[0].value : 0);
     
-    return calculateNetWorthAttribution(currentNW, startValue, incomeData, expenseData, anchorISO);
+    return calculateNetWorthAttribution(currentNW, startValue, incomeData, expenseData, anchorISO, history);
 };
 
 /**
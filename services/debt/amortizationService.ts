@@ -0,0 +1,186 @@
+import { PaymentFrequency } from '../../types';
+import { PAYMENTS_PER_YEAR } from './debtService';
+
+// Canadian fixed-rate mortgages quote rates compounded semi-annually; most other loans compound monthly.
+export type CompoundingConvention = 'MONTHLY' | 'SEMI_ANNUAL';
+
+export interface LumpSumPayment {
+    date: string;
+    amount: number;
+}
+
+// A new rate from `date` on, with the payment re-set over the remaining amortization.
+export interface RateRenewal {
+    date: string;
+    annualRate: number;
+}
+
+export interface AmortizationInputs {
+    name: string;
+    principal: number;
+    annualRate: number;
+    amortizationYears: number;
+    frequency: PaymentFrequency;
+    compounding: CompoundingConvention;
+    startDate: string;
+    // Added to every regular payment.
+    extraPayment: number;
+    lumpSums: LumpSumPayment[];
+    renewals: RateRenewal[];
+}
+
+export interface AmortizationRow {
+    period: number;
+    date: string;
+    annualRate: number;
+    startingBalance: number;
+    payment: number;
+    interest: number;
+    principal: number;
+    endingBalance: number;
+}
+
+export interface AmortizationSchedule {
+    rows: AmortizationRow[];
+    regularPayment: number;
+    totalInterest: number;
+    payoffDate: string | null;
+}
+
+// One row per month in the layout the debt tab parser reads.
+export interface DebtSheetRow {
+    loan: string;
+    date: string;
+    startingBalance: number;
+    payment: number;
+    interest: number;
+    principal: number;
+    endingBalance: number;
+}
+
+export const COMPOUNDING_LABELS: Record<CompoundingConvention, string> = {
+    MONTHLY: 'Monthly',
+    SEMI_ANNUAL: 'Semi-annual (Canadian mortgage)'
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Interest rate per payment period, via the effective annual rate of the quoted compounding.
+ */
+export const getPeriodRate = (annualRate: number, compounding: CompoundingConvention, frequency: PaymentFrequency): number => {
+    const r = annualRate / 100;
+    const effective = compounding === 'SEMI_ANNUAL' ? Math.pow(1 + r / 2, 2) - 1 : Math.pow(1 + r / 12, 12) - 1;
+    return Math.pow(1 + effective, 1 / PAYMENTS_PER_YEAR[frequency]) - 1;
+};
+
+export const calculatePayment = (balance: number, periodRate: number, periods: number): number => {
+    if (periods <= 0) return balance;
+    if (periodRate === 0) return balance / periods;
+    return balance * periodRate / (1 - Math.pow(1 + periodRate, -periods));
+};
+
+const toISO = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/**
+ * Date of the nth payment (0-based) from the start date at the given frequency.
+ */
+export const getPaymentDate = (startDate: string, frequency: PaymentFrequency, n: number): string => {
+    const [y, m, d] = startDate.split('-').map(Number);
+    if (frequency === 'Weekly' || frequency === 'Bi-Weekly') {
+        return toISO(new Date(y, m - 1, d + n * (frequency === 'Weekly' ? 7 : 14)));
+    }
+    if (frequency === 'Semi-Monthly') {
+        const month = new Date(y, m - 1 + Math.floor(n / 2), 1);
+        const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+        return toISO(new Date(month.getFullYear(), month.getMonth(), Math.min(lastDay, n % 2 === 0 ? d : d + 15)));
+    }
+    const month = new Date(y, m - 1 + n, 1);
+    const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    return toISO(new Date(month.getFullYear(), month.getMonth(), Math.min(lastDay, d)));
+};
+
+export const validateAmortizationInputs = (inputs: AmortizationInputs): string[] => {
+    const errors: string[] = [];
+    if (!inputs.name.trim()) errors.push("Give the loan a name; it labels the rows in the debt tab.");
+    if (!(inputs.principal > 0)) errors.push("Principal must be greater than zero.");
+    if (inputs.annualRate < 0) errors.push("Rate cannot be negative.");
+    if (!(inputs.amortizationYears > 0)) errors.push("Amortization period must be greater than zero.");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(inputs.startDate)) errors.push("Choose a first payment date.");
+    if (inputs.renewals.some(r => r.date <= inputs.startDate)) errors.push("Renewals must fall after the first payment.");
+    return errors;
+};
+
+/**
+ * Full payment-by-payment schedule. Renewals re-price the remaining balance over the remaining
+ * amortization; extra and lump-sum payments go straight to principal and shorten the loan.
+ */
+export const generateAmortizationSchedule = (inputs: AmortizationInputs): AmortizationSchedule => {
+    const perYear = PAYMENTS_PER_YEAR[inputs.frequency];
+    const totalPeriods = Math.round(inputs.amortizationYears * perYear);
+    const renewals = [...inputs.renewals].sort((a, b) => a.date.localeCompare(b.date));
+    const lumpSums = [...inputs.lumpSums].filter(l => l.amount > 0).sort((a, b) => a.date.localeCompare(b.date));
+
+    let annualRate = inputs.annualRate;
+    let periodRate = getPeriodRate(annualRate, inputs.compounding, inputs.frequency);
+    let regular = calculatePayment(inputs.principal, periodRate, totalPeriods);
+    const initialPayment = regular;
+
+    let balance = inputs.principal;
+    let renewalIdx = 0;
+    let lumpIdx = 0;
+    const rows: AmortizationRow[] = [];
+
+    for (let n = 0; n < totalPeriods && balance > 0.005; n++) {
+        const date = getPaymentDate(inputs.startDate, inputs.frequency, n);
+
+        let renewed = false;
+        while (renewalIdx < renewals.length && renewals[renewalIdx].date <= date) {
+            annualRate = renewals[renewalIdx++].annualRate;
+            renewed = true;
+        }
+        if (renewed) {
+            periodRate = getPeriodRate(annualRate, inputs.compounding, inputs.frequency);
+            regular = calculatePayment(balance, periodRate, totalPeriods - n);
+        }
+
+        let lump = 0;
+        while (lumpIdx < lumpSums.length && lumpSums[lumpIdx].date <= date) lump += lumpSums[lumpIdx++].amount;
+
+        const interest = balance * periodRate;
+        const payment = Math.min(balance + interest, regular + Math.max(0, inputs.extraPayment) + lump);
+        const startingBalance = balance;
+        balance = Math.max(0, balance + interest - payment);
+        if (balance < 0.005) balance = 0;
+
+        rows.push({ period: n + 1, date, annualRate, startingBalance, payment, interest, principal: payment - interest, endingBalance: balance });
+    }
+
+    return {
+        rows,
+        regularPayment: initialPayment,
+        totalInterest: rows.reduce((sum, r) => sum + r.interest, 0),
+        payoffDate: balance === 0 && rows.length > 0 ? rows[rows.length - 1].date : null
+    };
+};
+
+/**
+ * Folds the schedule into one row per calendar month, the granularity the debt tab is read at.
+ * Weekly and bi-weekly payments falling in the same month are summed into its row.
+ */
+export const toDebtSheetRows = (name: string, schedule: AmortizationSchedule): DebtSheetRow[] => {
+    const byMonth = new Map<string, AmortizationRow[]>();
+    schedule.rows.forEach(r => {
+        const key = r.date.substring(0, 7);
+        byMonth.set(key, [...(byMonth.get(key) || []), r]);
+    });
+    return Array.from(byMonth.values()).map(rows => ({
+        loan: name,
+        date: rows[0].date,
+        startingBalance: round2(rows[0].startingBalance),
+        payment: round2(rows.reduce((s, r) => s + r.payment, 0)),
+        interest: round2(rows.reduce((s, r) => s + r.interest, 0)),
+        principal: round2(rows.reduce((s, r) => s + r.principal, 0)),
+        endingBalance: round2(rows[rows.length - 1].endingBalance)
+    }));
+};
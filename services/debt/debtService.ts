@@ -0,0 +1,160 @@
+import { DebtEntry, Liability, PaymentFrequency } from '../../types';
+
+export const PAYMENTS_PER_YEAR: Record<PaymentFrequency, number> = {
+    'Monthly': 12,
+    'Semi-Monthly': 24,
+    'Bi-Weekly': 26,
+    'Weekly': 52
+};
+
+export type BalanceSource = 'schedule' | 'manual' | 'amortized';
+
+export interface DebtPosition {
+    liability: Liability;
+    balance: number;
+    monthlyPayment: number;
+    source: BalanceSource;
+    asOf: string;
+    remainingPayments: number | null;
+    // Schedule rows belonging to this debt, oldest first.
+    schedule: DebtEntry[];
+}
+
+export const toMonthlyPayment = (amount: number, frequency: PaymentFrequency): number =>
+    amount * PAYMENTS_PER_YEAR[frequency] / 12;
+
+const periodRate = (liability: Liability) => liability.interestRate / 100 / PAYMENTS_PER_YEAR[liability.paymentFrequency];
+
+const scheduleKey = (liability: Liability) => (liability.scheduleName || liability.name).trim().toLowerCase();
+
+export const getLiabilitySchedule = (liability: Liability, entries: DebtEntry[]): DebtEntry[] => {
+    const key = scheduleKey(liability);
+    return entries
+        .filter(e => e.name.trim().toLowerCase() === key)
+        .sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+};
+
+/**
+ * The schedule row for the current month, else the latest row already passed, else the first row.
+ */
+export const findCurrentScheduleRow = (schedule: DebtEntry[], today: string): DebtEntry | undefined => {
+    const monthPrefix = today.substring(0, 7);
+    return schedule.find(e => e.date?.startsWith(monthPrefix))
+        || [...schedule].reverse().find(e => e.date && e.date <= today)
+        || schedule[0];
+};
+
+/**
+ * Number of payments made between the start date and `today` at the debt's frequency.
+ */
+export const countPaymentsMade = (liability: Liability, today: string): number => {
+    const start = new Date(liability.startDate);
+    const now = new Date(today);
+    if (isNaN(start.getTime()) || now < start) return 0;
+    const days = (now.getTime() - start.getTime()) / 86400000;
+    return Math.floor(days / (365.25 / PAYMENTS_PER_YEAR[liability.paymentFrequency]));
+};
+
+/**
+ * Standard amortization: the balance left on `principal` after `payments` regular payments.
+ */
+export const amortizedBalance = (liability: Liability, payments: number): number => {
+    const r = periodRate(liability);
+    const { principal, paymentAmount } = liability;
+    if (r === 0) return Math.max(0, principal - paymentAmount * payments);
+    const growth = Math.pow(1 + r, payments);
+    return Math.max(0, principal * growth - paymentAmount * (growth - 1) / r);
+};
+
+/**
+ * Payments left until a balance is cleared, or null when the payment does not cover the interest.
+ */
+export const countRemainingPayments = (liability: Liability, balance: number): number | null => {
+    if (balance <= 0) return 0;
+    if (liability.paymentAmount <= 0) return null;
+    const r = periodRate(liability);
+    if (r === 0) return Math.ceil(balance / liability.paymentAmount);
+    const interest = balance * r;
+    if (liability.paymentAmount <= interest) return null;
+    return Math.ceil(-Math.log(1 - interest / liability.paymentAmount) / Math.log(1 + r));
+};
+
+/**
+ * Current balance of one debt. A schedule in the debt tab wins, then a manually entered balance,
+ * then an amortization of the original principal from the start date.
+ */
+export const resolveDebtPosition = (liability: Liability, entries: DebtEntry[], today: string = new Date().toISOString().split('T')[0]): DebtPosition => {
+    const schedule = getLiabilitySchedule(liability, entries);
+    const monthlyPayment = toMonthlyPayment(liability.paymentAmount, liability.paymentFrequency);
+    const row = findCurrentScheduleRow(schedule, today);
+
+    let balance: number;
+    let source: BalanceSource;
+    let asOf: string;
+    if (row) {
+        balance = row.amountOwed;
+        source = 'schedule';
+        asOf = row.date || today;
+    } else if (liability.currentBalance !== undefined) {
+        balance = liability.currentBalance;
+        source = 'manual';
+        asOf = liability.balanceAsOf || today;
+    } else {
+        balance = amortizedBalance(liability, countPaymentsMade(liability, today));
+        source = 'amortized';
+        asOf = today;
+    }
+
+    return {
+        liability,
+        balance,
+        monthlyPayment: row && !liability.paymentAmount ? row.monthlyPayment : monthlyPayment,
+        source,
+        asOf,
+        remainingPayments: countRemainingPayments(liability, balance),
+        schedule
+    };
+};
+
+/**
+ * Turns schedules in the debt tab that no registered debt claims into read-only liabilities,
+ * so a sheet-only setup still shows every loan.
+ */
+export const inferUnregisteredLiabilities = (liabilities: Liability[], entries: DebtEntry[]): Liability[] => {
+    const claimed = new Set(liabilities.map(scheduleKey));
+    const groups = new Map<string, DebtEntry[]>();
+    entries.forEach(e => {
+        const key = e.name.trim().toLowerCase();
+        if (claimed.has(key)) return;
+        groups.set(key, [...(groups.get(key) || []), e]);
+    });
+
+    return Array.from(groups.values()).map(rows => {
+        const sorted = [...rows].sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+        const first = sorted[0];
+        const rated = sorted.find(r => r.interestRate > 0);
+        return {
+            id: `schedule-${first.name}`,
+            name: first.name,
+            kind: 'Other',
+            principal: first.startingBalance || first.amountOwed,
+            interestRate: rated?.interestRate || 0,
+            termMonths: sorted.length,
+            paymentAmount: first.monthlyPayment,
+            paymentFrequency: 'Monthly',
+            startDate: first.date || '',
+            scheduleName: first.name,
+            active: true
+        };
+    });
+};
+
+/**
+ * Every active debt with its current balance, largest first.
+ */
+export const getActiveDebtPositions = (liabilities: Liability[], entries: DebtEntry[], today?: string): DebtPosition[] =>
+    [...liabilities, ...inferUnregisteredLiabilities(liabilities, entries)]
+        .filter(l => l.active)
+        .map(l => resolveDebtPosition(l, entries, today))
+        .filter(p => p.balance > 0)
+        .sort((a, b) => b.balance - a.balance);
@@ -0,0 +1,147 @@
+import { DebtPayoffSettings, PayoffStrategy } from '../../types';
+import { DebtPosition } from './debtService';
+
+export const PAYOFF_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+    AVALANCHE: 'Avalanche',
+    SNOWBALL: 'Snowball',
+    CUSTOM: 'Custom'
+};
+
+export const DEFAULT_PAYOFF_SETTINGS: DebtPayoffSettings = { strategy: 'AVALANCHE', extraPayment: 0, customOrder: [] };
+
+// Fifty years; a plan still running by then is treated as stalled.
+const MAX_MONTHS = 600;
+
+export interface PayoffDebt {
+    id: string;
+    name: string;
+    balance: number;
+    // Annual percentage.
+    rate: number;
+    minimumPayment: number;
+}
+
+export interface PayoffScheduleRow {
+    month: string;
+    payment: number;
+    interest: number;
+    principal: number;
+    balance: number;
+}
+
+export interface DebtPayoffResult {
+    debt: PayoffDebt;
+    payoffMonth: string | null;
+    totalInterest: number;
+    schedule: PayoffScheduleRow[];
+}
+
+export interface PayoffPlan {
+    strategy: PayoffStrategy;
+    months: number;
+    payoffMonth: string | null;
+    totalInterest: number;
+    totalPaid: number;
+    // True when the payments never clear every balance, e.g. minimums below the interest.
+    stalled: boolean;
+    debts: DebtPayoffResult[];
+}
+
+export const toPayoffDebts = (positions: DebtPosition[]): PayoffDebt[] =>
+    positions.map(p => ({
+        id: p.liability.id,
+        name: p.liability.name,
+        balance: p.balance,
+        rate: p.liability.interestRate,
+        minimumPayment: p.monthlyPayment
+    }));
+
+const monthKey = (start: Date, offset: number) => {
+    const d = new Date(start.getFullYear(), start.getMonth() + offset, 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Order in which extra money is aimed. Avalanche takes the highest rate first, snowball the
+ * smallest balance; custom follows `customOrder`, with any unlisted debts after it by rate.
+ */
+export const orderDebts = (debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: string[] = []): PayoffDebt[] => {
+    const byRate = [...debts].sort((a, b) => b.rate - a.rate || a.balance - b.balance);
+    if (strategy === 'AVALANCHE') return byRate;
+    if (strategy === 'SNOWBALL') return [...debts].sort((a, b) => a.balance - b.balance || b.rate - a.rate);
+    const ranked = customOrder.map(id => debts.find(d => d.id === id)).filter((d): d is PayoffDebt => !!d);
+    return [...ranked, ...byRate.filter(d => !customOrder.includes(d.id))];
+};
+
+/**
+ * Month-by-month payoff. Every debt gets its minimum; the extra amount, plus each minimum freed
+ * as a debt is cleared, goes to the first unpaid debt in strategy order.
+ */
+export const simulatePayoff = (
+    debts: PayoffDebt[],
+    settings: DebtPayoffSettings,
+    today: string = new Date().toISOString().split('T')[0]
+): PayoffPlan => {
+    const ordered = orderDebts(debts.filter(d => d.balance > 0), settings.strategy, settings.customOrder);
+    const start = new Date(parseInt(today.substring(0, 4), 10), parseInt(today.substring(5, 7), 10), 1);
+    const budget = ordered.reduce((sum, d) => sum + d.minimumPayment, 0) + Math.max(0, settings.extraPayment);
+
+    const balances = ordered.map(d => d.balance);
+    const results: DebtPayoffResult[] = ordered.map(debt => ({ debt, payoffMonth: null, totalInterest: 0, schedule: [] }));
+
+    let month = 0;
+    while (balances.some(b => b > 0.005) && month < MAX_MONTHS) {
+        const key = monthKey(start, month);
+        const interest = balances.map((b, i) => b > 0 ? b * ordered[i].rate / 100 / 12 : 0);
+        const payments = balances.map((b, i) => b > 0 ? Math.min(ordered[i].minimumPayment, b + interest[i]) : 0);
+
+        let remaining = budget - payments.reduce((a, b) => a + b, 0);
+        for (let i = 0; i < ordered.length && remaining > 0.005; i++) {
+            const owed = balances[i] + interest[i] - payments[i];
+            if (owed <= 0) continue;
+            const extra = Math.min(remaining, owed);
+            payments[i] += extra;
+            remaining -= extra;
+        }
+
+        balances.forEach((b, i) => {
+            if (b <= 0) return;
+            const next = Math.max(0, b + interest[i] - payments[i]);
+            balances[i] = next < 0.005 ? 0 : next;
+            results[i].totalInterest += interest[i];
+            results[i].schedule.push({ month: key, payment: payments[i], interest: interest[i], principal: payments[i] - interest[i], balance: balances[i] });
+            if (balances[i] === 0) results[i].payoffMonth = key;
+        });
+        month++;
+    }
+
+    const stalled = balances.some(b => b > 0.005);
+    return {
+        strategy: settings.strategy,
+        months: month,
+        payoffMonth: stalled || month === 0 ? null : monthKey(start, month - 1),
+        totalInterest: results.reduce((sum, r) => sum + r.totalInterest, 0),
+        totalPaid: results.reduce((sum, r) => sum + r.schedule.reduce((s, row) => s + row.payment, 0), 0),
+        stalled,
+        debts: results
+    };
+};
+
+/**
+ * The same debts and extra payment run through every strategy, for side-by-side comparison.
+ */
+export const comparePayoffStrategies = (debts: PayoffDebt[], settings: DebtPayoffSettings, today?: string): Record<PayoffStrategy, PayoffPlan> => ({
+    AVALANCHE: simulatePayoff(debts, { ...settings, strategy: 'AVALANCHE' }, today),
+    SNOWBALL: simulatePayoff(debts, { ...settings, strategy: 'SNOWBALL' }, today),
+    CUSTOM: simulatePayoff(debts, { ...settings, strategy: 'CUSTOM' }, today)
+});
+
+/**
+ * What the plan asks to pay on each debt in its first month.
+ */
+export const getNextMonthTargets = (plan: PayoffPlan): { debt: PayoffDebt; payment: number; isFocus: boolean }[] => {
+    const focus = plan.debts.find(r => (r.schedule[0]?.payment || 0) > r.debt.minimumPayment + 0.005);
+    return plan.debts
+        .filter(r => r.schedule.length > 0)
+        .map(r => ({ debt: r.debt, payment: r.schedule[0].payment, isFocus: r === focus }));
+};
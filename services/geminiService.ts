@@ -1,5 +1,6 @@
 
-import { Asset, Investment, Trade, Subscription, BankAccount, NetWorthEntry, PortfolioLogEntry, DebtEntry, IncomeEntry, ExpenseEntry, IncomeAndExpenses, LedgerData, LedgerCategory, LedgerItem, TaxRecord } from "../types";
+import { Asset, Investment, Trade, Subscription, BankAccount, NetWorthEntry, PortfolioLogEntry, DebtEntry, IncomeEntry, ExpenseEntry, IncomeAndExpenses, LedgerData, LedgerCategory, LedgerItem, TaxRecord, IngestionReport, MappableTab, ColumnMapping, SheetLocale } from "../types";
+import { parseTradeType } from "./trades/tradeEventService";
 
 // Generative AI components removed as per request.
 // This service now exclusively handles deterministic data parsing logic.
@@ -27,8 +28,8 @@ const HEADER_KEYWORDS: Record<string, string[]> = {
     subscriptions: ['name', 'service', 'subscription', 'item', 'merchant', 'description'],
     accounts: ['institution', 'bank', 'account', 'type', 'card'],
     logData: ['date', 'worth', 'total', 'balance', 'net'],
-    portfolioLog: ['date', 'tfsa', 'rrsp', 'fhsa', 'crypto', 'resp'],
-    debt: ['month', 'startingbalance', 'you paid', 'interest', 'principal', 'endingbalance']
+    taxRecords: ['account', 'fund', 'transaction', 'type', 'value', 'amount'],
+    portfolioLog: ['date', 'tfsa', 'rrsp', 'fhsa', 'crypto', 'resp']
 };
 
 export const normalizeTicker = (ticker: string): string => {
@@ -47,7 +48,7 @@ export const normalizeTicker = (ticker: string): string => {
   return clean.trim();
 };
 
-const parseCSVLine = (line: string): string[] => {
+export const parseCSVLine = (line: string): string[] => {
   if (!line.includes('"')) return line.split(',').map(v => v.trim());
   const result: string[] = [];
   let current = '';
@@ -63,12 +64,30 @@ const parseCSVLine = (line: string): string[] => {
   return result.map(val => val.replace(/^"|"$/g, '').replace(/""/g, '"'));
 };
 
-const parseNumber = (val: string | undefined): number => {
+export const DEFAULT_LOCALE: SheetLocale = {
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  dateOrder: 'MDY',
+  currencySymbols: ['CA$', 'US$', 'C$', '$']
+};
+
+// Rewrites a locale-formatted amount into plain `1234.56` form before the generic cleanup.
+const delocalizeNumber = (val: string, locale: SheetLocale): string => {
+  let out = val;
+  [...locale.currencySymbols].sort((a, b) => b.length - a.length).forEach(sym => { if (sym) out = out.split(sym).join(''); });
+  out = out.replace(/\s/g, '');
+  if (locale.thousandsSeparator) out = out.split(locale.thousandsSeparator).join('');
+  if (locale.decimalSeparator !== '.') out = out.replace(locale.decimalSeparator, '.');
+  return out;
+};
+
+export const parseNumber = (val: string | undefined, locale?: SheetLocale): number => {
   if (val === undefined || val === null) return 0;
   if (typeof val === 'number') return val;
   let clean = String(val).trim();
   if (!clean) return 0;
   if (clean.startsWith('(') && clean.endsWith(')')) clean = '-' + clean.slice(1, -1);
+  if (locale) clean = delocalizeNumber(clean, locale);
   
   // Aggressively strip currency codes (CA$, US$, etc) and formatting
   clean = clean.replace(/[^0-9.\-]/g, '');
@@ -90,7 +109,13 @@ const formatDateToLocalISO = (dateObj: Date): string => {
     return `${year}-${month}-${day}`;
 };
 
-const parseFlexibleDate = (dateStr: string): string | null => {
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})(?:$|[\sT])/;
+
+/**
+ * Parses a date cell. Without a locale, all-numeric dates such as 03/04/2025 are left to the
+ * JS Date parser (month first); with one, they are read in the configured day/month order.
+ */
+export const parseFlexibleDate = (dateStr: string, locale?: SheetLocale): string | null => {
     if (!dateStr || dateStr.length < 2) return null; 
     const cleanStr = dateStr.trim();
     if (cleanStr.toLowerCase().includes('yyyy-mm-dd')) return null;
@@ -104,6 +129,15 @@ const parseFlexibleDate = (dateStr: string): string | null => {
         if (m >= 1 && m <= 12 && d >= 1 && d <= 31) return formatDateToLocalISO(new Date(y, m - 1, d));
     }
     
+    // DD/MM/YYYY or MM/DD/YYYY, as configured
+    const numericMatch = locale && locale.dateOrder !== 'YMD' ? cleanStr.match(NUMERIC_DATE) : null;
+    if (numericMatch) {
+        const [first, second] = [parseInt(numericMatch[1]), parseInt(numericMatch[2])];
+        const [m, d] = locale!.dateOrder === 'DMY' ? [second, first] : [first, second];
+        const y = numericMatch[3].length === 2 ? 2000 + parseInt(numericMatch[3]) : parseInt(numericMatch[3]);
+        return m >= 1 && m <= 12 && d >= 1 && d <= 31 ? formatDateToLocalISO(new Date(y, m - 1, d)) : null;
+    }
+    
     // MMM-YY or MMM-YYYY
     const monthYearMatch = cleanStr.match(/^([A-Za-z]{3})[-/](\d{2,4})$/);
     if (monthYearMatch) {
@@ -123,49 +157,48 @@ const parseFlexibleDate = (dateStr: string): string | null => {
 
 const normalizeHeader = (str: string) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
 
-const resolveColumnIndex = (headers: string[], keys: string[]): number => {
+const resolveColumnIndex = (headers: string[], keys: string[], excluded: Set<number> = new Set()): number => {
   const normalizedHeaders = headers.map(h => normalizeHeader(h));
   for (const key of keys) {
     const normKey = normalizeHeader(key);
-    const exactIdx = normalizedHeaders.indexOf(normKey);
+    const exactIdx = normalizedHeaders.findIndex((h, i) => !excluded.has(i) && h === normKey);
     if (exactIdx !== -1) return exactIdx;
-    const partialIdx = normalizedHeaders.findIndex(h => h.includes(normKey));
+    const partialIdx = normalizedHeaders.findIndex((h, i) => !excluded.has(i) && h.includes(normKey));
     if (partialIdx !== -1) return partialIdx;
   }
   return -1;
 };
 
-const resolveIndices = (headers: string[], mapping: Record<string, string[]>) => {
+export const findPinnedColumn = (headers: string[], header?: string): number => {
+    if (!header) return -1;
+    const target = normalizeHeader(header);
+    return target ? headers.findIndex(h => normalizeHeader(h) === target) : -1;
+};
+
+/**
+ * Resolves a column per field. Pinned columns win outright and are withheld from
+ * keyword guessing for every other field.
+ */
+export const resolveIndices = (headers: string[], mapping: Record<string, string[]>, pinned?: ColumnMapping) => {
     const indices: Record<string, number> = {};
-    for (const key in mapping) indices[key] = resolveColumnIndex(headers, mapping[key]);
+    const taken = new Set<number>();
+    for (const key in mapping) {
+        const col = findPinnedColumn(headers, pinned?.[key]);
+        if (col !== -1) { indices[key] = col; taken.add(col); }
+    }
+    for (const key in mapping) if (indices[key] === undefined) indices[key] = resolveColumnIndex(headers, mapping[key], taken);
     return indices;
 };
 
-const createAssetParser = (headers: string[]) => {
-    const idx = resolveIndices(headers, {
+export const TAB_FIELD_KEYWORDS: Record<MappableTab, Record<string, string[]>> = {
+    assets: {
         name: ['name', 'account', 'asset', 'item', 'description', 'holding', 'security'],
         type: ['type', 'category', 'class', 'asset type', 'kind'],
         value: ['value', 'amount', 'balance', 'current value', 'market value', 'total', 'market val'],
         currency: ['currency', 'curr', 'ccy'],
         lastUpdated: ['last updated', 'date', 'updated', 'as of']
-    });
-    return (values: string[]): Asset | null => {
-        const name = (idx.name !== -1 ? values[idx.name] : '') || 'Unknown Asset';
-        const value = parseNumber(idx.value !== -1 ? values[idx.value] : '0');
-        if (name === 'Unknown Asset' && value === 0) return null;
-        let type = (idx.type !== -1 ? values[idx.type] : '') || 'Other';
-        const currency = (idx.currency !== -1 ? values[idx.currency] : '') || 'CAD';
-        const lastUpdated = idx.lastUpdated !== -1 ? values[idx.lastUpdated] : undefined;
-        const nameLower = name.toLowerCase();
-        if (nameLower.includes('fhsa')) type = 'FHSA';
-        else if (nameLower.includes('tfsa')) type = 'TFSA';
-        else if (nameLower.includes('rrsp')) type = 'RRSP';
-        return { id: generateId(), name, type, value, currency, lastUpdated };
-    };
-};
-
-const createInvestmentParser = (headers: string[]) => {
-    const idx = resolveIndices(headers, {
+    },
+    investments: {
         name: ['name', 'description', 'investment', 'security', 'company'],
         ticker: ['ticker', 'symbol', 'code', 'stock', 'instrument'],
         qty: ['quantity', 'qty', 'units', 'shares', 'count'],
@@ -174,76 +207,30 @@ const createInvestmentParser = (headers: string[]) => {
         account: ['account', 'account name', 'location', 'held in', 'portfolio'],
         class: ['asset class', 'class', 'type', 'category', 'sector'],
         marketValue: ['market value', 'value', 'total value', 'market val']
-    });
-    return (values: string[]): Investment | null => {
-        const name = (idx.name !== -1 ? values[idx.name] : '') || 'Unknown Investment';
-        const ticker = (idx.ticker !== -1 ? values[idx.ticker] : '') || name;
-        const quantity = parseNumber(idx.qty !== -1 ? values[idx.qty] : '0');
-        if (ticker === 'Unknown Investment' && quantity === 0) return null;
-        const avgPrice = parseNumber(idx.avgPrice !== -1 ? values[idx.avgPrice] : '0');
-        const currentPrice = parseNumber(idx.currentPrice !== -1 ? values[idx.currentPrice] : '0');
-        const accountName = (idx.account !== -1 ? values[idx.account] : '') || 'Uncategorized';
-        const assetClass = (idx.class !== -1 ? values[idx.class] : '') || 'Other';
-        const marketValue = parseNumber(idx.marketValue !== -1 ? values[idx.marketValue] : '0');
-        let finalPrice = currentPrice;
-        if (finalPrice === 0 && quantity !== 0 && marketValue !== 0) finalPrice = marketValue / quantity;
-        return { id: generateId(), ticker, name, quantity, avgPrice, currentPrice: finalPrice, accountName, assetClass, marketValue };
-    };
-};
-
-const createTradeParser = (headers: string[]) => {
-    const idx = resolveIndices(headers, {
+    },
+    trades: {
         date: ['date', 'time', 'trade date', 'executed'],
         ticker: ['ticker', 'symbol', 'code', 'asset', 'product', 'security', 'instrument'],
         qty: ['quantity', 'qty', 'shares', 'units', 'volume'],
         type: ['type', 'action', 'side', 'transaction', 'buy/sell'],
         price: ['purchase price', 'buy price', 'execution price', 'exec price', 'unit cost', 'cost', 'unit price', 'fill price', 'price', 'amount', 'rate'],
         marketPrice: ['current price', 'market price', 'last price', 'current', 'close', 'live price', 'mark'],
-        total: ['total', 'value', 'total value', 'net amount', 'settlement'],
-        fee: ['fee', 'commission', 'transaction fee']
-    });
-  return (values: string[]): Trade | null => {
-        const ticker = (idx.ticker !== -1 ? values[idx.ticker] : '') || 'UNKNOWN';
-        if (ticker === 'UNKNOWN') return null;
-        const date = (idx.date !== -1 ? values[idx.date] : '') || new Date().toISOString().split('T')[0];
-        let quantity = parseNumber(idx.qty !== -1 ? values[idx.qty] : '0');
-        const rawType = (idx.type !== -1 ? values[idx.type] : '').toUpperCase();
-        let type: 'BUY' | 'SELL' = 'BUY';
-        if (rawType.includes('SELL') || rawType.includes('SOLD') || rawType.includes('OUT') || quantity < 0) type = 'SELL';
-        let price = parseNumber(idx.price !== -1 ? values[idx.price] : '0');
-        let total = parseNumber(idx.total !== -1 ? values[idx.total] : '0');
-        const fee = parseNumber(idx.fee !== -1 ? values[idx.fee] : '0');
-        const marketPrice = parseNumber(idx.marketPrice !== -1 ? values[idx.marketPrice] : '0');
-        if (total === 0 && quantity !== 0 && price !== 0) total = quantity * price;
-        if (price === 0 && quantity !== 0 && total !== 0) price = total / quantity;
-        return { id: generateId(), date, ticker, type, quantity: Math.abs(quantity), price: Math.abs(price), total: Math.abs(total), fee, marketPrice: Math.abs(marketPrice) };
-    };
-};
-
-const createSubscriptionParser = (headers: string[]) => {
-    const idx = resolveIndices(headers, {
+        total: ['total', 'value', 'total value', 'net amount'],
+        fee: ['fee', 'commission', 'transaction fee'],
+        settlementDate: ['settlement date', 'settle date', 'settled'],
+        lot: ['lot id', 'tax lot', 'lot'],
+        currency: ['currency', 'ccy'],
+        account: ['account', 'account name', 'held in', 'portfolio']
+    },
+    subscriptions: {
         name: ['name', 'service', 'subscription', 'item', 'merchant', 'description'],
         cost: ['cost', 'price', 'amount', 'monthly cost', 'value', 'payment'],
         period: ['period', 'frequency', 'billing cycle'],
         category: ['category', 'type', 'kind'],
         active: ['active', 'status'],
         method: ['payment method', 'account', 'card', 'source']
-    });
-    return (values: string[]): Subscription | null => {
-        const name = (idx.name !== -1 ? values[idx.name] : '') || 'Unknown Service';
-        const cost = parseNumber(idx.cost !== -1 ? values[idx.cost] : '0');
-        if (cost <= 0 && name === 'Unknown Service') return null;
-        const period = (idx.period !== -1 ? values[idx.period] : '') || 'Monthly';
-        const category = (idx.category !== -1 ? values[idx.category] : '') || 'General';
-        const activeRaw = idx.active !== -1 ? values[idx.active] : '';
-        const active = activeRaw ? !['false', 'no', 'inactive', 'cancelled'].includes(activeRaw.toLowerCase()) : true;
-        const paymentMethod = (idx.method !== -1 ? values[idx.method] : '') || '';
-        return { id: generateId(), name, cost, period: period as any, category, active, paymentMethod };
-    };
-};
-
-const createAccountParser = (headers: string[]) => {
-    const idx = resolveIndices(headers, {
+    },
+    accounts: {
         institution: ['institution', 'bank', 'provider', 'financial institution', 'source'],
         name: ['name', 'account name', 'nickname', 'label', 'account'],
         type: ['type', 'category', 'account type'],
@@ -251,57 +238,300 @@ const createAccountParser = (headers: string[]) => {
         num: ['account number', 'number', 'last 4', 'card number'],
         transType: ['transaction type', 'class'],
         purpose: ['purpose', 'description', 'usage', 'merchant']
+    },
+    logData: {
+        date: ['date', 'time', 'timestamp', 'week ending'],
+        value: ['net worth', 'total', 'value', 'amount', 'balance', 'equity']
+    },
+    taxRecords: {
+        recordType: ['record type', 'account type', 'account', 'plan', 'registered account'],
+        accountFund: ['account fund', 'fund', 'held at', 'institution'],
+        transactionType: ['transaction type', 'transaction', 'type', 'action'],
+        date: ['date', 'effective date', 'time'],
+        value: ['value', 'amount', 'contribution', 'total'],
+        description: ['description', 'notes', 'note', 'memo', 'details']
+    }
+};
+
+// --- Ingestion Report ---
+
+export const createIngestionReport = (dataType: string, tab: string = ''): IngestionReport => ({
+    tab,
+    dataType,
+    generatedAt: new Date().toISOString(),
+    headerRow: null,
+    headerSource: 'none',
+    fieldMap: [],
+    parsedRows: 0,
+    skippedRows: [],
+    defaultedValues: [],
+    warnings: []
+});
+
+const noteFieldMap = (report: IngestionReport | undefined, headers: string[], idx: Record<string, number>, pinned?: ColumnMapping) => {
+    if (!report) return;
+    report.fieldMap = Object.entries(idx).map(([field, col]) => {
+        const isPinned = !!pinned?.[field] && col !== -1 && col === findPinnedColumn(headers, pinned[field]);
+        if (pinned?.[field] && !isPinned) report.warnings.push(`Pinned column "${pinned[field]}" for ${field} not found; fell back to keyword matching.`);
+        return { field, column: col === -1 ? null : col + 1, header: col === -1 ? '' : (headers[col] || ''), pinned: isPinned || undefined };
+    });
+};
+
+// Returns the fallback so call sites read like the plain `|| 'Default'` they replace.
+const noteDefault = (report: IngestionReport | undefined, row: number, field: string, value: string): string => {
+    if (!report) return value;
+    let entry = report.defaultedValues.find(d => d.field === field && d.value === value);
+    if (!entry) {
+        entry = { field, value, rows: [] };
+        report.defaultedValues.push(entry);
+    }
+    entry.rows.push(row + 1);
+    return value;
+};
+
+const skipRow = (report: IngestionReport | undefined, row: number, reason: string): null => {
+    report?.skippedRows.push({ row: row + 1, reason });
+    return null;
+};
+
+const noteLedgerHeader = (report: IngestionReport | undefined, headerIdx: number, headerRow: string[], monthColIndices: number[]) => {
+    if (!report) return;
+    report.headerRow = headerIdx + 1;
+    report.headerSource = 'ledger';
+    report.fieldMap = [{ field: 'name', column: 1, header: headerRow[0] || '' }, ...monthColIndices.map(col => ({ field: 'month', column: col + 1, header: headerRow[col] }))];
+};
+
+// --- Locale Checks ---
+
+type LocaleVerdict = 'ok' | 'ambiguous' | 'conflict' | null;
+
+const FIELD_KINDS: Record<string, 'number' | 'date'> = {
+    date: 'date', settlementDate: 'date',
+    value: 'number', qty: 'number', price: 'number', total: 'number', fee: 'number', marketPrice: 'number',
+    avgPrice: 'number', currentPrice: 'number', marketValue: 'number', cost: 'number',
+    startingBalance: 'number', payment: 'number', interest: 'number', principal: 'number', endingBalance: 'number', month: 'number'
+};
+
+// "1.234" with a '.' decimal is ambiguous (1.234 or 1234); "1.234,56" with a '.' decimal is a conflict.
+const classifyNumber = (raw: string, locale: SheetLocale): LocaleVerdict => {
+    let v = raw;
+    locale.currencySymbols.forEach(sym => { if (sym) v = v.split(sym).join(''); });
+    v = v.replace(/[\s()\-+]/g, '');
+    if (!/^\d[\d.,']*$/.test(v)) return null;
+    const seps = v.replace(/[\d]/g, '');
+    if (!seps) return null;
+    const dec = locale.decimalSeparator;
+    const kinds = new Set(seps.split(''));
+    if (kinds.size > 1) return seps[seps.length - 1] === dec && !seps.slice(0, -1).includes(dec) && kinds.has(locale.thousandsSeparator) ? 'ok' : 'conflict';
+    const sep = seps[0];
+    if (sep === dec) {
+        if (seps.length > 1) return 'conflict';
+        return v.length - v.lastIndexOf(sep) - 1 === 3 ? 'ambiguous' : 'ok';
+    }
+    if (sep !== locale.thousandsSeparator) return 'conflict';
+    return v.split(sep).slice(1).every(group => group.length === 3) ? 'ok' : 'conflict';
+};
+
+// 03/04/2025 is ambiguous under either order; 25/03/2025 conflicts with month-first.
+const classifyDate = (raw: string, locale: SheetLocale): LocaleVerdict => {
+    const match = raw.match(NUMERIC_DATE);
+    if (!match) return null;
+    if (locale.dateOrder === 'YMD') return 'conflict';
+    const [first, second] = [parseInt(match[1]), parseInt(match[2])];
+    const [m, d] = locale.dateOrder === 'DMY' ? [second, first] : [first, second];
+    if (m > 12 && d <= 12) return 'conflict';
+    return first !== second && first <= 12 && second <= 12 ? 'ambiguous' : 'ok';
+};
+
+/**
+ * Warns about numeric and date columns whose values contradict the configured locale, or that
+ * could be read more than one way with nothing in the column to settle it.
+ */
+const noteLocaleAmbiguity = (report: IngestionReport | undefined, lines: string[], locale: SheetLocale | undefined) => {
+    if (!report || !locale || report.headerRow === null) return;
+    const rows = lines.slice(report.headerRow).map(parseCSVLine);
+    report.fieldMap.forEach(f => {
+        const kind = FIELD_KINDS[f.field] ?? (report.dataType === 'portfolioLog' ? 'number' : undefined);
+        if (!kind || f.column === null) return;
+        const values = rows.map(r => (r[f.column! - 1] || '').trim()).filter(Boolean);
+        const verdicts = values.map(v => kind === 'number' ? classifyNumber(v, locale) : classifyDate(v, locale));
+        const label = f.header || f.field;
+        const conflict = values.find((_, i) => verdicts[i] === 'conflict');
+        const ambiguous = values.find((_, i) => verdicts[i] === 'ambiguous');
+        if (conflict) report.warnings.push(`Column "${label}" has ${kind === 'number' ? 'amounts' : 'dates'} like "${conflict}" that do not fit the configured locale.`);
+        else if (ambiguous && !verdicts.includes('ok')) report.warnings.push(`Column "${label}" is ambiguous under the configured locale: "${ambiguous}" could be read more than one way.`);
     });
-    return (values: string[]): BankAccount | null => {
-        const institution = (idx.institution !== -1 ? values[idx.institution] : '') || 'Unknown Bank';
-        const name = (idx.name !== -1 ? values[idx.name] : '') || 'Account';
-        if (institution === 'Unknown Bank' && name === 'Account') return null;
-        const type = (idx.type !== -1 ? values[idx.type] : '') || 'Checking';
-        const paymentType = (idx.paymentType !== -1 ? values[idx.paymentType] : '') || 'Card';
-        let accountNumber = (idx.num !== -1 ? values[idx.num] : '') || '****';
+};
+
+const createAssetParser = (headers: string[], report?: IngestionReport, pinned?: ColumnMapping, locale?: SheetLocale) => {
+    const idx = resolveIndices(headers, TAB_FIELD_KEYWORDS.assets, pinned);
+    noteFieldMap(report, headers, idx, pinned);
+    return (values: string[], row: number = -1): Asset | null => {
+        const rawName = idx.name !== -1 ? values[idx.name] : '';
+        const value = parseNumber(idx.value !== -1 ? values[idx.value] : '0', locale);
+        if (!rawName && value === 0) return skipRow(report, row, 'No name and no value');
+        const name = rawName || noteDefault(report, row, 'name', 'Unknown Asset');
+        let type = idx.type !== -1 ? values[idx.type] : '';
+        const lastUpdated = idx.lastUpdated !== -1 ? values[idx.lastUpdated] : undefined;
+        const nameLower = name.toLowerCase();
+        if (nameLower.includes('fhsa')) type = 'FHSA';
+        else if (nameLower.includes('tfsa')) type = 'TFSA';
+        else if (nameLower.includes('rrsp')) type = 'RRSP';
+        if (!type) type = noteDefault(report, row, 'type', 'Other');
+        const currency = (idx.currency !== -1 ? values[idx.currency] : '') || noteDefault(report, row, 'currency', 'CAD');
+        return { id: generateId(), name, type, value, currency, lastUpdated };
+    };
+};
+
+const createInvestmentParser = (headers: string[], report?: IngestionReport, pinned?: ColumnMapping, locale?: SheetLocale) => {
+    const idx = resolveIndices(headers, TAB_FIELD_KEYWORDS.investments, pinned);
+    noteFieldMap(report, headers, idx, pinned);
+    return (values: string[], row: number = -1): Investment | null => {
+        const rawName = idx.name !== -1 ? values[idx.name] : '';
+        const rawTicker = idx.ticker !== -1 ? values[idx.ticker] : '';
+        const quantity = parseNumber(idx.qty !== -1 ? values[idx.qty] : '0', locale);
+        if (!rawTicker && !rawName && quantity === 0) return skipRow(report, row, 'No ticker, name or quantity');
+        const name = rawName || noteDefault(report, row, 'name', 'Unknown Investment');
+        const ticker = rawTicker || noteDefault(report, row, 'ticker', name);
+        const avgPrice = parseNumber(idx.avgPrice !== -1 ? values[idx.avgPrice] : '0', locale);
+        const currentPrice = parseNumber(idx.currentPrice !== -1 ? values[idx.currentPrice] : '0', locale);
+        const accountName = (idx.account !== -1 ? values[idx.account] : '') || noteDefault(report, row, 'account', 'Uncategorized');
+        const assetClass = (idx.class !== -1 ? values[idx.class] : '') || noteDefault(report, row, 'class', 'Other');
+        const marketValue = parseNumber(idx.marketValue !== -1 ? values[idx.marketValue] : '0', locale);
+        let finalPrice = currentPrice;
+        if (finalPrice === 0 && quantity !== 0 && marketValue !== 0) finalPrice = marketValue / quantity;
+        return { id: generateId(), ticker, name, quantity, avgPrice, currentPrice: finalPrice, accountName, assetClass, marketValue };
+    };
+};
+
+const createTradeParser = (headers: string[], report?: IngestionReport, pinned?: ColumnMapping, locale?: SheetLocale) => {
+    const idx = resolveIndices(headers, TAB_FIELD_KEYWORDS.trades, pinned);
+    noteFieldMap(report, headers, idx, pinned);
+  return (values: string[], row: number = -1): Trade | null => {
+        const ticker = idx.ticker !== -1 ? values[idx.ticker] : '';
+        if (!ticker || ticker === 'UNKNOWN') return skipRow(report, row, 'Missing ticker');
+        const rawDate = idx.date !== -1 ? values[idx.date] : '';
+        const date = rawDate ? (locale && parseFlexibleDate(rawDate, locale)) || rawDate : noteDefault(report, row, 'date', new Date().toISOString().split('T')[0]);
+        let quantity = parseNumber(idx.qty !== -1 ? values[idx.qty] : '0', locale);
+        const rawType = idx.type !== -1 ? values[idx.type] : '';
+        const type = parseTradeType(rawType, quantity);
+        if (!rawType && type === 'BUY') noteDefault(report, row, 'type', 'BUY');
+        let price = parseNumber(idx.price !== -1 ? values[idx.price] : '0', locale);
+        let total = parseNumber(idx.total !== -1 ? values[idx.total] : '0', locale);
+        const fee = parseNumber(idx.fee !== -1 ? values[idx.fee] : '0', locale);
+        const marketPrice = parseNumber(idx.marketPrice !== -1 ? values[idx.marketPrice] : '0', locale);
+        if (total === 0 && quantity !== 0 && price !== 0) total = quantity * price;
+        if (price === 0 && quantity !== 0 && total !== 0) price = total / quantity;
+        const settlementDate = (idx.settlementDate !== -1 ? parseFlexibleDate(values[idx.settlementDate], locale) : null) || undefined;
+        const lotId = (idx.lot !== -1 ? values[idx.lot]?.trim() : '') || undefined;
+        const currency = (idx.currency !== -1 ? values[idx.currency]?.trim().toUpperCase() : '') || undefined;
+        const account = (idx.account !== -1 ? values[idx.account]?.trim() : '') || undefined;
+        // Splits keep their sign: a reverse split removes shares.
+        return { id: generateId(), date, ticker, type, quantity: type === 'SPLIT' ? quantity : Math.abs(quantity), price: Math.abs(price), total: Math.abs(total), fee, marketPrice: Math.abs(marketPrice), settlementDate, lotId, currency, account };
+    };
+};
+
+const createSubscriptionParser = (headers: string[], report?: IngestionReport, pinned?: ColumnMapping, locale?: SheetLocale) => {
+    const idx = resolveIndices(headers, TAB_FIELD_KEYWORDS.subscriptions, pinned);
+    noteFieldMap(report, headers, idx, pinned);
+    return (values: string[], row: number = -1): Subscription | null => {
+        const rawName = idx.name !== -1 ? values[idx.name] : '';
+        const cost = parseNumber(idx.cost !== -1 ? values[idx.cost] : '0', locale);
+        if (cost <= 0 && !rawName) return skipRow(report, row, 'No name and no cost');
+        const name = rawName || noteDefault(report, row, 'name', 'Unknown Service');
+        const period = (idx.period !== -1 ? values[idx.period] : '') || noteDefault(report, row, 'period', 'Monthly');
+        const category = (idx.category !== -1 ? values[idx.category] : '') || noteDefault(report, row, 'category', 'General');
+        const activeRaw = idx.active !== -1 ? values[idx.active] : '';
+        const active = activeRaw ? !['false', 'no', 'inactive', 'cancelled'].includes(activeRaw.toLowerCase()) : true;
+        const paymentMethod = (idx.method !== -1 ? values[idx.method] : '') || '';
+        return { id: generateId(), name, cost, period: period as any, category, active, paymentMethod };
+    };
+};
+
+const createAccountParser = (headers: string[], report?: IngestionReport, pinned?: ColumnMapping, locale?: SheetLocale) => {
+    const idx = resolveIndices(headers, TAB_FIELD_KEYWORDS.accounts, pinned);
+    noteFieldMap(report, headers, idx, pinned);
+    return (values: string[], row: number = -1): BankAccount | null => {
+        const rawInstitution = idx.institution !== -1 ? values[idx.institution] : '';
+        const rawName = idx.name !== -1 ? values[idx.name] : '';
+        if (!rawInstitution && !rawName) return skipRow(report, row, 'No institution and no account name');
+        const institution = rawInstitution || noteDefault(report, row, 'institution', 'Unknown Bank');
+        const name = rawName || noteDefault(report, row, 'name', 'Account');
+        const type = (idx.type !== -1 ? values[idx.type] : '') || noteDefault(report, row, 'type', 'Checking');
+        const paymentType = (idx.paymentType !== -1 ? values[idx.paymentType] : '') || noteDefault(report, row, 'paymentType', 'Card');
+        let accountNumber = (idx.num !== -1 ? values[idx.num] : '') || noteDefault(report, row, 'num', '****');
         if (accountNumber.length > 4) accountNumber = accountNumber.slice(-4);
         let transactionType = (idx.transType !== -1 ? values[idx.transType] : '') || '';
         if (!transactionType) {
             const combined = (type + ' ' + paymentType + ' ' + name).toLowerCase();
             transactionType = (combined.includes('credit') || combined.includes('visa') || combined.includes('mastercard') || combined.includes('amex')) ? 'Credit' : 'Debit';
         }
-        const purpose = (idx.purpose !== -1 ? values[idx.purpose] : '') || 'General';
+        const purpose = (idx.purpose !== -1 ? values[idx.purpose] : '') || noteDefault(report, row, 'purpose', 'General');
         return { id: generateId(), institution, name, type, paymentType, accountNumber, transactionType, currency: 'CAD', purpose };
     };
 };
 
-const createLogDataParser = (headers: string[]) => {
-    const idx = resolveIndices(headers, {
-        date: ['date', 'time', 'timestamp', 'week ending'],
-        value: ['net worth', 'total', 'value', 'amount', 'balance', 'equity']
-    });
-    return (values: string[]): NetWorthEntry | null => {
-        const dateStr = (idx.date !== -1 ? values[idx.date] : values[0]) || '';
-        const valStr = (idx.value !== -1 ? values[idx.value] : values[1]) || '';
-        const value = parseNumber(valStr);
-        if (!dateStr && value === 0) return null;
+const createTaxRecordParser = (headers: string[], report?: IngestionReport, pinned?: ColumnMapping, locale?: SheetLocale) => {
+    const idx = resolveIndices(headers, TAB_FIELD_KEYWORDS.taxRecords, pinned);
+    noteFieldMap(report, headers, idx, pinned);
+    return (values: string[], row: number = -1): TaxRecord | null => {
+        const recordType = (idx.recordType !== -1 ? values[idx.recordType] : '').trim();
+        if (!recordType) return skipRow(report, row, 'Missing account type');
+        const rawValue = idx.value !== -1 ? values[idx.value] : '';
+        if (!rawValue) return skipRow(report, row, 'Missing value');
+        const transactionType = (idx.transactionType !== -1 ? values[idx.transactionType] : '') || noteDefault(report, row, 'transactionType', 'Contribution');
+        const rawDate = idx.date !== -1 ? values[idx.date] : '';
+        const parsedDate = rawDate ? parseFlexibleDate(rawDate, locale) : null;
+        // An opening balance is placed before the first record whatever its date; anything else needs one.
+        if (rawDate && !parsedDate && transactionType.toUpperCase().trim() !== 'OPENING BALANCE') return skipRow(report, row, `Unparseable date "${rawDate}"`);
+        const date = rawDate ? parsedDate || rawDate : noteDefault(report, row, 'date', new Date().toISOString().split('T')[0]);
+        const accountFund = (idx.accountFund !== -1 ? values[idx.accountFund] : '') || recordType;
+        const description = (idx.description !== -1 ? values[idx.description] : '') || '';
+        return { id: generateId(), recordType, accountFund, transactionType, date, value: Math.abs(parseNumber(rawValue, locale)), description };
+    };
+};
+
+const createLogDataParser = (headers: string[], report?: IngestionReport, pinned?: ColumnMapping, locale?: SheetLocale) => {
+    const idx = resolveIndices(headers, TAB_FIELD_KEYWORDS.logData, pinned);
+    // Unlabelled logs are read positionally: date in the first column, value in the second.
+    const dateCol = idx.date !== -1 ? idx.date : 0;
+    const valueCol = idx.value !== -1 ? idx.value : 1;
+    noteFieldMap(report, headers, { date: dateCol, value: valueCol }, pinned);
+    return (values: string[], row: number = -1): NetWorthEntry | null => {
+        const dateStr = values[dateCol] || '';
+        const valStr = values[valueCol] || '';
+        const value = parseNumber(valStr, locale);
+        if (!dateStr && value === 0) return skipRow(report, row, 'No date and no value');
+        if (locale) {
+            const iso = parseFlexibleDate(dateStr, locale);
+            return iso ? { date: iso, value } : skipRow(report, row, `Unparseable date "${dateStr}"`);
+        }
         const dateObj = new Date(dateStr);
-        if (isNaN(dateObj.getTime())) return null;
+        if (isNaN(dateObj.getTime())) return skipRow(report, row, `Unparseable date "${dateStr}"`);
         return { date: formatDateToLocalISO(dateObj), value };
     };
 };
 
-const createPortfolioLogParser = (headers: string[]) => {
+const createPortfolioLogParser = (headers: string[], report?: IngestionReport, locale?: SheetLocale) => {
     const dateIdx = headers.findIndex(h => normalizeHeader(h) === 'date');
-    if (dateIdx === -1) return null;
+    if (dateIdx === -1) {
+        report?.warnings.push('No column headed "Date"; portfolio log skipped.');
+        return null;
+    }
 
     const accountIndices = headers
         .map((h, i) => ({ name: h, index: i }))
         .filter(item => item.index !== dateIdx && item.name.trim() !== '');
+    noteFieldMap(report, headers, Object.fromEntries([['date', dateIdx], ...accountIndices.map(a => [a.name, a.index])]));
 
-    return (values: string[]): PortfolioLogEntry | null => {
+    return (values: string[], row: number = -1): PortfolioLogEntry | null => {
         const dateStr = values[dateIdx];
-        const iso = parseFlexibleDate(dateStr);
-        if (!iso) return null;
+        const iso = parseFlexibleDate(dateStr, locale);
+        if (!iso) return skipRow(report, row, `Unparseable date "${dateStr || ''}"`);
 
         const accounts: Record<string, number> = {};
         accountIndices.forEach(item => {
-            const val = parseNumber(values[item.index]);
+            const val = parseNumber(values[item.index], locale);
             // Clean header: "TFSA VALUE" -> "TFSA"
             const cleanName = item.name.replace(/\s*VALUE\s*/i, '').trim();
             if (cleanName) {
@@ -313,76 +543,160 @@ const createPortfolioLogParser = (headers: string[]) => {
     };
 };
 
-const createDebtParser = () => {
-    // HARDCODED DEBT PARSER FOR AMORTIZATION TABLE:
-    // Column B (Index 1) = Month/Date
-    // Column C (Index 2) = Starting Balance
-    // Column D (Index 3) = You Paid (Monthly Payment)
-    // Column G (Index 6) = Ending Balance (Outstanding)
-    return (values: string[]): DebtEntry | null => {
-        const dateStr = (values[1] || '').trim();
-        const iso = parseFlexibleDate(dateStr);
-        if (!iso) return null;
+export const DEBT_FIELD_KEYWORDS: Record<string, string[]> = {
+    date: ['month', 'payment date', 'date', 'period'],
+    startingBalance: ['starting balance', 'opening balance', 'beginning balance', 'start balance'],
+    payment: ['you paid', 'payment amount', 'installment', 'payment', 'paid'],
+    interest: ['interest paid', 'interest'],
+    principal: ['principal paid', 'principal'],
+    endingBalance: ['ending balance', 'closing balance', 'remaining balance', 'outstanding', 'amount owed', 'balance owing']
+};
+
+// Matched exactly: "Loan Amount" or "Debt Balance" must not be mistaken for the loan's name.
+export const DEBT_NAME_HEADERS = ['loan', 'loanname', 'liability', 'debt', 'debtname', 'lender'];
+
+// Layout of the original single-loan template: header on row 5, columns B, C, D and G.
+const LEGACY_DEBT_LAYOUT = { headerIndex: 4, idx: { loan: -1, date: 1, startingBalance: 2, payment: 3, interest: -1, principal: -1, endingBalance: 6 } };
+
+// Each column feeds one field, so "Interest Paid" can't also be read as the payment.
+// The sheet writer uses the same resolution, so schedules are written back where they are read from.
+export const resolveDebtColumns = (headers: string[]): Record<string, number> => {
+    const idx: Record<string, number> = { loan: headers.findIndex(h => DEBT_NAME_HEADERS.includes(normalizeHeader(h))) };
+    const taken = new Set<number>(idx.loan !== -1 ? [idx.loan] : []);
+    for (const key in DEBT_FIELD_KEYWORDS) {
+        idx[key] = resolveColumnIndex(headers, DEBT_FIELD_KEYWORDS[key], taken);
+        if (idx[key] !== -1) taken.add(idx[key]);
+    }
+    return idx;
+};
+
+// A schedule header needs a date column plus at least two balance or payment columns.
+export const isDebtHeader = (headers: string[]): boolean => {
+    const idx = resolveDebtColumns(headers);
+    const moneyCols = ['startingBalance', 'payment', 'interest', 'principal', 'endingBalance'].filter(k => idx[k] !== -1).length;
+    return idx.date !== -1 && moneyCols >= 2;
+};
+
+const findDebtHeader = (lines: string[]): number => {
+    for (let i = 0; i < Math.min(lines.length, 50); i++) {
+        if (isDebtHeader(parseCSVLine(lines[i]))) return i;
+    }
+    return -1;
+};
+
+/**
+ * Reads amortization rows for any number of loans. Rows are grouped by the loan-name column;
+ * without one, every row belongs to a single "Loan Schedule".
+ */
+const createDebtParser = (idx: Record<string, number>, report?: IngestionReport, locale?: SheetLocale) => {
+    const cell = (values: string[], field: string) => idx[field] !== -1 ? values[idx[field]] : undefined;
+    return (values: string[], row: number = -1): DebtEntry | null => {
+        const dateStr = (cell(values, 'date') || '').trim();
+        const iso = parseFlexibleDate(dateStr, locale);
+        if (!iso) return skipRow(report, row, `Unparseable date "${dateStr}"`);
 
-        const amountOwed = parseNumber(values[6]); // Column G
-        const monthlyPayment = parseNumber(values[3]); // Column D
-        const startingBalance = parseNumber(values[2]); // Column C
+        const startingBalance = parseNumber(cell(values, 'startingBalance'), locale);
+        const monthlyPayment = parseNumber(cell(values, 'payment'), locale);
+        const interestPaid = parseNumber(cell(values, 'interest'), locale);
+        const principalPaid = parseNumber(cell(values, 'principal'), locale);
+        const amountOwed = idx.endingBalance !== -1 ? parseNumber(values[idx.endingBalance], locale) : Math.max(0, startingBalance - principalPaid);
 
         // Skip rows with no data
-        if (startingBalance === 0 && monthlyPayment === 0 && amountOwed === 0) return null;
-
-        return { 
-            id: generateId(), 
-            name: `Loan Schedule (${dateStr})`, 
-            amountOwed, 
-            interestRate: 0, 
-            monthlyPayment, 
-            date: iso 
+        if (startingBalance === 0 && monthlyPayment === 0 && amountOwed === 0) return skipRow(report, row, 'No balance or payment');
+
+        const name = cell(values, 'loan') || noteDefault(report, row, 'loan', 'Loan Schedule');
+        // Annualized from one month's interest on the opening balance.
+        const interestRate = startingBalance > 0 && interestPaid > 0 ? Math.round(interestPaid / startingBalance * 1200 * 100) / 100 : 0;
+
+        return {
+            id: generateId(),
+            name,
+            amountOwed,
+            interestRate,
+            monthlyPayment,
+            date: iso,
+            startingBalance,
+            interestPaid: idx.interest !== -1 ? interestPaid : undefined,
+            principalPaid: idx.principal !== -1 ? principalPaid : undefined
         };
     };
 };
 
+/**
+ * Parses a raw CSV export of one tab. Pass an IngestionReport to collect the chosen header row,
+ * the column behind each field, skipped rows and defaulted values, and a ColumnMapping to pin
+ * fields to specific columns instead of guessing from keywords. A SheetLocale switches number and
+ * date reading to the sheet's conventions and flags columns that do not fit them.
+ */
 export const parseRawData = async <T,>(
   rawData: string,
-  dataType: 'assets' | 'investments' | 'trades' | 'subscriptions' | 'accounts' | 'logData' | 'portfolioLog' | 'debt' | 'income' | 'detailedExpenses' | 'detailedIncome'
+  dataType: 'assets' | 'investments' | 'trades' | 'subscriptions' | 'accounts' | 'logData' | 'taxRecords' | 'portfolioLog' | 'debt' | 'income' | 'detailedExpenses' | 'detailedIncome',
+  report?: IngestionReport,
+  pinned?: ColumnMapping,
+  locale?: SheetLocale
 ): Promise<T> => {
   if (!rawData) {
+      report?.warnings.push('Tab is empty.');
       if (dataType === 'income') return { income: [], expenses: [] } as T;
       if (dataType === 'detailedExpenses' || dataType === 'detailedIncome') return { months: [], categories: [] } as T;
       return [] as T;
   }
   const lines = rawData.split(/\r?\n/);
   if (lines.length < 2) {
+      report?.warnings.push('Tab has fewer than two rows.');
       if (dataType === 'income') return { income: [], expenses: [] } as T;
       if (dataType === 'detailedExpenses' || dataType === 'detailedIncome') return { months: [], categories: [] } as T;
       return [] as T; 
   }
-  if (dataType === 'income') return parseIncomeAndExpenses(lines) as T;
-  if (dataType === 'detailedExpenses') return parseDetailedExpenses(lines) as T;
-  if (dataType === 'detailedIncome') return parseDetailedIncome(lines) as T;
+  if (dataType === 'income') return parseIncomeAndExpenses(lines, report, locale) as T;
+  if (dataType === 'detailedExpenses' || dataType === 'detailedIncome') {
+      const ledger = dataType === 'detailedExpenses' ? parseDetailedExpenses(lines, report, locale) : parseDetailedIncome(lines, report, locale);
+      noteLocaleAmbiguity(report, lines, locale);
+      return ledger as T;
+  }
 
-  // SPECIAL HANDLING FOR DEBT: Skip first 4 rows and process from Row 5 header
   if (dataType === 'debt') {
+      let headerIdx = findDebtHeader(lines);
+      let idx: Record<string, number>;
+      if (headerIdx !== -1) {
+          idx = resolveDebtColumns(parseCSVLine(lines[headerIdx]));
+      } else {
+          ({ headerIndex: headerIdx, idx } = LEGACY_DEBT_LAYOUT);
+          report?.warnings.push('No schedule header (date plus balance or payment columns) found; read the legacy layout with the header on row 5.');
+      }
+      if (report) { report.headerRow = headerIdx + 1; report.headerSource = idx === LEGACY_DEBT_LAYOUT.idx ? 'fixed' : 'keyword'; }
+      noteFieldMap(report, parseCSVLine(lines[headerIdx] || ''), idx);
+      const parser = createDebtParser(idx, report, locale);
       const results: DebtEntry[] = [];
-      const parser = createDebtParser();
-      // Schedule data starts on Row 6 (Index 5) after Row 5 header
-      for (let i = 5; i < lines.length; i++) {
+      for (let i = headerIdx + 1; i < lines.length; i++) {
           const values = parseCSVLine(lines[i]);
           if (values.every(v => v === '')) continue;
-          const parsedItem = parser(values);
+          const parsedItem = parser(values, i);
           if (parsedItem) {
               parsedItem.rowIndex = i;
               results.push(parsedItem);
           }
       }
+      if (report) report.parsedRows = results.length;
+      noteLocaleAmbiguity(report, lines, locale);
       return results as T;
   }
   
   let headerIndex = -1;
+  let headerSource: IngestionReport['headerSource'] = 'keyword';
   const keywords = HEADER_KEYWORDS[dataType] || [];
+  const pinnedHeaders = Object.values(pinned || {}).filter(Boolean);
+
+  // A row carrying every pinned header is the header row by definition.
+  if (pinnedHeaders.length > 0) {
+      for (let i = 0; i < Math.min(lines.length, 50); i++) {
+          const rowValues = parseCSVLine(lines[i]);
+          if (pinnedHeaders.every(h => findPinnedColumn(rowValues, h) !== -1)) { headerIndex = i; headerSource = 'pinned'; break; }
+      }
+  }
   
   // Refined header scanning: for portfolioLog, 'DATE' is mandatory to avoid summary collisions
-  for (let i = 0; i < Math.min(lines.length, 50); i++) {
+  for (let i = 0; i < Math.min(lines.length, 50) && headerIndex === -1; i++) {
       const line = lines[i].trim();
       if (!line) continue;
       const rowValues = parseCSVLine(line).map(v => v.toLowerCase().trim());
@@ -400,35 +714,56 @@ export const parseRawData = async <T,>(
       }
   }
   
-  if (headerIndex === -1) for (let i = 0; i < lines.length; i++) if (lines[i].trim().length > 0) { headerIndex = i; break; }
+  if (headerIndex === -1) {
+      headerSource = 'fallback';
+      for (let i = 0; i < lines.length; i++) if (lines[i].trim().length > 0) { headerIndex = i; break; }
+      report?.warnings.push('No row matched the header keywords; the first non-empty row was used as the header.');
+  }
   if (headerIndex === -1) return [] as T;
+  if (report) { report.headerRow = headerIndex + 1; report.headerSource = headerSource; }
   
   const originalHeaders = parseCSVLine(lines[headerIndex]);
-  let parser: ((values: string[]) => any | null) | null = null;
+  let parser: ((values: string[], row: number) => any | null) | null = null;
   switch(dataType) {
-      case 'assets': parser = createAssetParser(originalHeaders); break;
-      case 'investments': parser = createInvestmentParser(originalHeaders); break;
-      case 'trades': parser = createTradeParser(originalHeaders); break;
-      case 'subscriptions': parser = createSubscriptionParser(originalHeaders); break;
-      case 'accounts': parser = createAccountParser(originalHeaders); break;
-      case 'logData': parser = createLogDataParser(originalHeaders); break;
-      case 'portfolioLog': parser = createPortfolioLogParser(originalHeaders); break;
+      case 'assets': parser = createAssetParser(originalHeaders, report, pinned, locale); break;
+      case 'investments': parser = createInvestmentParser(originalHeaders, report, pinned, locale); break;
+      case 'trades': parser = createTradeParser(originalHeaders, report, pinned, locale); break;
+      case 'subscriptions': parser = createSubscriptionParser(originalHeaders, report, pinned, locale); break;
+      case 'accounts': parser = createAccountParser(originalHeaders, report, pinned, locale); break;
+      case 'logData': parser = createLogDataParser(originalHeaders, report, pinned, locale); break;
+      case 'taxRecords': parser = createTaxRecordParser(originalHeaders, report, pinned, locale); break;
+      case 'portfolioLog': parser = createPortfolioLogParser(originalHeaders, report, locale); break;
   }
   if (!parser) return [] as T;
   const results: any[] = [];
   for (let i = headerIndex + 1; i < lines.length; i++) {
     const values = parseCSVLine(lines[i]);
     if (values.every(v => v === '')) continue;
-    const parsedItem = parser(values);
+    const parsedItem = parser(values, i);
     if (parsedItem) {
-        if (['trades', 'assets', 'subscriptions', 'accounts'].includes(dataType)) (parsedItem as any).rowIndex = i;
+        if (['trades', 'assets', 'subscriptions', 'accounts', 'taxRecords'].includes(dataType)) (parsedItem as any).rowIndex = i;
         results.push(parsedItem);
     }
   }
+  if (report) report.parsedRows = results.length;
+  noteLocaleAmbiguity(report, lines, locale);
   return results as T;
 };
 
-const parseIncomeAndExpenses = (lines: string[]): IncomeAndExpenses => {
+/**
+ * Header row, first data rows and resolved field columns for the column mapping preview.
+ */
+export const buildMappingPreview = async (rawData: string, dataType: MappableTab, pinned?: ColumnMapping, locale?: SheetLocale, sampleSize: number = 5) => {
+    const report = createIngestionReport(dataType);
+    await parseRawData(rawData, dataType, report, pinned, locale);
+    const lines = (rawData || '').split(/\r?\n/);
+    const headerIdx = (report.headerRow ?? 1) - 1;
+    const headers = parseCSVLine(lines[headerIdx] || '');
+    const rows = lines.slice(headerIdx + 1).map(parseCSVLine).filter(r => r.some(v => v !== '')).slice(0, sampleSize);
+    return { headers, rows, report };
+};
+
+const parseIncomeAndExpenses = (lines: string[], report?: IngestionReport, locale?: SheetLocale): IncomeAndExpenses => {
     const incomeEntries: IncomeEntry[] = [];
     const expenseEntries: ExpenseEntry[] = [];
     const parsedLines: { [index: number]: string[] } = {};
@@ -442,12 +777,12 @@ const parseIncomeAndExpenses = (lines: string[]): IncomeAndExpenses => {
         const firstCell = (row[0] || '').trim();
         const lowerFirst = firstCell.toLowerCase();
         let dateCount = 0;
-        for (let c = 1; c < Math.min(row.length, 14); c++) if (parseFlexibleDate(row[c])) dateCount++;
+        for (let c = 1; c < Math.min(row.length, 14); c++) if (parseFlexibleDate(row[c], locale)) dateCount++;
         if (dateCount >= 2) dateRowIndices.push(i); 
         const isIncomeLabel = lowerFirst === 'total income' || lowerFirst === 'annual snapshot';
         if (isIncomeLabel) {
              let hasData = false;
-             for (let c = 1; c < row.length; c++) if (parseNumber(row[c]) !== 0) { hasData = true; break; }
+             for (let c = 1; c < row.length; c++) if (parseNumber(row[c], locale) !== 0) { hasData = true; break; }
              if (hasData) {
                  const priority = lowerFirst === 'total income' ? 100 : 90;
                  if (priority > bestIncomePriority) { bestIncomeRowIndex = i; bestIncomePriority = priority; }
@@ -461,33 +796,43 @@ const parseIncomeAndExpenses = (lines: string[]): IncomeAndExpenses => {
 
         if (lowerFirst && !isIncomeLine && !isCommonExclude && !isSectionHeader && !lowerFirst.includes('total')) {
                let hasNumericData = false;
-               for(let c = 1; c < row.length; c++) if (parseNumber(row[c]) !== 0) { hasNumericData = true; break; }
+               for(let c = 1; c < row.length; c++) if (parseNumber(row[c], locale) !== 0) { hasNumericData = true; break; }
                if (hasNumericData && dateRowIndices.length > 0 && i > dateRowIndices[0]) expenseRows.push({ name: firstCell, rowIndex: i });
         }
     }
     let incomeDateRowIndex = -1;
     if (bestIncomeRowIndex !== -1) for (let j = dateRowIndices.length - 1; j >= 0; j--) if (dateRowIndices[j] < bestIncomeRowIndex) { incomeDateRowIndex = dateRowIndices[j]; break; }
     if (bestIncomeRowIndex !== -1 && incomeDateRowIndex === -1 && dateRowIndices.length > 0) incomeDateRowIndex = dateRowIndices[0];
+    if (report) {
+        report.headerSource = 'ledger';
+        report.headerRow = dateRowIndices.length > 0 ? dateRowIndices[0] + 1 : null;
+        report.fieldMap = [
+            { field: 'income', column: bestIncomeRowIndex !== -1 ? 1 : null, header: bestIncomeRowIndex !== -1 ? `Row ${bestIncomeRowIndex + 1}: ${parsedLines[bestIncomeRowIndex][0]}` : '' },
+            ...expenseRows.map(exp => ({ field: 'expense', column: 1, header: `Row ${exp.rowIndex + 1}: ${exp.name}` }))
+        ];
+        if (dateRowIndices.length === 0) report.warnings.push('No row with month headers found.');
+        if (bestIncomeRowIndex === -1) report.warnings.push('No "Total Income" or "Annual Snapshot" row with data found.');
+    }
     if (bestIncomeRowIndex !== -1 && incomeDateRowIndex !== -1) {
         const dateRow = parsedLines[incomeDateRowIndex];
         const valRow = parsedLines[bestIncomeRowIndex];
         for (let c = 1; c < dateRow.length; c++) {
             if (c >= valRow.length) break;
-            const iso = parseFlexibleDate(dateRow[c]);
-            const val = parseNumber(valRow[c]);
+            const iso = parseFlexibleDate(dateRow[c], locale);
+            const val = parseNumber(valRow[c], locale);
             if (iso) incomeEntries.push({ date: iso, monthStr: dateRow[c], amount: val });
         }
     }
     if (expenseRows.length > 0 && dateRowIndices.length > 0) {
         const dateRow = parsedLines[dateRowIndices[0]];
         for (let c = 1; c < dateRow.length; c++) {
-            const iso = parseFlexibleDate(dateRow[c]);
+            const iso = parseFlexibleDate(dateRow[c], locale);
             if (!iso) continue;
             const categories: Record<string, number> = {};
             let total = 0;
             expenseRows.forEach(exp => {
                 if (!isSafeKey(exp.name)) return;
-                const val = Math.abs(parseNumber(parsedLines[exp.rowIndex][c] || '0'));
+                const val = Math.abs(parseNumber(parsedLines[exp.rowIndex][c] || '0', locale));
                 categories[exp.name] = val;
                 total += val;
             });
@@ -495,10 +840,11 @@ const parseIncomeAndExpenses = (lines: string[]): IncomeAndExpenses => {
         }
     }
     const sortByDate = (a: any, b: any) => a.date.localeCompare(b.date);
+    if (report) report.parsedRows = incomeEntries.length + expenseEntries.length;
     return { income: incomeEntries.sort(sortByDate), expenses: expenseEntries.sort(sortByDate) };
 };
 
-export const parseDetailedIncome = (lines: string[]): LedgerData => {
+export const parseDetailedIncome = (lines: string[], report?: IngestionReport, locale?: SheetLocale): LedgerData => {
     const categories: LedgerCategory[] = [];
     let headerIdx = -1;
     let bestMonthCount = 0;
@@ -511,7 +857,7 @@ export const parseDetailedIncome = (lines: string[]): LedgerData => {
         let count = 0;
         for (let j = 1; j < row.length; j++) {
             const val = (row[j] || '').trim();
-            if (parseFlexibleDate(val)) count++;
+            if (parseFlexibleDate(val, locale)) count++;
         }
         
         const isTargetRow = firstCell.includes("income") || firstCell.includes("revenue") || firstCell.includes("earnings");
@@ -526,14 +872,18 @@ export const parseDetailedIncome = (lines: string[]): LedgerData => {
         }
     }
     
-    if (headerIdx === -1 || headerIdx >= lines.length - 1) return { months: [], categories: [] };
+    if (headerIdx === -1 || headerIdx >= lines.length - 1) {
+        report?.warnings.push('No ledger header row with month columns found.');
+        return { months: [], categories: [] };
+    }
     const headerRow = parseCSVLine(lines[headerIdx]);
     const months: string[] = [];
     const monthColIndices: number[] = [];
     for (let j = 1; j < headerRow.length; j++) {
         const val = (headerRow[j] || '').trim();
-        if (parseFlexibleDate(val)) { months.push(val); monthColIndices.push(j); }
+        if (parseFlexibleDate(val, locale)) { months.push(val); monthColIndices.push(j); }
     }
+    noteLedgerHeader(report, headerIdx, headerRow, monthColIndices);
     const incomeSourceCategory: LedgerCategory = { name: 'Income Sources', subCategories: [], total: 0, rowIndex: headerIdx };
     for (let i = headerIdx + 1; i < lines.length; i++) {
         const row = parseCSVLine(lines[i]);
@@ -547,7 +897,7 @@ export const parseDetailedIncome = (lines: string[]): LedgerData => {
         let rowTotal = 0;
         let hasData = false;
         monthColIndices.forEach(colIdx => {
-            const val = parseNumber(row[colIdx]);
+            const val = parseNumber(row[colIdx], locale);
             monthlyValues.push(val);
             rowTotal += val;
             if (val !== 0) hasData = true;
@@ -555,13 +905,14 @@ export const parseDetailedIncome = (lines: string[]): LedgerData => {
         if (hasData) {
             incomeSourceCategory.subCategories.push({ name: name, monthlyValues: monthlyValues, total: rowTotal, rowIndex: i });
             incomeSourceCategory.total += rowTotal;
-        }
+        } else skipRow(report, i, `"${name}" has no monthly values`);
     }
     if (incomeSourceCategory.subCategories.length > 0) categories.push(incomeSourceCategory);
+    if (report) report.parsedRows = incomeSourceCategory.subCategories.length;
     return { months, categories };
 };
 
-export const parseDetailedExpenses = (lines: string[]): LedgerData => {
+export const parseDetailedExpenses = (lines: string[], report?: IngestionReport, locale?: SheetLocale): LedgerData => {
     const categories: LedgerCategory[] = [];
     let headerIdx = -1;
     let bestMonthCount = 0;
@@ -574,7 +925,7 @@ export const parseDetailedExpenses = (lines: string[]): LedgerData => {
         let count = 0;
         for (let j = 1; j < row.length; j++) {
             const val = (row[j] || '').trim();
-            if (parseFlexibleDate(val)) count++;
+            if (parseFlexibleDate(val, locale)) count++;
         }
         
         // Strict keywords for identifying the Expense ledger start
@@ -606,14 +957,18 @@ export const parseDetailedExpenses = (lines: string[]): LedgerData => {
         }
     }
     
-    if (headerIdx === -1 || headerIdx >= lines.length - 1) return { months: [], categories: [] };
+    if (headerIdx === -1 || headerIdx >= lines.length - 1) {
+        report?.warnings.push('No ledger header row with month columns found.');
+        return { months: [], categories: [] };
+    }
     const headerRow = parseCSVLine(lines[headerIdx]);
     const months: string[] = [];
     const monthColIndices: number[] = [];
     for (let j = 1; j < headerRow.length; j++) {
         const val = (headerRow[j] || '').trim();
-        if (parseFlexibleDate(val)) { months.push(val); monthColIndices.push(j); }
+        if (parseFlexibleDate(val, locale)) { months.push(val); monthColIndices.push(j); }
     }
+    noteLedgerHeader(report, headerIdx, headerRow, monthColIndices);
     
     let currentCategory: LedgerCategory | null = null;
     for (let i = headerIdx + 1; i < lines.length; i++) {
@@ -650,7 +1005,7 @@ export const parseDetailedExpenses = (lines: string[]): LedgerData => {
         let hasData = false;
         let totalRowSum = 0;
         monthColIndices.forEach(colIdx => {
-            const val = Math.abs(parseNumber(row[colIdx]));
+            const val = Math.abs(parseNumber(row[colIdx], locale));
             monthlyValues.push(val);
             if (val !== 0) hasData = true;
             totalRowSum += val;
@@ -668,11 +1023,12 @@ export const parseDetailedExpenses = (lines: string[]): LedgerData => {
             }
             else { 
                 // Handle cases where subcategories exist before a header
-                categories.push({ name: 'Uncategorized', subCategories: [subItem], total: totalRowSum, rowIndex: i }); 
+                categories.push({ name: noteDefault(report, i, 'category', 'Uncategorized'), subCategories: [subItem], total: totalRowSum, rowIndex: i }); 
             }
         }
     }
     if (currentCategory && !categories.find(c => c.name === currentCategory?.name)) categories.push(currentCategory);
+    if (report) report.parsedRows = categories.reduce((acc, c) => acc + c.subCategories.length, 0);
     return { months, categories };
 };
 
@@ -2,6 +2,7 @@
 import { Investment, Asset, Trade, ExchangeRates } from '../../types';
 import { normalizeTicker } from '../geminiService';
 import { convertToBase, PRIMARY_CURRENCY } from '../currencyService';
+import { buildPosition, carriesUnitPrice, getPositionKey } from '../trades/tradeEventService';
 
 /**
  * Calculates current market price based on live quotes, falling back to trade history or sheet values.
@@ -16,7 +17,8 @@ export const resolveCurrentPrice = (
     if (trades && trades.length > 0) {
         const tradeWithPrice = trades.find(t => (t.marketPrice || 0) > 0);
         if (tradeWithPrice) return tradeWithPrice.marketPrice!;
-        if (trades[0].price) return Math.abs(trades[0].price);
+        const priced = trades.find(carriesUnitPrice);
+        if (priced?.price) return Math.abs(priced.price);
     }
     return sheetPrice || 0;
 };
@@ -42,32 +44,34 @@ export const buildSyntheticPortfolio = (
     exchangeRates?: ExchangeRates
 ): Investment[] => {
     const sheetTickers = new Set(sheetInvestments.map(i => normalizeTicker(i.ticker)));
+    const sheetPositions = new Set(sheetInvestments.map(i => getPositionKey(normalizeTicker(i.ticker), i.accountName)));
     const unified: Investment[] = [...sheetInvestments];
     
-    // 1. Trades Lookup Map
-    const tradesByTicker = new Map<string, Trade[]>();
+    // 1. Trades Lookup Map, one entry per (account, ticker) position
+    const tradesByPosition = new Map<string, Trade[]>();
     trades.forEach(t => {
         const ticker = normalizeTicker(t.ticker);
         if (ticker === 'UNKNOWN') return;
-        if (!tradesByTicker.has(ticker)) tradesByTicker.set(ticker, []);
-        tradesByTicker.get(ticker)?.push(t);
+        const key = getPositionKey(ticker, t.account);
+        if (!tradesByPosition.has(key)) tradesByPosition.set(key, []);
+        tradesByPosition.get(key)?.push(t);
     });
 
-    // 2. Add synthetic holdings from trade history (tickers not in the main sheet)
-    tradesByTicker.forEach((tickerTrades, ticker) => {
-        if (!sheetTickers.has(ticker)) {
-            const netQty = tickerTrades.reduce((acc, t) => {
-                 const type = (t.type || 'BUY').toUpperCase().trim();
-                 return acc + (type === 'SELL' ? -Math.abs(t.quantity) : Math.abs(t.quantity));
-            }, 0);
+    // 2. Add synthetic holdings from trade history (positions not in the main sheet).
+    // Trades without an account defer to any sheet row for the ticker, as they always have.
+    tradesByPosition.forEach((tickerTrades, key) => {
+        const ticker = normalizeTicker(tickerTrades[0].ticker);
+        const tradeAccount = tickerTrades[0].account?.trim();
+        const isListed = tradeAccount ? sheetPositions.has(key) : sheetTickers.has(ticker);
+        if (!isListed) {
+            // Replays buys, sells, DRIPs, splits, ROC and transfers on the average-cost method.
+            const { quantity: netQty, cost } = buildPosition(tickerTrades);
             
             if (Math.abs(netQty) < 0.000001) return;
 
-            const buyTrades = tickerTrades.filter(t => (t.type || 'BUY').toUpperCase().trim() === 'BUY');
-            const totalCost = buyTrades.reduce((sum, t) => sum + Math.abs(t.total), 0);
-            const totalBuyQty = buyTrades.reduce((sum, t) => sum + Math.abs(t.quantity), 0);
-            const avgPrice = totalBuyQty > 0 ? totalCost / totalBuyQty : 0;
-            const latestPrice = tickerTrades[0] ? (tickerTrades[0].marketPrice || Math.abs(tickerTrades[0].price)) : 0;
+            const avgPrice = netQty > 0 ? cost / netQty : 0;
+            const priced = tickerTrades.find(carriesUnitPrice) || tickerTrades[0];
+            const latestPrice = priced ? (priced.marketPrice || Math.abs(priced.price)) : 0;
 
             let account = 'Uncategorized';
             let assetClass = 'Trade Derived';
@@ -76,9 +80,10 @@ export const buildSyntheticPortfolio = (
                 account = 'Crypto Wallet';
                 assetClass = 'Crypto';
             }
+            if (tradeAccount) account = tradeAccount;
 
             unified.push({
-                id: `synthetic-${ticker}`,
+                id: tradeAccount ? `synthetic-${tradeAccount}-${ticker}` : `synthetic-${ticker}`,
                 ticker: tickerTrades[0].ticker, 
                 name: tickerTrades[0].ticker,
                 quantity: netQty,
@@ -0,0 +1,105 @@
+import { BudgetBook, BudgetRollover, BudgetTarget, LedgerData } from '../../types';
+
+export const BUDGET_ROLLOVER_LABELS: Record<BudgetRollover, string> = {
+    RESET: 'Reset monthly',
+    CARRY_SURPLUS: 'Carry surplus',
+    CARRY_DEFICIT: 'Carry deficit'
+};
+
+export interface BudgetMonth {
+    // Target plus whatever the rollover mode carried in from the prior month.
+    available: number;
+    actual: number;
+    remaining: number;
+}
+
+export interface BudgetLine {
+    target: BudgetTarget;
+    months: BudgetMonth[];
+    totalBudget: number;
+    totalActual: number;
+}
+
+export interface BudgetVariancePoint {
+    month: string;
+    budget: number;
+    actual: number;
+    variance: number;
+}
+
+/**
+ * Targets for `year`, else the most recent earlier version so a new year starts from last year's plan.
+ */
+export const getBudgetTargets = (book: BudgetBook, year: number): BudgetTarget[] => {
+    if (book[year]) return book[year];
+    const prior = Object.keys(book).map(Number).filter(y => y < year).sort((a, b) => b - a)[0];
+    return prior !== undefined ? book[prior] : [];
+};
+
+/**
+ * Pins the inherited targets to `year` on rollover, so later edits to either year stay independent.
+ */
+export const carryBudgetsForward = (book: BudgetBook, year: number): BudgetBook => {
+    if (book[year]) return book;
+    const inherited = getBudgetTargets(book, year);
+    return inherited.length > 0 ? { ...book, [year]: inherited.map(t => ({ ...t, id: crypto.randomUUID() })) } : book;
+};
+
+const sameName = (a: string, b?: string) => a.trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+export const getTargetActuals = (ledger: LedgerData, target: BudgetTarget): number[] => {
+    const category = ledger.categories.find(c => sameName(c.name, target.category));
+    if (!category) return ledger.months.map(() => 0);
+    const items = target.subCategory ? category.subCategories.filter(s => sameName(s.name, target.subCategory)) : category.subCategories;
+    return ledger.months.map((_, m) => items.reduce((sum, s) => sum + (s.monthlyValues[m] || 0), 0));
+};
+
+/**
+ * Walks the year month by month, carrying the unspent (or overspent) balance forward as the rollover mode allows.
+ */
+export const buildBudgetLine = (target: BudgetTarget, actuals: number[]): BudgetLine => {
+    let carry = 0;
+    const months = actuals.map(actual => {
+        const available = target.amount + carry;
+        const remaining = available - actual;
+        carry = target.rollover === 'CARRY_SURPLUS' ? Math.max(0, remaining)
+            : target.rollover === 'CARRY_DEFICIT' ? Math.min(0, remaining)
+            : 0;
+        return { available, actual, remaining };
+    });
+    return {
+        target,
+        months,
+        totalBudget: target.amount * actuals.length,
+        totalActual: actuals.reduce((a, b) => a + b, 0)
+    };
+};
+
+export const buildBudgetLines = (ledger: LedgerData, targets: BudgetTarget[]): BudgetLine[] =>
+    targets.map(t => buildBudgetLine(t, getTargetActuals(ledger, t)));
+
+export const findBudgetLine = (lines: BudgetLine[], category: string, subCategory?: string): BudgetLine | undefined =>
+    lines.find(l => sameName(l.target.category, category) && (subCategory ? sameName(subCategory, l.target.subCategory) : !l.target.subCategory));
+
+/**
+ * Budget against actual per month across all targets. Line-level targets are skipped
+ * where their whole category is budgeted, so spend is not counted twice.
+ */
+export const summarizeBudgetVariance = (lines: BudgetLine[], months: string[]): BudgetVariancePoint[] => {
+    const categoryWide = new Set(lines.filter(l => !l.target.subCategory).map(l => l.target.category.trim().toLowerCase()));
+    const counted = lines.filter(l => !l.target.subCategory || !categoryWide.has(l.target.category.trim().toLowerCase()));
+    return months.map((month, m) => {
+        const budget = counted.reduce((sum, l) => sum + (l.months[m]?.available || 0), 0);
+        const actual = counted.reduce((sum, l) => sum + (l.months[m]?.actual || 0), 0);
+        return { month, budget, actual, variance: budget - actual };
+    });
+};
+
+export const validateBudgetTarget = (target: BudgetTarget, existing: BudgetTarget[]): string[] => {
+    const errors: string[] = [];
+    if (!target.category) errors.push("Choose a category.");
+    if (!(target.amount > 0)) errors.push("Monthly amount must be greater than zero.");
+    const duplicate = existing.some(t => t.id !== target.id && sameName(t.category, target.category) && sameName(t.subCategory || '', target.subCategory));
+    if (duplicate) errors.push("This line already has a budget.");
+    return errors;
+};
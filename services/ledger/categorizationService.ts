@@ -0,0 +1,95 @@
+import { CategorizationRule, LedgerData, LedgerTransaction } from '../../types';
+
+export interface CategorizableTransaction {
+    payee: string;
+    amount: number;
+    account?: string;
+}
+
+export interface RuleMatch {
+    category: string;
+    subCategory: string;
+    ruleId: string;
+}
+
+export interface RuleTestResult {
+    transaction: LedgerTransaction;
+    // True when the rule would file this transaction somewhere other than where it sits today.
+    isChange: boolean;
+    // A higher-priority rule that also matches and would therefore win.
+    shadowedBy?: CategorizationRule;
+}
+
+const compilePattern = (pattern: string): RegExp | null => {
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+};
+
+const hasCondition = (rule: CategorizationRule) =>
+    !!(rule.payeeContains || rule.payeePattern || rule.account || rule.minAmount !== undefined || rule.maxAmount !== undefined);
+
+export const sortRulesByPriority = (rules: CategorizationRule[]): CategorizationRule[] =>
+    [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+
+/**
+ * Checks a single rule against a transaction. Every condition that is set must hold;
+ * amount bounds apply to the magnitude so the same rule covers charges and refunds.
+ */
+export const matchesRule = (rule: CategorizationRule, tx: CategorizableTransaction): boolean => {
+    if (!hasCondition(rule)) return false;
+    const payee = (tx.payee || '').toLowerCase();
+
+    if (rule.payeeContains && !payee.includes(rule.payeeContains.toLowerCase())) return false;
+    if (rule.payeePattern) {
+        const regex = compilePattern(rule.payeePattern);
+        if (!regex || !regex.test(tx.payee || '')) return false;
+    }
+    if (rule.account && !(tx.account || '').toLowerCase().endsWith(rule.account.toLowerCase())) return false;
+
+    const magnitude = Math.abs(tx.amount);
+    if (rule.minAmount !== undefined && magnitude < rule.minAmount) return false;
+    if (rule.maxAmount !== undefined && magnitude > rule.maxAmount) return false;
+    return true;
+};
+
+/**
+ * Returns the category of the highest-priority enabled rule that matches, or null.
+ * Lower priority numbers run first.
+ */
+export const categorizeTransaction = (tx: CategorizableTransaction, rules: CategorizationRule[]): RuleMatch | null => {
+    const hit = sortRulesByPriority(rules).find(r => r.enabled && matchesRule(r, tx));
+    return hit ? { category: hit.category, subCategory: hit.subCategory, ruleId: hit.id } : null;
+};
+
+/**
+ * Lists problems that would stop a rule from working: bad regex, no conditions,
+ * inverted amount range or a target line missing from the ledger.
+ */
+export const validateRule = (rule: CategorizationRule, ledger: LedgerData): string[] => {
+    const errors: string[] = [];
+    if (!rule.name.trim()) errors.push("Rule needs a name.");
+    if (!hasCondition(rule)) errors.push("Add at least one condition.");
+    if (rule.payeePattern && !compilePattern(rule.payeePattern)) errors.push("Payee pattern is not a valid regular expression.");
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) errors.push("Minimum amount exceeds maximum.");
+    const sub = ledger.categories.find(c => c.name === rule.category)?.subCategories.find(s => s.name === rule.subCategory);
+    if (!sub) errors.push(`"${rule.category} › ${rule.subCategory}" is not a line in the expense ledger.`);
+    return errors;
+};
+
+/**
+ * Previews a rule against previously recorded expenses before it is saved.
+ */
+export const testRuleAgainstHistory = (rule: CategorizationRule, history: LedgerTransaction[], rules: CategorizationRule[]): RuleTestResult[] => {
+    const competitors = sortRulesByPriority(rules.filter(r => r.id !== rule.id && r.enabled && r.priority < rule.priority));
+    return history
+        .filter(tx => tx.type === 'EXPENSE' && matchesRule(rule, tx))
+        .map(tx => ({
+            transaction: tx,
+            isChange: tx.category !== rule.category || tx.subCategory !== rule.subCategory,
+            shadowedBy: competitors.find(r => matchesRule(r, tx))
+        }))
+        .sort((a, b) => b.transaction.date.localeCompare(a.transaction.date));
+};
@@ -0,0 +1,277 @@
+import { DebtEntry, LedgerData, Liability, SheetLocale, Subscription } from '../../types';
+import { calculateMonthlyBurn } from '../temporalUtils';
+import { getActiveDebtPositions, PAYMENTS_PER_YEAR } from '../debt/debtService';
+import { parseFlexibleDate } from '../geminiService';
+
+export const FORECAST_MONTHS = 12;
+
+export type ForecastSource = 'INCOME' | 'SUBSCRIPTION' | 'DEBT' | 'SPENDING';
+
+export interface ForecastLine {
+    id: string;
+    source: ForecastSource;
+    label: string;
+    // Positive amounts; the source decides whether a line is cash in or out.
+    values: number[];
+    overridden: boolean[];
+}
+
+export interface ForecastMonth {
+    month: string;
+    label: string;
+    inflow: number;
+    outflow: number;
+    surplus: number;
+    balance: number;
+    shortfall: boolean;
+}
+
+export interface CashFlowForecast {
+    months: ForecastMonth[];
+    lines: ForecastLine[];
+    startingBalance: number;
+}
+
+export interface LedgerYear {
+    year: number;
+    expenses?: LedgerData;
+    income?: LedgerData;
+}
+
+// Line id -> forecast month (YYYY-MM) -> amount.
+export type ForecastOverrides = Record<string, Record<string, number>>;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const RECURRING_SHARE = 0.75;
+const RECURRING_MIN_MONTHS = 3;
+const RECURRING_TRAILING_MONTHS = 6;
+
+export const isInflow = (line: ForecastLine) => line.source === 'INCOME';
+
+/**
+ * The twelve YYYY-MM keys after `today`'s month.
+ */
+export const getForecastMonths = (today: string): string[] => {
+    const year = parseInt(today.substring(0, 4), 10);
+    const month = parseInt(today.substring(5, 7), 10) - 1;
+    return Array.from({ length: FORECAST_MONTHS }, (_, i) => {
+        const d = new Date(year, month + i + 1, 1);
+        return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    });
+};
+
+const formatMonthLabel = (key: string) => `${MONTH_NAMES[parseInt(key.substring(5, 7), 10) - 1]} ${key.substring(2, 4)}`;
+
+/**
+ * YYYY-MM for each ledger column, read from its header and falling back to the column position.
+ */
+const resolveColumnMonths = (ledger: LedgerData, year: number, locale?: SheetLocale): string[] =>
+    ledger.months.map((label, idx) => {
+        const parsed = parseFlexibleDate(label, locale);
+        return parsed ? parsed.substring(0, 7) : `${year}-${String((idx % 12) + 1).padStart(2, '0')}`;
+    });
+
+interface ObservedMonth {
+    key: string;
+    expenses?: { ledger: LedgerData; column: number };
+    income?: { ledger: LedgerData; column: number };
+}
+
+/**
+ * Months of history that hold any ledger activity and are fully in the past, oldest first.
+ */
+const collectObservedMonths = (history: LedgerYear[], today: string, locale?: SheetLocale): ObservedMonth[] => {
+    const byKey = new Map<string, ObservedMonth>();
+    const currentMonth = today.substring(0, 7);
+    const add = (ledger: LedgerData | undefined, year: number, kind: 'expenses' | 'income') => {
+        if (!ledger) return;
+        resolveColumnMonths(ledger, year, locale).forEach((key, column) => {
+            if (key >= currentMonth) return;
+            const hasActivity = ledger.categories.some(c => c.subCategories.some(s => (s.monthlyValues[column] || 0) !== 0));
+            if (!hasActivity) return;
+            const entry = byKey.get(key) || { key };
+            entry[kind] = { ledger, column };
+            byKey.set(key, entry);
+        });
+    };
+    history.forEach(h => {
+        add(h.expenses, h.year, 'expenses');
+        add(h.income, h.year, 'income');
+    });
+    return Array.from(byKey.values()).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/**
+ * Average spend per expense category for each calendar month across past years. A calendar
+ * month with no history falls back to the category's average over all observed months.
+ */
+export const buildSeasonalSpending = (history: LedgerYear[], forecastMonths: string[], today: string, locale?: SheetLocale): ForecastLine[] => {
+    const observed = collectObservedMonths(history, today, locale).filter(o => o.expenses);
+    const categories = new Set<string>();
+    observed.forEach(o => o.expenses!.ledger.categories.forEach(c => categories.add(c.name)));
+
+    return Array.from(categories).map(name => {
+        const samples = observed.map(o => {
+            const cat = o.expenses!.ledger.categories.find(c => c.name === name);
+            const value = cat ? cat.subCategories.reduce((sum, s) => sum + (s.monthlyValues[o.expenses!.column] || 0), 0) : 0;
+            return { calendarMonth: o.key.substring(5, 7), value };
+        });
+        const overall = mean(samples.map(s => s.value));
+        const values = forecastMonths.map(key => {
+            const sameMonth = samples.filter(s => s.calendarMonth === key.substring(5, 7));
+            return sameMonth.length > 0 ? mean(sameMonth.map(s => s.value)) : overall;
+        });
+        return { id: `spending:${name}`, source: 'SPENDING' as ForecastSource, label: name, values, overridden: values.map(() => false) };
+    }).filter(l => l.values.some(v => v > 0));
+};
+
+/**
+ * Income lines paid in most observed months, projected flat at their recent average.
+ * Irregular lines such as one-off bonuses are left out.
+ */
+export const buildRecurringIncome = (history: LedgerYear[], forecastMonths: string[], today: string, locale?: SheetLocale): ForecastLine[] => {
+    const observed = collectObservedMonths(history, today, locale).filter(o => o.income);
+    if (observed.length < RECURRING_MIN_MONTHS) return [];
+    const lines = new Map<string, { category: string; sub: string }>();
+    observed.forEach(o => o.income!.ledger.categories.forEach(c => c.subCategories.forEach(s => lines.set(`${c.name}||${s.name}`, { category: c.name, sub: s.name }))));
+
+    return Array.from(lines.entries()).flatMap(([key, { category, sub }]) => {
+        const series = observed.map(o => {
+            const item = o.income!.ledger.categories.find(c => c.name === category)?.subCategories.find(s => s.name === sub);
+            return item?.monthlyValues[o.income!.column] || 0;
+        });
+        const paid = series.filter(v => v > 0);
+        if (paid.length / series.length < RECURRING_SHARE) return [];
+        const amount = mean(series.slice(-RECURRING_TRAILING_MONTHS).filter(v => v > 0));
+        const values = forecastMonths.map(() => amount);
+        return [{ id: `income:${key}`, source: 'INCOME' as ForecastSource, label: `${category} › ${sub}`, values, overridden: values.map(() => false) }];
+    });
+};
+
+export const buildSubscriptionLines = (subscriptions: Subscription[], forecastMonths: string[]): ForecastLine[] =>
+    subscriptions
+        .filter(s => s.active)
+        .map(s => ({ sub: s, monthly: calculateMonthlyBurn(s.cost, s.period) }))
+        .filter(({ monthly }) => monthly > 0)
+        .map(({ sub, monthly }) => ({
+            id: `subscription:${sub.id}`,
+            source: 'SUBSCRIPTION' as ForecastSource,
+            label: sub.name,
+            values: forecastMonths.map(() => monthly),
+            overridden: forecastMonths.map(() => false)
+        }));
+
+/**
+ * Payments on each active debt. A schedule row for the month wins; otherwise the regular
+ * payment runs until the remaining balance is cleared.
+ */
+export const buildDebtLines = (liabilities: Liability[], entries: DebtEntry[], forecastMonths: string[], today: string): ForecastLine[] =>
+    getActiveDebtPositions(liabilities, entries, today).map(position => {
+        const { liability, schedule, monthlyPayment, remainingPayments } = position;
+        const monthsLeft = remainingPayments === null ? Infinity : Math.ceil(remainingPayments * 12 / PAYMENTS_PER_YEAR[liability.paymentFrequency]);
+        const values = forecastMonths.map((key, i) => {
+            const row = schedule.find(e => e.date?.startsWith(key));
+            if (row) return row.monthlyPayment;
+            return i < monthsLeft ? monthlyPayment : 0;
+        });
+        return { id: `debt:${liability.id}`, source: 'DEBT' as ForecastSource, label: liability.name, values, overridden: values.map(() => false) };
+    });
+
+const normalizeName = (name?: string) => (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Expense category already recording a subscription or debt payment: the one with a line named
+ * like it, otherwise one named like its subscription category or debt kind.
+ */
+const findRecordingCategory = (history: LedgerYear[], names: (string | undefined)[], fallbacks: string[]): string | null => {
+    const wanted = names.map(normalizeName).filter(Boolean);
+    const categories = history.flatMap(h => h.expenses?.categories || []);
+    const byLine = categories.find(c => c.subCategories.some(s => wanted.includes(normalizeName(s.name))));
+    if (byLine) return byLine.name;
+    const byName = categories.find(c => fallbacks.map(normalizeName).includes(normalizeName(c.name)));
+    return byName ? byName.name : null;
+};
+
+/**
+ * Takes subscription and debt payments out of the spending lines that already include them,
+ * so a Netflix line under Entertainment or a mortgage line under Housing isn't counted twice.
+ */
+const netRecordedCommitments = (spending: ForecastLine[], commitments: { category: string; line: ForecastLine }[]): ForecastLine[] =>
+    spending.map(line => {
+        const recorded = commitments.filter(c => `spending:${c.category}` === line.id);
+        if (recorded.length === 0) return line;
+        return { ...line, values: line.values.map((v, i) => Math.max(0, v - recorded.reduce((sum, c) => sum + c.line.values[i], 0))) };
+    }).filter(l => l.values.some(v => v > 0));
+
+const applyOverrides = (line: ForecastLine, forecastMonths: string[], overrides: ForecastOverrides): ForecastLine => {
+    const set = overrides[line.id];
+    if (!set) return line;
+    return {
+        ...line,
+        values: line.values.map((v, i) => set[forecastMonths[i]] ?? v),
+        overridden: forecastMonths.map(key => set[key] !== undefined)
+    };
+};
+
+/**
+ * Twelve-month projection of cash in and out, rolling the balance forward from `startingBalance`.
+ * Seasonal spending is net of the subscription and debt lines its categories already record.
+ * A month is a shortfall when the projected balance drops below zero.
+ */
+export const buildCashFlowForecast = (params: {
+    history: LedgerYear[];
+    subscriptions: Subscription[];
+    liabilities: Liability[];
+    debtEntries: DebtEntry[];
+    startingBalance: number;
+    overrides?: ForecastOverrides;
+    today?: string;
+    // Day/month order of the sheet's month headers.
+    locale?: SheetLocale;
+}): CashFlowForecast => {
+    const today = params.today || new Date().toISOString().split('T')[0];
+    const forecastMonths = getForecastMonths(today);
+    const withOverrides = (l: ForecastLine) => applyOverrides(l, forecastMonths, params.overrides || {});
+    const subscriptionLines = buildSubscriptionLines(params.subscriptions, forecastMonths).map(withOverrides);
+    const debtLines = buildDebtLines(params.liabilities, params.debtEntries, forecastMonths, today).map(withOverrides);
+
+    const commitments = [
+        ...params.subscriptions.map(s => ({ id: `subscription:${s.id}`, category: findRecordingCategory(params.history, [s.name], [s.category, 'Subscriptions', 'Subscription']) })),
+        ...params.liabilities.map(l => ({ id: `debt:${l.id}`, category: findRecordingCategory(params.history, [l.name, l.scheduleName], [l.kind, 'Debt', 'Debts', 'Loans']) }))
+    ].flatMap(({ id, category }) => {
+        const line = [...subscriptionLines, ...debtLines].find(l => l.id === id);
+        return category && line ? [{ category, line }] : [];
+    });
+    const spendingLines = netRecordedCommitments(buildSeasonalSpending(params.history, forecastMonths, today, params.locale), commitments);
+
+    const lines = [
+        ...buildRecurringIncome(params.history, forecastMonths, today, params.locale).map(withOverrides),
+        ...subscriptionLines,
+        ...debtLines,
+        ...spendingLines.map(withOverrides)
+    ];
+
+    let balance = params.startingBalance;
+    const months = forecastMonths.map((month, i) => {
+        const inflow = lines.filter(isInflow).reduce((sum, l) => sum + l.values[i], 0);
+        const outflow = lines.filter(l => !isInflow(l)).reduce((sum, l) => sum + l.values[i], 0);
+        const surplus = inflow - outflow;
+        balance += surplus;
+        return { month, label: formatMonthLabel(month), inflow, outflow, surplus, balance, shortfall: balance < 0 };
+    });
+
+    return { months, lines, startingBalance: params.startingBalance };
+};
+
+/**
+ * Sets or clears (with `value` undefined) one cell override, dropping empty line entries.
+ */
+export const setForecastOverride = (overrides: ForecastOverrides, lineId: string, month: string, value: number | undefined): ForecastOverrides => {
+    const { [month]: _, ...rest } = overrides[lineId] || {};
+    const nextLine = value === undefined ? rest : { ...rest, [month]: value };
+    const { [lineId]: __, ...others } = overrides;
+    return Object.keys(nextLine).length > 0 ? { ...others, [lineId]: nextLine } : others;
+};
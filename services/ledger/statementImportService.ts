@@ -0,0 +1,147 @@
+import { LedgerData, LedgerTransaction, SheetLocale } from '../../types';
+import { parseFlexibleDate } from '../geminiService';
+
+export interface StatementTransaction {
+    fitId: string;
+    type: string;
+    date: string;
+    payee: string;
+    amount: number;
+    memo: string;
+}
+
+export interface BankStatement {
+    account: string;
+    currency: string;
+    transactions: StatementTransaction[];
+}
+
+export interface LedgerCellUpdate {
+    category: string;
+    subCategory: string;
+    monthIndex: number;
+    previousValue: number;
+    value: number;
+    transactions: LedgerTransaction[];
+}
+
+const decodeEntities = (val: string) => val
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// Works for both OFX 1.x SGML (unclosed leaf tags) and OFX 2.x XML: a leaf value runs until the next tag or line break.
+const readTag = (block: string, tag: string): string => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? decodeEntities(match[1].trim()) : '';
+};
+
+// DTPOSTED looks like 20240105120000.000[-5:EST]; only the calendar date matters for the ledger.
+const parseOfxDate = (val: string): string | null => {
+    const match = val.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? parseFlexibleDate(`${match[1]}-${match[2]}-${match[3]}`) : null;
+};
+
+// TRNAMT is normally `-1234.56`, but some banks write `-1234,56` or add thousands separators.
+// Whichever of `.` and `,` comes last is the decimal point; the other is a thousands separator.
+const parseOfxAmount = (val: string): number => {
+    const clean = val.replace(/\s/g, '');
+    const decimal = clean.lastIndexOf(',') > clean.lastIndexOf('.') ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    const num = parseFloat(clean.split(thousands).join('').replace(decimal, '.'));
+    return isNaN(num) ? 0 : num;
+};
+
+/**
+ * Parses an OFX/QFX statement (bank or credit card) into plain transactions.
+ * Amounts keep the OFX sign convention: negative values are outflows.
+ */
+export const parseOfxStatement = (raw: string): BankStatement => {
+    if (!/<OFX>/i.test(raw)) throw new Error("File is not a valid OFX/QFX statement.");
+
+    const account = readTag(raw, 'ACCTID');
+    const currency = readTag(raw, 'CURDEF') || 'CAD';
+    const transactions: StatementTransaction[] = [];
+
+    const blockRegex = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = blockRegex.exec(raw)) !== null) {
+        const block = match[1];
+        const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+        if (!date) continue;
+        const name = readTag(block, 'NAME') || readTag(block, 'PAYEE');
+        const memo = readTag(block, 'MEMO');
+        transactions.push({
+            fitId: readTag(block, 'FITID'),
+            type: readTag(block, 'TRNTYPE').toUpperCase(),
+            date,
+            payee: name || memo || 'Unknown Payee',
+            amount: parseOfxAmount(readTag(block, 'TRNAMT')),
+            memo: name ? memo : ''
+        });
+    }
+
+    if (transactions.length === 0) throw new Error("No transactions found in statement.");
+    return { account, currency, transactions: transactions.sort((a, b) => a.date.localeCompare(b.date)) };
+};
+
+export const normalizePayee = (payee: string) => payee.toLowerCase().replace(/[0-9#*]+/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Suggests a ledger category for a payee based on how it was filed in previous imports.
+ */
+export const suggestCategoryFromHistory = (payee: string, history: LedgerTransaction[]): { category: string, subCategory: string } | null => {
+    const key = normalizePayee(payee);
+    if (!key) return null;
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (normalizePayee(history[i].payee) === key) return { category: history[i].category, subCategory: history[i].subCategory };
+    }
+    return null;
+};
+
+/**
+ * Maps an ISO date to the ledger column whose month header matches it, or -1 if the ledger doesn't cover it.
+ */
+export const resolveLedgerMonthIndex = (ledger: LedgerData, date: string, locale?: SheetLocale): number => {
+    const target = date.slice(0, 7);
+    return ledger.months.findIndex(m => (parseFlexibleDate(m, locale) || '').slice(0, 7) === target);
+};
+
+export const isDuplicateTransaction = (tx: StatementTransaction, account: string, history: LedgerTransaction[]) =>
+    !!tx.fitId && history.some(h => h.fitId === tx.fitId && (h.account || '') === account);
+
+/**
+ * Rolls categorized transactions up into per-cell ledger updates.
+ * Expense cells hold positive spend, so outflows add to a cell and refunds reduce it.
+ * New values are layered on top of what the grid already holds so manual entries survive.
+ */
+export const buildLedgerCellUpdates = (ledger: LedgerData, transactions: LedgerTransaction[], locale?: SheetLocale): LedgerCellUpdate[] => {
+    const cells = new Map<string, LedgerCellUpdate>();
+    transactions.forEach(tx => {
+        const monthIndex = resolveLedgerMonthIndex(ledger, tx.date, locale);
+        if (monthIndex === -1) return;
+        const key = `${tx.category}||${tx.subCategory}||${monthIndex}`;
+        if (!cells.has(key)) {
+            const sub = ledger.categories.find(c => c.name === tx.category)?.subCategories.find(s => s.name === tx.subCategory);
+            const previousValue = sub?.monthlyValues[monthIndex] || 0;
+            cells.set(key, { category: tx.category, subCategory: tx.subCategory, monthIndex, previousValue, value: previousValue, transactions: [] });
+        }
+        const cell = cells.get(key)!;
+        cell.value = Math.round((cell.value - tx.amount) * 100) / 100;
+        cell.transactions.push(tx);
+    });
+    return Array.from(cells.values());
+};
+
+/**
+ * Indexes stored transactions by ledger cell for the audit trail in the ledger grid.
+ */
+export const groupTransactionsByCell = (ledger: LedgerData, transactions: LedgerTransaction[], locale?: SheetLocale): Map<string, LedgerTransaction[]> => {
+    const map = new Map<string, LedgerTransaction[]>();
+    transactions.forEach(tx => {
+        const monthIndex = resolveLedgerMonthIndex(ledger, tx.date, locale);
+        if (monthIndex === -1) return;
+        const key = `${tx.category}||${tx.subCategory}||${monthIndex}`;
+        if (!map.has(key)) map.set(key, []);
+        map.get(key)!.push(tx);
+    });
+    return map;
+};
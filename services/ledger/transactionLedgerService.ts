@@ -0,0 +1,135 @@
+import { LedgerData, LedgerTransaction, NormalizedTransaction, SheetLocale } from '../../types';
+import { resolveLedgerMonthIndex } from './statementImportService';
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const round2 = (val: number) => Math.round(val * 100) / 100;
+
+const cellKey = (category: string, subCategory: string, monthIndex: number) => `${category}||${subCategory}||${monthIndex}`;
+
+// Statement imports are written into the sheet's cells; manual entries live only in the transaction store.
+const isWrittenToGrid = (tx: LedgerTransaction) => tx.source === 'OFX';
+
+/**
+ * Converts a signed bank amount into the positive convention used by the grid:
+ * spend on expense lines, receipts on income lines. Refunds come out negative.
+ */
+export const toLedgerAmount = (tx: LedgerTransaction): number => tx.type === 'INCOME' ? tx.amount : -tx.amount;
+
+export const toNormalizedTransaction = (tx: LedgerTransaction): NormalizedTransaction => ({
+    id: tx.id,
+    date: tx.date,
+    category: tx.category,
+    subCategory: tx.subCategory,
+    amount: toLedgerAmount(tx),
+    type: tx.type,
+    payee: tx.payee,
+    account: tx.account
+});
+
+export const buildYearMonthLabels = (year: number): string[] => MONTH_LABELS.map(m => `${m}-${String(year).slice(-2)}`);
+
+/**
+ * Sums itemized transactions of one ledger type per grid cell.
+ */
+export const sumTransactionsByCell = (ledger: LedgerData, transactions: LedgerTransaction[], type: 'INCOME' | 'EXPENSE', locale?: SheetLocale): Map<string, number> => {
+    const sums = new Map<string, number>();
+    transactions.forEach(tx => {
+        if (tx.type !== type) return;
+        const monthIndex = resolveLedgerMonthIndex(ledger, tx.date, locale);
+        if (monthIndex === -1) return;
+        const key = cellKey(tx.category, tx.subCategory, monthIndex);
+        sums.set(key, round2((sums.get(key) || 0) + toLedgerAmount(tx)));
+    });
+    return sums;
+};
+
+/**
+ * The part of each non-empty grid cell that no stored transaction accounts for: the synced value
+ * less whatever statement imports wrote into it. Manual entries were never added to the sheet.
+ */
+export const getCellRemainders = (grid: LedgerData, transactions: LedgerTransaction[], type: 'INCOME' | 'EXPENSE', locale?: SheetLocale): Map<string, number> => {
+    const written = sumTransactionsByCell(grid, transactions.filter(isWrittenToGrid), type, locale);
+    const remainders = new Map<string, number>();
+    grid.categories.forEach(cat => {
+        cat.subCategories.forEach(sub => {
+            sub.monthlyValues.forEach((val, monthIndex) => {
+                if (!val) return;
+                const key = cellKey(cat.name, sub.name, monthIndex);
+                remainders.set(key, round2(val - (written.get(key) || 0)));
+            });
+        });
+    });
+    return remainders;
+};
+
+/**
+ * Derives the monthly grid for a year from the transaction store.
+ * Each itemized cell is its transactions plus the unitemized remainder of the synced value,
+ * so editing or deleting a transaction moves the cell and manual totals are kept alongside.
+ */
+export const deriveLedgerFromTransactions = (grid: LedgerData, transactions: LedgerTransaction[], type: 'INCOME' | 'EXPENSE', year: number, locale?: SheetLocale): LedgerData => {
+    const scoped = transactions.filter(tx => tx.type === type && tx.date.startsWith(String(year)));
+    if (scoped.length === 0) return grid;
+
+    const months = grid.months.length > 0 ? grid.months : buildYearMonthLabels(year);
+    const categories = grid.categories.map(c => ({ ...c, subCategories: c.subCategories.map(s => ({ ...s, monthlyValues: [...s.monthlyValues] })) }));
+    const ledger: LedgerData = { months, categories };
+
+    const remainders = getCellRemainders(grid, scoped, type, locale);
+    sumTransactionsByCell(ledger, scoped, type, locale).forEach((sum, key) => {
+        const [catName, subName, monthIdx] = key.split('||');
+        let cat = categories.find(c => c.name === catName);
+        if (!cat) {
+            cat = { name: catName, subCategories: [], total: 0 };
+            categories.push(cat);
+        }
+        let sub = cat.subCategories.find(s => s.name === subName);
+        if (!sub) {
+            sub = { name: subName, monthlyValues: new Array(months.length).fill(0), total: 0 };
+            cat.subCategories.push(sub);
+        }
+        const mIdx = parseInt(monthIdx, 10);
+        sub.monthlyValues[mIdx] = round2((remainders.get(key) || 0) + sum);
+    });
+
+    categories.forEach(cat => {
+        cat.subCategories.forEach(sub => { sub.total = round2(sub.monthlyValues.reduce((acc, v) => acc + (v || 0), 0)); });
+        cat.total = round2(cat.subCategories.reduce((acc, s) => acc + s.total, 0));
+    });
+
+    return ledger;
+};
+
+/**
+ * Returns the part of each grid cell that stored transactions don't explain.
+ * Users who only keep monthly totals get every non-zero cell back unchanged.
+ */
+export const getUnitemizedCells = (grid: LedgerData, transactions: LedgerTransaction[], type: 'INCOME' | 'EXPENSE', locale?: SheetLocale): { category: string, subCategory: string, monthIndex: number, amount: number }[] => {
+    const cells: { category: string, subCategory: string, monthIndex: number, amount: number }[] = [];
+    getCellRemainders(grid, transactions, type, locale).forEach((amount, key) => {
+        const [category, subCategory, monthIndex] = key.split('||');
+        if (amount !== 0) cells.push({ category, subCategory, monthIndex: parseInt(monthIndex, 10), amount });
+    });
+    return cells;
+};
+
+/**
+ * Sheet values for the cells an imported transaction was written into, after replacing `before`
+ * with `after` (either may be null). Keeps the synced grid in step when an import is edited or deleted.
+ */
+export const getGridCorrections = (grid: LedgerData, before: LedgerTransaction | null, after: LedgerTransaction | null, type: 'INCOME' | 'EXPENSE', locale?: SheetLocale): { category: string, subCategory: string, monthIndex: number, value: number }[] => {
+    const removed = sumTransactionsByCell(grid, before && isWrittenToGrid(before) ? [before] : [], type, locale);
+    const added = sumTransactionsByCell(grid, after && isWrittenToGrid(after) ? [after] : [], type, locale);
+    const keys = new Set([...removed.keys(), ...added.keys()]);
+    const corrections: { category: string, subCategory: string, monthIndex: number, value: number }[] = [];
+    keys.forEach(key => {
+        const delta = round2((added.get(key) || 0) - (removed.get(key) || 0));
+        if (delta === 0) return;
+        const [category, subCategory, monthIdx] = key.split('||');
+        const monthIndex = parseInt(monthIdx, 10);
+        const current = grid.categories.find(c => c.name === category)?.subCategories.find(s => s.name === subCategory)?.monthlyValues[monthIndex] || 0;
+        corrections.push({ category, subCategory, monthIndex, value: round2(current + delta) });
+    });
+    return corrections;
+};
@@ -1,5 +1,5 @@
 
-import { IncomeEntry, ExpenseEntry } from '../../types';
+import { IncomeEntry, ExpenseEntry, DatedCashFlow, PeriodReturn, NetWorthEntry } from '../../types';
 
 /**
  * Simple Dietz Method for Money-Weighted Return approximation.
@@ -19,6 +19,116 @@ export const calculateDietzReturn = (
   return { gain, percentage };
 };
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const daysBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+
+/**
+ * Turns a cumulative return over `days` into percent per year. Windows under a year are not annualized.
+ */
+export const toPeriodReturn = (cumulative: number, days: number): PeriodReturn => ({
+  cumulative: cumulative * 100,
+  annualized: days >= 365 && cumulative > -1 ? (Math.pow(1 + cumulative, 365 / days) - 1) * 100 : null,
+  days
+});
+
+/**
+ * Annual internal rate of return over irregularly dated cash flows (Excel XIRR convention:
+ * money invested is negative, money received is positive). Newton's method with a bisection fallback.
+ * Returns a decimal rate, or null when the flows have no sign change.
+ */
+export const calculateXIRR = (flows: DatedCashFlow[]): number | null => {
+  const sorted = flows.filter(f => f.amount !== 0).sort((a, b) => a.date.localeCompare(b.date));
+  if (!sorted.some(f => f.amount > 0) || !sorted.some(f => f.amount < 0)) return null;
+
+  const t0 = sorted[0].date;
+  const years = sorted.map(f => daysBetween(t0, f.date) / 365);
+  const npv = (rate: number) => sorted.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dnpv = (rate: number) => sorted.reduce((sum, f, i) => sum - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = dnpv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    if (!isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Newton diverged: bracket the root between -99.99% and +10000% and bisect.
+  let lo = -0.9999, hi = 100;
+  if (npv(lo) * npv(hi) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (npv(lo) * npv(mid) <= 0) hi = mid; else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Money-weighted return of a window: the start value is treated as invested on day one,
+ * each contribution (positive = money added) on its date, and the end value as withdrawn on the last day.
+ * Contributions dated on the start day count toward the window, as they do for Simple Dietz.
+ */
+export const calculateMoneyWeightedReturn = (
+  startValue: number,
+  startDate: string,
+  endValue: number,
+  endDate: string,
+  contributions: DatedCashFlow[]
+): PeriodReturn | null => {
+  const days = daysBetween(startDate, endDate);
+  if (days <= 0) return null;
+  const flows: DatedCashFlow[] = [
+    { date: startDate, amount: -startValue },
+    ...contributions.filter(c => c.date >= startDate && c.date <= endDate).map(c => ({ date: c.date, amount: -c.amount })),
+    { date: endDate, amount: endValue }
+  ];
+  const rate = calculateXIRR(flows);
+  if (rate === null) return null;
+  return toPeriodReturn(Math.pow(1 + rate, days / 365) - 1, days);
+};
+
+/**
+ * Time-weighted return: each gap between two valuations is its own sub-period, measured with
+ * Simple Dietz against the contributions made inside it, and the sub-period returns are chained.
+ * Contributions dated on the first valuation belong to the first sub-period.
+ */
+export const calculateTimeWeightedReturn = (
+  snapshots: { date: string; totalValue: number }[],
+  contributions: DatedCashFlow[]
+): PeriodReturn | null => {
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return null;
+
+  let growth = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const cur = sorted[i];
+    const flow = contributions
+      .filter(c => (i === 1 ? c.date >= prev.date : c.date > prev.date) && c.date <= cur.date)
+      .reduce((sum, c) => sum + c.amount, 0);
+    if (prev.totalValue <= 0 && flow <= 0) continue;
+    growth *= 1 + calculateDietzReturn(prev.totalValue, cur.totalValue, flow).percentage / 100;
+  }
+  return toPeriodReturn(growth - 1, daysBetween(sorted[0].date, sorted[sorted.length - 1].date));
+};
+
+/**
+ * Net savings per date from the income and expense ledgers, as contributions to net worth.
+ */
+export const buildLedgerCashFlows = (incomeData: IncomeEntry[], expenseData: ExpenseEntry[], fromISO: string): DatedCashFlow[] => {
+  const byDate = new Map<string, number>();
+  incomeData.filter(d => d.date >= fromISO).forEach(d => byDate.set(d.date, (byDate.get(d.date) || 0) + (d.amount || 0)));
+  expenseData.filter(d => d.date >= fromISO).forEach(d => byDate.set(d.date, (byDate.get(d.date) || 0) - (d.total || 0)));
+  return Array.from(byDate.entries())
+    .map(([date, amount]) => ({ date, amount }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
 /**
  * Calculates Max Drawdown from a series of valuation entries.
  */
@@ -51,13 +161,15 @@ export const calculateGrowthVelocity = (data: { date: string; totalValue: number
 
 /**
  * Shared logic for Net Worth Attribution (used in Dashboard & Analytics).
+ * Ledger savings are the external flows for the XIRR and for each sub-period of the time-weighted return.
  */
 export const calculateNetWorthAttribution = (
   currentNW: number,
   startValue: number,
   incomeData: IncomeEntry[],
   expenseData: ExpenseEntry[],
-  anchorISO: string
+  anchorISO: string,
+  history: NetWorthEntry[] = []
 ) => {
   const periodIncome = incomeData
     .filter(d => d.date >= anchorISO)
@@ -70,12 +182,22 @@ export const calculateNetWorthAttribution = (
   const netSavings = periodIncome - periodExpense;
   const { gain, percentage } = calculateDietzReturn(startValue, currentNW, netSavings);
 
+  const todayISO = new Date().toISOString().split('T')[0];
+  const flows = buildLedgerCashFlows(incomeData, expenseData, anchorISO);
+  const snapshots = [
+    { date: anchorISO, totalValue: startValue },
+    ...history.filter(h => h.date > anchorISO && h.date < todayISO).map(h => ({ date: h.date, totalValue: h.value })),
+    { date: todayISO, totalValue: currentNW }
+  ];
+
   return {
     startValue,
     endValue: currentNW,
     netContributions: netSavings,
     marketGain: gain,
-    percentageReturn: percentage
+    percentageReturn: percentage,
+    moneyWeighted: calculateMoneyWeightedReturn(startValue, anchorISO, currentNW, todayISO, flows),
+    timeWeighted: calculateTimeWeightedReturn(snapshots, flows)
   };
 };
 
@@ -0,0 +1,135 @@
+import { IncomeEntry, ExpenseEntry } from '../../types';
+
+export interface ProjectionInputs {
+  startingAssets: number;
+  monthlyContribution: number;
+  // Annual percentages, nominal.
+  expectedReturn: number;
+  volatility: number;
+  inflation: number;
+  // Annual spending in today's dollars.
+  annualSpending: number;
+  withdrawalRate: number;
+  currentAge: number;
+  targetAge: number;
+  horizonYears: number;
+  simulations: number;
+  seed?: number;
+}
+
+export interface ProjectionBand {
+  year: number;
+  age: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface ProjectionResult {
+  // All values are in today's dollars.
+  bands: ProjectionBand[];
+  fiNumber: number;
+  // Share of paths (0..100) that reach the FI number by `targetAge`.
+  probabilityByTargetAge: number;
+  // Share of paths that reach it at all within the horizon.
+  probabilityWithinHorizon: number;
+  medianMonthsToFi: number | null;
+  medianFiDate: string | null;
+}
+
+/**
+ * Small seeded generator so a projection is stable across re-renders for the same inputs.
+ */
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const gaussian = (rand: () => number) => {
+  const u = Math.max(rand(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/**
+ * Average monthly surplus (income less expenses) over the trailing twelve months of ledger history.
+ */
+export const deriveMonthlySavings = (incomeData: IncomeEntry[], expenseData: ExpenseEntry[], today: string = new Date().toISOString().split('T')[0]): number => {
+  const from = new Date(today);
+  from.setFullYear(from.getFullYear() - 1);
+  const fromISO = from.toISOString().split('T')[0];
+  const inWindow = (d: { date: string }) => d.date > fromISO && d.date <= today;
+
+  const months = new Set([...incomeData.filter(inWindow), ...expenseData.filter(inWindow)].map(d => d.date.substring(0, 7)));
+  if (months.size === 0) return 0;
+
+  const income = incomeData.filter(inWindow).reduce((s, d) => s + (d.amount || 0), 0);
+  const expense = expenseData.filter(inWindow).reduce((s, d) => s + (d.total || 0), 0);
+  return (income - expense) / months.size;
+};
+
+/**
+ * Simulates monthly lognormal returns in real terms, so every figure reads in today's dollars.
+ * Drift is set so the mean annual real return matches the input; contributions stay flat in real terms.
+ */
+export const runFiProjection = (inputs: ProjectionInputs, today: Date = new Date()): ProjectionResult => {
+  const months = Math.max(1, Math.round(inputs.horizonYears * 12));
+  const realReturn = (1 + inputs.expectedReturn / 100) / (1 + inputs.inflation / 100) - 1;
+  const sigma = (inputs.volatility / 100) / Math.sqrt(12);
+  const drift = Math.log(1 + realReturn) / 12 - (sigma * sigma) / 2;
+  const fiNumber = inputs.withdrawalRate > 0 ? inputs.annualSpending / (inputs.withdrawalRate / 100) : Infinity;
+  const targetMonth = Math.max(0, Math.round((inputs.targetAge - inputs.currentAge) * 12));
+
+  const rand = mulberry32(inputs.seed ?? 42);
+  const yearly: number[][] = Array.from({ length: Math.floor(months / 12) + 1 }, () => []);
+  const monthsToFi: number[] = [];
+
+  for (let s = 0; s < inputs.simulations; s++) {
+    let value = inputs.startingAssets;
+    let reached = value >= fiNumber ? 0 : Infinity;
+    yearly[0].push(value);
+    for (let m = 1; m <= months; m++) {
+      value = Math.max(0, value * Math.exp(drift + sigma * gaussian(rand)) + inputs.monthlyContribution);
+      if (reached === Infinity && value >= fiNumber) reached = m;
+      if (m % 12 === 0) yearly[m / 12].push(value);
+    }
+    monthsToFi.push(reached);
+  }
+
+  const bands = yearly.map((values, year) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      year: today.getFullYear() + year,
+      age: inputs.currentAge + year,
+      p10: percentile(sorted, 0.1),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9)
+    };
+  });
+
+  const sortedFi = [...monthsToFi].sort((a, b) => a - b);
+  const medianMonths = sortedFi.length > 0 ? percentile(sortedFi, 0.5) : Infinity;
+  const share = (pred: (m: number) => boolean) => inputs.simulations > 0 ? (monthsToFi.filter(pred).length / inputs.simulations) * 100 : 0;
+  let medianFiDate: string | null = null;
+  if (Number.isFinite(medianMonths)) {
+    const d = new Date(today.getFullYear(), today.getMonth() + medianMonths, 1);
+    medianFiDate = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  return {
+    bands,
+    fiNumber,
+    probabilityByTargetAge: share(m => m <= targetMonth),
+    probabilityWithinHorizon: share(m => Number.isFinite(m)),
+    medianMonthsToFi: Number.isFinite(medianMonths) ? medianMonths : null,
+    medianFiDate
+  };
+};
@@ -46,4 +46,134 @@ export const calculateRollingVolatility = (data: ProcessedPortfolioEntry[], wind
         });
     }
     return rolling;
-};
\ No newline at end of file
+};
+
+export interface RiskProfile {
+  annualizedReturn: number;
+  volatility: number;
+  downsideDeviation: number;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  maxDrawdown: number;
+  beta: number | null;
+  correlation: number | null;
+  trackingError: number | null;
+  observations: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+const sampleVariance = (xs: number[]) => {
+  const m = mean(xs);
+  return xs.reduce((a, b) => a + Math.pow(b - m, 2), 0) / (xs.length - 1);
+};
+
+const covariance = (xs: number[], ys: number[]) => {
+  const mx = mean(xs), my = mean(ys);
+  return xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0) / (xs.length - 1);
+};
+
+/**
+ * Valuations per year implied by the average spacing of the snapshots.
+ */
+export const getPeriodsPerYear = (data: { date: string }[]): number => {
+  if (data.length < 2) return 0;
+  const days = (new Date(data[data.length - 1].date).getTime() - new Date(data[0].date).getTime()) / DAY_MS;
+  return 365 / Math.max(1, days / (data.length - 1));
+};
+
+/**
+ * Simple return between each pair of consecutive snapshots, dated at the later one.
+ */
+export const calculatePeriodReturns = (data: { date: string; totalValue: number }[]): { date: string; value: number }[] => {
+  const returns: { date: string; value: number }[] = [];
+  for (let i = 1; i < data.length; i++) {
+    const prev = data[i - 1].totalValue;
+    if (prev > 0) returns.push({ date: data[i].date, value: data[i].totalValue / prev - 1 });
+  }
+  return returns;
+};
+
+/**
+ * Latest benchmark price on or before `date`, so weekends and holidays take the last close.
+ */
+export const priceAsOf = (prices: { date: string; price: number }[], date: string): number | null => {
+  let found: number | null = null;
+  for (const p of prices) {
+    if (p.date > date) break;
+    found = p.price;
+  }
+  return found;
+};
+
+/**
+ * Annualized root-mean-square of returns falling short of `target` (a per-period rate).
+ */
+export const calculateDownsideDeviation = (returns: number[], target: number, periodsPerYear: number): number => {
+  if (returns.length === 0) return 0;
+  const shortfall = returns.reduce((sum, r) => sum + Math.pow(Math.min(0, r - target), 2), 0) / returns.length;
+  return Math.sqrt(shortfall) * Math.sqrt(periodsPerYear);
+};
+
+/**
+ * Risk-adjusted statistics for a valuation series. `riskFreeRate` is an annual percentage.
+ * Benchmark statistics compare the portfolio's period returns with the benchmark's over the same dates.
+ */
+export const calculateRiskProfile = (
+  data: { date: string; totalValue: number }[],
+  maxDrawdown: number,
+  riskFreeRate: number,
+  benchmark: { date: string; price: number }[] = []
+): RiskProfile | null => {
+  const periodReturns = calculatePeriodReturns(data);
+  if (periodReturns.length < 2) return null;
+
+  const ppy = getPeriodsPerYear(data);
+  const returns = periodReturns.map(r => r.value);
+  const rfPerPeriod = Math.pow(1 + riskFreeRate / 100, 1 / ppy) - 1;
+
+  const first = data.find(d => d.totalValue > 0)!;
+  const last = data[data.length - 1];
+  const days = Math.max(1, (new Date(last.date).getTime() - new Date(first.date).getTime()) / DAY_MS);
+  const annualizedReturn = last.totalValue > 0 ? (Math.pow(last.totalValue / first.totalValue, 365 / days) - 1) * 100 : -100;
+
+  const volatility = Math.sqrt(sampleVariance(returns)) * Math.sqrt(ppy) * 100;
+  const downsideDeviation = calculateDownsideDeviation(returns, rfPerPeriod, ppy) * 100;
+  const excess = annualizedReturn - riskFreeRate;
+
+  let beta: number | null = null, correlation: number | null = null, trackingError: number | null = null;
+  const sortedBenchmark = [...benchmark].sort((a, b) => a.date.localeCompare(b.date));
+  const paired: [number, number][] = [];
+  for (let i = 1; i < data.length; i++) {
+    const p0 = data[i - 1].totalValue;
+    const b0 = priceAsOf(sortedBenchmark, data[i - 1].date);
+    const b1 = priceAsOf(sortedBenchmark, data[i].date);
+    if (p0 > 0 && b0 && b1) paired.push([data[i].totalValue / p0 - 1, b1 / b0 - 1]);
+  }
+  if (paired.length >= 2) {
+    const ps = paired.map(p => p[0]);
+    const bs = paired.map(p => p[1]);
+    const varB = sampleVariance(bs);
+    const varP = sampleVariance(ps);
+    beta = varB > 0 ? covariance(ps, bs) / varB : null;
+    correlation = varB > 0 && varP > 0 ? covariance(ps, bs) / Math.sqrt(varB * varP) : null;
+    trackingError = Math.sqrt(sampleVariance(paired.map(([p, b]) => p - b))) * Math.sqrt(ppy) * 100;
+  }
+
+  return {
+    annualizedReturn,
+    volatility,
+    downsideDeviation,
+    sharpe: volatility > 0 ? excess / volatility : null,
+    sortino: downsideDeviation > 0 ? excess / downsideDeviation : null,
+    calmar: maxDrawdown < 0 ? annualizedReturn / Math.abs(maxDrawdown) : null,
+    maxDrawdown,
+    beta,
+    correlation,
+    trackingError,
+    observations: returns.length
+  };
+};
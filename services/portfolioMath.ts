@@ -1,5 +1,7 @@
 import { PortfolioLogEntry, ProcessedPortfolioEntry, TimeFocus, CustomDateRange, Trade } from '../types';
 import { isDateWithinFocus } from './portfolioService';
+import { getTradeType } from './trades/tradeEventService';
+import { calculateMoneyWeightedReturn, calculateTimeWeightedReturn } from './math/financialMath';
 
 /**
  * Transforms raw portfolio logs into processed entries suitable for charting.
@@ -65,16 +67,22 @@ export const calculatePortfolioAttribution = (
     // 1. Identify trade-based flows within the window
     const windowTrades = trades.filter(t => isDateWithinFocus(t.date, focus, customRange));
     
-    // As per request: BUYs are Contributions, SELLs are Withdrawals
+    // As per request: BUYs are Contributions, SELLs are Withdrawals. In-kind transfers count the same way;
+    // dividends, DRIPs, splits and ROC happen inside the portfolio and are part of its return.
     const contributions = windowTrades
-        .filter(t => (t.type || 'BUY').toUpperCase().trim() === 'BUY')
+        .filter(t => ['BUY', 'TRANSFER_IN'].includes(getTradeType(t)))
         .reduce((sum, t) => sum + Math.abs(t.total || 0), 0);
         
     const withdrawals = windowTrades
-        .filter(t => (t.type || 'BUY').toUpperCase().trim() === 'SELL')
+        .filter(t => ['SELL', 'TRANSFER_OUT'].includes(getTradeType(t)))
         .reduce((sum, t) => sum + Math.abs(t.total || 0), 0);
 
     const netFlow = contributions - withdrawals;
+
+    // Dated flows for the XIRR and the chained sub-period returns.
+    const flows = windowTrades
+        .filter(t => ['BUY', 'TRANSFER_IN', 'SELL', 'TRANSFER_OUT'].includes(getTradeType(t)))
+        .map(t => ({ date: t.date, amount: ['BUY', 'TRANSFER_IN'].includes(getTradeType(t)) ? Math.abs(t.total || 0) : -Math.abs(t.total || 0) }));
     const marketAlpha = totalGrowth - netFlow;
 
     // Simple Dietz Method for Money-Weighted Return approximation
@@ -91,7 +99,9 @@ export const calculatePortfolioAttribution = (
         contributions,
         withdrawals,
         marketAlpha,
-        alphaPercentage
+        alphaPercentage,
+        moneyWeighted: calculateMoneyWeightedReturn(start.totalValue, start.date, end.totalValue, end.date, flows),
+        timeWeighted: calculateTimeWeightedReturn(data, flows)
     };
 };
 
@@ -1,6 +1,7 @@
 
 import { Investment, Trade, NetWorthEntry, TimeFocus, AttributionResult, IncomeEntry, ExpenseEntry } from '../types';
 import { normalizeTicker } from './geminiService';
+import { getPositionKey, getQuantityDelta } from './trades/tradeEventService';
 
 /**
  * Checks if a YYYY-MM-DD string falls within a specific TimeFocus window relative to "now".
@@ -53,19 +54,42 @@ export const isDateWithinFocus = (
   }
 };
 
+/**
+ * Spreads a traded quantity across sheet rows in proportion to what each row holds.
+ */
+const distributeQuantity = (invs: Investment[], qty: number): Investment[] => {
+    const totalSheetQty = invs.reduce((sum, i) => sum + i.quantity, 0);
+    if (totalSheetQty === 0) return invs.map((inv, index) => ({ ...inv, quantity: index === 0 ? qty : 0 }));
+    let remaining = qty;
+    return invs.map((inv, index) => {
+        if (index === invs.length - 1) return { ...inv, quantity: remaining };
+        const newQty = qty * (inv.quantity / totalSheetQty);
+        remaining -= newQty;
+        return { ...inv, quantity: newQty };
+    });
+};
+
 /**
  * Reconciles static Investment data from Sheets with dynamic Trade data.
+ * Trades naming an account set the rows for that ticker in that account; trades without one
+ * are spread across the ticker's remaining rows.
  */
 export const reconcileInvestments = (investments: Investment[], trades: Trade[]): Investment[] => {
     if (!investments.length) return [];
     
+    const positionHoldings = new Map<string, number>();
     const tradeHoldings = new Map<string, number>();
     trades.forEach(t => {
-        const qty = Math.abs(t.quantity || 0);
-        if (qty === 0) return;
+        // Dividends and ROC move no units, so on their own they must not override sheet quantities.
+        const delta = getQuantityDelta(t);
+        if (delta === 0) return;
         const ticker = normalizeTicker(t.ticker);
-        const type = (t.type || 'BUY').toUpperCase().trim();
-        tradeHoldings.set(ticker, (tradeHoldings.get(ticker) || 0) + (type === 'BUY' ? qty : -qty));
+        if (t.account?.trim()) {
+            const key = getPositionKey(ticker, t.account);
+            positionHoldings.set(key, (positionHoldings.get(key) || 0) + delta);
+        } else {
+            tradeHoldings.set(ticker, (tradeHoldings.get(ticker) || 0) + delta);
+        }
     });
 
     const invByTicker = new Map<string, Investment[]>();
@@ -78,29 +102,32 @@ export const reconcileInvestments = (investments: Investment[], trades: Trade[])
     const result: Investment[] = [];
     
     invByTicker.forEach((invs, ticker) => {
+        const reconciled = new Map<Investment, Investment>();
+
+        const byPosition = new Map<string, Investment[]>();
+        const unmatched: Investment[] = [];
+        invs.forEach(inv => {
+            const key = getPositionKey(ticker, inv.accountName);
+            if (positionHoldings.has(key)) byPosition.set(key, [...(byPosition.get(key) || []), inv]);
+            else unmatched.push(inv);
+        });
+        byPosition.forEach((rows, key) => {
+            distributeQuantity(rows, positionHoldings.get(key)!).forEach((r, i) => reconciled.set(rows[i], r));
+        });
+
         const tradeQty = tradeHoldings.get(ticker);
-        if (tradeQty === undefined) {
-            result.push(...invs);
-            return;
+        if (tradeQty !== undefined) {
+            if (unmatched.length > 0) {
+                distributeQuantity(unmatched, tradeQty).forEach((r, i) => reconciled.set(unmatched[i], r));
+            } else {
+                // Every row is already set by account trades, so the unassigned units go on top.
+                const rows = invs.map(inv => reconciled.get(inv)!);
+                const held = rows.reduce((sum, r) => sum + r.quantity, 0);
+                distributeQuantity(rows, held + tradeQty).forEach((r, i) => reconciled.set(invs[i], r));
+            }
         }
 
-        const totalSheetQty = invs.reduce((sum, i) => sum + i.quantity, 0);
-        if (totalSheetQty === 0) {
-            result.push({ ...invs[0], quantity: tradeQty });
-            for(let i=1; i<invs.length; i++) result.push({ ...invs[i], quantity: 0 });
-        } else {
-            let remaining = tradeQty;
-            invs.forEach((inv, index) => {
-                if (index === invs.length - 1) {
-                     result.push({ ...inv, quantity: remaining });
-                } else {
-                     const ratio = inv.quantity / totalSheetQty;
-                     const newQty = tradeQty * ratio;
-                     result.push({ ...inv, quantity: newQty });
-                     remaining -= newQty;
-                }
-            });
-        }
+        invs.forEach(inv => result.push(reconciled.get(inv) || inv));
     });
     return result;
 };
@@ -58,7 +58,8 @@ export const fetchSheetData = async (sheetId: string, tabName: string): Promise<
             if (res.status === 403) {
                 throw new Error("ACCESS_DENIED: The drive.file scope requires you to re-select this file via the 'Select Sheet' button in Settings.");
             }
-            if (res.status === 404) {
+            // A range on a tab that doesn't exist comes back as 400 "Unable to parse range".
+            if (res.status === 404 || (res.status === 400 && errorText.includes('Unable to parse range'))) {
                 throw new Error(`NOT_FOUND: Tab '${tabName}' not found in the spreadsheet.`);
             }
             throw new Error(`SYNC_FAILED: API returned status ${res.status} for tab '${tabName}'.`);
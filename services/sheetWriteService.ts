@@ -1,6 +1,8 @@
 
 import { getAccessToken } from './authService';
-import { Trade, Asset, Subscription, BankAccount } from '../types';
+import { Trade, Asset, Subscription, BankAccount, TaxRecord, ColumnMapping } from '../types';
+import { DebtSheetRow } from './debt/amortizationService';
+import { isDebtHeader, resolveDebtColumns } from './geminiService';
 
 const BASE_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
 
@@ -22,52 +24,101 @@ const setCellValue = (row: any[], headers: string[], keys: string[], val: string
     }
 };
 
-const mapTradeToRow = (trade: Trade, headers: string[]) => {
-    const row = new Array(headers.length).fill(null);
-    setCellValue(row, headers, ['date', 'time', 'day'], trade.date);
-    setCellValue(row, headers, ['ticker', 'symbol', 'code', 'asset'], trade.ticker);
-    setCellValue(row, headers, ['quantity', 'qty', 'units', 'shares', 'count', 'amount'], trade.quantity);
-    setCellValue(row, headers, ['total', 'value', 'net', 'settlement'], trade.total); 
-    setCellValue(row, headers, ['price', 'cost', 'rate', 'unitprice'], trade.price);
-    setCellValue(row, headers, ['type', 'action', 'side', 'direction', 'buy/sell', 'transaction'], trade.type);
-    setCellValue(row, headers, ['fee', 'commission', 'transaction', 'charge'], trade.fee || 0);
+const findPinnedIndex = (headers: string[], header?: string) => header ? headers.map(normalize).indexOf(normalize(header)) : -1;
+
+// Pinned columns start out as undefined so keyword guessing (which only fills null cells) can't claim them;
+// any left unwritten serialize back to null and are skipped by the Sheets API.
+const createRow = (headers: string[], mapping?: ColumnMapping) => {
+    const row: any[] = new Array(headers.length).fill(null);
+    Object.values(mapping || {}).forEach(header => {
+        const idx = findPinnedIndex(headers, header);
+        if (idx !== -1) row[idx] = undefined;
+    });
+    return row;
+};
+
+// Field names match the read parsers' keys in TAB_FIELD_KEYWORDS so one pinned mapping serves both directions.
+const setFieldValue = (row: any[], headers: string[], mapping: ColumnMapping | undefined, field: string, keys: string[], val: string | number | boolean) => {
+    const pinnedIdx = findPinnedIndex(headers, mapping?.[field]);
+    if (pinnedIdx !== -1) row[pinnedIdx] = val;
+    else setCellValue(row, headers, keys, val);
+};
+
+const mapTradeToRow = (trade: Trade, headers: string[], mapping?: ColumnMapping) => {
+    const row = createRow(headers, mapping);
+    setFieldValue(row, headers, mapping, 'date', ['date', 'time', 'day'], trade.date);
+    setFieldValue(row, headers, mapping, 'ticker', ['ticker', 'symbol', 'code', 'asset'], trade.ticker);
+    setFieldValue(row, headers, mapping, 'qty', ['quantity', 'qty', 'units', 'shares', 'count', 'amount'], trade.quantity);
+    if (trade.settlementDate) setFieldValue(row, headers, mapping, 'settlementDate', ['settlementdate', 'settledate', 'settled'], trade.settlementDate);
+    setFieldValue(row, headers, mapping, 'total', ['total', 'value', 'net'], trade.total); 
+    setFieldValue(row, headers, mapping, 'price', ['price', 'cost', 'rate', 'unitprice'], trade.price);
+    setFieldValue(row, headers, mapping, 'type', ['type', 'action', 'side', 'direction', 'buy/sell', 'transaction'], trade.type);
+    setFieldValue(row, headers, mapping, 'fee', ['fee', 'commission', 'transaction', 'charge'], trade.fee || 0);
+    if (trade.currency) setFieldValue(row, headers, mapping, 'currency', ['currency', 'ccy'], trade.currency);
+    if (trade.lotId) setFieldValue(row, headers, mapping, 'lot', ['lotid', 'taxlot', 'lot'], trade.lotId);
+    if (trade.account) setFieldValue(row, headers, mapping, 'account', ['account', 'accountname', 'heldin', 'portfolio'], trade.account);
+    return row;
+};
+
+const mapAssetToRow = (asset: Asset, headers: string[], mapping?: ColumnMapping) => {
+    const row = createRow(headers, mapping);
+    setFieldValue(row, headers, mapping, 'type', ['type', 'category', 'class', 'asset type', 'kind'], asset.type);
+    setFieldValue(row, headers, mapping, 'name', ['name', 'account', 'item', 'description', 'holding', 'security', 'asset'], asset.name);
+    setFieldValue(row, headers, mapping, 'value', ['value', 'amount', 'balance', 'current value', 'market value', 'total', 'market val'], asset.value);
+    setFieldValue(row, headers, mapping, 'currency', ['currency', 'curr', 'ccy'], asset.currency);
+    setFieldValue(row, headers, mapping, 'lastUpdated', ['last updated', 'date', 'updated', 'as of'], asset.lastUpdated || new Date().toISOString().split('T')[0]);
+    return row;
+};
+
+const mapSubscriptionToRow = (sub: Subscription, headers: string[], mapping?: ColumnMapping) => {
+    const row = createRow(headers, mapping);
+    setFieldValue(row, headers, mapping, 'name', ['name', 'service', 'subscription', 'item', 'merchant', 'description'], sub.name);
+    setFieldValue(row, headers, mapping, 'cost', ['cost', 'price', 'amount', 'monthly cost', 'value', 'payment'], sub.cost);
+    setFieldValue(row, headers, mapping, 'period', ['period', 'frequency', 'billing cycle'], sub.period);
+    setFieldValue(row, headers, mapping, 'category', ['category', 'type', 'kind'], sub.category);
+    setFieldValue(row, headers, mapping, 'active', ['active', 'status'], sub.active ? 'TRUE' : 'FALSE');
+    setFieldValue(row, headers, mapping, 'method', ['payment method', 'account', 'card', 'source'], sub.paymentMethod || '');
     return row;
 };
 
-const mapAssetToRow = (asset: Asset, headers: string[]) => {
-    const row = new Array(headers.length).fill(null);
-    setCellValue(row, headers, ['type', 'category', 'class', 'asset type', 'kind'], asset.type);
-    setCellValue(row, headers, ['name', 'account', 'item', 'description', 'holding', 'security', 'asset'], asset.name);
-    setCellValue(row, headers, ['value', 'amount', 'balance', 'current value', 'market value', 'total', 'market val'], asset.value);
-    setCellValue(row, headers, ['currency', 'curr', 'ccy'], asset.currency);
-    setCellValue(row, headers, ['last updated', 'date', 'updated', 'as of'], asset.lastUpdated || new Date().toISOString().split('T')[0]);
+const mapAccountToRow = (acc: BankAccount, headers: string[], mapping?: ColumnMapping) => {
+    const row = createRow(headers, mapping);
+    setFieldValue(row, headers, mapping, 'institution', ['institution', 'bank', 'provider', 'source'], acc.institution);
+    setFieldValue(row, headers, mapping, 'name', ['name', 'account name', 'nickname', 'label', 'account'], acc.name);
+    setFieldValue(row, headers, mapping, 'type', ['type', 'category', 'account type'], acc.type);
+    setFieldValue(row, headers, mapping, 'paymentType', ['payment type', 'method', 'network', 'card type'], acc.paymentType);
+    setFieldValue(row, headers, mapping, 'num', ['account number', 'number', 'last 4', 'card number'], acc.accountNumber);
+    setFieldValue(row, headers, mapping, 'transType', ['transaction type', 'class'], acc.transactionType);
+    setFieldValue(row, headers, mapping, 'currency', ['currency', 'curr', 'ccy'], acc.currency);
+    setFieldValue(row, headers, mapping, 'purpose', ['purpose', 'description', 'usage', 'merchant'], acc.purpose);
     return row;
 };
 
-const mapSubscriptionToRow = (sub: Subscription, headers: string[]) => {
-    const row = new Array(headers.length).fill(null);
-    setCellValue(row, headers, ['name', 'service', 'subscription', 'item', 'merchant', 'description'], sub.name);
-    setCellValue(row, headers, ['cost', 'price', 'amount', 'monthly cost', 'value', 'payment'], sub.cost);
-    setCellValue(row, headers, ['period', 'frequency', 'billing cycle'], sub.period);
-    setCellValue(row, headers, ['category', 'type', 'kind'], sub.category);
-    setCellValue(row, headers, ['active', 'status'], sub.active ? 'TRUE' : 'FALSE');
-    setCellValue(row, headers, ['payment method', 'account', 'card', 'source'], sub.paymentMethod || '');
+const TAX_RECORD_HEADERS = ['Account', 'Fund', 'Transaction Type', 'Date', 'Value', 'Description'];
+
+const mapTaxRecordToRow = (record: TaxRecord, headers: string[], mapping?: ColumnMapping) => {
+    const row = createRow(headers, mapping);
+    setFieldValue(row, headers, mapping, 'recordType', ['recordtype', 'accounttype', 'account', 'plan'], record.recordType);
+    setFieldValue(row, headers, mapping, 'accountFund', ['accountfund', 'fund', 'heldat', 'institution'], record.accountFund);
+    setFieldValue(row, headers, mapping, 'transactionType', ['transactiontype', 'transaction', 'type', 'action'], record.transactionType);
+    setFieldValue(row, headers, mapping, 'date', ['date', 'effectivedate', 'time'], record.date);
+    setFieldValue(row, headers, mapping, 'value', ['value', 'amount', 'contribution', 'total'], record.value);
+    setFieldValue(row, headers, mapping, 'description', ['description', 'notes', 'note', 'memo', 'details'], record.description || '');
     return row;
 };
 
-const mapAccountToRow = (acc: BankAccount, headers: string[]) => {
-    const row = new Array(headers.length).fill(null);
-    setCellValue(row, headers, ['institution', 'bank', 'provider', 'source'], acc.institution);
-    setCellValue(row, headers, ['name', 'account name', 'nickname', 'label', 'account'], acc.name);
-    setCellValue(row, headers, ['type', 'category', 'account type'], acc.type);
-    setCellValue(row, headers, ['payment type', 'method', 'network', 'card type'], acc.paymentType);
-    setCellValue(row, headers, ['account number', 'number', 'last 4', 'card number'], acc.accountNumber);
-    setCellValue(row, headers, ['transaction type', 'class'], acc.transactionType);
-    setCellValue(row, headers, ['currency', 'curr', 'ccy'], acc.currency);
-    setCellValue(row, headers, ['purpose', 'description', 'usage', 'merchant'], acc.purpose);
+const DEBT_SCHEDULE_HEADERS = ['Loan', 'Date', 'Starting Balance', 'Payment', 'Interest', 'Principal', 'Ending Balance'];
+
+// Columns are resolved exactly as the debt tab parser reads them.
+const mapDebtScheduleRow = (entry: DebtSheetRow, headers: string[]) => {
+    const row = createRow(headers);
+    const idx = resolveDebtColumns(headers);
+    (Object.keys(idx) as (keyof DebtSheetRow)[]).forEach(key => { if (idx[key] !== -1) row[idx[key]] = entry[key]; });
     return row;
 };
 
+const isDebtHeaderRow = (row: string[]) => isDebtHeader((row || []).map(c => String(c || '')));
+
 // --- API Helpers ---
 
 const fetchHeaders = async (sheetId: string, tabName: string, token: string) => {
@@ -101,7 +152,7 @@ const getSheetGridId = async (spreadsheetId: string, tabName: string, token: str
 
 // --- Generic Row Operations ---
 
-const appendToSheet = async (sheetId: string, tabName: string, rowValues: any[]) => {
+const appendRowsToSheet = async (sheetId: string, tabName: string, rows: any[][]) => {
     const token = getAccessToken();
     if (!token) throw new Error("Authentication required.");
     
@@ -111,7 +162,7 @@ const appendToSheet = async (sheetId: string, tabName: string, rowValues: any[])
     const res = await fetch(url, {
         method: 'POST',
         headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify({ values: [rowValues] })
+        body: JSON.stringify({ values: rows })
     });
     
     if (!res.ok) {
@@ -121,6 +172,8 @@ const appendToSheet = async (sheetId: string, tabName: string, rowValues: any[])
     return true;
 };
 
+const appendToSheet = async (sheetId: string, tabName: string, rowValues: any[]) => appendRowsToSheet(sheetId, tabName, [rowValues]);
+
 const updateRowInSheet = async (sheetId: string, tabName: string, rowIndex: number, rowValues: any[]) => {
     const token = getAccessToken();
     if (!token) throw new Error("Authentication required.");
@@ -232,44 +285,79 @@ export const resetYearlyLedger = async (spreadsheetId: string, incomeTab: string
 
 // --- Exports ---
 
-export const addTradeToSheet = async (sheetId: string, tabName: string, trade: Trade) => {
+export const addTradeToSheet = async (sheetId: string, tabName: string, trade: Trade, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return appendToSheet(sheetId, tabName, mapTradeToRow(trade, headers));
+    return appendToSheet(sheetId, tabName, mapTradeToRow(trade, headers, mapping));
 };
 
-export const updateTradeInSheet = async (sheetId: string, tabName: string, rowIndex: number, trade: Trade) => {
+export const updateTradeInSheet = async (sheetId: string, tabName: string, rowIndex: number, trade: Trade, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return updateRowInSheet(sheetId, tabName, rowIndex, mapTradeToRow(trade, headers));
+    return updateRowInSheet(sheetId, tabName, rowIndex, mapTradeToRow(trade, headers, mapping));
 };
 
-export const addAssetToSheet = async (sheetId: string, tabName: string, asset: Asset) => {
+export const addAssetToSheet = async (sheetId: string, tabName: string, asset: Asset, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return appendToSheet(sheetId, tabName, mapAssetToRow(asset, headers));
+    return appendToSheet(sheetId, tabName, mapAssetToRow(asset, headers, mapping));
 };
 
-export const updateAssetInSheet = async (sheetId: string, tabName: string, rowIndex: number, asset: Asset) => {
+export const updateAssetInSheet = async (sheetId: string, tabName: string, rowIndex: number, asset: Asset, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return updateRowInSheet(sheetId, tabName, rowIndex, mapAssetToRow(asset, headers));
+    return updateRowInSheet(sheetId, tabName, rowIndex, mapAssetToRow(asset, headers, mapping));
 };
 
-export const addSubscriptionToSheet = async (sheetId: string, tabName: string, sub: Subscription) => {
+export const addSubscriptionToSheet = async (sheetId: string, tabName: string, sub: Subscription, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return appendToSheet(sheetId, tabName, mapSubscriptionToRow(sub, headers));
+    return appendToSheet(sheetId, tabName, mapSubscriptionToRow(sub, headers, mapping));
 };
 
-export const updateSubscriptionInSheet = async (sheetId: string, tabName: string, rowIndex: number, sub: Subscription) => {
+export const updateSubscriptionInSheet = async (sheetId: string, tabName: string, rowIndex: number, sub: Subscription, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return updateRowInSheet(sheetId, tabName, rowIndex, mapSubscriptionToRow(sub, headers));
+    return updateRowInSheet(sheetId, tabName, rowIndex, mapSubscriptionToRow(sub, headers, mapping));
 };
 
-export const addAccountToSheet = async (sheetId: string, tabName: string, acc: BankAccount) => {
+export const addAccountToSheet = async (sheetId: string, tabName: string, acc: BankAccount, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return appendToSheet(sheetId, tabName, mapAccountToRow(acc, headers));
+    return appendToSheet(sheetId, tabName, mapAccountToRow(acc, headers, mapping));
+};
+
+export const updateAccountInSheet = async (sheetId: string, tabName: string, rowIndex: number, acc: BankAccount, mapping?: ColumnMapping) => {
+    const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
+    return updateRowInSheet(sheetId, tabName, rowIndex, mapAccountToRow(acc, headers, mapping));
+};
+
+const addTab = async (sheetId: string, tabName: string, token: string) => {
+    const res = await fetch(`${BASE_URL}/${sheetId}:batchUpdate`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requests: [{ addSheet: { properties: { title: tabName } } }] })
+    });
+    if (!res.ok) throw new Error(`Could not create tab '${tabName}'.`);
+};
+
+/**
+ * Appends tax records. A missing tab is created, and a brand-new, empty tab gets the parser's header first.
+ */
+export const addTaxRecordsToSheet = async (sheetId: string, tabName: string, records: TaxRecord[], mapping?: ColumnMapping) => {
+    const token = getAccessToken();
+    if (!token) throw new Error("Authentication required.");
+    const range = encodeURIComponent(`'${tabName}'!A1:Z10`);
+    const res = await fetch(`${BASE_URL}/${sheetId}/values/${range}`, { headers: { Authorization: `Bearer ${token}` } });
+    // The values API answers 400 for a range on a tab that doesn't exist.
+    if (res.status === 400) await addTab(sheetId, tabName, token);
+    else if (!res.ok) throw new Error(`Could not read tab '${tabName}'.`);
+    if (!res.ok || ((await res.json()).values || []).length === 0) {
+        return appendRowsToSheet(sheetId, tabName, [TAX_RECORD_HEADERS, ...records.map(r => mapTaxRecordToRow(r, TAX_RECORD_HEADERS))]);
+    }
+    const headers = await fetchHeaders(sheetId, tabName, token);
+    return appendRowsToSheet(sheetId, tabName, records.map(r => mapTaxRecordToRow(r, headers, mapping)));
 };
 
-export const updateAccountInSheet = async (sheetId: string, tabName: string, rowIndex: number, acc: BankAccount) => {
+export const addTaxRecordToSheet = async (sheetId: string, tabName: string, record: TaxRecord, mapping?: ColumnMapping) =>
+    addTaxRecordsToSheet(sheetId, tabName, [record], mapping);
+
+export const updateTaxRecordInSheet = async (sheetId: string, tabName: string, rowIndex: number, record: TaxRecord, mapping?: ColumnMapping) => {
     const headers = await fetchHeaders(sheetId, tabName, getAccessToken()!);
-    return updateRowInSheet(sheetId, tabName, rowIndex, mapAccountToRow(acc, headers));
+    return updateRowInSheet(sheetId, tabName, rowIndex, mapTaxRecordToRow(record, headers, mapping));
 };
 
 export const deleteRowFromSheet = async (sheetId: string, tabName: string, rowIndex: number) => {
@@ -346,3 +434,56 @@ export const updateLedgerValue = async (sheetId: string, tabName: string, catego
     if (!res.ok) throw new Error("Failed to update cell.");
     return true;
 };
+
+/**
+ * Writes a generated schedule to the debt tab, replacing any rows already filed under the same loan.
+ * An empty tab gets the parser's header first; a tab without a loan-name column is refused, since
+ * a second schedule there would merge into the first.
+ */
+export const writeDebtSchedule = async (sheetId: string, tabName: string, rows: DebtSheetRow[]) => {
+    const token = getAccessToken();
+    if (!token) throw new Error("Authentication required.");
+    if (rows.length === 0) throw new Error("The schedule has no payments to write.");
+
+    const range = encodeURIComponent(`'${tabName}'!A:Z`);
+    const readRes = await fetch(`${BASE_URL}/${sheetId}/values/${range}`, { headers: { Authorization: `Bearer ${token}` } });
+    if (!readRes.ok) throw new Error(`Could not read tab '${tabName}'.`);
+    const values: string[][] = (await readRes.json()).values || [];
+
+    if (values.every(r => r.every(c => !c))) {
+        const writeRange = encodeURIComponent(`'${tabName}'!A1`);
+        const res = await fetch(`${BASE_URL}/${sheetId}/values/${writeRange}?valueInputOption=USER_ENTERED`, {
+            method: 'PUT',
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ values: [DEBT_SCHEDULE_HEADERS, ...rows.map(r => mapDebtScheduleRow(r, DEBT_SCHEDULE_HEADERS))] })
+        });
+        if (!res.ok) throw new Error("Failed to write schedule.");
+        return true;
+    }
+
+    const headerIdx = values.slice(0, 50).findIndex(isDebtHeaderRow);
+    if (headerIdx === -1) throw new Error(`Could not find a schedule header (date plus balance or payment columns) in tab '${tabName}'.`);
+    const headers = values[headerIdx].map(c => String(c || ''));
+    const loanIdx = resolveDebtColumns(headers).loan;
+    if (loanIdx === -1) throw new Error(`Tab '${tabName}' has no loan-name column. Add a "Loan" column to its header so schedules can be told apart.`);
+
+    const loanKey = rows[0].loan.trim().toLowerCase();
+    const existing = values
+        .map((r, i) => ({ name: String(r[loanIdx] || '').trim().toLowerCase(), i }))
+        .filter(({ name, i }) => i > headerIdx && name === loanKey)
+        .map(({ i }) => i);
+
+    if (existing.length > 0) {
+        const gridId = await getSheetGridId(sheetId, tabName, token);
+        // Bottom-up so earlier deletions don't shift the rows still to go.
+        const requests = [...existing].sort((a, b) => b - a).map(i => ({ deleteDimension: { range: { sheetId: gridId, dimension: "ROWS", startIndex: i, endIndex: i + 1 } } }));
+        const res = await fetch(`${BASE_URL}/${sheetId}:batchUpdate`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ requests })
+        });
+        if (!res.ok) throw new Error("Failed to clear the previous schedule.");
+    }
+
+    return appendRowsToSheet(sheetId, tabName, rows.map(r => mapDebtScheduleRow(r, headers)));
+};
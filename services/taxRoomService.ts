@@ -0,0 +1,166 @@
+import { LedgerData, TaxRecord, TaxRoomProfile } from '../types';
+import { TAX_CONTRIBUTION_TYPES, TAX_LIMIT_TYPES } from './taxService';
+
+export const DEFAULT_TAX_ROOM_PROFILE: TaxRoomProfile = { birthYear: null, residentSince: null, fhsaOpenedYear: null };
+
+// Annual TFSA dollar limits as published by the CRA.
+export const TFSA_ANNUAL_LIMITS: Record<number, number> = {
+    2009: 5000, 2010: 5000, 2011: 5000, 2012: 5000, 2013: 5500, 2014: 5500, 2015: 10000, 2016: 5500, 2017: 5500,
+    2018: 5500, 2019: 6000, 2020: 6000, 2021: 6000, 2022: 6000, 2023: 6500, 2024: 7000, 2025: 7000, 2026: 7000
+};
+
+// RRSP dollar limit for each contribution year.
+export const RRSP_DOLLAR_LIMITS: Record<number, number> = {
+    2009: 21000, 2010: 22000, 2011: 22450, 2012: 22970, 2013: 23820, 2014: 24270, 2015: 24930, 2016: 25370, 2017: 26010,
+    2018: 26230, 2019: 26500, 2020: 27230, 2021: 27830, 2022: 29210, 2023: 30780, 2024: 31560, 2025: 32490, 2026: 33810
+};
+
+export const RRSP_EARNED_INCOME_RATE = 0.18;
+export const FHSA_ANNUAL_LIMIT = 8000;
+export const FHSA_LIFETIME_LIMIT = 40000;
+export const FHSA_MAX_CARRY_FORWARD = 8000;
+
+const TFSA_FIRST_YEAR = 2009;
+const FHSA_FIRST_YEAR = 2023;
+const TFSA_MIN_AGE = 18;
+// RRSPs must be wound up by the end of the year the holder turns 71.
+const RRSP_MAX_AGE = 71;
+
+// Ledger categories that are investment returns rather than earned income.
+const UNEARNED_INCOME_PATTERN = /dividend|interest|capital gain|investment|distribution/i;
+
+// Years past the bundled tables reuse the latest published figure.
+const lookupLimit = (table: Record<number, number>, year: number) => {
+    if (table[year] !== undefined) return table[year];
+    const years = Object.keys(table).map(Number).sort((a, b) => a - b);
+    return year < years[0] ? 0 : table[years[years.length - 1]];
+};
+
+const recordYear = (r: TaxRecord) => parseInt((r.date || '').substring(0, 4), 10);
+const isAccount = (r: TaxRecord, acc: string) => (r.recordType || '').toUpperCase().includes(acc);
+const typeOf = (r: TaxRecord) => (r.transactionType || '').toUpperCase().trim();
+
+/**
+ * Earned income per calendar year from the income ledger, leaving out investment categories.
+ */
+export const getEarnedIncomeByYear = (history: { year: number; income?: LedgerData }[]): Record<number, number> => {
+    const result: Record<number, number> = {};
+    history.forEach(({ year, income }) => {
+        if (!income) return;
+        const total = income.categories
+            .filter(c => !UNEARNED_INCOME_PATTERN.test(c.name))
+            .reduce((sum, c) => sum + c.subCategories.filter(s => !UNEARNED_INCOME_PATTERN.test(s.name)).reduce((s, sub) => s + sub.monthlyValues.reduce((a, v) => a + (v || 0), 0), 0), 0);
+        if (total > 0) result[year] = Math.round(total * 100) / 100;
+    });
+    return result;
+};
+
+/**
+ * Years whose room an entered record already sets. A LIMIT-type row replaces the computed limit for
+ * its own year; an OPENING BALANCE row stands in for every year up to and including its own.
+ */
+const getOverriddenYears = (records: TaxRecord[], acc: string) => {
+    const manual = records.filter(r => !r.computed && isAccount(r, acc) && TAX_LIMIT_TYPES.includes(typeOf(r)));
+    const opening = manual.filter(r => typeOf(r) === 'OPENING BALANCE' && !isNaN(recordYear(r)));
+    const openingYear = Math.max(-Infinity, ...opening.map(recordYear));
+    const openingValue = opening.reduce((sum, r) => sum + Math.abs(r.value || 0), 0);
+    const years = new Map<number, number>();
+    manual.filter(r => typeOf(r) !== 'OPENING BALANCE').forEach(r => {
+        const y = recordYear(r);
+        if (!isNaN(y)) years.set(y, (years.get(y) || 0) + Math.abs(r.value || 0));
+    });
+    return { openingYear, openingValue, years };
+};
+
+const computedRecord = (acc: string, year: number, value: number, description: string): TaxRecord => ({
+    id: `computed:${acc}:${year}`,
+    recordType: acc,
+    accountFund: acc,
+    transactionType: 'Limit',
+    date: `${year}-01-01`,
+    value: Math.round(value * 100) / 100,
+    description,
+    computed: true
+});
+
+const buildTfsaLimits = (profile: TaxRoomProfile, records: TaxRecord[], currentYear: number): TaxRecord[] => {
+    const start = Math.max(TFSA_FIRST_YEAR, profile.birthYear! + TFSA_MIN_AGE, profile.residentSince ?? -Infinity);
+    const { openingYear, years } = getOverriddenYears(records, 'TFSA');
+    const result: TaxRecord[] = [];
+    for (let y = start; y <= currentYear; y++) {
+        if (y <= openingYear || years.has(y)) continue;
+        result.push(computedRecord('TFSA', y, lookupLimit(TFSA_ANNUAL_LIMITS, y), `Computed · ${y} annual TFSA limit`));
+    }
+    return result;
+};
+
+const buildRrspLimits = (profile: TaxRoomProfile, records: TaxRecord[], earnedIncome: Record<number, number>, currentYear: number): TaxRecord[] => {
+    const residentSince = profile.residentSince ?? profile.birthYear!;
+    const lastYear = Math.min(currentYear, profile.birthYear! + RRSP_MAX_AGE);
+    const { openingYear, years } = getOverriddenYears(records, 'RRSP');
+    const result: TaxRecord[] = [];
+    for (let y = residentSince + 1; y <= lastYear; y++) {
+        const income = earnedIncome[y - 1];
+        if (!income || y <= openingYear || years.has(y)) continue;
+        const dollarLimit = lookupLimit(RRSP_DOLLAR_LIMITS, y);
+        const room = Math.min(income * RRSP_EARNED_INCOME_RATE, dollarLimit);
+        const basis = room < dollarLimit ? `18% of ${y - 1} earned income` : `${y} dollar limit`;
+        result.push(computedRecord('RRSP', y, room, `Computed · ${basis}`));
+    }
+    return result;
+};
+
+/**
+ * FHSA participation room: the annual limit plus at most one year of unused room carried forward,
+ * never more than the lifetime limit less what has been contributed. Room already granted but left
+ * unused past the carry-forward is forfeited, so the computed row shrinks to keep the running total right.
+ */
+const buildFhsaLimits = (profile: TaxRoomProfile, records: TaxRecord[], currentYear: number): TaxRecord[] => {
+    const start = Math.max(FHSA_FIRST_YEAR, profile.fhsaOpenedYear!);
+    const { openingYear, openingValue, years } = getOverriddenYears(records, 'FHSA');
+    const contributionsIn = (y: number) => records
+        .filter(r => isAccount(r, 'FHSA') && TAX_CONTRIBUTION_TYPES.includes(typeOf(r)) && recordYear(r) === y)
+        .reduce((sum, r) => sum + Math.abs(r.value || 0), 0);
+
+    const result: TaxRecord[] = [];
+    let granted = openingValue;
+    let contributed = 0;
+    for (let y = start; y <= currentYear; y++) {
+        const unused = granted - contributed;
+        if (y <= openingYear) {
+            // Covered by the opening balance, already counted in `granted`.
+        } else if (years.has(y)) {
+            granted += years.get(y)!;
+        } else {
+            const carry = Math.min(FHSA_MAX_CARRY_FORWARD, Math.max(0, unused));
+            // An excess contribution is absorbed by the new year's room rather than carried.
+            const available = Math.min(FHSA_ANNUAL_LIMIT + carry + Math.min(0, unused), FHSA_LIFETIME_LIMIT - contributed);
+            const increment = Math.max(0, available - unused);
+            granted += increment;
+            if (increment > 0) {
+                const note = unused > FHSA_MAX_CARRY_FORWARD ? ` · ${Math.round(unused - FHSA_MAX_CARRY_FORWARD)} unused room not carried` : '';
+                result.push(computedRecord('FHSA', y, increment, `Computed · ${y} FHSA participation room${note}`));
+            }
+        }
+        contributed += contributionsIn(y);
+    }
+    return result;
+};
+
+/**
+ * LIMIT rows derived from the room profile for every year not already covered by an entered LIMIT
+ * or OPENING BALANCE row. Returns nothing until a birth year is set; FHSA also needs its opening year.
+ */
+export const buildComputedLimits = (
+    profile: TaxRoomProfile,
+    records: TaxRecord[],
+    earnedIncome: Record<number, number>,
+    currentYear: number = new Date().getFullYear()
+): TaxRecord[] => {
+    if (!profile.birthYear) return [];
+    return [
+        ...buildTfsaLimits(profile, records, currentYear),
+        ...buildRrspLimits(profile, records, earnedIncome, currentYear),
+        ...(profile.fhsaOpenedYear ? buildFhsaLimits(profile, records, currentYear) : [])
+    ];
+};
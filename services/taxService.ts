@@ -1,4 +1,3 @@
-
 import { TaxRecord } from '../types';
 
 export const TAX_ACCOUNTS = ['TFSA', 'RRSP', 'FHSA', 'LAPP', 'RESP'];
@@ -8,34 +7,189 @@ export const TAX_LIMIT_TYPES = ['LIMIT', 'LIMIT INCREASE', 'OPENING BALANCE', 'I
 export const TAX_CONTRIBUTION_TYPES = ['CONTRIBUTION', 'DEPOSIT'];
 export const TAX_WITHDRAWAL_TYPES = ['WITHDRAWAL', 'WITHDRAW'];
 
-export const calculateTaxStats = (taxRecords: TaxRecord[]) => {
-    const stats: Record<string, { used: number, totalLimit: number, remaining: number }> = {};
-    
-    TAX_ACCOUNTS.forEach(acc => {
-        const records = taxRecords.filter(r => (r.recordType || '').toUpperCase().includes(acc));
-        
-        let limit = 0;
-        let contributions = 0;
-        let withdrawals = 0;
-
-        records.forEach(r => {
-            const type = (r.transactionType || '').toUpperCase().trim();
-            const value = Math.abs(r.value || 0);
-
-            if (TAX_LIMIT_TYPES.includes(type)) {
-                limit += value;
-            } else if (TAX_CONTRIBUTION_TYPES.includes(type)) {
-                contributions += value;
-            } else if (TAX_WITHDRAWAL_TYPES.includes(type)) {
-                withdrawals += value;
+// CRA tax on excess contributions, charged on the highest excess in each month.
+export const TAX_PENALTY_RATE = 0.01;
+// Excess tolerated before the penalty applies.
+export const OVER_CONTRIBUTION_ALLOWANCE: Record<string, number> = { RRSP: 2000 };
+// Accounts whose withdrawals only restore room on the following January 1.
+export const DEFERRED_RESTORE_ACCOUNTS = ['TFSA'];
+// Accounts whose withdrawals never give contribution room back.
+export const NO_RESTORE_ACCOUNTS = ['RRSP', 'FHSA'];
+
+export interface TaxRoomPoint {
+    date: string;
+    // Unused room less any excess; negative while over-contributed.
+    room: number;
+}
+
+export interface OverContributionEpisode {
+    since: string;
+    // Null while the excess is still in the account.
+    until: string | null;
+    excess: number;
+    peakExcess: number;
+    penalty: number;
+}
+
+export interface TaxRoomTimeline {
+    points: TaxRoomPoint[];
+    totalLimit: number;
+    room: number;
+    // Withdrawals this year that come back as room next January 1.
+    pendingRestore: number;
+    episodes: OverContributionEpisode[];
+    current: OverContributionEpisode | null;
+}
+
+type RoomEvent = { date: string; kind: 'LIMIT' | 'WITHDRAWAL' | 'CONTRIBUTION'; value: number };
+const EVENT_ORDER: Record<RoomEvent['kind'], number> = { LIMIT: 0, WITHDRAWAL: 1, CONTRIBUTION: 2 };
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const monthOf = (date: string) => date.substring(0, 7);
+const nextMonth = (month: string) => {
+    const [y, m] = month.split('-').map(Number);
+    return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, '0')}`;
+};
+
+const isOpeningBalance = (r: TaxRecord) => (r.transactionType || '').toUpperCase().trim() === 'OPENING BALANCE';
+
+/**
+ * Account records as dated room events. Limits count from January 1 of their year, since annual room
+ * exists from the start of the year; an opening balance counts from before the first record, dated or not.
+ * Other records without an ISO date can't be placed and are left out (the sheet parser reports them).
+ */
+const toRoomEvents = (records: TaxRecord[], acc: string, today: string): RoomEvent[] => {
+    const own = records.filter(r => (r.recordType || '').toUpperCase().includes(acc) && (isOpeningBalance(r) || /^\d{4}-\d{2}-\d{2}/.test(r.date || '')));
+    const dated = own.filter(r => /^\d{4}-\d{2}-\d{2}/.test(r.date || ''));
+    const earliest = dated.reduce((min, r) => r.date < min ? r.date : min, today);
+    const events: RoomEvent[] = [];
+    own.forEach(r => {
+        const type = (r.transactionType || '').toUpperCase().trim();
+        const value = Math.abs(r.value || 0);
+        if (type === 'OPENING BALANCE') events.push({ date: `${earliest.substring(0, 4)}-01-01`, kind: 'LIMIT', value });
+        else if (TAX_LIMIT_TYPES.includes(type)) events.push({ date: `${r.date.substring(0, 4)}-01-01`, kind: 'LIMIT', value });
+        else if (TAX_CONTRIBUTION_TYPES.includes(type)) events.push({ date: r.date.substring(0, 10), kind: 'CONTRIBUTION', value });
+        else if (TAX_WITHDRAWAL_TYPES.includes(type)) events.push({ date: r.date.substring(0, 10), kind: 'WITHDRAWAL', value });
+    });
+    return events.sort((a, b) => a.date.localeCompare(b.date) || EVENT_ORDER[a.kind] - EVENT_ORDER[b.kind]);
+};
+
+/**
+ * 1% of the highest taxable excess in each month the episode touches, up to `today` if still open.
+ */
+const estimatePenalty = (changes: { date: string; excess: number }[], until: string, allowance: number): number => {
+    let penalty = 0;
+    let carried = 0;
+    let i = 0;
+    for (let month = monthOf(changes[0].date); month <= monthOf(until); month = nextMonth(month)) {
+        // A change on the 1st replaces the carried excess outright, e.g. a January 1 restore.
+        let peak = changes[i]?.date === `${month}-01` ? 0 : carried;
+        while (i < changes.length && monthOf(changes[i].date) === month) {
+            peak = Math.max(peak, changes[i].excess);
+            carried = changes[i++].excess;
+        }
+        penalty += Math.max(0, peak - allowance) * TAX_PENALTY_RATE;
+    }
+    return penalty;
+};
+
+/**
+ * Replays an account's records in date order. Contributions beyond the unused room become excess;
+ * withdrawals clear excess first, and for TFSAs the rest only returns as room the next January 1
+ * (an excess-correcting withdrawal is not added back). RRSP and FHSA withdrawals restore no room.
+ * New room absorbs any standing excess.
+ */
+export const buildTaxRoomTimeline = (records: TaxRecord[], acc: string, today: string = new Date().toISOString().split('T')[0]): TaxRoomTimeline => {
+    const events = toRoomEvents(records, acc, today);
+    const deferred = DEFERRED_RESTORE_ACCOUNTS.includes(acc);
+    const restores = !NO_RESTORE_ACCOUNTS.includes(acc);
+    const allowance = OVER_CONTRIBUTION_ALLOWANCE[acc] || 0;
+
+    let totalLimit = 0;
+    let unused = 0;
+    let excess = 0;
+    let pending = 0;
+    let year = events.length > 0 ? parseInt(events[0].date.substring(0, 4), 10) : parseInt(today.substring(0, 4), 10);
+    const points: TaxRoomPoint[] = [];
+    const episodes: OverContributionEpisode[] = [];
+    let changes: { date: string; excess: number }[] = [];
+
+    const record = (date: string) => {
+        const last = points[points.length - 1];
+        const point = { date, room: round2(unused - excess) };
+        if (last && last.date === date) points[points.length - 1] = point;
+        else points.push(point);
+
+        const open = episodes[episodes.length - 1]?.until === null ? episodes[episodes.length - 1] : null;
+        if (excess > 0.005 && !open) {
+            changes = [{ date, excess }];
+            episodes.push({ since: date, until: null, excess, peakExcess: excess, penalty: 0 });
+        } else if (open && (changes[changes.length - 1].excess !== excess)) {
+            changes.push({ date, excess });
+            open.excess = excess;
+            open.peakExcess = Math.max(open.peakExcess, excess);
+            if (excess <= 0.005) {
+                open.until = date;
+                open.excess = 0;
+                open.penalty = estimatePenalty(changes, date, allowance);
+            }
+        }
+    };
+
+    const addRoom = (amount: number) => {
+        const absorbed = Math.min(excess, amount);
+        excess -= absorbed;
+        unused += amount - absorbed;
+    };
+
+    const rollTo = (targetYear: number) => {
+        while (year < targetYear) {
+            year++;
+            if (pending > 0) {
+                addRoom(pending);
+                pending = 0;
+                record(`${year}-01-01`);
             }
-        });
+        }
+    };
+
+    events.filter(e => e.date <= today).forEach(e => {
+        rollTo(parseInt(e.date.substring(0, 4), 10));
+        if (e.kind === 'LIMIT') {
+            totalLimit += e.value;
+            addRoom(e.value);
+        } else if (e.kind === 'CONTRIBUTION') {
+            const fits = Math.min(unused, e.value);
+            unused -= fits;
+            excess += e.value - fits;
+        } else {
+            const cleared = Math.min(excess, e.value);
+            excess -= cleared;
+            if (deferred) pending += e.value - cleared;
+            else if (restores) unused += e.value - cleared;
+        }
+        record(e.date);
+    });
+    rollTo(parseInt(today.substring(0, 4), 10));
+    if (points.length > 0 && points[points.length - 1].date < today) points.push({ date: today, room: round2(unused - excess) });
+
+    const current = episodes.find(ep => ep.until === null) || null;
+    if (current) current.penalty = estimatePenalty(changes, today, allowance);
+    return { points, totalLimit: round2(totalLimit), room: round2(unused - excess), pendingRestore: round2(pending), episodes, current };
+};
+
+export const calculateTaxStats = (taxRecords: TaxRecord[], today?: string) => {
+    const stats: Record<string, { used: number, totalLimit: number, remaining: number, pendingRestore: number }> = {};
+
+    TAX_ACCOUNTS.forEach(acc => {
+        const timeline = buildTaxRoomTimeline(taxRecords, acc, today);
 
-        const used = contributions - withdrawals;
+        // Remaining goes negative when over-contributed; used is whatever of the limit isn't left.
         stats[acc] = {
-            used,
-            totalLimit: limit,
-            remaining: Math.max(0, limit - used)
+            used: timeline.totalLimit - timeline.room,
+            totalLimit: timeline.totalLimit,
+            remaining: timeline.room,
+            pendingRestore: timeline.pendingRestore
         };
     });
 
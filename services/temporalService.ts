@@ -1,9 +1,11 @@
 
-import { NormalizedTransaction, LedgerData, TimeFocus, CustomDateRange, NetWorthEntry } from '../types';
+import { NormalizedTransaction, LedgerData, LedgerTransaction, TimeFocus, CustomDateRange, NetWorthEntry, SheetLocale } from '../types';
+import { getUnitemizedCells, toNormalizedTransaction } from './ledger/transactionLedgerService';
 
 const DB_NAME = 'FinTrackDB';
 const DB_VERSION = 1;
 const STORE_NAME = 'app_state';
+const TRANSACTIONS_KEY = 'fintrack_ledger_transactions';
 
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -116,9 +118,10 @@ export const getTemporalWindows = (
 
 /**
  * Normalizes year-based ledger data into a single contiguous transaction stream.
+ * Stored transactions are used as-is; grid cells only contribute the amount they don't itemize.
  * Optimized to prevent IndexedDB transaction timeouts.
  */
-export const buildUnifiedTimeline = async (): Promise<NormalizedTransaction[]> => {
+export const buildUnifiedTimeline = async (locale?: SheetLocale): Promise<NormalizedTransaction[]> => {
   const db = await openDB();
   const tx = db.transaction(STORE_NAME, 'readonly');
   const store = tx.objectStore(STORE_NAME);
@@ -128,8 +131,9 @@ export const buildUnifiedTimeline = async (): Promise<NormalizedTransaction[]> =
     keyRequest.onsuccess = async () => {
       const keys = keyRequest.result.map(String);
       const ledgerKeys = keys.filter(k => k.includes('fintrack_detailed_'));
+      const hasTransactions = keys.includes(TRANSACTIONS_KEY);
       
-      if (ledgerKeys.length === 0) {
+      if (ledgerKeys.length === 0 && !hasTransactions) {
         resolve([]);
         return;
       }
@@ -142,9 +146,15 @@ export const buildUnifiedTimeline = async (): Promise<NormalizedTransaction[]> =
           req.onerror = () => res({ key, data: undefined });
         });
       });
+      const transactionsPromise = new Promise<LedgerTransaction[]>((res) => {
+          if (!hasTransactions) return res([]);
+          const req = store.get(TRANSACTIONS_KEY);
+          req.onsuccess = () => res(Array.isArray(req.result) ? req.result : []);
+          req.onerror = () => res([]);
+      });
 
-      const results = await Promise.all(dataPromises);
-      const timeline: NormalizedTransaction[] = [];
+      const [results, transactions] = await Promise.all([Promise.all(dataPromises), transactionsPromise]);
+      const timeline: NormalizedTransaction[] = transactions.map(toNormalizedTransaction);
 
       results.forEach(({ key, data }) => {
           if (!data || !data.months || !data.categories) return;
@@ -155,23 +165,14 @@ export const buildUnifiedTimeline = async (): Promise<NormalizedTransaction[]> =
           const type = typeMatch[1] === 'income' ? 'INCOME' : 'EXPENSE';
           const year = typeMatch[2];
 
-          data.categories.forEach(cat => {
-              cat.subCategories.forEach(sub => {
-                  sub.monthlyValues.forEach((val, monthIdx) => {
-                      if (!val || val === 0) return;
-                      
-                      const monthName = data.months[monthIdx]; 
-                      const isoDate = parseMonthLabelToISO(monthName, year);
-
-                      timeline.push({
-                          id: `${key}-${cat.name}-${sub.name}-${monthIdx}`,
-                          date: isoDate,
-                          category: cat.name,
-                          subCategory: sub.name,
-                          amount: Math.abs(val),
-                          type: type as any
-                      });
-                  });
+          getUnitemizedCells(data, transactions, type, locale).forEach(cell => {
+              timeline.push({
+                  id: `${key}-${cell.category}-${cell.subCategory}-${cell.monthIndex}`,
+                  date: parseMonthLabelToISO(data.months[cell.monthIndex], year),
+                  category: cell.category,
+                  subCategory: cell.subCategory,
+                  amount: Math.abs(cell.amount),
+                  type
               });
           });
       });
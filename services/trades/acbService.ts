@@ -0,0 +1,210 @@
+import { Trade } from '../../types';
+import { getQuantityDelta, getTradeType, sortTradesChronologically } from './tradeEventService';
+
+// Share of a capital gain that is taxable in Canada.
+export const CAPITAL_GAINS_INCLUSION_RATE = 0.5;
+
+// The superficial loss window runs this many days either side of the disposition.
+export const SUPERFICIAL_LOSS_WINDOW_DAYS = 30;
+
+const EPSILON = 0.000001;
+
+export interface AcbDisposition {
+    tradeId: string;
+    ticker: string;
+    date: string;
+    taxYear: number;
+    kind: 'SALE' | 'ROC_EXCESS';
+    // Year the pooled units were first acquired, counted from the last time the position was empty.
+    yearAcquired: number;
+    quantity: number;
+    proceeds: number;
+    acb: number;
+    outlays: number;
+    // Loss added back to the ACB of the substituted shares instead of being claimed.
+    deniedLoss: number;
+    gain: number;
+    isSuperficial: boolean;
+}
+
+export interface AcbEvent {
+    trade: Trade;
+    quantity: number;
+    acb: number;
+    acbPerShare: number;
+}
+
+export interface AcbLedger {
+    ticker: string;
+    quantity: number;
+    acb: number;
+    acbPerShare: number;
+    events: AcbEvent[];
+    dispositions: AcbDisposition[];
+}
+
+export interface TaxYearGains {
+    year: number;
+    proceeds: number;
+    acb: number;
+    outlays: number;
+    gain: number;
+    deniedLoss: number;
+    taxableGain: number;
+    dispositions: AcbDisposition[];
+}
+
+const addDays = (date: string, days: number): string => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+const isAcquisition = (t: Trade) => ['BUY', 'DRIP', 'TRANSFER_IN'].includes(getTradeType(t));
+
+const hasUnitPrice = (t: Trade) => Math.abs(t.price || 0) > 0 && Math.abs(t.quantity || 0) > 0;
+
+// Priced rows are quantity × price with the fee kept apart; unpriced rows fall back to the recorded total.
+const grossValue = (t: Trade): number =>
+    hasUnitPrice(t) ? Math.abs(t.quantity) * Math.abs(t.price) : Math.abs(t.total || 0);
+
+const feeOf = (t: Trade): number => hasUnitPrice(t) ? Math.abs(t.fee || 0) : 0;
+
+/**
+ * Share of a loss that is superficial: identical units bought within 30 days either side of the sale
+ * and still held when the window closes. Returns 0..1 of the units sold.
+ */
+const superficialFraction = (sale: Trade, sorted: Trade[]): number => {
+    const sold = Math.abs(sale.quantity || 0);
+    if (sold === 0) return 0;
+    const start = addDays(sale.date, -SUPERFICIAL_LOSS_WINDOW_DAYS);
+    const end = addDays(sale.date, SUPERFICIAL_LOSS_WINDOW_DAYS);
+
+    const acquired = sorted
+        .filter(t => t !== sale && isAcquisition(t) && t.date >= start && t.date <= end)
+        .reduce((sum, t) => sum + Math.abs(t.quantity || 0), 0);
+    const heldAtEnd = sorted
+        .filter(t => t.date <= end)
+        .reduce((sum, t) => sum + getQuantityDelta(t), 0);
+
+    return Math.max(0, Math.min(sold, acquired, heldAtEnd)) / sold;
+};
+
+/**
+ * Replays one security's trades under Canadian adjusted cost base rules.
+ * Acquisitions add their cost plus fees; dispositions release ACB pro rata and realize a gain net of fees;
+ * return of capital lowers ACB and any excess below zero is a deemed gain; splits only change the unit count.
+ * Transfers move units between one's own accounts, so they carry ACB without realizing anything:
+ * the ACB released by a transfer out goes to the next transfer in, and only units beyond those
+ * are added at the incoming trade's value.
+ */
+export const buildAcbLedger = (ticker: string, trades: Trade[]): AcbLedger => {
+    const sorted = sortTradesChronologically(trades);
+    const events: AcbEvent[] = [];
+    const dispositions: AcbDisposition[] = [];
+    let quantity = 0;
+    let acb = 0;
+    let poolOpenedOn = '';
+    const inTransit = { quantity: 0, acb: 0, openedOn: '' };
+
+    sorted.forEach(t => {
+        const qty = Math.abs(t.quantity || 0);
+        const type = getTradeType(t);
+
+        if (type === 'BUY' || type === 'DRIP') {
+            if (quantity <= EPSILON) poolOpenedOn = t.date;
+            quantity += qty;
+            acb += grossValue(t) + feeOf(t);
+        } else if (type === 'TRANSFER_IN') {
+            const carried = Math.min(qty, inTransit.quantity);
+            if (quantity <= EPSILON) poolOpenedOn = carried > EPSILON ? inTransit.openedOn : t.date;
+            if (carried > EPSILON) {
+                const carriedAcb = inTransit.acb * carried / inTransit.quantity;
+                acb += carriedAcb;
+                inTransit.acb -= carriedAcb;
+                inTransit.quantity -= carried;
+            }
+            if (qty - carried > EPSILON) acb += (grossValue(t) + feeOf(t)) * (qty - carried) / qty;
+            quantity += qty;
+        } else if (type === 'SELL' || type === 'TRANSFER_OUT') {
+            const released = quantity > EPSILON ? acb * Math.min(qty, quantity) / quantity : 0;
+            if (type === 'TRANSFER_OUT') {
+                if (inTransit.quantity <= EPSILON) inTransit.openedOn = poolOpenedOn || t.date;
+                inTransit.quantity += Math.min(qty, Math.max(0, quantity));
+                inTransit.acb += released;
+            }
+            quantity -= qty;
+            acb -= released;
+            if (quantity <= EPSILON) acb = 0;
+
+            if (type === 'SELL') {
+                const proceeds = grossValue(t);
+                const outlays = feeOf(t);
+                const rawGain = proceeds - released - outlays;
+                const deniedLoss = rawGain < 0 ? -rawGain * superficialFraction(t, sorted) : 0;
+                acb += deniedLoss;
+                dispositions.push({
+                    tradeId: t.id, ticker, date: t.date, taxYear: parseInt(t.date.substring(0, 4)), kind: 'SALE',
+                    yearAcquired: parseInt((poolOpenedOn || t.date).substring(0, 4)), quantity: qty, proceeds, acb: released, outlays, deniedLoss,
+                    gain: rawGain + deniedLoss, isSuperficial: deniedLoss > EPSILON
+                });
+            }
+        } else if (type === 'SPLIT') {
+            quantity += t.quantity || 0;
+        } else if (type === 'ROC') {
+            acb -= Math.abs(t.total || 0);
+            if (acb < 0) {
+                dispositions.push({
+                    tradeId: t.id, ticker, date: t.date, taxYear: parseInt(t.date.substring(0, 4)), kind: 'ROC_EXCESS',
+                    yearAcquired: parseInt((poolOpenedOn || t.date).substring(0, 4)), quantity: 0, proceeds: -acb, acb: 0, outlays: 0, deniedLoss: 0, gain: -acb, isSuperficial: false
+                });
+                acb = 0;
+            }
+        }
+
+        events.push({ trade: t, quantity, acb, acbPerShare: quantity > EPSILON ? acb / quantity : 0 });
+    });
+
+    return { ticker, quantity, acb, acbPerShare: quantity > EPSILON ? acb / quantity : 0, events, dispositions };
+};
+
+/**
+ * One ACB ledger per security. ACB is pooled across every account holding the same ticker.
+ */
+export const buildAcbLedgers = (trades: Trade[]): AcbLedger[] => {
+    const byTicker = new Map<string, Trade[]>();
+    trades.forEach(t => {
+        const ticker = (t.ticker || 'UNKNOWN').toUpperCase();
+        byTicker.set(ticker, [...(byTicker.get(ticker) || []), t]);
+    });
+    return Array.from(byTicker.entries())
+        .map(([ticker, tickerTrades]) => buildAcbLedger(ticker, tickerTrades))
+        .sort((a, b) => a.ticker.localeCompare(b.ticker));
+};
+
+/**
+ * Realized gains rolled up by tax year, most recent first.
+ */
+export const summarizeGainsByYear = (ledgers: AcbLedger[]): TaxYearGains[] => {
+    const years = new Map<number, AcbDisposition[]>();
+    ledgers.flatMap(l => l.dispositions).forEach(d => {
+        years.set(d.taxYear, [...(years.get(d.taxYear) || []), d]);
+    });
+
+    return Array.from(years.entries())
+        .map(([year, list]) => {
+            const sum = (pick: (d: AcbDisposition) => number) => list.reduce((acc, d) => acc + pick(d), 0);
+            const gain = sum(d => d.gain);
+            return {
+                year,
+                proceeds: sum(d => d.proceeds),
+                acb: sum(d => d.acb),
+                outlays: sum(d => d.outlays),
+                gain,
+                deniedLoss: sum(d => d.deniedLoss),
+                taxableGain: gain * CAPITAL_GAINS_INCLUSION_RATE,
+                dispositions: [...list].sort((a, b) => a.date.localeCompare(b.date))
+            };
+        })
+        .sort((a, b) => b.year - a.year);
+};
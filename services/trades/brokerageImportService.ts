@@ -0,0 +1,268 @@
+import { Trade } from '../../types';
+import { parseCSVLine, parseNumber, parseFlexibleDate, resolveIndices } from '../geminiService';
+
+export type BrokerageFormat = 'QUESTRADE' | 'WEALTHSIMPLE' | 'IBKR';
+
+export const BROKERAGE_FORMATS: { id: BrokerageFormat, name: string }[] = [
+    { id: 'QUESTRADE', name: 'Questrade' },
+    { id: 'WEALTHSIMPLE', name: 'Wealthsimple' },
+    { id: 'IBKR', name: 'Interactive Brokers' }
+];
+
+export interface StatementRow {
+    lineNumber: number;
+    raw: string[];
+    trade: Trade | null;
+    issue?: string;
+}
+
+export interface StatementPreview {
+    format: BrokerageFormat;
+    rows: StatementRow[];
+}
+
+const normalize = (str: string) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const cell = (values: string[], idx: number) => (idx !== -1 ? values[idx] || '' : '').trim();
+
+// IBKR Flex queries emit compact YYYYMMDD dates that the shared parser does not accept.
+const parseStatementDate = (val: string): string | null => {
+    const compact = val.trim().match(/^(\d{4})(\d{2})(\d{2})(?:[;,\s].*)?$/);
+    if (compact) return parseFlexibleDate(`${compact[1]}-${compact[2]}-${compact[3]}`);
+    return parseFlexibleDate(val);
+};
+
+const classifySide = (raw: string): 'BUY' | 'SELL' | null => {
+    const s = raw.toUpperCase();
+    if (/\b(BUY|BOUGHT|BOT)\b/.test(s)) return 'BUY';
+    if (/\b(SELL|SOLD|SLD)\b/.test(s)) return 'SELL';
+    return null;
+};
+
+/**
+ * Normalizes a classified statement line into the app's Trade shape.
+ * Mirrors TradeEntryModal: sells carry a negative quantity and the total is settlement-inclusive of fees.
+ */
+const buildTrade = (
+    date: string, settlementDate: string | null, ticker: string, type: 'BUY' | 'SELL',
+    quantity: number, price: number, fee: number, netAmount: number
+): Trade => {
+    const qty = Math.abs(quantity);
+    const commission = Math.abs(fee);
+    let unitPrice = Math.abs(price);
+    let total = Math.abs(netAmount);
+    if (unitPrice === 0 && qty !== 0 && total !== 0) unitPrice = (type === 'BUY' ? total - commission : total + commission) / qty;
+    if (total === 0) total = qty * unitPrice + (type === 'BUY' ? commission : -commission);
+    return {
+        id: crypto.randomUUID(),
+        date,
+        settlementDate: settlementDate || undefined,
+        ticker: ticker.toUpperCase(),
+        type,
+        quantity: type === 'SELL' ? -qty : qty,
+        price: unitPrice,
+        total,
+        fee: commission
+    };
+};
+
+const validateTrade = (date: string | null, ticker: string, quantity: number): string | undefined => {
+    if (!date) return 'Unreadable trade date';
+    if (!ticker) return 'Missing symbol';
+    if (quantity === 0) return 'Zero quantity';
+    return undefined;
+};
+
+const findHeaderRow = (lines: string[]): number => {
+    for (let i = 0; i < Math.min(lines.length, 25); i++) {
+        const values = parseCSVLine(lines[i]);
+        if (values.filter(v => v !== '').length >= 3) return i;
+    }
+    return -1;
+};
+
+// --- Questrade ---
+
+const parseQuestrade = (lines: string[]): StatementRow[] => {
+    const headerIdx = findHeaderRow(lines);
+    if (headerIdx === -1) return [];
+    const idx = resolveIndices(parseCSVLine(lines[headerIdx]), {
+        date: ['transaction date', 'trade date', 'date'],
+        settlement: ['settlement date'],
+        action: ['action'],
+        activity: ['activity type'],
+        symbol: ['symbol'],
+        qty: ['quantity'],
+        price: ['price'],
+        commission: ['commission'],
+        net: ['net amount']
+    });
+
+    const rows: StatementRow[] = [];
+    for (let i = headerIdx + 1; i < lines.length; i++) {
+        const values = parseCSVLine(lines[i]);
+        if (values.every(v => v === '')) continue;
+        const action = cell(values, idx.action);
+        const type = classifySide(action);
+        if (!type) {
+            rows.push({ lineNumber: i + 1, raw: values, trade: null, issue: `Non-trade activity: ${action || cell(values, idx.activity) || 'blank'}` });
+            continue;
+        }
+        const date = parseStatementDate(cell(values, idx.date));
+        const ticker = cell(values, idx.symbol);
+        const quantity = parseNumber(cell(values, idx.qty));
+        const issue = validateTrade(date, ticker, quantity);
+        rows.push({
+            lineNumber: i + 1, raw: values, issue,
+            trade: issue ? null : buildTrade(date!, parseStatementDate(cell(values, idx.settlement)), ticker, type, quantity, parseNumber(cell(values, idx.price)), parseNumber(cell(values, idx.commission)), parseNumber(cell(values, idx.net)))
+        });
+    }
+    return rows;
+};
+
+// --- Wealthsimple ---
+
+// Legacy activity exports only describe the fill in prose, e.g. "VFV - Vanguard S&P 500: Bought 10.0000 shares (executed at 2024-01-05)"
+const WS_DESCRIPTION = /^([A-Z0-9.\-]+)\s*-.*?\b(Bought|Sold)\s+([\d.,]+)\s+shares?/i;
+
+const parseWealthsimple = (lines: string[]): StatementRow[] => {
+    const headerIdx = findHeaderRow(lines);
+    if (headerIdx === -1) return [];
+    const idx = resolveIndices(parseCSVLine(lines[headerIdx]), {
+        date: ['transaction date', 'date'],
+        settlement: ['settlement date'],
+        activity: ['activity type', 'transaction'],
+        subType: ['activity sub type'],
+        direction: ['direction'],
+        symbol: ['symbol'],
+        qty: ['quantity'],
+        price: ['unit price'],
+        commission: ['commission'],
+        net: ['net cash amount', 'amount'],
+        description: ['description', 'name']
+    });
+
+    const rows: StatementRow[] = [];
+    for (let i = headerIdx + 1; i < lines.length; i++) {
+        const values = parseCSVLine(lines[i]);
+        if (values.every(v => v === '')) continue;
+        const activity = cell(values, idx.activity);
+        const description = cell(values, idx.description);
+        const type = classifySide(`${cell(values, idx.subType)} ${cell(values, idx.direction)}`) || classifySide(activity);
+        if (!type) {
+            rows.push({ lineNumber: i + 1, raw: values, trade: null, issue: `Non-trade activity: ${activity || 'blank'}` });
+            continue;
+        }
+
+        let ticker = cell(values, idx.symbol);
+        let quantity = parseNumber(cell(values, idx.qty));
+        if (!ticker || quantity === 0) {
+            const match = description.match(WS_DESCRIPTION);
+            if (match) {
+                ticker = ticker || match[1];
+                quantity = quantity || parseNumber(match[3]);
+            }
+        }
+        const date = parseStatementDate(cell(values, idx.date));
+        const issue = validateTrade(date, ticker, quantity);
+        rows.push({
+            lineNumber: i + 1, raw: values, issue,
+            trade: issue ? null : buildTrade(date!, parseStatementDate(cell(values, idx.settlement)), ticker, type, quantity, parseNumber(cell(values, idx.price)), parseNumber(cell(values, idx.commission)), parseNumber(cell(values, idx.net)))
+        });
+    }
+    return rows;
+};
+
+// --- Interactive Brokers ---
+
+const IBKR_MAPPING = {
+    date: ['date/time', 'trade date', 'date'],
+    settlement: ['settle date target', 'settle date'],
+    symbol: ['symbol'],
+    qty: ['quantity'],
+    price: ['t. price', 'trade price', 'price'],
+    commission: ['comm/fee', 'ib commission', 'commission'],
+    proceeds: ['proceeds', 'net cash'],
+    side: ['buy/sell'],
+    category: ['asset category', 'asset class']
+};
+
+const classifyIbkrRow = (values: string[], idx: Record<string, number>, lineNumber: number): StatementRow => {
+    const category = cell(values, idx.category).toUpperCase();
+    if (category && !['STOCKS', 'STK', 'EQUITY AND INDEX OPTIONS', 'OPT', 'FUND', 'ETF', 'CRYPTO'].includes(category)) {
+        return { lineNumber, raw: values, trade: null, issue: `Unsupported asset category: ${cell(values, idx.category)}` };
+    }
+    const quantity = parseNumber(cell(values, idx.qty));
+    const type = classifySide(cell(values, idx.side)) || (quantity < 0 ? 'SELL' : quantity > 0 ? 'BUY' : null);
+    const date = parseStatementDate(cell(values, idx.date));
+    const ticker = cell(values, idx.symbol);
+    const issue = validateTrade(date, ticker, quantity) || (!type ? 'Could not determine buy/sell side' : undefined);
+    // Proceeds are reported gross of commission, so only fall back to them when no fill price exists.
+    const price = parseNumber(cell(values, idx.price));
+    const proceeds = price === 0 ? parseNumber(cell(values, idx.proceeds)) : 0;
+    return {
+        lineNumber, raw: values, issue,
+        trade: issue ? null : buildTrade(date!, parseStatementDate(cell(values, idx.settlement)), ticker, type!, quantity, price, parseNumber(cell(values, idx.commission)), proceeds)
+    };
+};
+
+const parseIbkr = (lines: string[]): StatementRow[] => {
+    const rows: StatementRow[] = [];
+    const isActivityStatement = lines.some(l => l.startsWith('Trades,Header'));
+
+    if (isActivityStatement) {
+        // Activity statements interleave sections; only the "Trades" section carries executions.
+        let idx: Record<string, number> | null = null;
+        for (let i = 0; i < lines.length; i++) {
+            const values = parseCSVLine(lines[i]);
+            if (values[0] !== 'Trades') continue;
+            if (values[1] === 'Header') { idx = resolveIndices(values.slice(2), IBKR_MAPPING); continue; }
+            if (values[1] !== 'Data' || !idx) continue;
+            const payload = values.slice(2);
+            if (normalize(payload[0] || '') !== 'order') continue;
+            rows.push(classifyIbkrRow(payload, idx, i + 1));
+        }
+        return rows;
+    }
+
+    const headerIdx = findHeaderRow(lines);
+    if (headerIdx === -1) return [];
+    const idx = resolveIndices(parseCSVLine(lines[headerIdx]), IBKR_MAPPING);
+    for (let i = headerIdx + 1; i < lines.length; i++) {
+        const values = parseCSVLine(lines[i]);
+        if (values.every(v => v === '')) continue;
+        rows.push(classifyIbkrRow(values, idx, i + 1));
+    }
+    return rows;
+};
+
+/**
+ * Sniffs the statement layout from its header row(s).
+ */
+export const detectBrokerageFormat = (rawData: string): BrokerageFormat | null => {
+    const lines = rawData.replace(/^\uFEFF/, '').split(/\r?\n/);
+    if (lines.some(l => l.startsWith('Trades,Header'))) return 'IBKR';
+    const headerIdx = findHeaderRow(lines);
+    if (headerIdx === -1) return null;
+    const headers = parseCSVLine(lines[headerIdx]).map(normalize);
+    const has = (key: string) => headers.includes(key);
+    if (has('tprice') || has('ibcommission') || has('tradeprice') || has('buysell')) return 'IBKR';
+    if (has('activitysubtype') || has('netcashamount') || (has('transaction') && has('description') && has('balance'))) return 'WEALTHSIMPLE';
+    if (has('action') && (has('activitytype') || has('netamount'))) return 'QUESTRADE';
+    return null;
+};
+
+/**
+ * Parses a brokerage activity export into a reviewable preview.
+ * Rows that cannot be mapped to a BUY/SELL are kept with an issue so the user can see what was dropped.
+ */
+export const parseBrokerageStatement = (rawData: string, format?: BrokerageFormat): StatementPreview => {
+    const resolved = format || detectBrokerageFormat(rawData);
+    if (!resolved) throw new Error("Unrecognized statement layout. Select the brokerage manually.");
+    const lines = rawData.replace(/^\uFEFF/, '').split(/\r?\n/);
+    switch (resolved) {
+        case 'QUESTRADE': return { format: resolved, rows: parseQuestrade(lines) };
+        case 'WEALTHSIMPLE': return { format: resolved, rows: parseWealthsimple(lines) };
+        case 'IBKR': return { format: resolved, rows: parseIbkr(lines) };
+    }
+};
@@ -0,0 +1,192 @@
+import { Trade } from '../../types';
+import { PRIMARY_CURRENCY, fetchHistoricalRates } from '../currencyService';
+import { buildAcbLedgers, summarizeGainsByYear, TaxYearGains, AcbDisposition } from './acbService';
+import { isRegisteredAccount } from './tradeEventService';
+
+// Daily CAD multipliers per foreign currency, keyed by ISO date.
+export type TradeFxRates = Record<string, Record<string, number>>;
+
+export interface CapitalGainsLine {
+    taxYear: number;
+    dateSold: string;
+    description: string;
+    yearAcquired: number;
+    proceeds: number;
+    acb: number;
+    outlays: number;
+    gain: number;
+    deniedLoss: number;
+    currency: string;
+    fxRate: number;
+}
+
+export interface CapitalGainsYear extends TaxYearGains {
+    lines: CapitalGainsLine[];
+}
+
+export interface CapitalGainsReport {
+    years: CapitalGainsYear[];
+    // Foreign trades left unconverted because no rate was found on or before their date.
+    missingRates: string[];
+    // Trades held in registered accounts, which are not part of the report.
+    excludedTrades: number;
+    generatedAt: string;
+}
+
+const tradeCurrency = (t: Trade) => (t.currency || PRIMARY_CURRENCY).toUpperCase();
+
+export const getForeignCurrencies = (trades: Trade[]): string[] =>
+    Array.from(new Set(trades.map(tradeCurrency))).filter(c => c !== PRIMARY_CURRENCY);
+
+/**
+ * Fetches the daily rate history covering every foreign-currency trade.
+ * The window opens a week early so a trade on a weekend or holiday still finds the prior business day.
+ */
+export const loadTradeFxRates = async (trades: Trade[]): Promise<TradeFxRates> => {
+    const fx: TradeFxRates = {};
+    for (const currency of getForeignCurrencies(trades)) {
+        const dates = trades.filter(t => tradeCurrency(t) === currency).map(t => t.date).sort();
+        const start = new Date(dates[0]);
+        start.setDate(start.getDate() - 7);
+        fx[currency] = await fetchHistoricalRates(currency, start.toISOString().split('T')[0], dates[dates.length - 1]);
+    }
+    return fx;
+};
+
+/**
+ * The published rate for `date`, else the most recent one before it.
+ */
+export const rateOnDate = (rates: Record<string, number> | undefined, date: string): number | null => {
+    if (!rates) return null;
+    if (rates[date]) return rates[date];
+    const prior = Object.keys(rates).filter(d => d <= date).sort().pop();
+    return prior ? rates[prior] : null;
+};
+
+/**
+ * Restates foreign trades in CAD at their trade-date rate, as the ACB rules require.
+ */
+export const convertTradesToBase = (trades: Trade[], fx: TradeFxRates): { trades: Trade[]; rates: Record<string, number>; missing: string[] } => {
+    const rates: Record<string, number> = {};
+    const missing: string[] = [];
+    const converted = trades.map(t => {
+        const currency = tradeCurrency(t);
+        if (currency === PRIMARY_CURRENCY) return t;
+        const rate = rateOnDate(fx[currency], t.date);
+        if (rate === null) {
+            missing.push(`${t.ticker} ${t.date} (${currency})`);
+            return t;
+        }
+        rates[t.id] = rate;
+        return {
+            ...t,
+            price: t.price * rate,
+            total: t.total * rate,
+            fee: t.fee !== undefined ? t.fee * rate : undefined,
+            marketPrice: t.marketPrice !== undefined ? t.marketPrice * rate : undefined
+        };
+    });
+    return { trades: converted, rates, missing };
+};
+
+const describe = (d: AcbDisposition): string =>
+    d.kind === 'ROC_EXCESS'
+        ? `${d.ticker} - return of capital in excess of ACB`
+        : `${d.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })} units of ${d.ticker}`;
+
+/**
+ * Schedule 3 style capital gains report: one line per disposition, in CAD, grouped by tax year.
+ * Trades in registered accounts are left out, including from the superficial loss checks.
+ */
+export const buildCapitalGainsReport = (allTrades: Trade[], fx: TradeFxRates = {}): CapitalGainsReport => {
+    const trades = allTrades.filter(t => !isRegisteredAccount(t.account));
+    const { trades: converted, rates, missing } = convertTradesToBase(trades, fx);
+    const byId = new Map(trades.map(t => [t.id, t]));
+
+    const years = summarizeGainsByYear(buildAcbLedgers(converted)).map(year => ({
+        ...year,
+        lines: year.dispositions.map(d => ({
+            taxYear: d.taxYear,
+            dateSold: d.date,
+            description: describe(d),
+            yearAcquired: d.yearAcquired,
+            proceeds: d.proceeds,
+            acb: d.acb,
+            outlays: d.outlays,
+            gain: d.gain,
+            deniedLoss: d.deniedLoss,
+            currency: tradeCurrency(byId.get(d.tradeId) || ({} as Trade)),
+            fxRate: rates[d.tradeId] || 1
+        }))
+    }));
+
+    return { years, missingRates: missing, excludedTrades: allTrades.length - trades.length, generatedAt: new Date().toISOString() };
+};
+
+const csvCell = (val: string | number) => {
+    const s = typeof val === 'number' ? val.toFixed(2) : val;
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const capitalGainsReportToCsv = (report: CapitalGainsReport, year?: number): string => {
+    const header = ['Tax Year', 'Date Sold', 'Description', 'Year Acquired', 'Proceeds of Disposition', 'Adjusted Cost Base', 'Outlays and Expenses', 'Gain (Loss)', 'Superficial Loss Denied', 'Currency', 'FX Rate'];
+    const rows: (string | number)[][] = [header];
+    report.years.filter(y => year === undefined || y.year === year).forEach(y => {
+        y.lines.forEach(l => rows.push([String(l.taxYear), l.dateSold, l.description, String(l.yearAcquired), l.proceeds, l.acb, l.outlays, l.gain, l.deniedLoss, l.currency, l.fxRate.toFixed(4)]));
+        rows.push([String(y.year), '', 'Total', '', y.proceeds, y.acb, y.outlays, y.gain, y.deniedLoss, PRIMARY_CURRENCY, '']);
+    });
+    return rows.map(r => r.map(csvCell).join(',')).join('\n');
+};
+
+export const downloadCapitalGainsCsv = (report: CapitalGainsReport, year?: number) => {
+    const blob = new Blob([capitalGainsReportToCsv(report, year)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Sheetsense_Capital_Gains_${year ?? 'All'}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const money = (val: number) => val.toLocaleString('en-CA', { style: 'currency', currency: PRIMARY_CURRENCY });
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Opens the report in a new window laid out for printing, so it can be saved as PDF from the print dialog.
+ */
+export const printCapitalGainsReport = (report: CapitalGainsReport, year?: number) => {
+    const win = window.open('', '_blank');
+    if (!win) throw new Error("Pop-up blocked. Allow pop-ups to print the report.");
+
+    const sections = report.years.filter(y => year === undefined || y.year === year).map(y => `
+        <h2>Tax Year ${y.year}</h2>
+        <table>
+            <thead><tr><th>Date Sold</th><th>Description</th><th>Year Acquired</th><th>Proceeds</th><th>ACB</th><th>Outlays &amp; Expenses</th><th>Gain (Loss)</th></tr></thead>
+            <tbody>
+                ${y.lines.map(l => `<tr><td>${l.dateSold}</td><td>${escapeHtml(l.description)}${l.currency !== PRIMARY_CURRENCY ? ` <small>(${escapeHtml(l.currency)} @ ${l.fxRate.toFixed(4)})</small>` : ''}${l.deniedLoss > 0 ? ` <small>(superficial loss ${money(l.deniedLoss)} denied)</small>` : ''}</td><td>${l.yearAcquired}</td><td>${money(l.proceeds)}</td><td>${money(l.acb)}</td><td>${money(l.outlays)}</td><td>${money(l.gain)}</td></tr>`).join('')}
+            </tbody>
+            <tfoot><tr><td colspan="3">Total</td><td>${money(y.proceeds)}</td><td>${money(y.acb)}</td><td>${money(y.outlays)}</td><td>${money(y.gain)}</td></tr>
+            <tr><td colspan="6">Taxable capital gain</td><td>${money(y.taxableGain)}</td></tr></tfoot>
+        </table>`).join('');
+
+    win.document.write(`<!DOCTYPE html><html><head><title>Capital Gains Report</title><style>
+        body { font-family: system-ui, sans-serif; color: #0f172a; padding: 32px; }
+        h1 { font-size: 20px; margin: 0 0 4px; } h2 { font-size: 15px; margin: 28px 0 8px; }
+        p { font-size: 11px; color: #64748b; margin: 0; }
+        table { width: 100%; border-collapse: collapse; font-size: 11px; }
+        th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; text-align: right; }
+        th:nth-child(-n+2), td:nth-child(-n+2) { text-align: left; }
+        tfoot td { font-weight: 700; }
+        small { color: #64748b; }
+    </style></head><body>
+        <h1>Capital Gains (Losses) - Schedule 3</h1>
+        <p>All amounts in ${PRIMARY_CURRENCY}. Generated ${report.generatedAt.split('T')[0]}.</p>
+        ${report.missingRates.length ? `<p>No exchange rate found for: ${escapeHtml(report.missingRates.join(', '))}. These trades are shown unconverted.</p>` : ''}
+        ${sections}
+    </body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
+};
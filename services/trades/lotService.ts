@@ -0,0 +1,200 @@
+import { Trade, LotMethod } from '../../types';
+import { getTradeType, normalizeAccountName, sortTradesChronologically } from './tradeEventService';
+
+const EPSILON = 0.000001;
+
+export interface TaxLot {
+    // Stable across syncs: acquisition date plus the order of acquisitions on that date, e.g. 2024-03-01#2.
+    // Unique within one account's position, not across accounts.
+    id: string;
+    ticker: string;
+    account?: string;
+    date: string;
+    tradeId: string;
+    quantity: number;
+    remaining: number;
+    // Cost of the units still open, fees included.
+    cost: number;
+}
+
+export interface LotDisposal {
+    tradeId: string;
+    lotId: string;
+    date: string;
+    quantity: number;
+    proceeds: number;
+    cost: number;
+    gain: number;
+    holdingDays: number;
+}
+
+export interface LotLedger {
+    ticker: string;
+    lots: TaxLot[];
+    disposals: LotDisposal[];
+}
+
+export interface OpenLotSummary {
+    lot: TaxLot;
+    costPerUnit: number;
+    marketValue: number;
+    unrealizedGain: number;
+    holdingDays: number;
+}
+
+export interface HoldingLotSummary {
+    ticker: string;
+    quantity: number;
+    cost: number;
+    marketValue: number;
+    realizedGain: number;
+    unrealizedGain: number;
+    openLots: OpenLotSummary[];
+}
+
+const daysBetween = (from: string, to: string): number =>
+    Math.max(0, Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 86400000));
+
+const unitValue = (t: Trade): number => {
+    const qty = Math.abs(t.quantity || 0);
+    const price = Math.abs(t.price || 0);
+    return price > 0 && qty > 0 ? qty * price : Math.abs(t.total || 0);
+};
+
+const fee = (t: Trade): number => Math.abs(t.price || 0) > 0 ? Math.abs(t.fee || 0) : 0;
+
+/**
+ * Order in which open lots are drawn down: the lot named on the trade first, then by method.
+ */
+const matchingOrder = (lots: TaxLot[], method: LotMethod, lotId?: string): TaxLot[] => {
+    const open = lots.filter(l => l.remaining > EPSILON);
+    const ordered = method === 'LIFO' ? [...open].reverse() : open;
+    const picked = lotId ? ordered.find(l => l.id === lotId) : undefined;
+    return picked ? [picked, ...ordered.filter(l => l !== picked)] : ordered;
+};
+
+/**
+ * Records every acquisition as a lot and matches outflows against the same account's lots.
+ * Splits rescale open lots, return of capital lowers their cost, and transfers out close units without a gain.
+ * Units transferred out are carried to the next transfers in with their cost and acquisition dates;
+ * only units beyond what was transferred out open a new lot at the incoming trade's value.
+ */
+export const buildLotLedger = (ticker: string, trades: Trade[], method: LotMethod = 'FIFO'): LotLedger => {
+    const lots: TaxLot[] = [];
+    const disposals: LotDisposal[] = [];
+    const perDate = new Map<string, number>();
+    const moved: { date: string; quantity: number; cost: number }[] = [];
+
+    const openLot = (t: Trade, date: string, quantity: number, cost: number) => {
+        const key = `${normalizeAccountName(t.account)}|${date}`;
+        const ordinal = (perDate.get(key) || 0) + 1;
+        perDate.set(key, ordinal);
+        lots.push({ id: `${date}#${ordinal}`, ticker, account: t.account, date, tradeId: t.id, quantity, remaining: quantity, cost });
+    };
+
+    sortTradesChronologically(trades).forEach(t => {
+        const qty = Math.abs(t.quantity || 0);
+        const type = getTradeType(t);
+        const account = normalizeAccountName(t.account);
+        const accountLots = lots.filter(l => normalizeAccountName(l.account) === account);
+
+        if (type === 'BUY' || type === 'DRIP') {
+            openLot(t, t.date, qty, unitValue(t) + fee(t));
+        } else if (type === 'TRANSFER_IN') {
+            let left = qty;
+            while (moved.length > 0 && left > EPSILON) {
+                const piece = moved[0];
+                const take = Math.min(left, piece.quantity);
+                const cost = piece.cost * take / piece.quantity;
+                piece.quantity -= take;
+                piece.cost -= cost;
+                if (piece.quantity <= EPSILON) moved.shift();
+                left -= take;
+                openLot(t, piece.date, take, cost);
+            }
+            if (left > EPSILON) openLot(t, t.date, left, (unitValue(t) + fee(t)) * left / qty);
+        } else if (type === 'SELL' || type === 'TRANSFER_OUT') {
+            const proceedsPerUnit = qty > 0 ? (unitValue(t) - fee(t)) / qty : 0;
+            let left = qty;
+            for (const lot of matchingOrder(accountLots, method, t.lotId)) {
+                if (left <= EPSILON) break;
+                const take = Math.min(left, lot.remaining);
+                const cost = lot.cost * take / lot.remaining;
+                lot.remaining -= take;
+                lot.cost -= cost;
+                left -= take;
+                if (type === 'SELL') {
+                    const proceeds = proceedsPerUnit * take;
+                    disposals.push({ tradeId: t.id, lotId: lot.id, date: t.date, quantity: take, proceeds, cost, gain: proceeds - cost, holdingDays: daysBetween(lot.date, t.date) });
+                } else {
+                    moved.push({ date: lot.date, quantity: take, cost });
+                }
+            }
+        } else if (type === 'SPLIT') {
+            const open = accountLots.filter(l => l.remaining > EPSILON);
+            const held = open.reduce((sum, l) => sum + l.remaining, 0);
+            if (held > EPSILON) {
+                const ratio = (held + (t.quantity || 0)) / held;
+                open.forEach(l => { l.remaining *= ratio; l.quantity *= ratio; });
+            }
+        } else if (type === 'ROC') {
+            const open = accountLots.filter(l => l.remaining > EPSILON);
+            const held = open.reduce((sum, l) => sum + l.remaining, 0);
+            const amount = Math.abs(t.total || 0);
+            open.forEach(l => { l.cost = Math.max(0, l.cost - amount * l.remaining / held); });
+        }
+    });
+
+    return { ticker, lots, disposals };
+};
+
+/**
+ * Realized and unrealized P&L of one holding, with each open lot valued at `price`.
+ */
+export const summarizeHoldingLots = (ledger: LotLedger, price: number, today: string = new Date().toISOString().split('T')[0]): HoldingLotSummary => {
+    const openLots = ledger.lots
+        .filter(l => l.remaining > EPSILON)
+        .map(lot => {
+            const marketValue = lot.remaining * price;
+            return { lot, costPerUnit: lot.cost / lot.remaining, marketValue, unrealizedGain: marketValue - lot.cost, holdingDays: daysBetween(lot.date, today) };
+        });
+    const sum = (pick: (l: OpenLotSummary) => number) => openLots.reduce((acc, l) => acc + pick(l), 0);
+
+    return {
+        ticker: ledger.ticker,
+        quantity: sum(l => l.lot.remaining),
+        cost: sum(l => l.lot.cost),
+        marketValue: sum(l => l.marketValue),
+        realizedGain: ledger.disposals.reduce((acc, d) => acc + d.gain, 0),
+        unrealizedGain: sum(l => l.unrealizedGain),
+        openLots
+    };
+};
+
+/**
+ * Lot summary of a ticker across every account holding it. Each account's trades are matched
+ * against that account's lots only, so a sale in one account never draws down another's.
+ */
+export const summarizeLotsAcrossAccounts = (ticker: string, trades: Trade[], method: LotMethod, price: number): HoldingLotSummary => {
+    const summary = summarizeHoldingLots(buildLotLedger(ticker, trades, method), price);
+    return { ...summary, openLots: [...summary.openLots].sort((a, b) => a.lot.date.localeCompare(b.lot.date)) };
+};
+
+/**
+ * Lots open in one account just before `date`, for picking which lot a sell should draw from.
+ * `excludeTradeId` leaves out the trade being edited so it does not consume its own lot.
+ */
+export const getOpenLotsAt = (ticker: string, account: string | undefined, trades: Trade[], date: string, method: LotMethod, excludeTradeId?: string): TaxLot[] => {
+    const key = ticker.toUpperCase();
+    const accountKey = normalizeAccountName(account);
+    const prior = trades.filter(t => t.ticker.toUpperCase() === key && t.date <= date && t.id !== excludeTradeId);
+    return buildLotLedger(key, prior, method).lots.filter(l => l.remaining > EPSILON && normalizeAccountName(l.account) === accountKey);
+};
+
+export const formatHoldingPeriod = (days: number): string => {
+    const years = Math.floor(days / 365);
+    const months = Math.floor((days % 365) / 30);
+    if (years > 0) return `${years}y ${months}m`;
+    if (months > 0) return `${months}m ${days % 30}d`;
+    return `${days}d`;
+};
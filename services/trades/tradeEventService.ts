@@ -0,0 +1,114 @@
+import { Trade, TradeType } from '../../types';
+import { TAX_ACCOUNTS } from '../taxService';
+
+export const TRADE_TYPES: TradeType[] = ['BUY', 'SELL', 'DIVIDEND', 'DRIP', 'SPLIT', 'ROC', 'TRANSFER_IN', 'TRANSFER_OUT'];
+
+export const TRADE_TYPE_LABELS: Record<TradeType, string> = {
+    BUY: 'Buy',
+    SELL: 'Sell',
+    DIVIDEND: 'Dividend',
+    DRIP: 'DRIP',
+    SPLIT: 'Split',
+    ROC: 'Return of Capital',
+    TRANSFER_IN: 'Transfer In',
+    TRANSFER_OUT: 'Transfer Out'
+};
+
+export interface PositionState {
+    quantity: number;
+    cost: number;
+}
+
+/**
+ * Maps a free-text action cell ("Reinvested Dividend", "Transfer Out", "SOLD") to a trade type.
+ * A negative quantity marks an outflow when the text alone does not say which way.
+ */
+export const parseTradeType = (raw: string, quantity: number = 0): TradeType => {
+    const s = (raw || '').toUpperCase().replace(/[_-]/g, ' ').trim();
+    if (/\bDRIP\b|REINVEST/.test(s)) return 'DRIP';
+    if (/\bSPLIT\b/.test(s)) return 'SPLIT';
+    if (/\bROC\b|RETURN OF CAPITAL|CAPITAL RETURN/.test(s)) return 'ROC';
+    if (/\bDIV|DISTRIBUTION/.test(s)) return 'DIVIDEND';
+    if (/TRANSFER|\bTFR\b|\bXFER\b|JOURNAL/.test(s)) {
+        if (/\bOUT\b/.test(s)) return 'TRANSFER_OUT';
+        if (/\bIN\b/.test(s)) return 'TRANSFER_IN';
+        return quantity < 0 ? 'TRANSFER_OUT' : 'TRANSFER_IN';
+    }
+    if (s.includes('SELL') || s.includes('SOLD') || s.includes('OUT') || quantity < 0) return 'SELL';
+    return 'BUY';
+};
+
+export const normalizeAccountName = (account?: string): string => (account || '').toUpperCase().trim();
+
+/**
+ * Registered (tax-sheltered) accounts such as "TFSA - Questrade"; their trades carry no capital gains.
+ */
+export const isRegisteredAccount = (account?: string): boolean => {
+    const name = normalizeAccountName(account);
+    return !!name && TAX_ACCOUNTS.some(acc => name.includes(acc));
+};
+
+/**
+ * Identity of a position: the same ticker in two accounts is two positions.
+ * Trades without an account share one position per ticker.
+ */
+export const getPositionKey = (ticker: string, account?: string): string =>
+    `${normalizeAccountName(account)}|${(ticker || '').toUpperCase().trim()}`;
+
+export const getTradeType = (t: Trade): TradeType => {
+    const type = (t.type || 'BUY').toUpperCase().trim() as TradeType;
+    return TRADE_TYPES.includes(type) ? type : 'BUY';
+};
+
+// Dividend, ROC and split rows carry no market price per unit.
+export const carriesUnitPrice = (t: Trade): boolean => !['DIVIDEND', 'ROC', 'SPLIT'].includes(getTradeType(t));
+
+/**
+ * Signed change in units held. Splits carry the share delta itself, so a reverse split is negative.
+ */
+export const getQuantityDelta = (t: Trade): number => {
+    const qty = Math.abs(t.quantity || 0);
+    switch (getTradeType(t)) {
+        case 'BUY': case 'DRIP': case 'TRANSFER_IN': return qty;
+        case 'SELL': case 'TRANSFER_OUT': return -qty;
+        case 'SPLIT': return t.quantity || 0;
+        default: return 0;
+    }
+};
+
+/**
+ * Cash received without touching the position: dividends paid out and return of capital.
+ */
+export const getDistributionAmount = (t: Trade): number => {
+    const type = getTradeType(t);
+    return type === 'DIVIDEND' || type === 'ROC' ? Math.abs(t.total || 0) : 0;
+};
+
+/**
+ * Rolls one event into a running position on the average-cost method.
+ * Outflows release cost pro rata; ROC lowers cost (never below zero); splits and dividends leave it alone.
+ */
+export const applyTradeEvent = (pos: PositionState, t: Trade): PositionState => {
+    const qty = Math.abs(t.quantity || 0);
+    const amount = Math.abs(t.total || 0);
+    switch (getTradeType(t)) {
+        case 'BUY': case 'DRIP': case 'TRANSFER_IN':
+            return { quantity: pos.quantity + qty, cost: pos.cost + amount };
+        case 'SELL': case 'TRANSFER_OUT': {
+            const released = pos.quantity > 0 ? pos.cost * Math.min(qty, pos.quantity) / pos.quantity : 0;
+            return { quantity: pos.quantity - qty, cost: pos.cost - released };
+        }
+        case 'SPLIT':
+            return { quantity: pos.quantity + (t.quantity || 0), cost: pos.cost };
+        case 'ROC':
+            return { quantity: pos.quantity, cost: Math.max(0, pos.cost - amount) };
+        default:
+            return pos;
+    }
+};
+
+export const sortTradesChronologically = (trades: Trade[]): Trade[] =>
+    [...trades].sort((a, b) => a.date.localeCompare(b.date));
+
+export const buildPosition = (trades: Trade[]): PositionState =>
+    sortTradesChronologically(trades).reduce(applyTradeEvent, { quantity: 0, cost: 0 });
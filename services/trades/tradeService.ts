@@ -1,41 +1,50 @@
 
-import { Trade, TimeFocus } from '../../types';
+import { Trade, TimeFocus, TradeType } from '../../types';
 import { isDateWithinFocus } from '../portfolioService';
+import { getDistributionAmount, getPositionKey, getTradeType } from './tradeEventService';
+import { buildAcbLedger } from './acbService';
 
 export interface GroupedTradeStats {
     netQty: number;
     avgCost: number;
     totalInvested: number;
+    // Cash paid out by the holding: dividends and return of capital.
+    distributions: number;
+    realizedGain: number;
     isExited: boolean;
 }
 
 export interface TradeGroup {
     ticker: string;
+    account?: string;
     trades: Trade[];
     stats: GroupedTradeStats;
 }
 
 /**
  * Calculates aggregate stats for a list of trades (usually for a single ticker).
+ * Average cost is the adjusted cost base per unit, so fees, return of capital and superficial losses are reflected.
  */
 export const calculateTradeStats = (trades: Trade[]): GroupedTradeStats => {
-    let bQty = 0, bCost = 0, sQty = 0;
+    const ledger = buildAcbLedger(trades[0]?.ticker || '', trades);
+    let invested = 0, acquiredQty = 0, distributions = 0;
     trades.forEach(t => {
-        const q = Math.abs(t.quantity || 0);
-        const val = Math.abs(t.total || 0);
-        if (t.type === 'BUY') { 
-            bQty += q; 
-            bCost += val; 
-        } else { 
-            sQty += q; 
+        const type = getTradeType(t);
+        if (type === 'BUY' || type === 'DRIP' || type === 'TRANSFER_IN') {
+            invested += Math.abs(t.total || 0);
+            acquiredQty += Math.abs(t.quantity || 0);
         }
+        distributions += getDistributionAmount(t);
     });
-    const net = bQty - sQty;
+    const isExited = Math.abs(ledger.quantity) < 0.000001;
     return {
-        netQty: net,
-        avgCost: bQty > 0 ? bCost / bQty : 0,
-        totalInvested: bCost,
-        isExited: Math.abs(net) < 0.000001
+        netQty: ledger.quantity,
+        // Once exited there is no cost left to average, so show what the units cost on the way in.
+        avgCost: !isExited && ledger.quantity > 0 ? ledger.acbPerShare : (acquiredQty > 0 ? invested / acquiredQty : 0),
+        totalInvested: invested,
+        distributions,
+        realizedGain: ledger.dispositions.reduce((sum, d) => sum + d.gain, 0),
+        isExited
     };
 };
 
@@ -45,7 +54,7 @@ export const calculateTradeStats = (trades: Trade[]): GroupedTradeStats => {
 export const filterAndProcessTrades = (
     trades: Trade[],
     searchTerm: string,
-    typeFilter: 'ALL' | 'BUY' | 'SELL',
+    typeFilter: 'ALL' | TradeType,
     timeFilter: TimeFocus,
     viewMode: 'BY_ASSET' | 'RECENT_HISTORY',
     sortDir: 'ASC' | 'DESC',
@@ -55,7 +64,7 @@ export const filterAndProcessTrades = (
     
     // 1. Filtering
     let filtered = trades.filter(t => {
-        const matchesSearch = t.ticker.toLowerCase().includes(term) || t.date.includes(term);
+        const matchesSearch = t.ticker.toLowerCase().includes(term) || t.date.includes(term) || (t.account || '').toLowerCase().includes(term);
         const matchesType = typeFilter === 'ALL' || t.type === typeFilter;
         const matchesTime = isDateWithinFocus(t.date, timeFilter);
         return matchesSearch && matchesType && matchesTime;
@@ -66,23 +75,24 @@ export const filterAndProcessTrades = (
 
     if (viewMode === 'RECENT_HISTORY') return filtered;
 
-    // 3. Grouping
+    // 3. Grouping, one group per (account, ticker) position
     const groups: Record<string, Trade[]> = {};
     filtered.forEach(t => {
-        const ticker = (t.ticker || 'UNKNOWN').toUpperCase();
-        if (!groups[ticker]) groups[ticker] = [];
-        groups[ticker].push(t);
+        const key = getPositionKey(t.ticker || 'UNKNOWN', t.account);
+        if (!groups[key]) groups[key] = [];
+        groups[key].push(t);
     });
 
-    return Object.entries(groups)
-        .map(([ticker, tickerTrades]) => ({ 
-            ticker, 
-            trades: tickerTrades, 
-            stats: calculateTradeStats(tickerTrades) 
+    return Object.values(groups)
+        .map(positionTrades => ({ 
+            ticker: (positionTrades[0].ticker || 'UNKNOWN').toUpperCase(), 
+            account: positionTrades[0].account?.trim() || undefined,
+            trades: positionTrades, 
+            stats: calculateTradeStats(positionTrades) 
         }))
         .filter(group => !hideExited || !group.stats.isExited)
         .sort((a, b) => {
             if (a.stats.isExited !== b.stats.isExited) return a.stats.isExited ? 1 : -1;
-            return a.ticker.localeCompare(b.ticker);
+            return a.ticker.localeCompare(b.ticker) || (a.account || '').localeCompare(b.account || '');
         });
 };
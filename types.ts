@@ -22,19 +22,31 @@ export interface Investment {
   marketValue?: number;
 }
 
+// DIVIDEND and ROC carry the cash amount in `total`; SPLIT carries the signed share delta in `quantity`.
+export type TradeType = 'BUY' | 'SELL' | 'DIVIDEND' | 'DRIP' | 'SPLIT' | 'ROC' | 'TRANSFER_IN' | 'TRANSFER_OUT';
+
 export interface Trade {
   id: string;
   rowIndex?: number;
   date: string;
   ticker: string;
-  type: 'BUY' | 'SELL';
+  type: TradeType;
   quantity: number;
   price: number;
   total: number;
   fee?: number;
   marketPrice?: number;
+  settlementDate?: string;
+  // Settlement currency when not CAD.
+  currency?: string;
+  // Tax lot a sell draws from first (specific identification); see lotService for the id format.
+  lotId?: string;
+  // Account holding the position, e.g. TFSA. Trades without one are pooled per ticker.
+  account?: string;
 }
 
+export type LotMethod = 'FIFO' | 'LIFO';
+
 export interface Subscription {
   id: string;
   rowIndex?: number;
@@ -59,6 +71,7 @@ export interface BankAccount {
   purpose: string;
 }
 
+// One row of an amortization schedule read from the debt tab. `name` ties the row to its loan.
 export interface DebtEntry {
   id: string;
   rowIndex?: number;
@@ -67,6 +80,42 @@ export interface DebtEntry {
   interestRate: number;
   monthlyPayment: number;
   date?: string;
+  startingBalance?: number;
+  interestPaid?: number;
+  principalPaid?: number;
+}
+
+export type PaymentFrequency = 'Monthly' | 'Semi-Monthly' | 'Bi-Weekly' | 'Weekly';
+
+export type LiabilityKind = 'Mortgage' | 'Auto Loan' | 'Line of Credit' | 'Credit Card' | 'Student Loan' | 'Personal Loan' | 'Other';
+
+/**
+ * A named debt. Its balance comes from a schedule in the debt tab (matched by `scheduleName`),
+ * a manually entered `currentBalance`, or amortizing `principal` from `startDate`.
+ */
+export interface Liability {
+  id: string;
+  name: string;
+  kind: LiabilityKind;
+  principal: number;
+  interestRate: number;
+  termMonths?: number;
+  paymentAmount: number;
+  paymentFrequency: PaymentFrequency;
+  startDate: string;
+  currentBalance?: number;
+  balanceAsOf?: string;
+  scheduleName?: string;
+  active: boolean;
+}
+
+export type PayoffStrategy = 'AVALANCHE' | 'SNOWBALL' | 'CUSTOM';
+
+// The payoff plan the user has chosen. `customOrder` lists liability ids, first paid first.
+export interface DebtPayoffSettings {
+  strategy: PayoffStrategy;
+  extraPayment: number;
+  customOrder: string[];
 }
 
 export interface TaxRecord {
@@ -78,6 +127,16 @@ export interface TaxRecord {
   date: string;
   value: number;
   description: string;
+  // Set on LIMIT rows generated from the room profile; these are never stored or synced.
+  computed?: boolean;
+}
+
+// Inputs for computed TFSA, RRSP and FHSA room. Without a birth year nothing is computed.
+export interface TaxRoomProfile {
+  birthYear: number | null;
+  // First year resident in Canada; null means since birth.
+  residentSince: number | null;
+  fhsaOpenedYear: number | null;
 }
 
 export interface NetWorthEntry {
@@ -133,6 +192,49 @@ export interface LedgerData {
     categories: LedgerCategory[];
 }
 
+export interface LedgerTransaction {
+    id: string;
+    fitId?: string;
+    date: string;
+    payee: string;
+    amount: number;
+    memo?: string;
+    account?: string;
+    category: string;
+    subCategory: string;
+    type: 'INCOME' | 'EXPENSE';
+    source: 'OFX' | 'MANUAL';
+    importedAt: string;
+}
+
+export interface CategorizationRule {
+    id: string;
+    name: string;
+    priority: number;
+    enabled: boolean;
+    payeeContains?: string;
+    payeePattern?: string;
+    minAmount?: number;
+    maxAmount?: number;
+    account?: string;
+    category: string;
+    subCategory: string;
+}
+
+export type BudgetRollover = 'RESET' | 'CARRY_SURPLUS' | 'CARRY_DEFICIT';
+
+// Monthly target for an expense category, or for one line within it when subCategory is set.
+export interface BudgetTarget {
+    id: string;
+    category: string;
+    subCategory?: string;
+    amount: number;
+    rollover: BudgetRollover;
+}
+
+// Targets keyed by ledger year, so each year keeps its own version.
+export type BudgetBook = Record<string, BudgetTarget[]>;
+
 /**
  * TEMPORAL ENGINE TYPES
  */
@@ -143,6 +245,8 @@ export interface NormalizedTransaction {
     subCategory: string;
     amount: number;
     type: 'INCOME' | 'EXPENSE';
+    payee?: string;
+    account?: string;
 }
 
 export interface DimensionNode {
@@ -157,6 +261,21 @@ export interface CustomDateRange {
     end: string;
 }
 
+export type MappableTab = 'assets' | 'investments' | 'trades' | 'subscriptions' | 'accounts' | 'logData' | 'taxRecords';
+
+// Field name -> exact header text of the column the user pinned for it.
+export type ColumnMapping = Record<string, string>;
+
+export type DateOrder = 'MDY' | 'DMY' | 'YMD';
+
+// Number and date conventions used by the spreadsheet's cells, e.g. `1.234,56` and `DD/MM/YYYY`.
+export interface SheetLocale {
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: ',' | '.' | ' ' | "'" | '';
+  dateOrder: DateOrder;
+  currencySymbols: string[];
+}
+
 export interface SheetConfig {
   sheetId: string;
   clientId: string;
@@ -171,7 +290,26 @@ export interface SheetConfig {
     debt: string;
     income: string;
     expenses: string;
+    taxRecords: string;
   };
+  columnMappings?: Partial<Record<MappableTab, ColumnMapping>>;
+  locale?: SheetLocale;
+}
+
+/**
+ * Per-tab diagnostics produced while parsing a sheet. Row and column numbers are 1-based, as shown in Sheets.
+ */
+export interface IngestionReport {
+  tab: string;
+  dataType: string;
+  generatedAt: string;
+  headerRow: number | null;
+  headerSource: 'pinned' | 'keyword' | 'fallback' | 'fixed' | 'ledger' | 'none';
+  fieldMap: { field: string; column: number | null; header: string; pinned?: boolean }[];
+  parsedRows: number;
+  skippedRows: { row: number; reason: string }[];
+  defaultedValues: { field: string; value: string; rows: number[] }[];
+  warnings: string[];
 }
 
 export interface UserProfile {
@@ -202,7 +340,52 @@ export enum TimeFocus {
   CUSTOM = 'CUSTOM'
 }
 
-export type AnalyticsSubView = 'FLOW' | 'PORTFOLIO';
+export type AnalyticsSubView = 'FLOW' | 'PORTFOLIO' | 'PROJECTION' | 'FORECAST';
+
+export interface BenchmarkComponent {
+  ticker: string;
+  // Fraction of the blend, 0..1; weights in a benchmark sum to 1.
+  weight: number;
+}
+
+export interface BenchmarkDefinition {
+  id: string;
+  name: string;
+  color: string;
+  components: BenchmarkComponent[];
+  rebalance: 'MONTHLY' | 'NONE';
+  isCustom?: boolean;
+}
+
+export type InformationTab = 'tax' | 'commitments' | 'accounts';
+
+// Where an insight points: the view plus the filter that reproduces its numbers.
+export interface InsightLink {
+  view: ViewState;
+  analyticsSubView?: AnalyticsSubView;
+  flowFocus?: { type: 'INCOME' | 'EXPENSE'; path: string[]; range: CustomDateRange };
+  informationTab?: InformationTab;
+  investmentContext?: string;
+}
+
+export type InsightSeverity = 'critical' | 'warning' | 'opportunity' | 'info';
+
+export interface Insight {
+  // Stable for the same finding, so a dismissal survives recomputation.
+  id: string;
+  rule: string;
+  title: string;
+  detail: string;
+  severity: InsightSeverity;
+  // Annual dollars at stake; ranks insights within a severity.
+  impact: number;
+  link: InsightLink;
+}
+
+export interface InsightState {
+  dismissed?: boolean;
+  snoozedUntil?: string;
+}
 
 export type ExchangeRates = Record<string, number>;
 
@@ -213,12 +396,26 @@ export interface TourStep {
   view: ViewState;
 }
 
+export interface DatedCashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface PeriodReturn {
+  // Both in percent; annualized is null for windows shorter than a year.
+  cumulative: number;
+  annualized: number | null;
+  days: number;
+}
+
 export interface AttributionResult {
   startValue: number;
   endValue: number;
   netContributions: number;
   marketGain: number;
   percentageReturn: number;
+  moneyWeighted?: PeriodReturn | null;
+  timeWeighted?: PeriodReturn | null;
 }
 
 export interface ArchiveMeta {